@@ -0,0 +1,247 @@
+// Website permissions
+// Sensitive permissions are granted per profile and origin. Websites that have
+// not been allowed or blocked yet get a prompt, which can remember the decision.
+// Private windows use the decisions of their profile, but only remember their own
+// decisions in memory, until the window closes.
+
+import { browser } from "@/index";
+import { debugPrint } from "@/modules/output";
+import {
+  getPermissionOrigin,
+  getCachedSitePermission,
+  getSitePermission,
+  setSitePermission
+} from "@/saving/site-permissions";
+import { BrowserWindow, dialog, WebContents } from "electron";
+import { SitePermission, SitePermissions, SitePermissionState } from "~/types/permissions";
+
+type PermissionRequestDetails = {
+  requestingUrl?: string;
+  mediaTypes?: ("video" | "audio")[];
+};
+
+const PERMISSION_DESCRIPTIONS: Record<SitePermission, string> = {
+  camera: "use your camera",
+  microphone: "use your microphone",
+  geolocation: "know your location",
+  notifications: "show notifications",
+  "clipboard-read": "see text and images copied to the clipboard",
+  "midi-sysex": "control and reprogram your MIDI devices",
+  "idle-detection": "know when you're actively using this device",
+  "window-management": "manage windows on all your displays"
+};
+
+/**
+ * Maps an Electron permission to the site permissions it needs
+ * @returns The site permissions, or null for permissions that are granted without asking
+ */
+function getSitePermissionsForRequest(permission: string, details: PermissionRequestDetails): SitePermission[] | null {
+  switch (permission) {
+    case "media": {
+      const mediaTypes = details.mediaTypes ?? [];
+      const sitePermissions: SitePermission[] = [];
+      if (mediaTypes.includes("video")) sitePermissions.push("camera");
+      if (mediaTypes.includes("audio")) sitePermissions.push("microphone");
+      // Requests for no specific device still need both
+      return sitePermissions.length > 0 ? sitePermissions : ["camera", "microphone"];
+    }
+    case "geolocation":
+      return ["geolocation"];
+    case "notifications":
+      return ["notifications"];
+    case "clipboard-read":
+      return ["clipboard-read"];
+    case "midiSysex":
+      return ["midi-sysex"];
+    case "idle-detection":
+      return ["idle-detection"];
+    case "window-management":
+      return ["window-management"];
+    default:
+      return null;
+  }
+}
+
+function getSitePermissionsForCheck(permission: string, mediaType?: string): SitePermission[] | null {
+  if (permission === "media") {
+    if (mediaType === "video") return ["camera"];
+    if (mediaType === "audio") return ["microphone"];
+  }
+  return getSitePermissionsForRequest(permission, {});
+}
+
+function getParentWindow(webContents: WebContents | null): BrowserWindow | null {
+  if (!webContents || !browser) return null;
+
+  const tab = browser.tabs.getTabByWebContents(webContents);
+  if (tab) return tab.getWindow().window;
+
+  return BrowserWindow.fromWebContents(webContents);
+}
+
+function formatPermissionList(permissions: SitePermission[]) {
+  const descriptions = permissions.map((permission) => PERMISSION_DESCRIPTIONS[permission]);
+  if (descriptions.length <= 1) return descriptions.join("");
+  return `${descriptions.slice(0, -1).join(", ")} and ${descriptions[descriptions.length - 1]}`;
+}
+
+// Websites that ask again while a prompt is open share its answer
+const pendingPrompts = new Map<string, Promise<boolean>>();
+
+// Decisions made in private windows, keyed by `${windowId}:${profileId}:${origin}`
+const privateDecisions = new Map<string, SitePermissions>();
+
+function getPrivateDecisionKey(privateWindowId: number, profileId: string, origin: string) {
+  return `${privateWindowId}:${profileId}:${origin}`;
+}
+
+function getPrivateDecision(
+  privateWindowId: number | null,
+  profileId: string,
+  origin: string,
+  permission: SitePermission
+): SitePermissionState | null {
+  if (privateWindowId === null) return null;
+  return privateDecisions.get(getPrivateDecisionKey(privateWindowId, profileId, origin))?.[permission] ?? null;
+}
+
+async function rememberDecision(
+  privateWindowId: number | null,
+  profileId: string,
+  origin: string,
+  permission: SitePermission,
+  state: SitePermissionState
+) {
+  if (privateWindowId === null) {
+    await setSitePermission(profileId, origin, permission, state);
+    return;
+  }
+
+  const key = getPrivateDecisionKey(privateWindowId, profileId, origin);
+  privateDecisions.set(key, { ...privateDecisions.get(key), [permission]: state });
+}
+
+/**
+ * Forgets the decisions made in a private window, once it is closed
+ */
+export function clearPrivateSitePermissions(privateWindowId: number) {
+  for (const key of privateDecisions.keys()) {
+    if (key.startsWith(`${privateWindowId}:`)) {
+      privateDecisions.delete(key);
+    }
+  }
+}
+
+async function promptForPermissions(
+  webContents: WebContents | null,
+  privateWindowId: number | null,
+  profileId: string,
+  origin: string,
+  permissions: SitePermission[]
+): Promise<boolean> {
+  const parentWindow = getParentWindow(webContents);
+  const options = {
+    message: `"${origin}" wants to ${formatPermissionList(permissions)}.`,
+    buttons: ["Block", "Allow"],
+    defaultId: 1,
+    cancelId: 0,
+    checkboxLabel: "Remember this decision",
+    checkboxChecked: true
+  };
+
+  const { response, checkboxChecked } = parentWindow
+    ? await dialog.showMessageBox(parentWindow, options)
+    : await dialog.showMessageBox(options);
+
+  const allowed = response === 1;
+  if (checkboxChecked) {
+    for (const permission of permissions) {
+      await rememberDecision(privateWindowId, profileId, origin, permission, allowed ? "allow" : "block");
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Decides whether a website gets the permissions it asked for
+ */
+async function requestSitePermissions(
+  webContents: WebContents | null,
+  privateWindowId: number | null,
+  profileId: string,
+  origin: string,
+  permissions: SitePermission[]
+): Promise<boolean> {
+  const states = await Promise.all(
+    permissions.map(
+      async (permission) =>
+        getPrivateDecision(privateWindowId, profileId, origin, permission) ??
+        (await getSitePermission(profileId, origin, permission))
+    )
+  );
+  if (states.includes("block")) return false;
+
+  const permissionsToAsk = permissions.filter((_, index) => states[index] === "ask");
+  if (permissionsToAsk.length === 0) return true;
+
+  const promptKey = `${privateWindowId ?? ""}:${profileId}:${origin}:${permissionsToAsk.join(",")}`;
+  let prompt = pendingPrompts.get(promptKey);
+  if (!prompt) {
+    prompt = promptForPermissions(webContents, privateWindowId, profileId, origin, permissionsToAsk).finally(() => {
+      pendingPrompts.delete(promptKey);
+    });
+    pendingPrompts.set(promptKey, prompt);
+  }
+  return await prompt;
+}
+
+/**
+ * Handles a permission request from a website
+ * @param privateWindowId The private window that owns the session, whose decisions are not saved
+ * @returns Whether the permission is granted, or null for requests that are not managed per site
+ */
+export async function handleSitePermissionRequest(
+  privateWindowId: number | null,
+  profileId: string,
+  webContents: WebContents | null,
+  permission: string,
+  details: PermissionRequestDetails
+): Promise<boolean | null> {
+  const sitePermissions = getSitePermissionsForRequest(permission, details);
+  if (!sitePermissions) return null;
+
+  // Internal pages and extensions are not managed per site
+  const origin = getPermissionOrigin(details.requestingUrl || webContents?.getURL() || "");
+  if (!origin) return null;
+
+  const granted = await requestSitePermissions(webContents, privateWindowId, profileId, origin, sitePermissions);
+  debugPrint("PERMISSIONS", `${granted ? "granted" : "denied"} ${sitePermissions.join(", ")} for ${origin}`);
+  return granted;
+}
+
+/**
+ * Handles a synchronous permission check from a website
+ * Only allowed permissions pass the check. Websites that have not been asked yet fail it,
+ * like in other browsers, and go on to request the permission, which prompts.
+ * @returns Whether the permission is granted, or null for checks that are not managed per site
+ */
+export function handleSitePermissionCheck(
+  privateWindowId: number | null,
+  profileId: string,
+  permission: string,
+  requestingOrigin: string,
+  mediaType?: string
+): boolean | null {
+  const sitePermissions = getSitePermissionsForCheck(permission, mediaType);
+  if (!sitePermissions) return null;
+
+  const origin = getPermissionOrigin(requestingOrigin);
+  if (!origin) return null;
+
+  return sitePermissions.every((sitePermission) => {
+    const state =
+      getPrivateDecision(privateWindowId, profileId, origin, sitePermission) ??
+      getCachedSitePermission(profileId, origin, sitePermission);
+    return state === "allow";
+  });
+}
@@ -1,15 +1,26 @@
+import {
+  clearPrivateSitePermissions,
+  handleSitePermissionCheck,
+  handleSitePermissionRequest
+} from "@/browser/permissions";
 import { setupInterceptRules } from "@/browser/utility/intercept-rules";
 import { registerFlowInternalProtocol } from "@/browser/utility/protocols/_protocols/flow-internal";
 import { registerPreloadScript, registerProtocolsWithSession } from "@/browser/utility/protocols/index";
+import { transformUserAgentHeader } from "@/browser/utility/user-agent";
+import { clearPrivateDownloads, registerDownloadsWithSession } from "@/modules/downloads";
 import { debugPrint } from "@/modules/output";
 import { sleep } from "@/modules/utils";
 import { setAlwaysOpenExternal, shouldAlwaysOpenExternal } from "@/saving/open-external";
+import { loadSitePermissions } from "@/saving/site-permissions";
 import { getProfilePath } from "@/sessions/profiles";
 import { app, dialog, OpenExternalPermissionRequest, session, Session } from "electron";
 
 const sessions: Map<string, Session> = new Map();
 
-function registerCallbacksWithSession(session: Session) {
+// Keyed by `${windowId}-${profileId}`
+const privateSessions: Map<string, Session> = new Map();
+
+function registerCallbacksWithSession(session: Session, profileId: string, privateWindowId: number | null) {
   session.setPermissionRequestHandler(async (webContents, permission, callback, details) => {
     debugPrint("PERMISSIONS", "permission request", webContents?.getURL() || "unknown-url", permission);
 
@@ -57,23 +68,62 @@ function registerCallbacksWithSession(session: Session) {
       return;
     }
 
-    callback(true);
+    // Permissions that are not managed per site are granted
+    const granted = await handleSitePermissionRequest(privateWindowId, profileId, webContents, permission, details);
+    callback(granted ?? true);
   });
-}
 
-function createSession(profileId: string) {
-  const profileSessionPath = getProfilePath(profileId);
-  const profileSession = session.fromPath(profileSessionPath);
+  session.setPermissionCheckHandler((_webContents, permission, requestingOrigin, details) => {
+    // Only the permissions that are not managed per site pass without a decision
+    const granted = handleSitePermissionCheck(
+      privateWindowId,
+      profileId,
+      permission,
+      requestingOrigin,
+      details.mediaType
+    );
+    return granted ?? true;
+  });
+
+  // Permission checks are synchronous, so the decisions have to be in memory beforehand
+  loadSitePermissions(profileId);
+}
 
+/**
+ * Sets up a session for a profile
+ * Private sessions keep their downloads and permission decisions in memory only.
+ * @param privateWindowId The private window that owns the session, if any
+ */
+function setupSession(profileSession: Session, profileId: string, privateWindowId: number | null = null) {
   registerProtocolsWithSession(profileSession);
-  registerCallbacksWithSession(profileSession);
+  registerCallbacksWithSession(profileSession, profileId, privateWindowId);
+  registerDownloadsWithSession(profileSession, profileId, privateWindowId);
 
   setupInterceptRules(profileSession);
   registerPreloadScript(profileSession);
+}
+
+function createSession(profileId: string) {
+  const profileSessionPath = getProfilePath(profileId);
+  const profileSession = session.fromPath(profileSessionPath);
+
+  setupSession(profileSession, profileId);
 
   return profileSession;
 }
 
+function createPrivateSession(windowId: number, profileId: string) {
+  // Partitions without the "persist:" prefix are only kept in memory
+  const privateSession = session.fromPartition(`private-${windowId}-${profileId}`);
+
+  setupSession(privateSession, profileId, windowId);
+
+  // Loaded profiles do this for their own session
+  privateSession.setUserAgent(transformUserAgentHeader(privateSession.getUserAgent(), null));
+
+  return privateSession;
+}
+
 export function getSessionWithoutCreating(profileId: string): Session | undefined {
   return sessions.get(profileId);
 }
@@ -87,6 +137,40 @@ export function getSession(profileId: string): Session {
   return sessions.get(profileId) as Session;
 }
 
+/**
+ * Gets the session of a profile in a private window
+ * Every private window has its own sessions, so they share nothing with other windows.
+ */
+export function getPrivateSession(windowId: number, profileId: string): Session {
+  const key = `${windowId}-${profileId}`;
+  if (!privateSessions.has(key)) {
+    privateSessions.set(key, createPrivateSession(windowId, profileId));
+  }
+
+  return privateSessions.get(key) as Session;
+}
+
+/**
+ * Wipes the sessions of a private window, once it is closed
+ */
+export async function clearPrivateSessions(windowId: number) {
+  clearPrivateDownloads(windowId);
+  clearPrivateSitePermissions(windowId);
+
+  const promises: Promise<void>[] = [];
+
+  for (const [key, privateSession] of privateSessions) {
+    if (!key.startsWith(`${windowId}-`)) continue;
+
+    privateSessions.delete(key);
+    promises.push(privateSession.clearStorageData());
+    promises.push(privateSession.clearCache());
+    promises.push(privateSession.clearAuthCache());
+  }
+
+  await Promise.all(promises);
+}
+
 export const defaultSessionReady = app.whenReady().then(async () => {
   const defaultSession = session.defaultSession;
 
@@ -0,0 +1,203 @@
+import { Tab } from "@/browser/tabs/tab";
+import { TabGroup } from "@/browser/tabs/tab-groups";
+import { TabbedBrowserWindow } from "@/browser/window";
+import { browser } from "@/index";
+import { setWindowSpace } from "@/ipc/session/spaces";
+import { generateID } from "@/modules/utils";
+import { getRestorableTabData } from "@/saving/tabs";
+import { getSpace } from "@/sessions/spaces";
+import { ClosedTabData, RecentlyClosedEntry } from "~/types/tabs";
+
+// The oldest closed tabs of a window are dropped once its stack grows past this
+const MAX_RECENTLY_CLOSED = 25;
+
+// Most recently closed first
+const recentlyClosedEntries: Map<number, RecentlyClosedEntry[]> = new Map();
+
+function fireOnRecentlyClosedChanged() {
+  // The menu lists the recently closed tabs of the focused window
+  browser?.updateMenu();
+}
+
+async function getClosedTabData(tab: Tab): Promise<ClosedTabData | null> {
+  if (tab.getWindow().type !== "normal") return null;
+
+  const tabData = await getRestorableTabData(tab);
+
+  // Empty tabs are not worth reopening
+  if (!tabData || !tabData.url || tabData.navHistory.length === 0) return null;
+
+  return {
+    uniqueId: tabData.uniqueId,
+    profileId: tabData.profileId,
+    spaceId: tabData.spaceId,
+    title: tabData.title,
+    url: tabData.url,
+    faviconURL: tabData.faviconURL,
+    position: tabData.position,
+    pinned: tabData.pinned,
+    pinnedUrl: tabData.pinnedUrl,
+    navHistory: tabData.navHistory,
+    navHistoryIndex: tabData.navHistoryIndex
+  };
+}
+
+function addRecentlyClosedEntry(windowId: number, entry: RecentlyClosedEntry) {
+  const entries = recentlyClosedEntries.get(windowId) ?? [];
+  recentlyClosedEntries.set(windowId, [entry, ...entries].slice(0, MAX_RECENTLY_CLOSED));
+  fireOnRecentlyClosedChanged();
+}
+
+/**
+ * Closes a tab, keeping it in the recently closed tabs of its window
+ * @returns True if the tab was closed
+ */
+export async function closeTab(tab: Tab) {
+  if (tab.isDestroyed) return false;
+
+  const windowId = tab.getWindow().id;
+  const closedTab = await getClosedTabData(tab);
+
+  // The tab might have been closed while its data was being read
+  if (tab.isDestroyed) return false;
+  tab.destroy();
+
+  if (closedTab) {
+    addRecentlyClosedEntry(windowId, {
+      id: generateID(),
+      closedAt: Math.floor(Date.now() / 1000),
+      tabs: [closedTab]
+    });
+  }
+  return true;
+}
+
+/**
+ * Closes all tabs of a tab group, keeping the group in the recently closed tabs of its window
+ * @returns True if the tab group was closed
+ */
+export async function closeTabGroup(tabGroup: TabGroup) {
+  if (tabGroup.isDestroyed) return false;
+
+  const windowId = tabGroup.windowId;
+  const tabs = tabGroup.tabs;
+
+  // Read everything before closing the tabs, as closing them destroys the group
+  const closedTabGroup: NonNullable<RecentlyClosedEntry["tabGroup"]> = { mode: tabGroup.mode };
+  if (tabGroup.mode === "glance") {
+    closedTabGroup.glanceFrontTabUniqueId = tabGroup.frontTab?.uniqueId;
+  } else if (tabGroup.mode === "split") {
+    closedTabGroup.splitOrientation = tabGroup.orientation;
+    closedTabGroup.splitSizes = tabGroup.sizes;
+  }
+
+  const closedTabs = (await Promise.all(tabs.map((tab) => getClosedTabData(tab)))).filter(
+    (closedTab) => closedTab !== null
+  );
+
+  for (const tab of tabs) {
+    if (!tab.isDestroyed) {
+      tab.destroy();
+    }
+  }
+
+  if (closedTabs.length > 0) {
+    addRecentlyClosedEntry(windowId, {
+      id: generateID(),
+      closedAt: Math.floor(Date.now() / 1000),
+      tabs: closedTabs,
+      // A group of one tab is reopened as a normal tab
+      tabGroup: closedTabs.length >= 2 ? closedTabGroup : undefined
+    });
+  }
+  return true;
+}
+
+/**
+ * Gets the recently closed tabs of a window, most recently closed first
+ */
+export function getRecentlyClosed(windowId: number): RecentlyClosedEntry[] {
+  return [...(recentlyClosedEntries.get(windowId) ?? [])];
+}
+
+/**
+ * Reopens recently closed tabs into their original space and position
+ * If the space no longer exists, the tabs are reopened into the last used space of their profile.
+ * @param entryId The entry to reopen, or the most recently closed one if not provided
+ * @returns True if the tabs were reopened
+ */
+export async function reopenClosedTab(window: TabbedBrowserWindow, entryId?: string) {
+  if (!browser) return false;
+
+  const entries = recentlyClosedEntries.get(window.id) ?? [];
+  const entry = entryId ? entries.find((entry) => entry.id === entryId) : entries[0];
+  if (!entry) return false;
+
+  recentlyClosedEntries.set(
+    window.id,
+    entries.filter((otherEntry) => otherEntry !== entry)
+  );
+  fireOnRecentlyClosedChanged();
+
+  const tabs: Tab[] = [];
+  for (const closedTab of entry.tabs) {
+    const space = await getSpace(closedTab.spaceId);
+    const spaceId = space?.profileId === closedTab.profileId ? space.id : undefined;
+
+    const tab = await browser.tabs.createTab(window.id, closedTab.profileId, spaceId, undefined, {
+      uniqueId: closedTab.uniqueId,
+      position: closedTab.position,
+      pinned: closedTab.pinned,
+      pinnedUrl: closedTab.pinnedUrl,
+      title: closedTab.title,
+      faviconURL: closedTab.faviconURL || undefined,
+      navHistory: closedTab.navHistory,
+      navHistoryIndex: closedTab.navHistoryIndex
+    });
+    tabs.push(tab);
+  }
+
+  const firstTab = tabs[0];
+  if (!firstTab) return false;
+
+  let tabGroup: TabGroup | null = null;
+  const tabGroupData = entry.tabGroup;
+
+  // The tabs of a group must be in the same space
+  const sameSpace = tabs.every((tab) => tab.spaceId === firstTab.spaceId);
+  if (tabGroupData && tabs.length >= 2 && sameSpace) {
+    if (tabGroupData.mode !== "glance" || tabs.length === 2) {
+      // Tabs of a group share their position in the sidebar
+      for (const tab of tabs) {
+        tab.updateStateProperty("position", firstTab.position);
+      }
+
+      const tabIds = tabs.map((tab) => tab.id) as [number, ...number[]];
+      tabGroup = browser.tabs.createTabGroup(tabGroupData.mode, tabIds);
+
+      if (tabGroup.mode === "glance") {
+        const frontTab = tabs.find((tab) => tab.uniqueId === tabGroupData.glanceFrontTabUniqueId) ?? tabs[0];
+        tabGroup.setFrontTab(frontTab.id);
+      } else if (tabGroup.mode === "split") {
+        if (tabGroupData.splitOrientation) {
+          tabGroup.setOrientation(tabGroupData.splitOrientation);
+        }
+        if (tabGroupData.splitSizes) {
+          tabGroup.setSizes(tabGroupData.splitSizes);
+        }
+      }
+    }
+  }
+
+  setWindowSpace(window, firstTab.spaceId);
+  browser.tabs.setActiveTab(tabGroup ?? firstTab);
+  return true;
+}
+
+/**
+ * Forgets the recently closed tabs of a window
+ */
+export function clearRecentlyClosed(windowId: number) {
+  if (!recentlyClosedEntries.delete(windowId)) return;
+  fireOnRecentlyClosedChanged();
+}
@@ -1,7 +1,10 @@
 import { Browser } from "@/browser/browser";
 import { Tab } from "@/browser/tabs/tab";
 import { TabbedBrowserWindow } from "@/browser/window";
+import { createSearchUrl, getDefaultSearchEngine } from "@/modules/search-engines";
+import { snoozeTab } from "@/modules/snooze";
 import contextMenu from "electron-context-menu";
+import { SearchEngine } from "~/types/search-engines";
 
 // Define types for navigation history
 interface NavigationHistory {
@@ -45,7 +48,7 @@ export function createTabContextMenu(
       const canGoBack = navigationHistory.canGoBack();
       const canGoForward = navigationHistory.canGoForward();
       const lookUpSelection = defaultActions.lookUpSelection({});
-      const searchEngine = "Google";
+      const searchEngine = getDefaultSearchEngine();
 
       // Helper function to create a new tab
       const createNewTab = async (url: string, window?: TabbedBrowserWindow) => {
@@ -69,6 +72,7 @@ export function createTabContextMenu(
       );
       const devItems = createDevItems(defaultActions as MenuActions);
       const imageItems = createImageItems(parameters, createNewTab, defaultActions as MenuActions);
+      const snoozeItems = createSnoozeItems(tab);
 
       // Assemble sections in correct order
       const sections: Electron.MenuItemConstructorOptions[][] = [];
@@ -91,6 +95,10 @@ export function createTabContextMenu(
       } else {
         noSpecialActions = true;
         sections.push(navigationItems);
+        // Snoozed tabs are saved, so private tabs cannot be snoozed
+        if (!tab.getWindow().isPrivate) {
+          sections.push(snoozeItems);
+        }
       }
 
       if (parameters.selectionText.trim() && !parameters.isEditable) {
@@ -179,6 +187,34 @@ function createNavigationItems(
   ];
 }
 
+function createSnoozeItems(tab: Tab): Electron.MenuItemConstructorOptions[] {
+  return [
+    {
+      label: "Snooze Tab",
+      submenu: [
+        {
+          label: "Later Today",
+          click: () => {
+            snoozeTab(tab, "later_today");
+          }
+        },
+        {
+          label: "Tomorrow",
+          click: () => {
+            snoozeTab(tab, "tomorrow");
+          }
+        },
+        {
+          label: "Next Week",
+          click: () => {
+            snoozeTab(tab, "next_week");
+          }
+        }
+      ]
+    }
+  ];
+}
+
 function createExtensionItems(tab: Tab, parameters: Electron.ContextMenuParams): Electron.MenuItemConstructorOptions[] {
   const extensions = tab.loadedProfile.extensions;
   // @ts-expect-error: ts error, but still works
@@ -228,16 +264,14 @@ function createSelectionItems(
   defaultActions: MenuActions,
   parameters: Electron.ContextMenuParams,
   createNewTab: (url: string) => Promise<void>,
-  searchEngine: string
+  searchEngine: SearchEngine
 ): Electron.MenuItemConstructorOptions[] {
   return [
     defaultActions.copy({}),
     {
-      label: `Search ${searchEngine} for "${parameters.selectionText}"`,
+      label: `Search ${searchEngine.name} for "${parameters.selectionText}"`,
       click: () => {
-        const searchURL = new URL("https://www.google.com/search");
-        searchURL.searchParams.set("q", parameters.selectionText);
-        createNewTab(searchURL.toString());
+        createNewTab(createSearchUrl(searchEngine, parameters.selectionText));
       }
     }
   ];
@@ -1,4 +1,6 @@
+import { Tab } from "@/browser/tabs/tab";
 import { BaseTabGroup } from "@/browser/tabs/tab-groups";
+import { windowTabsChanged } from "@/ipc/browser/tabs";
 
 export class GlanceTabGroup extends BaseTabGroup {
   public frontTabId: number = -1;
@@ -10,12 +12,85 @@ export class GlanceTabGroup extends BaseTabGroup {
     this.on("tab-removed", () => {
       if (this.tabIds.length !== 2) {
         // A glance tab group must have 2 tabs
+        const remainingTabs = this.tabs;
+        const wasActive = this.tabManager.getActiveTab(this.windowId, this.spaceId) === this;
+
         this.destroy();
+
+        // The remaining tab takes over the whole page
+        for (const tab of remainingTabs) {
+          if (wasActive) {
+            this.tabManager.setActiveTab(tab);
+          }
+          tab.updateLayout();
+        }
       }
     });
   }
 
   public setFrontTab(tabId: number) {
     this.frontTabId = tabId;
+
+    if (this.isDestroyed) return;
+    for (const tab of this.tabs) {
+      tab.updateLayout();
+    }
+    windowTabsChanged(this.windowId);
+    this.saveTabGroupToStorage();
+  }
+
+  /**
+   * The tab shown over the page
+   */
+  public get frontTab(): Tab | undefined {
+    return this.tabs.find((tab) => tab.id === this.frontTabId);
+  }
+
+  /**
+   * The page the glance was opened from
+   */
+  public get backTab(): Tab | undefined {
+    return this.tabs.find((tab) => tab.id !== this.frontTabId);
+  }
+
+  /**
+   * Closes the tab in front, going back to the page the glance was opened from
+   */
+  public closeFrontTab() {
+    this.errorIfDestroyed();
+
+    const frontTab = this.frontTab;
+    if (!frontTab) return false;
+
+    frontTab.destroy();
+    return true;
+  }
+
+  /**
+   * Turns the tab in front into a normal tab, and makes it the active tab
+   */
+  public expandFrontTab() {
+    this.errorIfDestroyed();
+
+    const frontTab = this.frontTab;
+    if (!frontTab) return false;
+
+    this.destroy();
+    this.tabManager.setActiveTab(frontTab);
+    return true;
+  }
+
+  /**
+   * Shows the tab in front next to the page the glance was opened from, in a split view
+   */
+  public splitFrontTab() {
+    this.errorIfDestroyed();
+
+    const { frontTab, backTab, windowId, spaceId } = this;
+    if (!frontTab || !backTab) return false;
+
+    this.destroy();
+    this.tabManager.setActiveTab(backTab);
+    return this.tabManager.splitTab(frontTab.id, windowId, spaceId, "right") !== null;
   }
 }
@@ -4,6 +4,8 @@ import { SplitTabGroup } from "@/browser/tabs/tab-groups/split";
 import { TabManager } from "@/browser/tabs/tab-manager";
 import { TypedEventEmitter } from "@/modules/typed-event-emitter";
 import { Browser } from "@/browser/browser";
+import { generateID } from "@/modules/utils";
+import { persistTabGroupToStorage, removeTabGroupFromStorage } from "@/saving/tabs";
 
 // Interfaces and Types
 export type TabGroupEvents = {
@@ -27,6 +29,7 @@ export type TabGroup = GlanceTabGroup | SplitTabGroup;
 
 export class BaseTabGroup extends TypedEventEmitter<TabGroupEvents> {
   public readonly id: number;
+  public readonly uniqueId: string = generateID();
   public isDestroyed: boolean = false;
 
   public windowId: number;
@@ -62,6 +65,21 @@ export class BaseTabGroup extends TypedEventEmitter<TabGroupEvents> {
         }
       }
     });
+
+    // Keep the saved tab group up to date
+    // The first save is left to the tab manager, as the fields of subclasses are not set yet here
+    this.on("tab-added", () => this.saveTabGroupToStorage());
+    this.on("tab-removed", () => this.saveTabGroupToStorage());
+    this.on("window-changed", () => this.saveTabGroupToStorage());
+  }
+
+  /**
+   * Saves the tab group to storage
+   */
+  public async saveTabGroupToStorage() {
+    if (this.isDestroyed) return;
+    // @ts-expect-error: the base class won't be used directly anyways
+    return persistTabGroupToStorage(this);
   }
 
   public setSpace(spaceId: string) {
@@ -227,6 +245,9 @@ export class BaseTabGroup extends TypedEventEmitter<TabGroupEvents> {
 
     this.isDestroyed = true;
     this.emit("destroy");
+
+    // @ts-expect-error: the base class won't be used directly anyways
+    removeTabGroupFromStorage(this);
     this.destroyEmitter();
   }
 }
@@ -1,7 +1,168 @@
 import { BaseTabGroup } from "@/browser/tabs/tab-groups";
+import { windowTabsChanged } from "@/ipc/browser/tabs";
+import { SplitOrientation } from "~/types/tabs";
+
+// The smallest share of the page a tab can be resized to
+const MIN_SPLIT_SIZE = 0.15;
+
+/**
+ * The area of the page a tab takes, as fractions of the page bounds
+ */
+export type TabSplitConfig = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Scales sizes to fill the page, without any pane below the minimum size
+ * Panes below the minimum are set to it, and the rest of the page is shared by the other panes,
+ * which can push more panes below the minimum, so this repeats until none are.
+ */
+function clampSizes(sizes: number[]) {
+  // There is not always room for every pane to get the minimum size
+  const minSize = Math.min(MIN_SPLIT_SIZE, 1 / sizes.length);
+  const clampedIndexes = new Set<number>();
+
+  let result = sizes;
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    const freeTotal = sizes.reduce((sum, size, index) => (clampedIndexes.has(index) ? sum : sum + size), 0);
+    const freeSpace = 1 - clampedIndexes.size * minSize;
+
+    result = sizes.map((size, index) => (clampedIndexes.has(index) ? minSize : (size / freeTotal) * freeSpace));
+    result.forEach((size, index) => {
+      if (!clampedIndexes.has(index) && size < minSize) {
+        clampedIndexes.add(index);
+        changed = true;
+      }
+    });
+  }
+  return result;
+}
 
 export class SplitTabGroup extends BaseTabGroup {
   public mode: "split" = "split" as const;
+  public orientation: SplitOrientation = "horizontal";
+
+  // The share of the page each tab takes, in the order of the tabs
+  public sizes: number[] = [];
+
+  constructor(...args: ConstructorParameters<typeof BaseTabGroup>) {
+    super(...args);
+
+    // The initial tabs were added before these listeners existed
+    this.resetSizes();
+
+    this.on("tab-added", () => {
+      this.resetSizes();
+      this.updateLayout();
+    });
+
+    this.on("tab-removed", () => {
+      if (this.tabIds.length < 2) {
+        // A split tab group must have at least 2 tabs
+        const remainingTabs = this.tabs;
+        const wasActive = this.tabManager.getActiveTab(this.windowId, this.spaceId) === this;
+
+        this.destroy();
+
+        // The remaining tab takes over the whole page
+        for (const tab of remainingTabs) {
+          if (wasActive) {
+            this.tabManager.setActiveTab(tab);
+          }
+          tab.updateLayout();
+        }
+        return;
+      }
+
+      this.resetSizes();
+      this.updateLayout();
+    });
+  }
+
+  private resetSizes() {
+    const count = this.tabIds.length;
+    this.sizes = this.tabIds.map(() => 1 / count);
+  }
+
+  /**
+   * Updates the bounds of the tabs, and the dividers shown between them
+   * @param notify Whether to update the dividers, which follow the pointer themselves while they are dragged
+   */
+  private updateLayout(notify: boolean = true) {
+    for (const tab of this.tabs) {
+      tab.updateLayout();
+    }
+    if (notify) {
+      windowTabsChanged(this.windowId);
+    }
+  }
+
+  public setOrientation(orientation: SplitOrientation) {
+    this.errorIfDestroyed();
+
+    this.orientation = orientation;
+    this.updateLayout();
+    this.saveTabGroupToStorage();
+  }
+
+  /**
+   * Moves a tab of the group to another pane
+   * @param index The index of the pane, where 0 is the left or top one
+   */
+  public setTabIndex(tabId: number, index: number) {
+    this.errorIfDestroyed();
+
+    if (!this.hasTab(tabId)) return false;
+
+    const tabIds = this.tabIds.filter((id) => id !== tabId);
+    tabIds.splice(Math.max(0, Math.min(index, tabIds.length)), 0, tabId);
+    this.tabIds = tabIds;
+
+    this.updateLayout();
+    this.saveTabGroupToStorage();
+    return true;
+  }
+
+  /**
+   * Resizes the panes of the group
+   * Sizes are scaled to fill the page, and panes cannot be made smaller than the minimum size.
+   * @param persist Whether to save the sizes, which is skipped while a divider is still being dragged
+   * @returns False if there is not one size for every tab
+   */
+  public setSizes(sizes: number[], persist: boolean = true) {
+    this.errorIfDestroyed();
+
+    if (sizes.length !== this.tabIds.length) return false;
+    if (sizes.some((size) => !Number.isFinite(size) || size <= 0)) return false;
+
+    this.sizes = clampSizes(sizes);
+    this.updateLayout(persist);
+    if (persist) {
+      this.saveTabGroupToStorage();
+    }
+    return true;
+  }
+
+  /**
+   * Gets the area of the page a tab takes
+   * @returns The area, or null if the tab is not in this group
+   */
+  public getTabSplitConfig(tabId: number): TabSplitConfig | null {
+    const index = this.tabIds.indexOf(tabId);
+    if (index === -1) return null;
+
+    const offset = this.sizes.slice(0, index).reduce((sum, size) => sum + size, 0);
+    const size = this.sizes[index];
 
-  // TODO: Implement split tab group layout
+    if (this.orientation === "horizontal") {
+      return { x: offset, y: 0, width: size, height: 1 };
+    }
+    return { x: 0, y: offset, width: 1, height: size };
+  }
 }
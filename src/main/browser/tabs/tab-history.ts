@@ -0,0 +1,128 @@
+import { Tab } from "@/browser/tabs/tab";
+import { isRecordableURL, recordVisit, updateHistoryTitle } from "@/modules/history";
+import { NavigationEntry } from "electron";
+import { HistoryTransition } from "~/types/history";
+
+type NavigationSnapshot = {
+  url: string;
+  index: number;
+  entries: NavigationEntry[];
+};
+
+/**
+ * Records the committed navigations of a tab into the browsing history
+ */
+export class TabHistoryRecorder {
+  private readonly tab: Tab;
+
+  // Set by callers that know how the next navigation was started (e.g. the omnibox)
+  private nextTransition: HistoryTransition | null = null;
+  private ignoreNext: boolean = false;
+
+  // State of the navigation history when the last main frame navigation started
+  private snapshot: NavigationSnapshot | null = null;
+  private lastRecordedURL: string | null = null;
+
+  constructor(tab: Tab) {
+    this.tab = tab;
+
+    const webContents = tab.webContents;
+
+    webContents.on("did-start-navigation", (details) => {
+      if (!details.isMainFrame || details.isSameDocument) return;
+
+      const navigationHistory = webContents.navigationHistory;
+      this.snapshot = {
+        url: webContents.getURL(),
+        index: navigationHistory.getActiveIndex(),
+        entries: navigationHistory.getAllEntries()
+      };
+    });
+
+    webContents.on("did-navigate", (_event, url) => {
+      this.onNavigationCommitted(url, false);
+    });
+
+    webContents.on("did-navigate-in-page", (_event, url, isMainFrame) => {
+      if (!isMainFrame) return;
+      this.onNavigationCommitted(url, true);
+    });
+
+    webContents.on("page-title-updated", (_event, title) => {
+      const url = webContents.getURL();
+      if (url !== this.lastRecordedURL || tab.getWindow().isPrivate) return;
+      updateHistoryTitle(tab.profileId, url, title);
+    });
+  }
+
+  /**
+   * Sets the transition of the next committed navigation
+   */
+  public setNextTransition(transition: HistoryTransition) {
+    this.nextTransition = transition;
+  }
+
+  /**
+   * Skips recording the next committed navigation (e.g. when restoring a tab)
+   */
+  public ignoreNextNavigation() {
+    this.ignoreNext = true;
+  }
+
+  private getTransition(url: string, isInPage: boolean): HistoryTransition {
+    const explicitTransition = this.nextTransition;
+    if (explicitTransition) {
+      return explicitTransition;
+    }
+
+    const snapshot = this.snapshot;
+    if (isInPage || !snapshot) {
+      return "link";
+    }
+
+    const navigationHistory = this.tab.webContents.navigationHistory;
+    const index = navigationHistory.getActiveIndex();
+
+    // Moved to an entry that already existed at the same position
+    const previousEntry = snapshot.entries[index];
+    const reusedEntry =
+      previousEntry && previousEntry.url === url && navigationHistory.length() === snapshot.entries.length;
+    if (reusedEntry) {
+      return index === snapshot.index ? "reload" : "back_forward";
+    }
+
+    return "link";
+  }
+
+  private onNavigationCommitted(url: string, isInPage: boolean) {
+    const tab = this.tab;
+
+    const ignored = this.ignoreNext;
+    const transition = this.getTransition(url, isInPage);
+
+    this.ignoreNext = false;
+    this.nextTransition = null;
+    this.snapshot = null;
+
+    if (ignored || tab.isDestroyed) return;
+
+    // Private windows leave no browsing history
+    if (tab.getWindow().isPrivate) return;
+    if (!isRecordableURL(url)) return;
+
+    // In-page navigations that do not change the URL (e.g. replaceState) are not visits
+    if (isInPage && url === this.lastRecordedURL) return;
+
+    // Pages without a title report their URL as the title
+    const title = tab.webContents.getTitle();
+
+    this.lastRecordedURL = url;
+    recordVisit({
+      profileId: tab.profileId,
+      spaceId: tab.spaceId,
+      url,
+      title: title !== url ? title : undefined,
+      transition
+    });
+  }
+}
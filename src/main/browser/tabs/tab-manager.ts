@@ -1,4 +1,5 @@
 import { Browser } from "@/browser/browser";
+import { getPrivateSession } from "@/browser/sessions";
 import { Tab, TabCreationOptions } from "@/browser/tabs/tab";
 import { BaseTabGroup, TabGroup } from "@/browser/tabs/tab-groups";
 import { GlanceTabGroup } from "@/browser/tabs/tab-groups/glance";
@@ -7,9 +8,10 @@ import { windowTabsChanged } from "@/ipc/browser/tabs";
 import { setWindowSpace } from "@/ipc/session/spaces";
 import { TypedEventEmitter } from "@/modules/typed-event-emitter";
 import { shouldArchiveTab, shouldSleepTab } from "@/saving/tabs";
+import { archiveTab } from "@/saving/archive";
 import { getLastUsedSpace, getLastUsedSpaceFromProfile } from "@/sessions/spaces";
 import { WebContents } from "electron";
-import { TabGroupMode } from "~/types/tabs";
+import { SplitSide, TabGroupMode } from "~/types/tabs";
 
 export const NEW_TAB_URL = "flow://new-tab";
 const ARCHIVE_CHECK_INTERVAL_MS = 10 * 1000;
@@ -80,8 +82,9 @@ export class TabManager extends TypedEventEmitter<TabManagerEvents> {
     // Archive tabs over their lifetime
     const interval = setInterval(() => {
       for (const tab of this.tabs.values()) {
-        if (!tab.visible && shouldArchiveTab(tab.lastActiveAt)) {
-          tab.destroy();
+        if (!tab.visible && !tab.getWindow().isPrivate && shouldArchiveTab(tab.lastActiveAt, tab.pinned)) {
+          archiveTab(tab);
+          continue;
         }
         if (!tab.visible && !tab.asleep && shouldSleepTab(tab.lastActiveAt)) {
           tab.putToSleep();
@@ -182,7 +185,8 @@ export class TabManager extends TypedEventEmitter<TabManagerEvents> {
       throw new Error("Profile not found");
     }
 
-    const profileSession = profile.session;
+    // Private windows keep their tabs out of the profile's session
+    const profileSession = window.isPrivate ? getPrivateSession(windowId, profileId) : profile.session;
 
     // Create tab
     const tab = new Tab(
@@ -310,8 +314,18 @@ export class TabManager extends TypedEventEmitter<TabManagerEvents> {
     } else {
       windowId = tabOrGroup.windowId;
       spaceId = tabOrGroup.spaceId;
-      tabToFocus = tabOrGroup.tabs.length > 0 ? tabOrGroup.tabs[0] : undefined;
       idToStore = tabOrGroup.id;
+
+      // Keep the focus on a tab of the group, e.g. the split tab that was clicked
+      // A glance is always focused on the tab in front.
+      const focusedTab = this.getFocusedTab(windowId, spaceId);
+      if (tabOrGroup.mode === "glance" && tabOrGroup.frontTab) {
+        tabToFocus = tabOrGroup.frontTab;
+      } else if (focusedTab && tabOrGroup.hasTab(focusedTab.id)) {
+        tabToFocus = focusedTab;
+      } else {
+        tabToFocus = tabOrGroup.tabs.length > 0 ? tabOrGroup.tabs[0] : undefined;
+      }
     }
 
     const windowSpaceReference = `${windowId}-${spaceId}` as WindowSpaceReference;
@@ -633,6 +647,7 @@ export class TabManager extends TypedEventEmitter<TabManagerEvents> {
     });
 
     this.tabGroups.set(id, tabGroup);
+    tabGroup.saveTabGroupToStorage();
 
     // If any of the initial tabs were active, make the new group active.
     // Use the space/window of the first tab for the group.
@@ -649,6 +664,63 @@ export class TabManager extends TypedEventEmitter<TabManagerEvents> {
     return tabGroup;
   }
 
+  /**
+   * Splits the page with a tab, next to the active tab or split tab group of a window space
+   * @param side The side of the page the tab goes to
+   * @returns The split tab group, or null if there is nothing to split the page with
+   */
+  public splitTab(tabId: number, windowId: number, spaceId: string, side: SplitSide): SplitTabGroup | null {
+    const tab = this.getTabById(tabId);
+    const activeTabOrGroup = this.getActiveTab(windowId, spaceId);
+    if (!tab || !activeTabOrGroup) return null;
+
+    // TODO: @MOVE_TABS_BETWEEN_PROFILES not supported yet
+    if (activeTabOrGroup.profileId !== tab.profileId) return null;
+
+    const orientation = side === "left" || side === "right" ? "horizontal" : "vertical";
+    const index = side === "left" || side === "top" ? 0 : Infinity;
+
+    let splitTabGroup: SplitTabGroup;
+    if (activeTabOrGroup instanceof Tab) {
+      if (activeTabOrGroup.id === tab.id) return null;
+
+      // The active tab goes first, so the group stays in its window and space
+      splitTabGroup = this.createTabGroup("split", [activeTabOrGroup.id, tab.id]) as SplitTabGroup;
+    } else if (activeTabOrGroup.mode === "split") {
+      if (activeTabOrGroup.hasTab(tab.id)) return null;
+
+      this.getTabGroupByTabId(tab.id)?.removeTab(tab.id);
+      splitTabGroup = activeTabOrGroup;
+      splitTabGroup.addTab(tab.id);
+    } else {
+      return null;
+    }
+
+    // Split tabs share their position in the sidebar
+    tab.updateStateProperty("position", splitTabGroup.position);
+
+    splitTabGroup.setTabIndex(tab.id, index);
+    splitTabGroup.setOrientation(orientation);
+    this.setActiveTab(splitTabGroup);
+    return splitTabGroup;
+  }
+
+  /**
+   * Takes a tab out of its split tab group
+   * The rest of the group stays active, and the tab goes back to being a normal tab.
+   */
+  public unsplitTab(tabId: number) {
+    const tab = this.getTabById(tabId);
+    const tabGroup = this.getTabGroupByTabId(tabId);
+    if (!tab || !tabGroup || tabGroup.mode !== "split") return false;
+
+    tabGroup.removeTab(tabId);
+
+    // Hide the tab, as it is no longer part of the active group
+    this.emit("active-tab-changed", tab.getWindow().id, tab.spaceId);
+    return true;
+  }
+
   /**
    * Get the smallest position of all tabs
    */
@@ -1,7 +1,9 @@
 import { Browser } from "@/browser/browser";
 import { isRectangleEqual, TabBoundsController } from "@/browser/tabs/tab-bounds";
+import { TabHistoryRecorder } from "@/browser/tabs/tab-history";
 import { TabGroupMode } from "~/types/tabs";
 import { GlanceTabGroup } from "@/browser/tabs/tab-groups/glance";
+import { TabSplitConfig } from "@/browser/tabs/tab-groups/split";
 import { TabManager } from "@/browser/tabs/tab-manager";
 import { TabbedBrowserWindow } from "@/browser/window";
 import { cacheFavicon } from "@/modules/favicons";
@@ -14,12 +16,16 @@ import { generateID } from "@/modules/utils";
 import { persistTabToStorage, removeTabFromStorage } from "@/saving/tabs";
 import { LoadedProfile } from "@/browser/profile-manager";
 import { setWindowSpace } from "@/ipc/session/spaces";
+import { sendMessageToListenersInWindow } from "@/ipc/listeners-manager";
 
 // Configuration
 const GLANCE_FRONT_ZINDEX = 3;
 const TAB_ZINDEX = 2;
 const GLANCE_BACK_ZINDEX = 0;
 
+// Space between split tabs, where the divider to resize them is
+const SPLIT_GAP = 8;
+
 export const SLEEP_MODE_URL = "about:blank?sleep=true";
 
 // Interfaces and Types
@@ -35,7 +41,9 @@ type TabStateProperty =
   | "isPictureInPicture"
   | "asleep"
   | "lastActiveAt"
-  | "position";
+  | "position"
+  | "pinned"
+  | "pinnedUrl";
 type TabContentProperty = "title" | "url" | "isLoading" | "audible" | "muted" | "navHistory" | "navHistoryIndex";
 
 type TabPublicProperty = TabStateProperty | TabContentProperty;
@@ -73,6 +81,8 @@ export interface TabCreationOptions {
   // Options
   asleep?: boolean;
   position?: number;
+  pinned?: boolean;
+  pinnedUrl?: string | null;
 
   // Old States to be restored
   title?: string;
@@ -133,6 +143,8 @@ export class Tab extends TypedEventEmitter<TabEvents> {
   public createdAt: number;
   public lastActiveAt: number;
   public position: number;
+  public pinned: boolean = false;
+  public pinnedUrl: string | null = null;
 
   // Content properties (From WebContents)
   public title: string = "New Tab";
@@ -155,6 +167,7 @@ export class Tab extends TypedEventEmitter<TabEvents> {
   private window: TabbedBrowserWindow;
   private readonly tabManager: TabManager;
   private readonly bounds: TabBoundsController;
+  public readonly history: TabHistoryRecorder;
 
   /**
    * Creates a new tab instance
@@ -194,6 +207,8 @@ export class Tab extends TypedEventEmitter<TabEvents> {
       // Options
       asleep = false,
       position,
+      pinned = false,
+      pinnedUrl = null,
 
       // Old States to be restored
       title,
@@ -218,6 +233,9 @@ export class Tab extends TypedEventEmitter<TabEvents> {
       this.position = smallestPosition - 1;
     }
 
+    this.pinned = pinned;
+    this.pinnedUrl = pinned ? pinnedUrl : null;
+
     // Create WebContentsView
     const webContentsView = createWebContentsView(session, webContentsViewOptions);
     const webContents = webContentsView.webContents;
@@ -226,9 +244,15 @@ export class Tab extends TypedEventEmitter<TabEvents> {
     this.view = webContentsView;
     this.webContents = webContents;
 
+    // Record navigations in the browsing history
+    this.history = new TabHistoryRecorder(this);
+
     // Restore navigation history
     const restoreNavHistory = navHistory.length > 0;
     if (restoreNavHistory) {
+      // Restoring is not a new visit
+      this.history.ignoreNextNavigation();
+
       setImmediate(() => {
         const restoringEntries = [...navHistory];
         let restoringIndex = navHistoryIndex;
@@ -314,12 +338,15 @@ export class Tab extends TypedEventEmitter<TabEvents> {
     }
 
     // Setup extensions
+    // Extensions cannot see the tabs of private windows
     const extensions = this.loadedProfile.extensions;
-    extensions.addTab(this.webContents, this.window.window);
+    if (!this.window.isPrivate) {
+      extensions.addTab(this.webContents, this.window.window);
 
-    this.on("updated", () => {
-      extensions.tabUpdated(this.webContents);
-    });
+      this.on("updated", () => {
+        extensions.tabUpdated(this.webContents);
+      });
+    }
   }
 
   /**
@@ -393,11 +420,23 @@ export class Tab extends TypedEventEmitter<TabEvents> {
       this.emit("focused");
     });
 
+    // Close the glance with Escape
+    webContents.on("before-input-event", (event, input) => {
+      if (input.type !== "keyDown" || input.key !== "Escape") return;
+      if (this.fullScreen) return;
+
+      const tabGroup = this.tabManager.getTabGroupByTabId(this.id);
+      if (tabGroup?.mode !== "glance" || tabGroup.frontTabId !== this.id) return;
+
+      event.preventDefault();
+      tabGroup.closeFrontTab();
+    });
+
     // Handle favicon updates
     webContents.on("page-favicon-updated", (_event, favicons) => {
       const faviconURL = favicons[0];
       const url = this.webContents.getURL();
-      if (faviconURL && url) {
+      if (faviconURL && url && !this.window.isPrivate) {
         cacheFavicon(url, faviconURL, this.session);
       }
       if (faviconURL && faviconURL !== this.faviconURL) {
@@ -415,6 +454,16 @@ export class Tab extends TypedEventEmitter<TabEvents> {
       }
     });
 
+    // Send find in page results to the find bar of the window
+    webContents.on("found-in-page", (_event, result) => {
+      sendMessageToListenersInWindow(this.window, "find-in-page:on-result", {
+        tabId: this.id,
+        activeMatchOrdinal: result.activeMatchOrdinal,
+        matches: result.matches,
+        finalUpdate: result.finalUpdate
+      });
+    });
+
     // Handle devtools open url
     webContents.on("devtools-open-url", (_event, url) => {
       this.tabManager.createTab(this.window.id, this.profileId, undefined).then((tab) => {
@@ -477,10 +526,28 @@ export class Tab extends TypedEventEmitter<TabEvents> {
   ) {
     let windowId = this.window.id;
 
-    const isNewWindow = disposition === "new-window";
-    const isForegroundTab = disposition === "foreground-tab";
+    let isNewWindow = disposition === "new-window";
+    let isForegroundTab = disposition === "foreground-tab";
     const isBackgroundTab = disposition === "background-tab";
 
+    // Shift-clicked links also open a new window, but without any window features.
+    // They are opened in a glance over this tab instead, unless it is already in a tab group.
+    const isGlance =
+      FLAGS.GLANCE_ENABLED &&
+      isNewWindow &&
+      !details?.features &&
+      !this.tabManager.getTabGroupByTabId(this.id) &&
+      this.window.type === "normal";
+    if (isGlance) {
+      isNewWindow = false;
+    }
+
+    // Popups cannot share the session of a private window, so they are opened as tabs instead
+    if (isNewWindow && this.window.isPrivate) {
+      isNewWindow = false;
+      isForegroundTab = true;
+    }
+
     // Parse features from details
     const parsedFeatures: Record<string, string | number> = {};
     if (details?.features) {
@@ -511,22 +578,15 @@ export class Tab extends TypedEventEmitter<TabEvents> {
     const newTab = this.tabManager.internalCreateTab(windowId, this.profileId, this.spaceId, constructorOptions);
     newTab.loadURL(url);
 
-    let glanced = false;
-
-    // Glance if possible
-    if (isForegroundTab && FLAGS.GLANCE_ENABLED) {
-      const currentTabGroup = this.tabManager.getTabGroupByTabId(this.id);
-      if (!currentTabGroup) {
-        glanced = true;
+    if (isGlance) {
+      // Glanced tabs share their position in the sidebar with this tab
+      newTab.updateStateProperty("position", this.position);
 
-        const group = this.tabManager.createTabGroup("glance", [newTab.id, this.id]) as GlanceTabGroup;
-        group.setFrontTab(newTab.id);
+      const group = this.tabManager.createTabGroup("glance", [newTab.id, this.id]) as GlanceTabGroup;
+      group.setFrontTab(newTab.id);
 
-        this.tabManager.setActiveTab(group);
-      }
-    }
-
-    if ((isForegroundTab && !glanced) || isBackgroundTab || isNewWindow) {
+      this.tabManager.setActiveTab(group);
+    } else if (isForegroundTab || isBackgroundTab || isNewWindow) {
       this.tabManager.setActiveTab(newTab);
     }
 
@@ -548,6 +608,38 @@ export class Tab extends TypedEventEmitter<TabEvents> {
     return true;
   }
 
+  /**
+   * Pins the tab to its space, remembering the current URL as the URL to reset to
+   */
+  public pin() {
+    if (this.isDestroyed) return false;
+
+    this.updateStateProperty("pinnedUrl", this.url || null);
+    return this.updateStateProperty("pinned", true);
+  }
+
+  public unpin() {
+    if (this.isDestroyed) return false;
+
+    this.updateStateProperty("pinnedUrl", null);
+    return this.updateStateProperty("pinned", false);
+  }
+
+  /**
+   * Loads the URL the tab was pinned with again
+   */
+  public resetToPinnedUrl() {
+    if (this.isDestroyed || !this.pinned || !this.pinnedUrl) return false;
+
+    // Loading the page wakes the tab up
+    if (this.asleep) {
+      this.updateStateProperty("asleep", false);
+    }
+
+    this.loadURL(this.pinnedUrl);
+    return true;
+  }
+
   /**
    * Updates the tab content state
    */
@@ -761,6 +853,31 @@ export class Tab extends TypedEventEmitter<TabEvents> {
     };
   }
 
+  /**
+   * Calculates the bounds for a tab in split mode.
+   * Edges shared with another tab are inset to leave a gap for the divider.
+   */
+  private _calculateSplitBounds(pageBounds: Rectangle, splitConfig: TabSplitConfig): Rectangle {
+    const halfGap = SPLIT_GAP / 2;
+
+    let left = pageBounds.width * splitConfig.x;
+    let right = pageBounds.width * (splitConfig.x + splitConfig.width);
+    let top = pageBounds.height * splitConfig.y;
+    let bottom = pageBounds.height * (splitConfig.y + splitConfig.height);
+
+    if (left > 0) left += halfGap;
+    if (right < pageBounds.width - 1) right -= halfGap;
+    if (top > 0) top += halfGap;
+    if (bottom < pageBounds.height - 1) bottom -= halfGap;
+
+    return {
+      x: pageBounds.x + Math.round(left),
+      y: pageBounds.y + Math.round(top),
+      width: Math.max(0, Math.round(right - left)),
+      height: Math.max(0, Math.round(bottom - top))
+    };
+  }
+
   /**
    * Updates the layout of the tab
    */
@@ -859,7 +976,7 @@ export class Tab extends TypedEventEmitter<TabEvents> {
 
     // Update extensions
     const extensions = this.loadedProfile.extensions;
-    if (justShown) {
+    if (justShown && !this.window.isPrivate) {
       extensions.selectTab(this.webContents);
     }
 
@@ -899,27 +1016,11 @@ export class Tab extends TypedEventEmitter<TabEvents> {
       }
     } else if (tabGroup.mode === "split") {
       newTabGroupMode = "split";
-      /* TODO: Implement split tab group layout
-      const splitConfig = tabGroup.getTabSplitConfig(this.id); // Hypothetical method
+      const splitConfig = tabGroup.getTabSplitConfig(this.id);
 
       if (splitConfig) {
-        const { x: xPercentage, y: yPercentage, width: widthPercentage, height: heightPercentage } = splitConfig;
-
-        const xOffset = Math.floor(pageBounds.width * xPercentage);
-        const yOffset = Math.floor(pageBounds.height * yPercentage);
-        const newWidth = Math.floor(pageBounds.width * widthPercentage);
-        const newHeight = Math.floor(pageBounds.height * heightPercentage);
-
-        const splitBounds = {
-          x: pageBounds.x + xOffset,
-          y: pageBounds.y + yOffset,
-          width: newWidth,
-          height: newHeight
-        };
-
-        newBounds = splitBounds;
+        newBounds = this._calculateSplitBounds(pageBounds, splitConfig);
       }
-      */
     }
 
     // Update Z-index (via setWindow)
@@ -1,7 +1,66 @@
 import { MenuItemConstructorOptions } from "electron";
 import { Browser } from "@/browser/browser";
-import { getTabWcFromFocusedWindow } from "../helpers";
+import { getFocusedBrowserWindowData, getTabWcFromFocusedWindow } from "../helpers";
 import { getCurrentShortcut } from "@/modules/shortcuts";
+import { getSpace } from "@/sessions/spaces";
+import { getRecentlyClosed, reopenClosedTab } from "@/browser/tabs/recently-closed";
+import { RecentlyClosedEntry } from "~/types/tabs";
+
+const HISTORY_URL = "flow://history";
+const ARCHIVE_URL = "flow://archive";
+const SNOOZED_URL = "flow://snoozed";
+
+async function openFlowPage(browser: Browser, url: string) {
+  const winData = getFocusedBrowserWindowData();
+  if (!winData) return;
+
+  const tabbedBrowserWindow = winData.tabbedBrowserWindow;
+  if (!tabbedBrowserWindow) return;
+
+  const spaceId = tabbedBrowserWindow.getCurrentSpace();
+  if (!spaceId) return;
+
+  const space = await getSpace(spaceId);
+  if (!space) return;
+
+  const tab = await browser.tabs.createTab(tabbedBrowserWindow.id, space.profileId, spaceId);
+  tab.loadURL(url);
+  browser.tabs.setActiveTab(tab);
+}
+
+function reopenClosedTabInFocusedWindow(entryId?: string) {
+  const winData = getFocusedBrowserWindowData();
+  if (!winData) return;
+
+  const tabbedBrowserWindow = winData.tabbedBrowserWindow;
+  if (!tabbedBrowserWindow) return;
+
+  reopenClosedTab(tabbedBrowserWindow, entryId);
+}
+
+function getRecentlyClosedLabel(entry: RecentlyClosedEntry) {
+  if (entry.tabs.length > 1) {
+    return `${entry.tabs.length} Tabs`;
+  }
+  const tab = entry.tabs[0];
+  return tab.title || tab.url;
+}
+
+function createRecentlyClosedMenu(): MenuItemConstructorOptions[] {
+  const windowId = getFocusedBrowserWindowData()?.tabbedBrowserWindow?.id;
+  const entries = windowId !== undefined ? getRecentlyClosed(windowId) : [];
+
+  if (entries.length === 0) {
+    return [{ label: "No Recently Closed Tabs", enabled: false }];
+  }
+
+  return entries.map((entry) => ({
+    label: getRecentlyClosedLabel(entry),
+    click: () => {
+      reopenClosedTabInFocusedWindow(entry.id);
+    }
+  }));
+}
 
 export const createArchiveMenu = (browser: Browser): MenuItemConstructorOptions => ({
   label: "Archive", // Consider renaming to "History" or "Navigation" if more appropriate
@@ -33,6 +92,38 @@ export const createArchiveMenu = (browser: Browser): MenuItemConstructorOptions
           navigationHistory.goForward();
         }
       }
+    },
+    { type: "separator" },
+    {
+      label: "Reopen Closed Tab",
+      accelerator: getCurrentShortcut("tabs.reopenClosed"),
+      click: () => {
+        reopenClosedTabInFocusedWindow();
+      }
+    },
+    {
+      label: "Recently Closed",
+      submenu: createRecentlyClosedMenu()
+    },
+    { type: "separator" },
+    {
+      label: "Show All History",
+      accelerator: getCurrentShortcut("browser.openHistory"),
+      click: () => {
+        openFlowPage(browser, HISTORY_URL);
+      }
+    },
+    {
+      label: "Show Archived Tabs",
+      click: () => {
+        openFlowPage(browser, ARCHIVE_URL);
+      }
+    },
+    {
+      label: "Show Snoozed Items",
+      click: () => {
+        openFlowPage(browser, SNOOZED_URL);
+      }
     }
   ]
 });
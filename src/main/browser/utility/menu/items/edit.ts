@@ -1,6 +1,6 @@
 import { MenuItemConstructorOptions } from "electron";
 import { getFocusedWindowData } from "../helpers";
-import { fireCopyLinkAction } from "@/ipc/app/actions";
+import { fireAskPageAction, fireCopyLinkAction, fireFindInPageAction } from "@/ipc/app/actions";
 import { getCurrentShortcut } from "@/modules/shortcuts";
 
 export const createEditMenu = (): MenuItemConstructorOptions => ({
@@ -25,6 +25,29 @@ export const createEditMenu = (): MenuItemConstructorOptions => ({
     { role: "paste" },
     { role: "pasteAndMatchStyle" },
     { role: "delete" },
-    { role: "selectAll" }
+    { role: "selectAll" },
+    { type: "separator" },
+    {
+      label: "Find in Page",
+      accelerator: getCurrentShortcut("tab.find"),
+      click: () => {
+        const winData = getFocusedWindowData();
+        if (!winData) return;
+        if (!winData.tabbedBrowserWindow) return;
+
+        return fireFindInPageAction(winData.tabbedBrowserWindow);
+      }
+    },
+    {
+      label: "Ask This Page",
+      accelerator: getCurrentShortcut("tab.askPage"),
+      click: () => {
+        const winData = getFocusedWindowData();
+        if (!winData) return;
+        if (!winData.tabbedBrowserWindow) return;
+
+        return fireAskPageAction(winData.tabbedBrowserWindow);
+      }
+    }
   ]
 });
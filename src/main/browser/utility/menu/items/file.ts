@@ -26,6 +26,13 @@ export const createFileMenu = (browser: Browser): MenuItemConstructorOptions =>
       click: () => {
         browser.createWindow();
       }
+    },
+    {
+      label: "New Private Window",
+      accelerator: getCurrentShortcut("browser.newPrivateWindow"),
+      click: () => {
+        browser.createWindow("normal", { private: true });
+      }
     }
   ]
 });
@@ -1,6 +1,7 @@
 import { MenuItemConstructorOptions } from "electron";
 import { Browser } from "@/browser/browser";
 import { hideOmnibox, isOmniboxOpen } from "@/browser/components/omnibox";
+import { closeTab } from "@/browser/tabs/recently-closed";
 import { WindowType } from "@/modules/windows";
 import { getFocusedBrowserWindowData, getFocusedWindowData, getTab, getTabWcFromFocusedWindow } from "../helpers";
 import { toggleSidebar } from "@/ipc/browser/interface";
@@ -23,7 +24,7 @@ export function menuCloseTab(browser: Browser) {
   } else {
     const tab = getTab(browser, winData);
     if (tab) {
-      tab.destroy();
+      closeTab(tab);
     } else {
       if (winData.window) {
         winData.window.close();
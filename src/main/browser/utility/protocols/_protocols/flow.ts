@@ -17,7 +17,11 @@ const FLOW_PROTOCOL_ALLOWED_DOMAINS: AllowedDomains = {
   omnibox: true,
   extensions: true,
   "pdf-viewer": true,
-  bookmarks: true
+  bookmarks: true,
+  history: true,
+  archive: true,
+  snoozed: true,
+  downloads: true
 };
 
 const PDF_CACHE = new Map<string, Response>();
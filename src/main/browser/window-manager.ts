@@ -9,6 +9,7 @@ export type BrowserWindowType = "normal" | "popup";
 
 export interface BrowserWindowCreationOptions {
   window?: Electron.BrowserWindowConstructorOptions;
+  private?: boolean;
 }
 
 /**
@@ -1,5 +1,6 @@
 import { Browser } from "@/browser/browser";
 import { Omnibox } from "@/browser/components/omnibox";
+import { clearRecentlyClosed } from "@/browser/tabs/recently-closed";
 import { ViewManager } from "@/browser/view-manager";
 import { PageBounds } from "@/ipc/browser/page";
 import { FLAGS } from "@/modules/flags";
@@ -10,14 +11,17 @@ import "./close-preventer";
 import { WindowEventType } from "@/modules/windows";
 import { windowEvents } from "@/modules/windows";
 import { initializePortalComponentWindows } from "@/browser/components/portal-component-windows";
-import { defaultSessionReady } from "@/browser/sessions";
+import { clearPrivateSessions, defaultSessionReady } from "@/browser/sessions";
 import { fireWindowStateChanged } from "@/ipc/browser/interface";
-import { debugPrint } from "@/modules/output";
+import { debugError, debugPrint } from "@/modules/output";
+import { SidebarState } from "~/flow/types";
 
 type BrowserWindowType = "normal" | "popup";
 
 type BrowserWindowCreationOptions = {
   window?: Electron.BrowserWindowConstructorOptions;
+  // Private windows use in-memory sessions, and keep nothing once closed
+  private?: boolean;
 };
 
 type BrowserWindowEvents = {
@@ -38,10 +42,14 @@ export class TabbedBrowserWindow extends TypedEventEmitter<BrowserWindowEvents>
 
   private browser: Browser;
   public readonly type: BrowserWindowType;
+  public readonly isPrivate: boolean;
   private pageBounds: PageBounds;
   private currentSpaceId: string | null = null;
   private windowButtonVisibility: boolean = true;
 
+  // Reported by the Browser UI, so it can be saved with the session
+  public sidebarState: SidebarState | null = null;
+
   private isDestroyed: boolean = false;
 
   constructor(browser: Browser, type: BrowserWindowType, options: BrowserWindowCreationOptions = {}) {
@@ -63,7 +71,7 @@ export class TabbedBrowserWindow extends TypedEventEmitter<BrowserWindowEvents>
         nodeIntegration: false,
         contextIsolation: true
       },
-      title: "Flow",
+      title: options.private ? "Flow (Private)" : "Flow",
       frame: false,
       transparent: false,
       resizable: true,
@@ -172,6 +180,7 @@ export class TabbedBrowserWindow extends TypedEventEmitter<BrowserWindowEvents>
 
     this.id = this.window.id;
     this.type = type;
+    this.isPrivate = options.private ?? false;
 
     this.coreWebContents = [this.window.webContents];
 
@@ -233,6 +242,15 @@ export class TabbedBrowserWindow extends TypedEventEmitter<BrowserWindowEvents>
       }
     }, 500);
 
+    // Closed tabs can only be reopened into the window they were closed in
+    clearRecentlyClosed(this.id);
+
+    if (this.isPrivate) {
+      clearPrivateSessions(this.id).catch((error) => {
+        debugError("WINDOWS", "Failed to clear the sessions of a private window:", error);
+      });
+    }
+
     // Destroy the window
     this.isDestroyed = true;
     this.emit("destroy");
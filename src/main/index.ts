@@ -9,6 +9,9 @@ import { TabbedBrowserWindow } from "@/browser/window";
 import "@/modules/auto-update";
 import "@/modules/posthog";
 import "@/modules/content-blocker";
+import "@/modules/snooze";
+import "@/modules/ai-labeling";
+import "@/modules/bookmark-embeddings";
 import { debugPrint } from "@/modules/output";
 import { setupQuitHandler } from "@/modules/quit-handlers";
 
@@ -1,6 +1,14 @@
 import { ipcMain } from 'electron';
 import { aiService } from '../modules/ai-service';
 import { contentFetcher, type FetchOptions } from '../modules/content-fetcher';
+import {
+  cancelAILabeling,
+  getAILabelingProgress,
+  pauseAILabeling,
+  resumeAILabeling,
+  startAILabeling
+} from '../modules/ai-labeling';
+import { clearAIUsage, getAIRequestLog, getAIUsage } from '../modules/ai-usage';
 import type { AISettings, BookmarkAnalysisRequest } from '~/flow/interfaces/ai';
 
 // AI Settings Management
@@ -86,21 +94,67 @@ ipcMain.handle('ai:extractBasicInfo', async (_, url: string, title?: string) =>
   }
 });
 
+// Background Labeling
+ipcMain.handle('ai:getLabelingProgress', async () => {
+  return { success: true, data: getAILabelingProgress() };
+});
+
+ipcMain.handle('ai:startLabeling', async () => {
+  try {
+    return { success: true, data: await startAILabeling() };
+  } catch (error) {
+    console.error('Failed to start AI labeling:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
+ipcMain.handle('ai:pauseLabeling', async () => {
+  return { success: await pauseAILabeling() };
+});
+
+ipcMain.handle('ai:resumeLabeling', async () => {
+  return { success: await resumeAILabeling() };
+});
+
+ipcMain.handle('ai:cancelLabeling', async () => {
+  return { success: await cancelAILabeling() };
+});
+
+// Usage accounting
+ipcMain.handle('ai:getUsage', async (_, days?: number) => {
+  try {
+    const settings = await aiService.getSettings();
+    return { success: true, data: await getAIUsage(settings.budget, days) };
+  } catch (error) {
+    console.error('Failed to get AI usage:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
+ipcMain.handle('ai:getRequestLog', async (_, limit?: number) => {
+  try {
+    return { success: true, data: await getAIRequestLog(limit) };
+  } catch (error) {
+    console.error('Failed to get AI request log:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
+ipcMain.handle('ai:clearUsage', async () => {
+  try {
+    await clearAIUsage();
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to clear AI usage:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
 // Test available models
 ipcMain.handle('ai:listModels', async () => {
   try {
-    const settings = await aiService.getSettings();
-    if (!settings.apiKey || settings.provider !== 'openai') {
-      return { success: false, error: 'OpenAI not configured' };
-    }
-    
-    const OpenAI = require('openai');
-    const openai = new OpenAI({
-      apiKey: settings.apiKey,
-    });
-    
-    const models = await openai.models.list();
-    return { success: true, data: models.data };
+    const models = await aiService.listModels();
+    return { success: true, data: models };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
@@ -5,6 +5,14 @@ export async function fireCopyLinkAction(win: TabbedBrowserWindow) {
   sendMessageToListenersInWindow(win, "actions:on-copy-link");
 }
 
+export async function fireFindInPageAction(win: TabbedBrowserWindow) {
+  sendMessageToListenersInWindow(win, "actions:on-find-in-page");
+}
+
+export async function fireAskPageAction(win: TabbedBrowserWindow) {
+  sendMessageToListenersInWindow(win, "actions:on-ask-page");
+}
+
 export async function fireFrontendAction(action: string) {
   sendMessageToListeners("actions:on-incoming", action);
 }
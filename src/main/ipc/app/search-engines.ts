@@ -0,0 +1,24 @@
+import {
+  addCustomSearchEngine,
+  getDefaultSearchEngine,
+  getSearchEngines,
+  removeCustomSearchEngine
+} from "@/modules/search-engines";
+import { ipcMain } from "electron";
+import { CustomSearchEngineData } from "~/types/search-engines";
+
+ipcMain.handle("search-engines:get", async () => {
+  return await getSearchEngines();
+});
+
+ipcMain.handle("search-engines:get-default", () => {
+  return getDefaultSearchEngine();
+});
+
+ipcMain.handle("search-engines:add", async (_event, data: CustomSearchEngineData) => {
+  return await addCustomSearchEngine(data);
+});
+
+ipcMain.handle("search-engines:remove", async (_event, id: string) => {
+  return await removeCustomSearchEngine(id);
+});
@@ -0,0 +1,43 @@
+import { getProfileIdFromWebContents } from "@/ipc/browser/history";
+import {
+  getAllSitePermissions,
+  getPermissionOrigin,
+  getSitePermissions,
+  isSitePermission,
+  resetSitePermissions,
+  setSitePermission
+} from "@/saving/site-permissions";
+import { ipcMain } from "electron";
+import { SitePermissionState } from "~/types/permissions";
+
+const PERMISSION_STATES: SitePermissionState[] = ["ask", "allow", "block"];
+
+ipcMain.handle("site-permissions:get", async (event, url: string) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  const origin = getPermissionOrigin(url);
+  if (!profileId || !origin) return null;
+
+  return { origin, permissions: await getSitePermissions(profileId, origin) };
+});
+
+ipcMain.handle("site-permissions:set", async (event, url: string, permission: string, state: SitePermissionState) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  const origin = getPermissionOrigin(url);
+  if (!profileId || !origin) return false;
+  if (!isSitePermission(permission) || !PERMISSION_STATES.includes(state)) return false;
+
+  return await setSitePermission(profileId, origin, permission, state);
+});
+
+ipcMain.handle("site-permissions:get-all", async () => {
+  return await getAllSitePermissions();
+});
+
+ipcMain.handle("site-permissions:revoke", async (_event, profileId: string, origin: string, permission: string) => {
+  if (!isSitePermission(permission)) return false;
+  return await setSitePermission(profileId, origin, permission, "ask");
+});
+
+ipcMain.handle("site-permissions:reset", async (_event, profileId: string, origin: string) => {
+  return await resetSitePermissions(profileId, origin);
+});
@@ -0,0 +1,30 @@
+import { browser } from "@/index";
+import { getProfileIdFromWebContents } from "@/ipc/browser/history";
+import { getArchivedTabs, removeArchivedTab, restoreArchivedTab, wipeArchivedTabs } from "@/saving/archive";
+import { ipcMain } from "electron";
+
+ipcMain.handle("archive:get-tabs", async (event) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return [];
+
+  return await getArchivedTabs(profileId);
+});
+
+ipcMain.handle("archive:restore-tab", async (event, uniqueId: string) => {
+  const window = browser?.getWindowFromWebContents(event.sender);
+  if (!window) return false;
+
+  const tab = await restoreArchivedTab(uniqueId, window);
+  return !!tab;
+});
+
+ipcMain.handle("archive:remove-tab", async (_event, uniqueId: string) => {
+  return await removeArchivedTab(uniqueId);
+});
+
+ipcMain.handle("archive:clear", async (event) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return false;
+
+  return await wipeArchivedTabs(profileId);
+});
@@ -1,3 +1,4 @@
+import { browser } from "@/index";
 import { ipcMain } from "electron";
 import {
   createBookmark,
@@ -21,20 +22,35 @@ import {
   removeBookmarkFromCollection,
   moveBookmarkToCollection,
   getBookmarksByUrl,
+  searchBookmarks,
+  indexBookmarkContent,
   importChromeBookmarks,
+  importBookmarks,
+  exportBookmarks,
   addAILabels,
   type Bookmark,
   type BookmarkCollection,
+  type BookmarkExportFormat,
+  type BookmarkImportRequest,
+  type BookmarkImportSource,
+  type BookmarkSearchResult,
+  type BookmarkSemanticResult,
   type CreateBookmarkInput,
+  type CreateCollectionInput,
   type UpdateBookmarkInput,
   type UpdateCollectionInput,
   type BookmarkFilter,
   type ImportStats
 } from "@/modules/bookmarks";
+import { getImportSources } from "@/modules/bookmark-importers";
+import { queueBookmarkForLabeling } from "@/modules/ai-labeling";
+import { getRelatedBookmarks, semanticSearch } from "@/modules/bookmark-embeddings";
 
 // Bookmark CRUD operations
 ipcMain.handle("bookmarks:create", async (_, input: CreateBookmarkInput): Promise<Bookmark> => {
-  return await createBookmark(input);
+  const bookmark = await createBookmark(input);
+  queueBookmarkForLabeling(bookmark);
+  return bookmark;
 });
 
 ipcMain.handle("bookmarks:get", async (_, id: string): Promise<Bookmark | null> => {
@@ -61,7 +77,11 @@ ipcMain.handle("bookmarks:exists", async (_, url: string, profileId: string, spa
   return await bookmarkExists(url, profileId, spaceId);
 });
 
-ipcMain.handle("bookmarks:incrementVisit", async (_, id: string): Promise<void> => {
+ipcMain.handle("bookmarks:incrementVisit", async (event, id: string): Promise<void> => {
+  // Private windows do not count visits
+  const window = browser?.getWindowFromWebContents(event.sender);
+  if (window?.isPrivate) return;
+
   return await incrementVisitCount(id);
 });
 
@@ -69,16 +89,24 @@ ipcMain.handle("bookmarks:getByUrl", async (_, url: string): Promise<Bookmark[]>
   return await getBookmarksByUrl(url);
 });
 
+ipcMain.handle("bookmarks:search", async (_, query: string, filter?: BookmarkFilter, limit?: number): Promise<BookmarkSearchResult[]> => {
+  return await searchBookmarks(query, filter, limit);
+});
+
+ipcMain.handle("bookmarks:semanticSearch", async (_, query: string, filter?: BookmarkFilter, limit?: number): Promise<BookmarkSemanticResult[]> => {
+  return await semanticSearch(query, filter, limit);
+});
+
+ipcMain.handle("bookmarks:getRelated", async (_, id: string, limit?: number): Promise<BookmarkSemanticResult[]> => {
+  return await getRelatedBookmarks(id, limit);
+});
+
+ipcMain.handle("bookmarks:indexContent", async (_, id: string): Promise<boolean> => {
+  return await indexBookmarkContent(id);
+});
+
 // Collection operations
-ipcMain.handle("bookmarks:collections:create", async (_, input: {
-  name: string;
-  description?: string;
-  profileId: string;
-  spaceId?: string;
-  parentId?: string;
-  isAuto?: boolean;
-  rules?: any;
-}): Promise<BookmarkCollection> => {
+ipcMain.handle("bookmarks:collections:create", async (_, input: CreateCollectionInput): Promise<BookmarkCollection> => {
   return await createCollection(input);
 });
 
@@ -132,6 +160,18 @@ ipcMain.handle("bookmarks:importChrome", async (_, htmlContent: string, profileI
   return await importChromeBookmarks(htmlContent, profileId, spaceId);
 });
 
+ipcMain.handle("bookmarks:getImportSources", async (): Promise<BookmarkImportSource[]> => {
+  return await getImportSources();
+});
+
+ipcMain.handle("bookmarks:import", async (_, request: BookmarkImportRequest, profileId: string, spaceId: string): Promise<ImportStats> => {
+  return await importBookmarks(request, profileId, spaceId);
+});
+
+ipcMain.handle("bookmarks:export", async (_, format: BookmarkExportFormat, filter?: BookmarkFilter): Promise<string> => {
+  return await exportBookmarks(format, filter);
+});
+
 // Drag & Drop operations
 ipcMain.handle("bookmarks:moveToCollection", async (_, bookmarkId: string, fromCollectionId: string | null, toCollectionId: string): Promise<void> => {
   return await moveBookmarkToCollection(bookmarkId, fromCollectionId, toCollectionId);
@@ -12,3 +12,7 @@ ipcMain.on("browser:unload-profile", async (_event, profileId: string) => {
 ipcMain.on("browser:create-window", async () => {
   browser?.createWindow();
 });
+
+ipcMain.on("browser:create-private-window", async () => {
+  browser?.createWindow("normal", { private: true });
+});
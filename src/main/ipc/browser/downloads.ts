@@ -0,0 +1,63 @@
+import { browser } from "@/index";
+import { getProfileIdFromWebContents } from "@/ipc/browser/history";
+import {
+  cancelDownload,
+  clearDownloads,
+  getDownloads,
+  openDownload,
+  pauseDownload,
+  removeDownload,
+  resumeDownload,
+  retryDownload,
+  showDownloadInFolder
+} from "@/modules/downloads";
+import { ipcMain, WebContents } from "electron";
+
+// Works for the Browser UI of a window and for its tabs, like flow://downloads
+function getWindowIdFromWebContents(webContents: WebContents): number | null {
+  const tab = browser?.tabs.getTabByWebContents(webContents);
+  const window = tab ? tab.getWindow() : browser?.getWindowFromWebContents(webContents);
+  return window?.id ?? null;
+}
+
+ipcMain.handle("downloads:get", async (event) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return [];
+
+  return await getDownloads(profileId, getWindowIdFromWebContents(event.sender));
+});
+
+ipcMain.handle("downloads:pause", async (_event, id: string) => {
+  return pauseDownload(id);
+});
+
+ipcMain.handle("downloads:resume", async (_event, id: string) => {
+  return resumeDownload(id);
+});
+
+ipcMain.handle("downloads:cancel", async (_event, id: string) => {
+  return cancelDownload(id);
+});
+
+ipcMain.handle("downloads:retry", async (_event, id: string) => {
+  return await retryDownload(id);
+});
+
+ipcMain.handle("downloads:open", async (_event, id: string) => {
+  return await openDownload(id);
+});
+
+ipcMain.handle("downloads:show-in-folder", async (_event, id: string) => {
+  return await showDownloadInFolder(id);
+});
+
+ipcMain.handle("downloads:remove", async (_event, id: string) => {
+  return await removeDownload(id);
+});
+
+ipcMain.handle("downloads:clear", async (event) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return false;
+
+  return await clearDownloads(profileId, getWindowIdFromWebContents(event.sender));
+});
@@ -0,0 +1,10 @@
+import { getFavorites, removeFavorite } from "@/saving/favorites";
+import { ipcMain } from "electron";
+
+ipcMain.handle("favorites:get", async (_event, profileId: string) => {
+  return await getFavorites(profileId);
+});
+
+ipcMain.handle("favorites:remove", async (_event, profileId: string, favoriteId: string) => {
+  return await removeFavorite(profileId, favoriteId);
+});
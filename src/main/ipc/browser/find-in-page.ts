@@ -0,0 +1,28 @@
+import { browser } from "@/index";
+import { ipcMain } from "electron";
+import { FindInPageOptions } from "~/flow/interfaces/browser/findInPage";
+
+ipcMain.on("find-in-page:find", (_event, tabId: number, text: string, options?: FindInPageOptions) => {
+  const tab = browser?.getTabFromId(tabId);
+  if (!tab) return;
+
+  // Searching for nothing clears the highlighted matches
+  if (!text) {
+    tab.webContents.stopFindInPage("clearSelection");
+    return;
+  }
+
+  tab.webContents.findInPage(text, {
+    forward: options?.forward ?? true,
+    findNext: options?.findNext ?? true,
+    matchCase: options?.matchCase ?? false
+  });
+});
+
+ipcMain.on("find-in-page:stop", (_event, tabId: number) => {
+  const tab = browser?.getTabFromId(tabId);
+  if (!tab) return;
+
+  tab.webContents.stopFindInPage("keepSelection");
+  tab.webContents.focus();
+});
@@ -0,0 +1,68 @@
+import { browser } from "@/index";
+import {
+  clearHistory,
+  deleteHistoryForHostname,
+  deleteHistoryVisits,
+  getHistory,
+  queryHistoryVisits
+} from "@/modules/history";
+import { getSpace } from "@/sessions/spaces";
+import { ipcMain, WebContents } from "electron";
+import { HistoryQuery } from "~/types/history";
+
+/**
+ * Gets the profile that a WebContents is browsing in
+ * Tabs use their own profile, browser UI uses the profile of the window's current space.
+ */
+export async function getProfileIdFromWebContents(webContents: WebContents): Promise<string | null> {
+  if (!browser) return null;
+
+  const tab = browser.tabs.getTabByWebContents(webContents);
+  if (tab) return tab.profileId;
+
+  const window = browser.getWindowFromWebContents(webContents);
+  if (!window) return null;
+
+  const spaceId = window.getCurrentSpace();
+  if (!spaceId) return null;
+
+  const space = await getSpace(spaceId);
+  if (!space) return null;
+
+  return space.profileId;
+}
+
+ipcMain.handle("history:get", async (event) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return [];
+
+  return await getHistory(profileId);
+});
+
+ipcMain.handle("history:query-visits", async (event, query?: HistoryQuery) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return [];
+
+  return await queryHistoryVisits(profileId, query);
+});
+
+ipcMain.handle("history:delete-visits", async (event, visitIds: number[]) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return 0;
+
+  return await deleteHistoryVisits(profileId, visitIds);
+});
+
+ipcMain.handle("history:delete-hostname", async (event, hostname: string) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return 0;
+
+  return await deleteHistoryForHostname(profileId, hostname);
+});
+
+ipcMain.handle("history:clear", async (event, startTime?: number, endTime?: number) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return 0;
+
+  return await clearHistory(profileId, startTime, endTime);
+});
@@ -3,6 +3,7 @@ import { browser } from "@/index";
 import { sendMessageToListenersInWindow } from "@/ipc/listeners-manager";
 import { BrowserWindow } from "electron";
 import { ipcMain } from "electron";
+import { SidebarState } from "~/flow/types";
 
 ipcMain.on("window-button:set-position", (event, position: { x: number; y: number }) => {
   const win = BrowserWindow.fromWebContents(event.sender);
@@ -24,6 +25,18 @@ export function toggleSidebar(win: TabbedBrowserWindow) {
   }
 }
 
+ipcMain.handle("interface:get-sidebar-state", (event) => {
+  const win = browser?.getWindowFromWebContents(event.sender);
+  return win?.sidebarState ?? null;
+});
+
+ipcMain.on("interface:set-sidebar-state", (event, state: SidebarState) => {
+  const win = browser?.getWindowFromWebContents(event.sender);
+  if (win) {
+    win.sidebarState = state;
+  }
+});
+
 // These methods are only available for popup windows
 function moveWindowTo(win: BrowserWindow, x: number, y: number) {
   win.setPosition(x, y);
@@ -92,7 +105,8 @@ ipcMain.on("interface:close-window", (event) => {
 function getWindowState(win: TabbedBrowserWindow) {
   return {
     isMaximized: win.window.isMaximized(),
-    isFullscreen: win.window.isFullScreen()
+    isFullscreen: win.window.isFullScreen(),
+    isPrivate: win.isPrivate
   };
 }
 
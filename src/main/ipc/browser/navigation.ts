@@ -12,6 +12,7 @@ ipcMain.on("navigation:go-to", (event, url: string, tabId?: number) => {
   const tab = tabId ? browser?.getTabFromId(tabId) : browser?.tabs.getFocusedTab(window.id, currentSpace);
   if (!tab) return false;
 
+  tab.history.setNextTransition("typed");
   tab.loadURL(url);
   return true;
 });
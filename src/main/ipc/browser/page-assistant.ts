@@ -0,0 +1,110 @@
+import { TabbedBrowserWindow } from "@/browser/window";
+import { browser } from "@/index";
+import { sendMessageToListenersInWindow } from "@/ipc/listeners-manager";
+import { aiService } from "@/modules/ai-service";
+import { ipcMain, WebContents } from "electron";
+import { PageAssistantChunk, PageAssistantMessage, TabPageContent } from "~/flow/interfaces/browser/pageAssistant";
+
+// Long pages are cut short to stay within the context of smaller models
+const MAX_PAGE_TEXT_LENGTH = 20000;
+
+const activeRequests = new Map<string, AbortController>();
+
+async function getPageContent(tabId: number): Promise<TabPageContent | null> {
+  const tab = browser?.getTabFromId(tabId);
+  if (!tab || tab.asleep || tab.webContents.isDestroyed()) return null;
+
+  // This function must be self-contained: it runs in the actual tab's context
+  const extractText = function () {
+    const body = document.body;
+    if (!body) return "";
+
+    // The main content of the page is preferred over its menus and footers, unless it is nearly empty
+    const main = document.querySelector("article, main, [role='main']");
+    const mainText = main instanceof HTMLElement ? main.innerText : "";
+    return mainText.trim().length >= 200 ? mainText : body.innerText;
+  };
+
+  try {
+    const result: unknown = await tab.webContents.executeJavaScript(`(${extractText})()`, true);
+    const text = typeof result === "string" ? result.replace(/\n\s*\n+/g, "\n\n").trim() : "";
+
+    return {
+      url: tab.url,
+      title: tab.title,
+      text: text.slice(0, MAX_PAGE_TEXT_LENGTH),
+      truncated: text.length > MAX_PAGE_TEXT_LENGTH
+    };
+  } catch (error) {
+    console.error("Failed to read the page content:", error);
+    return null;
+  }
+}
+
+function sendChunk(window: TabbedBrowserWindow, chunk: PageAssistantChunk) {
+  sendMessageToListenersInWindow(window, "page-assistant:on-chunk", chunk);
+}
+
+/**
+ * Streams a response about a tab to the window that asked for it
+ * The request ends with a chunk that is marked as done, which carries the error if it failed.
+ */
+async function streamResponse(
+  sender: WebContents,
+  tabId: number,
+  requestId: string,
+  generate: (page: TabPageContent, signal: AbortSignal) => AsyncGenerator<string>
+) {
+  const window = browser?.getWindowFromWebContents(sender);
+  if (!window) return;
+
+  const controller = new AbortController();
+  activeRequests.set(requestId, controller);
+
+  try {
+    const page = await getPageContent(tabId);
+    if (!page) {
+      throw new Error("The page could not be read");
+    }
+    if (!page.text) {
+      throw new Error("The page has no text to read");
+    }
+
+    for await (const text of generate(page, controller.signal)) {
+      sendChunk(window, { requestId, text, done: false });
+    }
+    sendChunk(window, { requestId, text: "", done: true });
+  } catch (error) {
+    // A cancelled request has already been stopped by the user
+    if (controller.signal.aborted) {
+      sendChunk(window, { requestId, text: "", done: true });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    sendChunk(window, { requestId, text: "", done: true, error: message });
+  } finally {
+    activeRequests.delete(requestId);
+  }
+}
+
+ipcMain.handle("page-assistant:get-content", async (_event, tabId: number) => {
+  return await getPageContent(tabId);
+});
+
+ipcMain.on("page-assistant:summarize", (event, tabId: number, requestId: string) => {
+  streamResponse(event.sender, tabId, requestId, (page, signal) => aiService.summarizePage(page, signal));
+});
+
+ipcMain.on(
+  "page-assistant:ask",
+  (event, tabId: number, requestId: string, question: string, history: PageAssistantMessage[]) => {
+    streamResponse(event.sender, tabId, requestId, (page, signal) =>
+      aiService.askAboutPage(page, question, history, signal)
+    );
+  }
+);
+
+ipcMain.on("page-assistant:cancel", (_event, requestId: string) => {
+  activeRequests.get(requestId)?.abort();
+});
@@ -0,0 +1,38 @@
+import { browser } from "@/index";
+import { getProfileIdFromWebContents } from "@/ipc/browser/history";
+import { getPendingSnoozedItems } from "@/modules/bookmarks";
+import { cancelSnooze, snoozeBookmark, snoozeTab, wakeSnoozedItem } from "@/modules/snooze";
+import { ipcMain } from "electron";
+import { SnoozeType } from "~/types/snooze";
+
+ipcMain.handle("snooze:snooze-tab", async (_event, tabId: number, snoozeType: SnoozeType, customTime?: number) => {
+  const tab = browser?.getTabFromId(tabId);
+  if (!tab) return null;
+
+  return await snoozeTab(tab, snoozeType, customTime);
+});
+
+ipcMain.handle(
+  "snooze:snooze-bookmark",
+  async (event, bookmarkId: string, snoozeType: SnoozeType, customTime?: number) => {
+    const window = browser?.getWindowFromWebContents(event.sender);
+    const snoozedFromSpaceId = window?.getCurrentSpace() ?? undefined;
+
+    return await snoozeBookmark(bookmarkId, snoozeType, customTime, snoozedFromSpaceId);
+  }
+);
+
+ipcMain.handle("snooze:get-items", async (event) => {
+  const profileId = await getProfileIdFromWebContents(event.sender);
+  if (!profileId) return [];
+
+  return await getPendingSnoozedItems(profileId);
+});
+
+ipcMain.handle("snooze:wake", async (_event, id: string) => {
+  return await wakeSnoozedItem(id, true);
+});
+
+ipcMain.handle("snooze:cancel", async (_event, id: string) => {
+  return await cancelSnooze(id);
+});
@@ -1,10 +1,12 @@
+import { closeTab, closeTabGroup, getRecentlyClosed, reopenClosedTab } from "@/browser/tabs/recently-closed";
 import { Tab } from "@/browser/tabs/tab";
 import { BaseTabGroup, TabGroup } from "@/browser/tabs/tab-groups";
 import { TabbedBrowserWindow } from "@/browser/window";
 import { browser } from "@/index";
+import { addFavorite } from "@/saving/favorites";
 import { getSpace } from "@/sessions/spaces";
 import { clipboard, ipcMain, Menu, MenuItem } from "electron";
-import { TabData, TabGroupData, WindowActiveTabIds, WindowFocusedTabIds } from "~/types/tabs";
+import { SplitSide, TabData, TabGroupData, WindowActiveTabIds, WindowFocusedTabIds } from "~/types/tabs";
 
 export function getTabData(tab: Tab): TabData {
   return {
@@ -28,6 +30,9 @@ export function getTabData(tab: Tab): TabData {
     faviconURL: tab.faviconURL,
     asleep: tab.asleep,
 
+    pinned: tab.pinned,
+    pinnedUrl: tab.pinnedUrl,
+
     navHistory: tab.navHistory,
     navHistoryIndex: tab.navHistoryIndex
   };
@@ -41,6 +46,8 @@ export function getTabGroupData(tabGroup: TabGroup): TabGroupData {
     spaceId: tabGroup.spaceId,
     tabIds: tabGroup.tabs.map((tab) => tab.id),
     glanceFrontTabId: tabGroup.mode === "glance" ? tabGroup.frontTabId : undefined,
+    splitOrientation: tabGroup.mode === "split" ? tabGroup.orientation : undefined,
+    splitSizes: tabGroup.mode === "split" ? tabGroup.sizes : undefined,
     position: tabGroup.position
   };
 }
@@ -181,6 +188,7 @@ ipcMain.handle("tabs:new-tab", async (event, url?: string, isForeground?: boolea
   const tab = await tabManager.createTab(window.id, space.profileId, space.id);
 
   if (url) {
+    tab.history.setNextTransition("typed");
     tab.loadURL(url);
   }
 
@@ -201,8 +209,30 @@ ipcMain.handle("tabs:close-tab", async (event, tabId: number) => {
   const tab = tabManager.getTabById(tabId);
   if (!tab) return false;
 
-  tab.destroy();
-  return true;
+  return await closeTab(tab);
+});
+
+ipcMain.handle("tabs:close-tab-group", async (_event, tabGroupId: number) => {
+  const tabGroup = browser?.tabs.getTabGroupById(tabGroupId);
+  if (!tabGroup) return false;
+
+  return await closeTabGroup(tabGroup);
+});
+
+ipcMain.handle("tabs:get-recently-closed", async (event) => {
+  const webContents = event.sender;
+  const window = browser?.getWindowFromWebContents(webContents);
+  if (!window) return [];
+
+  return getRecentlyClosed(window.id);
+});
+
+ipcMain.handle("tabs:reopen-closed-tab", async (event, entryId?: string) => {
+  const webContents = event.sender;
+  const window = browser?.getWindowFromWebContents(webContents);
+  if (!window) return false;
+
+  return await reopenClosedTab(window, entryId);
 });
 
 ipcMain.handle("tabs:disable-picture-in-picture", async (event, goBackToTab: boolean) => {
@@ -254,6 +284,7 @@ ipcMain.handle("tabs:move-tab", async (event, tabId: number, newPosition: number
   for (const targetTab of targetTabs) {
     targetTab.updateStateProperty("position", newPosition);
   }
+  tabGroup?.saveTabGroupToStorage();
 
   return true;
 });
@@ -272,6 +303,9 @@ ipcMain.handle("tabs:move-tab-to-window-space", async (event, tabId: number, spa
   const space = await getSpace(spaceId);
   if (!space) return false;
 
+  // Tabs cannot leave the session of a private window
+  if (tab.getWindow().isPrivate !== window.isPrivate) return false;
+
   tab.setSpace(spaceId);
   tab.setWindow(window);
 
@@ -283,6 +317,70 @@ ipcMain.handle("tabs:move-tab-to-window-space", async (event, tabId: number, spa
   return true;
 });
 
+const SPLIT_SIDES: SplitSide[] = ["left", "right", "top", "bottom"];
+
+ipcMain.handle("tabs:split-tab", async (event, tabId: number, side: SplitSide) => {
+  const webContents = event.sender;
+  const window = browser?.getWindowFromWebContents(webContents);
+  if (!window) return false;
+
+  const tabManager = browser?.tabs;
+  if (!tabManager) return false;
+
+  if (!SPLIT_SIDES.includes(side)) return false;
+
+  const spaceId = window.getCurrentSpace();
+  if (!spaceId) return false;
+
+  const splitTabGroup = tabManager.splitTab(tabId, window.id, spaceId, side);
+  return splitTabGroup !== null;
+});
+
+ipcMain.handle("tabs:unsplit-tab", async (_event, tabId: number) => {
+  const tabManager = browser?.tabs;
+  if (!tabManager) return false;
+
+  return tabManager.unsplitTab(tabId);
+});
+
+ipcMain.handle("tabs:set-split-sizes", async (_event, tabGroupId: number, sizes: number[], persist?: boolean) => {
+  const tabManager = browser?.tabs;
+  if (!tabManager) return false;
+
+  const tabGroup = tabManager.getTabGroupById(tabGroupId);
+  if (!tabGroup || tabGroup.mode !== "split") return false;
+  if (!Array.isArray(sizes)) return false;
+
+  return tabGroup.setSizes(sizes, persist ?? true);
+});
+
+function getGlanceTabGroup(tabGroupId: number) {
+  const tabGroup = browser?.tabs.getTabGroupById(tabGroupId);
+  if (!tabGroup || tabGroup.mode !== "glance") return null;
+  return tabGroup;
+}
+
+ipcMain.handle("tabs:close-glance", async (_event, tabGroupId: number) => {
+  const tabGroup = getGlanceTabGroup(tabGroupId);
+  if (!tabGroup) return false;
+
+  return tabGroup.closeFrontTab();
+});
+
+ipcMain.handle("tabs:expand-glance", async (_event, tabGroupId: number) => {
+  const tabGroup = getGlanceTabGroup(tabGroupId);
+  if (!tabGroup) return false;
+
+  return tabGroup.expandFrontTab();
+});
+
+ipcMain.handle("tabs:split-glance", async (_event, tabGroupId: number) => {
+  const tabGroup = getGlanceTabGroup(tabGroupId);
+  if (!tabGroup) return false;
+
+  return tabGroup.splitFrontTab();
+});
+
 ipcMain.on("tabs:show-context-menu", (event, tabId: number) => {
   const webContents = event.sender;
   const tabbedWindow = browser?.getWindowFromWebContents(webContents);
@@ -317,6 +415,50 @@ ipcMain.on("tabs:show-context-menu", (event, tabId: number) => {
     })
   );
 
+  contextMenu.append(
+    new MenuItem({
+      label: tab.pinned ? "Unpin Tab" : "Pin Tab",
+      click: () => {
+        if (tab.pinned) {
+          tab.unpin();
+        } else {
+          tab.pin();
+        }
+      }
+    })
+  );
+
+  if (tab.pinned && tab.pinnedUrl) {
+    contextMenu.append(
+      new MenuItem({
+        label: "Reset to Pinned URL",
+        enabled: tab.url !== tab.pinnedUrl,
+        click: () => {
+          tab.resetToPinnedUrl();
+        }
+      })
+    );
+  }
+
+  // Favorites are saved, so tabs of private windows cannot be added to them
+  const isPrivateTab = tab.getWindow().isPrivate;
+  contextMenu.append(
+    new MenuItem({
+      label: "Add to Favorites",
+      enabled: hasURL && !isPrivateTab,
+      click: () => {
+        if (!tab.url || tab.getWindow().isPrivate) return;
+        addFavorite(tab.profileId, { title: tab.title, url: tab.url, faviconURL: tab.faviconURL });
+      }
+    })
+  );
+
+  contextMenu.append(
+    new MenuItem({
+      type: "separator"
+    })
+  );
+
   contextMenu.append(
     new MenuItem({
       label: isTabVisible ? "Cannot put active tab to sleep" : tab.asleep ? "Wake Tab" : "Put Tab to Sleep",
@@ -332,11 +474,23 @@ ipcMain.on("tabs:show-context-menu", (event, tabId: number) => {
     })
   );
 
+  const tabGroup = tabManager.getTabGroupByTabId(tab.id);
+  if (tabGroup?.mode === "split") {
+    contextMenu.append(
+      new MenuItem({
+        label: "Remove from Split View",
+        click: () => {
+          tabManager.unsplitTab(tab.id);
+        }
+      })
+    );
+  }
+
   contextMenu.append(
     new MenuItem({
       label: "Close Tab",
       click: () => {
-        tab.destroy();
+        closeTab(tab);
       }
     })
   );
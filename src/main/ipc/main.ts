@@ -11,6 +11,13 @@ import "@/ipc/browser/page";
 import "@/ipc/browser/navigation";
 import "@/ipc/browser/interface";
 import "@/ipc/browser/bookmarks";
+import "@/ipc/browser/history";
+import "@/ipc/browser/archive";
+import "@/ipc/browser/snooze";
+import "@/ipc/browser/downloads";
+import "@/ipc/browser/favorites";
+import "@/ipc/browser/find-in-page";
+import "@/ipc/browser/page-assistant";
 import "@/ipc/window/omnibox";
 import "@/ipc/app/new-tab";
 
@@ -22,6 +29,8 @@ import "@/ipc/session/spaces";
 import "@/ipc/window/settings";
 import "@/ipc/app/icons";
 import "@/ipc/app/open-external";
+import "@/ipc/app/site-permissions";
+import "@/ipc/app/search-engines";
 import "@/ipc/app/onboarding";
 
 // AI Services
@@ -0,0 +1,322 @@
+// Label the bookmark library with AI in the background
+// The queue is saved, so a batch carries on after a restart. Requests are spaced out to stay
+// under the rate limits of the provider, and failed bookmarks are retried with a growing delay.
+
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { aiService } from "@/modules/ai-service";
+import { AIBudgetExceededError } from "@/modules/ai-usage";
+import { addAILabels, getBookmark, getUnlabeledBookmarkIds } from "@/modules/bookmarks";
+import { contentFetcher } from "@/modules/content-fetcher";
+import { debugError, debugPrint } from "@/modules/output";
+import { sleep } from "@/modules/utils";
+import { getDatastore } from "@/saving/datastore";
+import { app } from "electron";
+import type { AILabelingProgress, AILabelingStatus, BookmarkLabel } from "~/flow/interfaces/ai";
+import type { Bookmark } from "~/types/bookmarks";
+
+const LabelingDataStore = getDatastore("ai-labeling");
+
+// Time between two analyses
+const REQUEST_INTERVAL_MS = 3 * 1000;
+
+// A bookmark is retried after 30 seconds, then a minute, before giving up
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+type LabelingJob = {
+  bookmarkId: string;
+  attempts: number;
+  retryAt?: number;
+};
+
+type LabelingQueue = {
+  status: AILabelingStatus;
+  jobs: LabelingJob[];
+  total: number;
+  labeled: number;
+  skipped: number;
+  failed: number;
+  lastError?: string;
+};
+
+function createEmptyQueue(): LabelingQueue {
+  return { status: "idle", jobs: [], total: 0, labeled: 0, skipped: 0, failed: 0 };
+}
+
+let queue: LabelingQueue = createEmptyQueue();
+let currentBookmarkTitle: string | undefined;
+let isProcessing = false;
+
+const whenQueueLoaded = LabelingDataStore.get<LabelingQueue>("queue")
+  .then((savedQueue) => {
+    if (savedQueue) {
+      queue = { ...createEmptyQueue(), ...savedQueue };
+    }
+  })
+  .catch((error) => {
+    debugError("AI_LABELING", "Failed to load the labeling queue:", error);
+  });
+
+/**
+ * Gets the progress of the current batch
+ */
+export function getAILabelingProgress(): AILabelingProgress {
+  return {
+    status: queue.status,
+    total: queue.total,
+    labeled: queue.labeled,
+    skipped: queue.skipped,
+    failed: queue.failed,
+    remaining: queue.jobs.length,
+    currentBookmarkTitle,
+    lastError: queue.lastError
+  };
+}
+
+function fireOnProgressChanged() {
+  sendMessageToListeners("ai:on-labeling-progress", getAILabelingProgress());
+}
+
+async function saveQueue() {
+  await LabelingDataStore.set("queue", queue).catch((error) => {
+    debugError("AI_LABELING", "Failed to save the labeling queue:", error);
+  });
+  fireOnProgressChanged();
+}
+
+function removeJob(job: LabelingJob) {
+  queue.jobs = queue.jobs.filter((otherJob) => otherJob !== job);
+}
+
+/**
+ * Picks the labels to apply, following the confidence threshold and label limit of the AI settings
+ */
+async function getLabelsToApply(labels: BookmarkLabel[]) {
+  const settings = await aiService.getSettings();
+
+  return labels
+    .filter((label) => label.confidence >= settings.confidenceThreshold)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, settings.autoApply?.maxLabels || 1);
+}
+
+async function analyzeBookmark(bookmark: Bookmark) {
+  const page = await contentFetcher.fetchPageContent(bookmark.url, {
+    maxContentLength: 5000,
+    includeMetadata: true,
+    timeout: 10000
+  });
+
+  // Pages that can't be fetched are analyzed from what the bookmark itself says about them
+  const fallbackContent = [
+    `Title: ${bookmark.title}`,
+    `URL: ${bookmark.url}`,
+    `Description: ${bookmark.description || "No description available"}`
+  ].join("\n");
+
+  // Provider errors have to reach the queue, which retries them
+  return await aiService.analyzeBookmark(
+    {
+      url: bookmark.url,
+      title: page.content ? page.title || bookmark.title : bookmark.title,
+      content: page.content || fallbackContent,
+      existingLabels: []
+    },
+    { throwOnError: true }
+  );
+}
+
+/**
+ * Labels the bookmark of a job
+ * A failed job is kept in the queue to be retried later, until it runs out of attempts.
+ */
+async function processJob(job: LabelingJob) {
+  const bookmark = await getBookmark(job.bookmarkId);
+
+  // The bookmark might have been deleted or labeled since it was queued
+  if (!bookmark || bookmark.deletedAt || bookmark.labels?.length) {
+    removeJob(job);
+    queue.skipped++;
+    return;
+  }
+
+  currentBookmarkTitle = bookmark.title;
+  fireOnProgressChanged();
+
+  try {
+    const analysis = await analyzeBookmark(bookmark);
+    const labels = await getLabelsToApply(analysis.labels);
+
+    // The batch might have been cancelled during the analysis
+    if (!queue.jobs.includes(job)) return;
+
+    if (labels.length > 0) {
+      await addAILabels(bookmark.id, labels);
+      queue.labeled++;
+    } else {
+      queue.skipped++;
+    }
+    removeJob(job);
+    debugPrint("AI_LABELING", `Labeled bookmark ${bookmark.id} with ${labels.length} labels`);
+  } catch (error) {
+    if (!queue.jobs.includes(job)) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Retrying is pointless until the budget is raised or the month is over
+    if (error instanceof AIBudgetExceededError) {
+      queue.status = "paused";
+      queue.lastError = message;
+      return;
+    }
+
+    debugError("AI_LABELING", `Failed to label bookmark ${bookmark.id}:`, message);
+
+    job.attempts++;
+    if (job.attempts >= MAX_ATTEMPTS) {
+      removeJob(job);
+      queue.failed++;
+      queue.lastError = message;
+    } else {
+      job.retryAt = Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+    }
+  } finally {
+    currentBookmarkTitle = undefined;
+  }
+}
+
+async function processQueue() {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    while (queue.status === "running") {
+      if (queue.jobs.length === 0) {
+        queue.status = "idle";
+        await saveQueue();
+        break;
+      }
+
+      // Jobs that are waiting to be retried go after the others
+      const now = Date.now();
+      const job = queue.jobs.find((job) => !job.retryAt || job.retryAt <= now);
+      if (!job) {
+        const nextRetryAt = Math.min(...queue.jobs.map((job) => job.retryAt ?? now));
+        await sleep(Math.max(nextRetryAt - now, REQUEST_INTERVAL_MS));
+        continue;
+      }
+
+      if (!(await aiService.isEnabled())) {
+        queue.status = "paused";
+        queue.lastError = "AI is not enabled or configured";
+        await saveQueue();
+        break;
+      }
+
+      await processJob(job);
+      await saveQueue();
+      await sleep(REQUEST_INTERVAL_MS);
+    }
+  } catch (error) {
+    debugError("AI_LABELING", "Labeling queue stopped:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+function addJobs(bookmarkIds: string[]) {
+  // A new batch starts once the last one has finished
+  if (queue.status === "idle") {
+    queue = createEmptyQueue();
+  }
+
+  const queuedIds = new Set(queue.jobs.map((job) => job.bookmarkId));
+  const newJobs = bookmarkIds
+    .filter((bookmarkId) => !queuedIds.has(bookmarkId))
+    .map((bookmarkId) => ({ bookmarkId, attempts: 0 }));
+
+  queue.jobs.push(...newJobs);
+  queue.total += newJobs.length;
+  return newJobs.length;
+}
+
+/**
+ * Queues every bookmark without labels and starts labeling them
+ */
+export async function startAILabeling() {
+  await whenQueueLoaded;
+
+  const bookmarkIds = await getUnlabeledBookmarkIds();
+  addJobs(bookmarkIds);
+
+  if (queue.jobs.length > 0) {
+    queue.status = "running";
+    queue.lastError = undefined;
+  }
+  await saveQueue();
+
+  processQueue();
+  return getAILabelingProgress();
+}
+
+/**
+ * Queues a new bookmark, if the AI settings ask for new bookmarks to be analyzed
+ */
+export async function queueBookmarkForLabeling(bookmark: Bookmark) {
+  if (bookmark.labels?.length) return false;
+
+  const settings = await aiService.getSettings();
+  if (!settings.autoAnalyze || !(await aiService.isEnabled())) return false;
+
+  await whenQueueLoaded;
+  if (addJobs([bookmark.id]) === 0) return false;
+
+  // A paused batch stays paused
+  if (queue.status === "idle") {
+    queue.status = "running";
+  }
+  await saveQueue();
+
+  processQueue();
+  return true;
+}
+
+export async function pauseAILabeling() {
+  await whenQueueLoaded;
+  if (queue.status !== "running") return false;
+
+  queue.status = "paused";
+  await saveQueue();
+  return true;
+}
+
+export async function resumeAILabeling() {
+  await whenQueueLoaded;
+  if (queue.status !== "paused") return false;
+
+  queue.status = "running";
+  queue.lastError = undefined;
+  await saveQueue();
+
+  processQueue();
+  return true;
+}
+
+/**
+ * Stops labeling and forgets the bookmarks that are left in the queue
+ */
+export async function cancelAILabeling() {
+  await whenQueueLoaded;
+
+  queue = createEmptyQueue();
+  await saveQueue();
+  return true;
+}
+
+// Carry on with the batch of the last session
+app.whenReady().then(async () => {
+  await whenQueueLoaded;
+  if (queue.status === "running") {
+    processQueue();
+  }
+});
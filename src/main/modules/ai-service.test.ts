@@ -0,0 +1,158 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/saving/settings", () => ({
+  SettingsDataStore: {
+    get: vi.fn(async () => undefined),
+    set: vi.fn(async () => undefined)
+  }
+}));
+
+vi.mock("@/modules/bookmarks", () => ({
+  getBookmarkEmbeddings: vi.fn(async () => new Map()),
+  getBookmarkEmbeddingText: (source: { title: string; url: string }) => `${source.title}\n${source.url}`
+}));
+
+// Requests are not metered, as the usage is stored in the database
+vi.mock("@/modules/ai-usage", () => ({
+  AIBudgetExceededError: class AIBudgetExceededError extends Error {},
+  estimateTokens: (text: string) => Math.ceil(text.length / 4),
+  meterAIRequest: <T>(_details: unknown, run: () => Promise<T>) => run(),
+  startAIRequest: async () => ({ succeed: () => {}, fail: () => {} })
+}));
+
+import { aiService } from "@/modules/ai-service";
+import { getBookmarkEmbeddings } from "@/modules/bookmarks";
+import { localEmbedder } from "@/modules/embedders";
+
+type ChatRequest = {
+  model: string;
+  messages: { role: string; content: string }[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+};
+
+// A local stub of an OpenAI-compatible server, which answers every chat with the same labels
+const requests: ChatRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+const STUB_ANSWER = JSON.stringify({
+  labels: [
+    { label: "Programming", category: "topic", confidence: 0.9, reasoning: "About code" },
+    { label: "Unsure", category: "topic", confidence: 0.2 }
+  ],
+  suggestedDescription: "A page about programming",
+  language: "en"
+});
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    if (request.method !== "POST" || request.url !== "/v1/chat/completions") {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const body: ChatRequest = JSON.parse(await readBody(request));
+    requests.push(body);
+
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({
+        id: "chatcmpl-stub",
+        object: "chat.completion",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: STUB_ANSWER } }],
+        usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+      })
+    );
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+const bookmark = {
+  url: "https://example.com/typescript",
+  title: "Learning TypeScript",
+  content: "A guide to types in TypeScript"
+};
+
+describe("openai-compatible provider", () => {
+  it("labels bookmarks with the model of the custom endpoint", async () => {
+    await aiService.updateSettings({ enabled: true, provider: "openai-compatible", baseUrl, model: "stub-model" });
+
+    const analysis = await aiService.analyzeBookmark(bookmark);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toBe("stub-model");
+    // Custom endpoints are sent the older token limit parameter
+    expect(requests[0].max_tokens).toBeDefined();
+    expect(requests[0].max_completion_tokens).toBeUndefined();
+
+    expect(analysis.labels.map((label) => label.label)).toEqual(["Programming"]);
+    expect(analysis.suggestedDescription).toBe("A page about programming");
+  });
+
+  it("refuses requests when no model is set", async () => {
+    await aiService.updateSettings({ enabled: true, provider: "openai-compatible", baseUrl, model: "" });
+
+    await expect(aiService.analyzeBookmark(bookmark)).rejects.toThrow("No model is set for the custom endpoint");
+    await expect(aiService.generateDescription(bookmark)).rejects.toThrow("No model is set for the custom endpoint");
+
+    const page = { url: bookmark.url, title: bookmark.title, text: bookmark.content, truncated: false };
+    const stream = aiService.summarizePage(page, new AbortController().signal);
+    await expect(stream.next()).rejects.toThrow("No model is set for the custom endpoint");
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it("embeds locally without an embedding model", async () => {
+    await aiService.updateSettings({ enabled: true, provider: "openai-compatible", baseUrl, model: "stub-model" });
+
+    expect(await aiService.getEmbedder()).toBe(localEmbedder);
+  });
+});
+
+describe("findDuplicates", () => {
+  it("only compares the embeddings of bookmarks that are already embedded", async () => {
+    await aiService.updateSettings({ enabled: true, provider: "openai-compatible", baseUrl, model: "stub-model" });
+
+    const [storedVector] = await localEmbedder.embed(["Learning TypeScript\nhttps://example.org/typescript-guide"]);
+    vi.mocked(getBookmarkEmbeddings).mockResolvedValueOnce(new Map([["embedded", storedVector]]));
+    const embed = vi.spyOn(localEmbedder, "embed");
+
+    const duplicates = await aiService.findDuplicates(bookmark, [
+      { id: "embedded", url: "https://example.org/typescript-guide", title: "Learning TypeScript" },
+      { id: "not-embedded", url: "https://example.net/bread", title: "Sourdough bread" }
+    ]);
+
+    // Only the new bookmark is embedded
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0]).toHaveLength(1);
+
+    expect(duplicates.map((duplicate) => duplicate.existingBookmark.id)).toEqual(["embedded"]);
+  });
+});
@@ -1,13 +1,25 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { SettingsDataStore } from '@/saving/settings';
+import { getBookmarkEmbeddings, getBookmarkEmbeddingText } from '@/modules/bookmarks';
+import { cosineSimilarity, createOpenAIEmbedder, localEmbedder, type Embedder } from '@/modules/embedders';
+import { AIBudgetExceededError, estimateTokens, meterAIRequest, startAIRequest, type AITokenUsage } from '@/modules/ai-usage';
 import type { 
   AISettings, 
   BookmarkAnalysisRequest, 
   BookmarkLabel, 
   CategoryAnalysis, 
+  AIOperation,
   DuplicateCandidate 
 } from '~/flow/interfaces/ai';
+import type { PageAssistantMessage, TabPageContent } from '~/flow/interfaces/browser/pageAssistant';
+
+const MISSING_CUSTOM_MODEL_ERROR = 'No model is set for the custom endpoint. Pick one of its models in the AI settings';
+
+export interface AnalysisOptions {
+  // Throw when the provider fails, instead of answering without labels, so the caller can retry
+  throwOnError?: boolean;
+}
 
 class AIService {
   private openai: OpenAI | null = null;
@@ -38,6 +50,9 @@ class AIService {
         return 'gpt-5-nano';
       case 'claude':
         return 'claude-3-5-sonnet-20241022';
+      case 'openai-compatible':
+        // Custom endpoints serve their own models, so there is no sensible default
+        return '';
       default:
         return 'gpt-5-nano';
     }
@@ -63,17 +78,7 @@ class AIService {
         console.log('🔧 AI Settings loaded:', this.settings);
         
         // Initialize AI clients if we have settings
-        if (this.settings.apiKey) {
-          if (this.settings.provider === 'openai') {
-            this.openai = new OpenAI({
-              apiKey: this.settings.apiKey,
-            });
-          } else if (this.settings.provider === 'claude') {
-            this.claude = new Anthropic({
-              apiKey: this.settings.apiKey,
-            });
-          }
-        }
+        this.initializeClients();
       } else {
         console.log('🔧 No saved AI settings found, using defaults');
       }
@@ -91,22 +96,7 @@ class AIService {
     }
     
     // Initialize AI clients based on provider
-    if (this.settings.apiKey) {
-      if (this.settings.provider === 'openai') {
-        this.openai = new OpenAI({
-          apiKey: this.settings.apiKey,
-        });
-        this.claude = null;
-      } else if (this.settings.provider === 'claude') {
-        this.claude = new Anthropic({
-          apiKey: this.settings.apiKey,
-        });
-        this.openai = null;
-      }
-    } else {
-      this.openai = null;
-      this.claude = null;
-    }
+    this.initializeClients();
     
     // Save settings to persistent storage
     try {
@@ -117,16 +107,103 @@ class AIService {
     }
   }
 
+  private initializeClients() {
+    this.openai = null;
+    this.claude = null;
+
+    const { provider, apiKey, baseUrl } = this.settings;
+    if (provider === 'openai' && apiKey) {
+      this.openai = new OpenAI({
+        apiKey,
+      });
+    } else if (provider === 'claude' && apiKey) {
+      this.claude = new Anthropic({
+        apiKey,
+      });
+    } else if (provider === 'openai-compatible' && baseUrl?.trim()) {
+      // Local servers usually don't check the key, but the client refuses to start without one
+      this.openai = new OpenAI({
+        baseURL: baseUrl.trim(),
+        apiKey: apiKey || 'not-needed',
+      });
+    }
+  }
+
+  // Both OpenAI and custom endpoints speak the OpenAI API
+  private usesOpenAIClient(): boolean {
+    return this.settings.provider === 'openai' || this.settings.provider === 'openai-compatible';
+  }
+
+  /**
+   * Gets the model to send requests through the OpenAI client to
+   * Custom endpoints serve their own models, so they are refused without one instead of being sent an OpenAI model.
+   */
+  private getOpenAIModel(): string {
+    if (this.settings.model) return this.settings.model;
+    if (this.settings.provider === 'openai-compatible') {
+      throw new Error(MISSING_CUSTOM_MODEL_ERROR);
+    }
+    return 'gpt-5-nano';
+  }
+
+  // Explains why requests are refused, for providers that isEnabled() turned down
+  private getNotEnabledError(): Error {
+    if (this.settings.enabled && this.settings.provider === 'openai-compatible' && !this.settings.model) {
+      return new Error(MISSING_CUSTOM_MODEL_ERROR);
+    }
+    return new Error('AI service is not enabled or configured');
+  }
+
+  // Every request to a provider is metered, see ai-usage.ts
+  private getRequestDetails(operation: AIOperation, model: string) {
+    return { provider: this.settings.provider, model, operation, budget: this.settings.budget };
+  }
+
+  private getOpenAIUsage(response: OpenAI.Chat.Completions.ChatCompletion): AITokenUsage {
+    return {
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0
+    };
+  }
+
+  private getClaudeUsage(response: Anthropic.Messages.Message): AITokenUsage {
+    return {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens
+    };
+  }
+
+  /**
+   * Gets the embedder for semantic search and duplicate detection
+   * Claude has no embeddings API, and custom endpoints need an embedding model, so they use local embeddings.
+   */
+  public async getEmbedder(): Promise<Embedder> {
+    await this.ensureInitialized();
+
+    const embeddingModel = this.settings.embeddingModel?.trim() ||
+      (this.settings.provider === 'openai' ? 'text-embedding-3-small' : undefined);
+
+    if (this.settings.enabled && this.usesOpenAIClient() && this.openai && embeddingModel) {
+      const endpoint = this.settings.provider === 'openai' ? 'openai' : this.settings.baseUrl?.trim();
+      return createOpenAIEmbedder(this.openai, embeddingModel, `${endpoint}:${embeddingModel}`, {
+        provider: this.settings.provider,
+        budget: this.settings.budget
+      });
+    }
+    return localEmbedder;
+  }
+
   public async isEnabled(): Promise<boolean> {
     await this.ensureInitialized();
     return this.settings.enabled && (
       (this.settings.provider === 'openai' && this.openai !== null) ||
       (this.settings.provider === 'claude' && this.claude !== null) ||
+      (this.settings.provider === 'openai-compatible' && this.openai !== null && !!this.settings.model) ||
       this.settings.provider === 'local'
     );
   }
 
-  public async analyzeBookmark(request: BookmarkAnalysisRequest): Promise<CategoryAnalysis> {
+  public async analyzeBookmark(request: BookmarkAnalysisRequest, options: AnalysisOptions = {}): Promise<CategoryAnalysis> {
     console.log(`AI-SERVICE: Starting bookmark analysis for "${request.title}"`);
     console.log(`AI-SERVICE: URL: ${request.url}`);
     console.log(`AI-SERVICE: Content length: ${request.content?.length || 0}`);
@@ -136,35 +213,33 @@ class AIService {
     
     if (!(await this.isEnabled())) {
       console.error('AI-SERVICE: AI service is not enabled or configured');
-      throw new Error('AI service is not enabled or configured');
+      throw this.getNotEnabledError();
     }
 
     // Force reinitialize OpenAI client if settings exist but client is null
-    if (this.settings.provider === 'openai' && this.settings.apiKey && !this.openai) {
+    if (this.usesOpenAIClient() && !this.openai) {
       console.log('AI-SERVICE: Reinitializing OpenAI client...');
       try {
-        this.openai = new OpenAI({
-          apiKey: this.settings.apiKey,
-        });
+        this.initializeClients();
         console.log('AI-SERVICE: OpenAI client reinitialized successfully');
       } catch (error) {
         console.error('AI-SERVICE: Failed to reinitialize OpenAI client:', error);
       }
     }
 
-    if (this.settings.provider === 'openai' && this.openai) {
-      console.log('AI-SERVICE: Using OpenAI for analysis');
-      return this.analyzeWithOpenAI(request);
+    if (this.usesOpenAIClient() && this.openai) {
+      console.log(`AI-SERVICE: Using ${this.settings.provider === 'openai' ? 'OpenAI' : this.settings.baseUrl} for analysis`);
+      return this.analyzeWithOpenAI(request, options);
     } else if (this.settings.provider === 'claude' && this.claude) {
       console.log('AI-SERVICE: Using Claude for analysis');
-      return this.analyzeWithClaude(request);
+      return this.analyzeWithClaude(request, options);
     } else {
       console.log('AI-SERVICE: Falling back to local analysis');
       return this.analyzeLocally(request);
     }
   }
 
-  private async analyzeWithOpenAI(request: BookmarkAnalysisRequest): Promise<CategoryAnalysis> {
+  private async analyzeWithOpenAI(request: BookmarkAnalysisRequest, options: AnalysisOptions): Promise<CategoryAnalysis> {
     console.log('AI-SERVICE: Starting OpenAI analysis');
     
     if (!this.openai) {
@@ -176,7 +251,7 @@ class AIService {
     console.log(`AI-SERVICE: Generated prompt (${prompt.length} chars)`);
     console.log(`AI-SERVICE: Prompt preview: ${prompt.substring(0, 200)}...`);
     
-    const model = this.settings.model || 'gpt-5-nano';
+    const model = this.getOpenAIModel();
     
     // Nano models use reasoning tokens internally and need much higher limits
     const isNanoModel = model.includes('nano');
@@ -184,6 +259,11 @@ class AIService {
     
     console.log(`AI-SERVICE: Model type: ${isNanoModel ? 'nano (reasoning model)' : 'standard'}`);
     
+    // Many OpenAI-compatible servers only understand the older max_tokens parameter
+    const tokenLimit = this.settings.provider === 'openai-compatible'
+      ? { max_tokens: maxTokens }
+      : { max_completion_tokens: maxTokens };
+    
     const requestPayload = {
       model: model,
       messages: [
@@ -192,16 +272,21 @@ class AIService {
           content: prompt
         }
       ],
-      max_completion_tokens: maxTokens,
+      ...tokenLimit,
     };
     
     console.log(`AI-SERVICE: Using model: ${requestPayload.model}`);
-    console.log(`AI-SERVICE: Max completion tokens: ${requestPayload.max_completion_tokens}`);
+    console.log(`AI-SERVICE: Max completion tokens: ${maxTokens}`);
     
     try {
       console.log('AI-SERVICE: Sending request to OpenAI...');
       const startTime = Date.now();
-      const response = await this.openai.chat.completions.create(requestPayload);
+      const openai = this.openai;
+      const response = await meterAIRequest(
+        this.getRequestDetails('analyze', model),
+        () => openai.chat.completions.create(requestPayload),
+        (response) => this.getOpenAIUsage(response)
+      );
       const duration = Date.now() - startTime;
       console.log(`AI-SERVICE: OpenAI request completed in ${duration}ms`);
       
@@ -229,6 +314,9 @@ class AIService {
       
       return result;
     } catch (error) {
+      // Running out of budget is not a problem with the request, so it is left to the caller
+      if (error instanceof AIBudgetExceededError || options.throwOnError) throw error;
+
       console.error('AI-SERVICE: OpenAI analysis failed:', error);
       
       // Return detailed error info in the analysis response
@@ -275,26 +363,32 @@ class AIService {
     }
   }
 
-  private async analyzeWithClaude(request: BookmarkAnalysisRequest): Promise<CategoryAnalysis> {
+  private async analyzeWithClaude(request: BookmarkAnalysisRequest, options: AnalysisOptions): Promise<CategoryAnalysis> {
     if (!this.claude) {
       throw new Error('Claude client not initialized');
     }
 
     const prompt = this.buildAnalysisPrompt(request);
+    const claude = this.claude;
+    const model = this.settings.model || 'claude-3-5-sonnet-20241022';
     
     try {
-      const response = await this.claude.messages.create({
-        model: this.settings.model || 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.3,
-        system: 'You are an expert at analyzing web content and categorizing bookmarks. Return only valid JSON responses.',
-        messages: [
-          {
-            role: 'user' as const,
-            content: prompt
-          }
-        ]
-      });
+      const response = await meterAIRequest(
+        this.getRequestDetails('analyze', model),
+        () => claude.messages.create({
+          model,
+          max_tokens: 1000,
+          temperature: 0.3,
+          system: 'You are an expert at analyzing web content and categorizing bookmarks. Return only valid JSON responses.',
+          messages: [
+            {
+              role: 'user' as const,
+              content: prompt
+            }
+          ]
+        }),
+        (response) => this.getClaudeUsage(response)
+      );
 
       const content = response.content[0];
       if (content.type !== 'text' || !content.text) {
@@ -303,6 +397,8 @@ class AIService {
 
       return this.parseAIResponse(content.text, request);
     } catch (error) {
+      if (error instanceof AIBudgetExceededError || options.throwOnError) throw error;
+
       console.error('Claude API error:', error);
       // Fallback to local analysis
       return this.analyzeLocally(request);
@@ -522,14 +618,14 @@ OUTPUT FORMAT (valid JSON only):
   public async generateDescription(request: BookmarkAnalysisRequest): Promise<string> {
     await this.ensureInitialized();
     if (!(await this.isEnabled())) {
-      throw new Error('AI service is not enabled or configured');
+      throw this.getNotEnabledError();
     }
     
     if (this.settings.provider === 'local') {
-      throw new Error('Description generation requires AI provider (OpenAI or Claude)');
+      throw new Error('Description generation requires AI provider (OpenAI, Claude or a custom endpoint)');
     }
     
-    if (this.settings.provider === 'openai' && this.openai) {
+    if (this.usesOpenAIClient() && this.openai) {
       return this.generateDescriptionWithOpenAI(request);
     } else if (this.settings.provider === 'claude' && this.claude) {
       return this.generateDescriptionWithClaude(request);
@@ -553,25 +649,34 @@ Content Preview: ${request.content?.substring(0, 1000) || 'No content available'
 Please provide a 1-2 sentence description that explains what this bookmark is about and why someone might want to save it. Focus on the key value or purpose of the content.
 `.trim();
 
+    const openai = this.openai;
+    const model = this.getOpenAIModel();
+
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.settings.model || 'gpt-5-nano',
-        messages: [
-          {
-            role: 'system' as const,
-            content: 'You are an expert at creating concise, helpful descriptions for bookmarked web content.'
-          },
-          {
-            role: 'user' as const,
-            content: prompt
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 200,
-      });
+      const response = await meterAIRequest(
+        this.getRequestDetails('describe', model),
+        () => openai.chat.completions.create({
+          model,
+          messages: [
+            {
+              role: 'system' as const,
+              content: 'You are an expert at creating concise, helpful descriptions for bookmarked web content.'
+            },
+            {
+              role: 'user' as const,
+              content: prompt
+            }
+          ],
+          temperature: 0.3,
+          max_tokens: 200,
+        }),
+        (response) => this.getOpenAIUsage(response)
+      );
 
       return response.choices[0]?.message?.content?.trim() || '';
     } catch (error) {
+      if (error instanceof AIBudgetExceededError) throw error;
+
       console.error('OpenAI description generation error:', error);
       throw new Error('Failed to generate description');
     }
@@ -592,19 +697,26 @@ Content Preview: ${request.content?.substring(0, 1000) || 'No content available'
 Please provide a 1-2 sentence description that explains what this bookmark is about and why someone might want to save it. Focus on the key value or purpose of the content.
 `.trim();
 
+    const claude = this.claude;
+    const model = this.settings.model || 'claude-3-5-sonnet-20241022';
+
     try {
-      const response = await this.claude.messages.create({
-        model: this.settings.model || 'claude-3-5-sonnet-20241022',
-        max_tokens: 200,
-        temperature: 0.3,
-        system: 'You are an expert at creating concise, helpful descriptions for bookmarked web content.',
-        messages: [
-          {
-            role: 'user' as const,
-            content: prompt
-          }
-        ]
-      });
+      const response = await meterAIRequest(
+        this.getRequestDetails('describe', model),
+        () => claude.messages.create({
+          model,
+          max_tokens: 200,
+          temperature: 0.3,
+          system: 'You are an expert at creating concise, helpful descriptions for bookmarked web content.',
+          messages: [
+            {
+              role: 'user' as const,
+              content: prompt
+            }
+          ]
+        }),
+        (response) => this.getClaudeUsage(response)
+      );
 
       const content = response.content[0];
       if (content.type !== 'text' || !content.text) {
@@ -613,6 +725,8 @@ Please provide a 1-2 sentence description that explains what this bookmark is ab
 
       return content.text.trim();
     } catch (error) {
+      if (error instanceof AIBudgetExceededError) throw error;
+
       console.error('Claude description generation error:', error);
       throw new Error('Failed to generate description');
     }
@@ -630,8 +744,17 @@ Please provide a 1-2 sentence description that explains what this bookmark is ab
       description: request.content?.substring(0, 500) // Use content preview as description
     };
 
+    let semanticSimilarities: Map<string, number>;
+    try {
+      semanticSimilarities = await this.getSemanticSimilarities(await this.getEmbedder(), request, existingBookmarks);
+    } catch (error) {
+      // The embeddings API might be unreachable, so compare them locally instead
+      console.error('Failed to compare bookmark embeddings, using local embeddings:', error);
+      semanticSimilarities = await this.getSemanticSimilarities(localEmbedder, request, existingBookmarks);
+    }
+
     for (const existing of existingBookmarks) {
-      const similarity = this.calculateSimilarity(newBookmark, existing);
+      const similarity = this.calculateSimilarity(newBookmark, existing, semanticSimilarities.get(existing.id));
       
       // Only consider as duplicate if overall similarity is above threshold
       if (similarity.overall >= 0.7) {
@@ -652,7 +775,32 @@ Please provide a 1-2 sentence description that explains what this bookmark is ab
     return candidates;
   }
 
-  private calculateSimilarity(bookmark1: { url: string; title: string; description?: string; }, bookmark2: { url: string; title: string; description?: string; }) {
+  /**
+   * Compares a new bookmark with the stored embeddings of existing bookmarks
+   * Bookmarks that have not been embedded in the background yet are left out, instead of being embedded on every check.
+   */
+  private async getSemanticSimilarities(embedder: Embedder, request: BookmarkAnalysisRequest, existingBookmarks: { id: string; }[]) {
+    const similarities = new Map<string, number>();
+
+    const vectors = await getBookmarkEmbeddings(embedder.id, existingBookmarks.map(bookmark => bookmark.id));
+    if (vectors.size === 0) return similarities;
+
+    // Embedded from the same kind of text as the stored vectors, so that their scores mean the same
+    const [newVector] = await embedder.embed([getBookmarkEmbeddingText({
+      url: request.url,
+      title: request.title,
+      description: null,
+      labels: request.existingLabels ?? [],
+      content: request.content ?? null
+    })]);
+
+    for (const [bookmarkId, vector] of vectors) {
+      similarities.set(bookmarkId, Math.max(0, cosineSimilarity(newVector, vector)));
+    }
+    return similarities;
+  }
+
+  private calculateSimilarity(bookmark1: { url: string; title: string; description?: string; }, bookmark2: { url: string; title: string; description?: string; }, semanticSimilarity: number | undefined) {
     // URL similarity (exact match or normalized comparison)
     const url1 = this.normalizeUrl(bookmark1.url);
     const url2 = this.normalizeUrl(bookmark2.url);
@@ -664,19 +812,19 @@ Please provide a 1-2 sentence description that explains what this bookmark is ab
       bookmark2.title.toLowerCase().trim()
     );
 
-    // Content similarity (if available)
-    const content1 = bookmark1.description || '';
-    const content2 = bookmark2.description || '';
-    const contentSimilarity = content1 && content2 
-      ? this.calculateStringSimilarity(content1.toLowerCase(), content2.toLowerCase())
-      : 0;
-
-    // Weighted overall similarity
-    const overall = (
-      urlSimilarity * 0.5 +      // URL is most important
-      titleSimilarity * 0.3 +    // Title is second most important
-      contentSimilarity * 0.2    // Content provides additional context
-    );
+    // Content similarity from the embeddings, so pages about the same thing match even when worded differently
+    const contentSimilarity = semanticSimilarity ?? 0;
+
+    // The same page is always a duplicate, otherwise it comes down to what the pages are about.
+    // Bookmarks without an embedding yet can only be compared by their URL and title.
+    let overall: number;
+    if (urlSimilarity === 1.0) {
+      overall = 1.0;
+    } else if (semanticSimilarity === undefined) {
+      overall = urlSimilarity * 0.6 + titleSimilarity * 0.4;
+    } else {
+      overall = urlSimilarity * 0.3 + titleSimilarity * 0.2 + contentSimilarity * 0.5;
+    }
 
     return {
       url: urlSimilarity,
@@ -768,6 +916,166 @@ Please provide a 1-2 sentence description that explains what this bookmark is ab
     return differences;
   }
 
+  /**
+   * Summarizes a page that is open in a tab
+   * @returns The summary, as it is being generated
+   */
+  public summarizePage(page: TabPageContent, signal: AbortSignal): AsyncGenerator<string> {
+    return this.streamPageResponse(page, [
+      {
+        role: 'user',
+        content: 'Summarize this page in a short paragraph, followed by its key points as a bulleted list.'
+      }
+    ], signal);
+  }
+
+  /**
+   * Answers a question about a page that is open in a tab
+   * @param history The earlier messages about the page, for follow-up questions
+   * @returns The answer, as it is being generated
+   */
+  public askAboutPage(page: TabPageContent, question: string, history: PageAssistantMessage[], signal: AbortSignal): AsyncGenerator<string> {
+    return this.streamPageResponse(page, [...history, { role: 'user', content: question }], signal);
+  }
+
+  private buildPagePrompt(page: TabPageContent): string {
+    return `
+You are a reading assistant in a web browser. Answer using the page below, which the user is reading right now.
+If the page does not answer a question, say so rather than guessing. Use plain text or simple markdown.
+
+URL: ${page.url}
+Title: ${page.title}
+Content${page.truncated ? ' (cut short)' : ''}:
+${page.text}
+`.trim();
+  }
+
+  private async *streamPageResponse(page: TabPageContent, messages: PageAssistantMessage[], signal: AbortSignal): AsyncGenerator<string> {
+    await this.ensureInitialized();
+    if (!(await this.isEnabled())) {
+      throw this.getNotEnabledError();
+    }
+
+    if (this.settings.provider === 'local') {
+      throw new Error('Asking about pages requires AI provider (OpenAI, Claude or a custom endpoint)');
+    }
+
+    const system = this.buildPagePrompt(page);
+    const prompt = [system, ...messages.map(message => message.content)].join('\n');
+
+    if (this.usesOpenAIClient() && this.openai) {
+      const openai = this.openai;
+      const model = this.getOpenAIModel();
+
+      // Nano models use reasoning tokens internally and need much higher limits
+      const maxTokens = model.includes('nano') ? 5000 : 1000;
+      const tokenLimit = this.settings.provider === 'openai-compatible'
+        ? { max_tokens: maxTokens }
+        : { max_completion_tokens: maxTokens };
+
+      yield* this.meterStream(model, prompt, signal, async function* () {
+        const stream = await openai.chat.completions.create({
+          model,
+          messages: [{ role: 'system' as const, content: system }, ...messages],
+          stream: true,
+          // The usage comes in a last chunk without choices
+          stream_options: { include_usage: true },
+          ...tokenLimit
+        }, { signal });
+
+        for await (const chunk of stream) {
+          yield {
+            text: chunk.choices[0]?.delta?.content ?? undefined,
+            usage: chunk.usage
+              ? { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens }
+              : undefined
+          };
+        }
+      });
+    } else if (this.settings.provider === 'claude' && this.claude) {
+      const claude = this.claude;
+      const model = this.settings.model || 'claude-3-5-sonnet-20241022';
+
+      yield* this.meterStream(model, prompt, signal, async function* () {
+        const stream = await claude.messages.create({
+          model,
+          max_tokens: 1000,
+          system,
+          messages,
+          stream: true
+        }, { signal });
+
+        // The input tokens are known when the message starts, the output tokens when it ends
+        for await (const event of stream) {
+          if (event.type === 'message_start') {
+            yield { usage: { inputTokens: event.message.usage.input_tokens } };
+          } else if (event.type === 'message_delta') {
+            yield { usage: { outputTokens: event.usage.output_tokens } };
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            yield { text: event.delta.text };
+          }
+        }
+      });
+    } else {
+      throw new Error('AI provider not properly configured');
+    }
+  }
+
+  /**
+   * Meters a streamed response, which only reports its usage once it is done, if at all
+   * Stopped responses are recorded as they are still paid for, and usage that is not reported is estimated.
+   */
+  private async *meterStream(
+    model: string,
+    prompt: string,
+    signal: AbortSignal,
+    openStream: () => AsyncGenerator<{ text?: string; usage?: Partial<AITokenUsage> }>
+  ): AsyncGenerator<string> {
+    const meter = await startAIRequest(this.getRequestDetails('page-assistant', model));
+    const usage: AITokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let output = '';
+    let failure: unknown;
+
+    try {
+      for await (const part of openStream()) {
+        usage.inputTokens = part.usage?.inputTokens ?? usage.inputTokens;
+        usage.outputTokens = part.usage?.outputTokens ?? usage.outputTokens;
+
+        if (part.text) {
+          output += part.text;
+          yield part.text;
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        failure = error;
+      }
+      throw error;
+    } finally {
+      if (failure !== undefined) {
+        meter.fail(failure);
+      } else {
+        meter.succeed({
+          inputTokens: usage.inputTokens || estimateTokens(prompt),
+          outputTokens: usage.outputTokens || estimateTokens(output)
+        });
+      }
+    }
+  }
+
+  /**
+   * Lists the models served by the configured OpenAI or OpenAI-compatible endpoint
+   */
+  public async listModels(): Promise<OpenAI.Models.Model[]> {
+    await this.ensureInitialized();
+    if (!this.usesOpenAIClient() || !this.openai) {
+      throw new Error('OpenAI or a custom endpoint is not configured');
+    }
+
+    const models = await this.openai.models.list();
+    return models.data;
+  }
+
   public async getSettings(): Promise<AISettings> {
     await this.ensureInitialized();
     return { ...this.settings };
@@ -0,0 +1,417 @@
+// Account for the usage of AI providers
+// Every request to a provider goes through a meter, which records its tokens, estimated cost,
+// latency and outcome in a SQLite database. Usage is kept per day, provider and model, next to
+// a log of recent requests. Requests are refused once the monthly budget of the AI settings is used up.
+
+import path from "path";
+import { knex } from "knex";
+import { FLOW_DATA_DIR } from "./paths";
+import { debugError, debugPrint } from "./output";
+import { initializeDatabase, runMigrations, type DatabaseMigration } from "./sqlite";
+import type {
+  AIBudget,
+  AIDailyUsage,
+  AIOperation,
+  AIProvider,
+  AIRequestLogEntry,
+  AIUsageSummary,
+  AIUsageTotals
+} from "~/flow/interfaces/ai";
+
+const dbPath = path.join(FLOW_DATA_DIR, "ai-usage.db");
+
+// Requests are logged for 30 days, up to this many
+const REQUEST_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_LOGGED_REQUESTS = 1000;
+
+// Days of usage shown by default
+const DEFAULT_USAGE_DAYS = 30;
+
+const db = knex({
+  client: "better-sqlite3",
+  useNullAsDefault: true,
+  connection: {
+    filename: dbPath
+  },
+  pool: {
+    min: 1,
+    max: 5,
+    acquireTimeoutMillis: 1000,
+    createTimeoutMillis: 1000
+  },
+  asyncStackTraces: false
+});
+
+async function configureDatabasePragmas() {
+  try {
+    await db.raw("PRAGMA journal_mode = WAL");
+    await db.raw("PRAGMA synchronous = NORMAL");
+    await db.raw("PRAGMA busy_timeout = 3000");
+
+    debugPrint("AI_USAGE", "Configured SQLite pragmas for AI usage database");
+  } catch (err) {
+    debugError("AI_USAGE", "Error configuring SQLite pragmas:", err);
+  }
+}
+
+const AI_USAGE_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: async (trx) => {
+      await trx.schema.createTable("ai_usage_daily", (table) => {
+        table.string("day").notNullable();
+        table.string("provider").notNullable();
+        table.string("model").notNullable();
+        table.integer("requests").notNullable().defaultTo(0);
+        table.integer("failures").notNullable().defaultTo(0);
+        table.integer("inputTokens").notNullable().defaultTo(0);
+        table.integer("outputTokens").notNullable().defaultTo(0);
+        table.float("cost").notNullable().defaultTo(0);
+        table.bigInteger("totalLatencyMs").notNullable().defaultTo(0);
+        table.primary(["day", "provider", "model"]);
+      });
+
+      await trx.schema.createTable("ai_requests", (table) => {
+        table.increments("id").primary();
+        table.bigInteger("timestamp").notNullable().index();
+        table.string("provider").notNullable();
+        table.string("model").notNullable();
+        table.string("operation").notNullable();
+        table.integer("inputTokens").notNullable().defaultTo(0);
+        table.integer("outputTokens").notNullable().defaultTo(0);
+        table.float("cost").nullable();
+        table.integer("latencyMs").notNullable();
+        table.boolean("success").notNullable();
+        table.text("error").nullable();
+      });
+      debugPrint("AI_USAGE", "Created AI usage tables");
+    }
+  }
+];
+
+async function initDatabase() {
+  await configureDatabasePragmas();
+  await runMigrations(db, {
+    name: "AI usage",
+    dbPath,
+    migrations: AI_USAGE_MIGRATIONS
+  });
+}
+
+const whenDatabaseInitialized = initializeDatabase("AI usage", initDatabase);
+
+// Pricing
+// List prices in US dollars per million tokens, matched by the start of the model name.
+// Longer prefixes come first, so "gpt-5-nano" is not priced as "gpt-5".
+
+type ModelPrice = { prefix: string; input: number; output: number };
+
+const MODEL_PRICES: Record<"openai" | "claude", ModelPrice[]> = {
+  openai: [
+    { prefix: "gpt-5-nano", input: 0.05, output: 0.4 },
+    { prefix: "gpt-5-mini", input: 0.25, output: 2 },
+    { prefix: "gpt-5", input: 1.25, output: 10 },
+    { prefix: "gpt-4.1-nano", input: 0.1, output: 0.4 },
+    { prefix: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+    { prefix: "gpt-4.1", input: 2, output: 8 },
+    { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+    { prefix: "gpt-4o", input: 2.5, output: 10 },
+    { prefix: "gpt-3.5-turbo", input: 0.5, output: 1.5 },
+    { prefix: "text-embedding-3-small", input: 0.02, output: 0 },
+    { prefix: "text-embedding-3-large", input: 0.13, output: 0 }
+  ],
+  claude: [
+    { prefix: "claude-opus-4", input: 15, output: 75 },
+    { prefix: "claude-sonnet-4", input: 3, output: 15 },
+    { prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+    { prefix: "claude-3-5-sonnet", input: 3, output: 15 },
+    { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+    { prefix: "claude-3-opus", input: 15, output: 75 },
+    { prefix: "claude-3-haiku", input: 0.25, output: 1.25 }
+  ]
+};
+
+/**
+ * Estimates the cost of a request from the list prices of its model
+ * @returns The cost in US dollars, or null if the model has no known price, like the models of custom endpoints
+ */
+function estimateCost(provider: AIProvider, model: string, usage: AITokenUsage): number | null {
+  if (provider !== "openai" && provider !== "claude") return null;
+
+  const price = MODEL_PRICES[provider].find((price) => model.startsWith(price.prefix));
+  if (!price) return null;
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Estimates the number of tokens of a text, for providers that don't report their usage
+ * A token is about four characters of English text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Usage
+
+export type AITokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type AIRequestDetails = {
+  provider: AIProvider;
+  model: string;
+  operation: AIOperation;
+  // Requests are refused once this budget is used up
+  budget?: AIBudget;
+};
+
+/**
+ * Error for requests that were not sent because the monthly budget is used up
+ */
+export class AIBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+function getDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function getFirstDayOfMonth(timestamp: number): string {
+  return `${getDay(timestamp).slice(0, 8)}01`;
+}
+
+async function getTotalsSince(firstDay: string): Promise<AIUsageTotals> {
+  await whenDatabaseInitialized;
+
+  const row = await db("ai_usage_daily")
+    .where("day", ">=", firstDay)
+    .sum({
+      requests: "requests",
+      failures: "failures",
+      inputTokens: "inputTokens",
+      outputTokens: "outputTokens",
+      cost: "cost"
+    })
+    .first();
+
+  return {
+    requests: Number(row?.requests ?? 0),
+    failures: Number(row?.failures ?? 0),
+    inputTokens: Number(row?.inputTokens ?? 0),
+    outputTokens: Number(row?.outputTokens ?? 0),
+    cost: Number(row?.cost ?? 0)
+  };
+}
+
+function getExceededBudgetMessage(budget: AIBudget | undefined, month: AIUsageTotals): string | null {
+  if (!budget?.enabled) return null;
+
+  const tokens = month.inputTokens + month.outputTokens;
+  if (budget.monthlyTokenLimit && tokens >= budget.monthlyTokenLimit) {
+    return `The monthly AI budget of ${budget.monthlyTokenLimit.toLocaleString()} tokens is used up`;
+  }
+  if (budget.monthlyCostLimit && month.cost >= budget.monthlyCostLimit) {
+    return `The monthly AI budget of $${budget.monthlyCostLimit.toFixed(2)} is used up`;
+  }
+  return null;
+}
+
+async function recordRequest(
+  details: AIRequestDetails,
+  startedAt: number,
+  usage: AITokenUsage,
+  error?: unknown
+): Promise<void> {
+  await whenDatabaseInitialized;
+
+  const now = Date.now();
+  const latencyMs = now - startedAt;
+  const cost = estimateCost(details.provider, details.model, usage);
+  const success = error === undefined;
+
+  await db.transaction(async (trx) => {
+    await trx("ai_requests").insert({
+      timestamp: now,
+      provider: details.provider,
+      model: details.model,
+      operation: details.operation,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cost,
+      latencyMs,
+      success,
+      error: success ? null : error instanceof Error ? error.message : String(error)
+    });
+
+    await trx("ai_usage_daily")
+      .insert({
+        day: getDay(startedAt),
+        provider: details.provider,
+        model: details.model,
+        requests: 1,
+        failures: success ? 0 : 1,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: cost ?? 0,
+        totalLatencyMs: latencyMs
+      })
+      .onConflict(["day", "provider", "model"])
+      .merge({
+        requests: trx.raw("ai_usage_daily.requests + 1"),
+        failures: trx.raw("ai_usage_daily.failures + ?", [success ? 0 : 1]),
+        inputTokens: trx.raw("ai_usage_daily.inputTokens + ?", [usage.inputTokens]),
+        outputTokens: trx.raw("ai_usage_daily.outputTokens + ?", [usage.outputTokens]),
+        cost: trx.raw("ai_usage_daily.cost + ?", [cost ?? 0]),
+        totalLatencyMs: trx.raw("ai_usage_daily.totalLatencyMs + ?", [latencyMs])
+      });
+
+    // Keep the log small, the daily usage is kept for good
+    await trx("ai_requests")
+      .where("timestamp", "<", now - REQUEST_LOG_RETENTION_MS)
+      .delete();
+    await trx("ai_requests")
+      .whereNotIn("id", trx("ai_requests").select("id").orderBy("id", "desc").limit(MAX_LOGGED_REQUESTS))
+      .delete();
+  });
+}
+
+export type AIRequestMeter = {
+  succeed: (usage: AITokenUsage) => void;
+  fail: (error: unknown) => void;
+};
+
+/**
+ * Starts metering a request to an AI provider
+ * Call it right before sending the request, then report how the request went through the meter.
+ * @throws AIBudgetExceededError if the monthly budget is used up. A request can still go over
+ * the budget by its own tokens, as they are only known once it is done.
+ */
+export async function startAIRequest(details: AIRequestDetails): Promise<AIRequestMeter> {
+  if (details.budget?.enabled) {
+    const month = await getTotalsSince(getFirstDayOfMonth(Date.now()));
+    const exceededMessage = getExceededBudgetMessage(details.budget, month);
+    if (exceededMessage) {
+      throw new AIBudgetExceededError(exceededMessage);
+    }
+  }
+
+  const startedAt = Date.now();
+  let isFinished = false;
+
+  const finish = (usage: AITokenUsage, error?: unknown) => {
+    if (isFinished) return;
+    isFinished = true;
+
+    recordRequest(details, startedAt, usage, error).catch((recordError) => {
+      debugError("AI_USAGE", "Failed to record AI request:", recordError);
+    });
+  };
+
+  return {
+    succeed: (usage) => finish(usage),
+    fail: (error) => finish({ inputTokens: 0, outputTokens: 0 }, error ?? "Unknown error")
+  };
+}
+
+/**
+ * Sends a request to an AI provider through a meter
+ * @param getUsage Reads the token usage from the response of the provider
+ */
+export async function meterAIRequest<T>(
+  details: AIRequestDetails,
+  run: () => Promise<T>,
+  getUsage: (response: T) => AITokenUsage
+): Promise<T> {
+  const meter = await startAIRequest(details);
+  try {
+    const response = await run();
+    meter.succeed(getUsage(response));
+    return response;
+  } catch (error) {
+    meter.fail(error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the usage of this month and of the last days
+ * @param days The number of days to get the daily usage of, including today
+ */
+export async function getAIUsage(budget?: AIBudget, days: number = DEFAULT_USAGE_DAYS): Promise<AIUsageSummary> {
+  await whenDatabaseInitialized;
+
+  const now = Date.now();
+  const firstDay = getDay(now - (days - 1) * 24 * 60 * 60 * 1000);
+
+  const [month, rows] = await Promise.all([
+    getTotalsSince(getFirstDayOfMonth(now)),
+    db("ai_usage_daily")
+      .where("day", ">=", firstDay)
+      .orderBy([{ column: "day", order: "desc" }, "provider", "model"])
+  ]);
+
+  const dailyUsage: AIDailyUsage[] = rows.map((row: Record<string, unknown>) => {
+    const requests = Number(row.requests);
+    return {
+      day: String(row.day),
+      provider: row.provider as AIProvider,
+      model: String(row.model),
+      requests,
+      failures: Number(row.failures),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      cost: Number(row.cost),
+      averageLatencyMs: requests > 0 ? Math.round(Number(row.totalLatencyMs) / requests) : 0
+    };
+  });
+
+  return {
+    month,
+    days: dailyUsage,
+    budget,
+    budgetExceeded: getExceededBudgetMessage(budget, month) !== null
+  };
+}
+
+/**
+ * Gets the most recent requests, newest first
+ */
+export async function getAIRequestLog(limit: number = 100): Promise<AIRequestLogEntry[]> {
+  await whenDatabaseInitialized;
+
+  const rows = await db("ai_requests").orderBy("id", "desc").limit(Math.min(limit, MAX_LOGGED_REQUESTS));
+  return rows.map((row: Record<string, unknown>) => ({
+    id: Number(row.id),
+    timestamp: Number(row.timestamp),
+    provider: row.provider as AIProvider,
+    model: String(row.model),
+    operation: row.operation as AIOperation,
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    cost: row.cost === null ? null : Number(row.cost),
+    latencyMs: Number(row.latencyMs),
+    success: Boolean(row.success),
+    error: row.error ? String(row.error) : undefined
+  }));
+}
+
+/**
+ * Forgets all recorded usage, which also resets the budget of this month
+ */
+export async function clearAIUsage(): Promise<void> {
+  await whenDatabaseInitialized;
+
+  await db.transaction(async (trx) => {
+    await trx("ai_usage_daily").delete();
+    await trx("ai_requests").delete();
+  });
+}
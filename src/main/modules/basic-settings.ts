@@ -69,6 +69,41 @@ export const BasicSettings: BasicSetting[] = [
     ]
   },
 
+  // Default Search Engine
+  {
+    id: "defaultSearchEngine",
+    name: "Default Search Engine",
+    showName: true,
+    type: "enum",
+    defaultValue: "google",
+    options: [
+      {
+        id: "google",
+        name: "Google"
+      },
+      {
+        id: "duckduckgo",
+        name: "DuckDuckGo"
+      },
+      {
+        id: "brave",
+        name: "Brave Search"
+      },
+      {
+        id: "kagi",
+        name: "Kagi"
+      },
+      {
+        id: "startpage",
+        name: "Startpage"
+      },
+      {
+        id: "bing",
+        name: "Bing"
+      }
+    ]
+  },
+
   // New Tab Mode
   {
     id: "newTabMode",
@@ -208,6 +243,48 @@ export const BasicSettings: BasicSetting[] = [
     ]
   },
 
+  // Download Location
+  {
+    id: "downloadLocation",
+    name: "Save Downloads To",
+    showName: true,
+    type: "enum",
+    defaultValue: "downloads",
+    options: [
+      {
+        id: "downloads",
+        name: "Downloads Folder"
+      },
+      {
+        id: "ask",
+        name: "Ask Every Time"
+      }
+    ]
+  },
+
+  // Download Sorting
+  {
+    id: "downloadSorting",
+    name: "Sort Downloads Into",
+    showName: true,
+    type: "enum",
+    defaultValue: "none",
+    options: [
+      {
+        id: "none",
+        name: "Don't Sort"
+      },
+      {
+        id: "fileType",
+        name: "Folders by File Type"
+      },
+      {
+        id: "website",
+        name: "Folders by Website"
+      }
+    ]
+  },
+
   // [EXPERIMENTAL] Enable Flow PDF Viewer
   {
     id: "enableFlowPdfViewer",
@@ -242,6 +319,13 @@ export const BasicSettingCards: BasicSettingCard[] = [
     settings: []
   },
 
+  // Search Engine Card
+  {
+    title: "Search Engine",
+    subtitle: "Choose the search engine used in the address bar",
+    settings: ["defaultSearchEngine"]
+  },
+
   // New Tab Mode Card
   {
     title: "New Tab Mode",
@@ -263,6 +347,13 @@ export const BasicSettingCards: BasicSettingCard[] = [
     settings: ["archiveTabAfter", "sleepTabAfter"]
   },
 
+  // Downloads Settings Card
+  {
+    title: "Downloads Settings",
+    subtitle: "Choose where downloaded files are saved",
+    settings: ["downloadLocation", "downloadSorting"]
+  },
+
   // Onboarding Card (Internal)
   {
     title: "INTERNAL_ONBOARDING",
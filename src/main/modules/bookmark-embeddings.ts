@@ -0,0 +1,145 @@
+// Semantic search and related bookmarks
+// Every bookmark gets a vector from the embedder of the AI settings, which is kept in bookmarks.db.
+// New and changed bookmarks are embedded in the background.
+
+import { aiService } from "@/modules/ai-service";
+import {
+  getBookmark,
+  getBookmarkEmbeddings,
+  getBookmarkEmbeddingText,
+  getBookmarks,
+  getBookmarksToEmbed,
+  saveBookmarkEmbeddings
+} from "@/modules/bookmarks";
+import { cosineSimilarity, Embedder } from "@/modules/embedders";
+import { debugError, debugPrint } from "@/modules/output";
+import { app } from "electron";
+import type { Bookmark, BookmarkFilter, BookmarkSemanticResult } from "~/types/bookmarks";
+
+const EMBEDDING_INTERVAL_MS = 60 * 1000;
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Results below this similarity have little to do with each other
+const MIN_SIMILARITY = 0.15;
+
+let isEmbedding = false;
+
+/**
+ * Embeds the bookmarks that have no vector from the current embedder
+ * @returns The number of bookmarks that were embedded
+ */
+export async function embedMissingBookmarks() {
+  if (isEmbedding) return 0;
+  isEmbedding = true;
+
+  let embeddedCount = 0;
+  try {
+    const embedder = await aiService.getEmbedder();
+
+    while (true) {
+      const sources = await getBookmarksToEmbed(embedder.id, EMBEDDING_BATCH_SIZE);
+      if (sources.length === 0) break;
+
+      const vectors = await embedder.embed(sources.map((source) => getBookmarkEmbeddingText(source)));
+      await saveBookmarkEmbeddings(
+        embedder.id,
+        sources.map((source, index) => ({ bookmarkId: source.id, vector: vectors[index] }))
+      );
+      embeddedCount += sources.length;
+    }
+
+    if (embeddedCount > 0) {
+      debugPrint("EMBEDDINGS", `Embedded ${embeddedCount} bookmarks with ${embedder.id}`);
+    }
+  } catch (error) {
+    debugError("EMBEDDINGS", "Failed to embed bookmarks:", error);
+  } finally {
+    isEmbedding = false;
+  }
+  return embeddedCount;
+}
+
+async function getBookmarkVector(embedder: Embedder, bookmark: Bookmark) {
+  const vectors = await getBookmarkEmbeddings(embedder.id, [bookmark.id]);
+  const storedVector = vectors.get(bookmark.id);
+  if (storedVector) return storedVector;
+
+  // Not embedded yet, so it is embedded without its page content for now
+  const [vector] = await embedder.embed([
+    getBookmarkEmbeddingText({
+      url: bookmark.url,
+      title: bookmark.title,
+      description: bookmark.description ?? null,
+      labels: bookmark.labels?.map((label) => label.label) ?? [],
+      content: null
+    })
+  ]);
+  return vector;
+}
+
+function rankBookmarks(vector: number[], bookmarks: Bookmark[], vectors: Map<string, number[]>, limit: number) {
+  const results: BookmarkSemanticResult[] = [];
+  for (const bookmark of bookmarks) {
+    const bookmarkVector = vectors.get(bookmark.id);
+    if (!bookmarkVector) continue;
+
+    const score = cosineSimilarity(vector, bookmarkVector);
+    if (score >= MIN_SIMILARITY) {
+      results.push({ bookmark, score });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Searches bookmarks by meaning rather than by their words
+ * Bookmarks that have not been embedded yet are left out.
+ */
+export async function semanticSearch(
+  query: string,
+  filter?: BookmarkFilter,
+  limit: number = 20
+): Promise<BookmarkSemanticResult[]> {
+  if (!query.trim()) return [];
+
+  try {
+    const embedder = await aiService.getEmbedder();
+    const [queryVector] = await embedder.embed([query]);
+
+    const [bookmarks, vectors] = await Promise.all([getBookmarks(filter), getBookmarkEmbeddings(embedder.id)]);
+    return rankBookmarks(queryVector, bookmarks, vectors, limit);
+  } catch (error) {
+    debugError("EMBEDDINGS", "Semantic search failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets the bookmarks of the same profile that are about the same thing as a bookmark
+ */
+export async function getRelatedBookmarks(bookmarkId: string, limit: number = 5): Promise<BookmarkSemanticResult[]> {
+  const bookmark = await getBookmark(bookmarkId);
+  if (!bookmark) return [];
+
+  try {
+    const embedder = await aiService.getEmbedder();
+    const vector = await getBookmarkVector(embedder, bookmark);
+
+    const [bookmarks, vectors] = await Promise.all([
+      getBookmarks({ profileId: bookmark.profileId }),
+      getBookmarkEmbeddings(embedder.id)
+    ]);
+    const otherBookmarks = bookmarks.filter((otherBookmark) => otherBookmark.id !== bookmark.id);
+    return rankBookmarks(vector, otherBookmarks, vectors, limit);
+  } catch (error) {
+    debugError("EMBEDDINGS", "Failed to get related bookmarks:", error);
+    return [];
+  }
+}
+
+// Run after App Ready
+app.whenReady().then(() => {
+  embedMissingBookmarks();
+  setInterval(embedMissingBookmarks, EMBEDDING_INTERVAL_MS);
+});
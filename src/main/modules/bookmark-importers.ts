@@ -0,0 +1,560 @@
+// Bookmark importers
+// Every importer turns its source into the same tree of folders and bookmarks,
+// which the bookmarks module then saves as nested collections.
+
+import Database from "better-sqlite3";
+import { app } from "electron";
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type {
+  BookmarkExportFile,
+  BookmarkImportRequest,
+  BookmarkImportSource,
+  BookmarkLabel,
+  CollectionRuleGroup
+} from "~/types/bookmarks";
+
+export interface ImportedBookmarkNode {
+  type: "bookmark";
+  url: string;
+  title: string;
+  description?: string;
+  labels?: BookmarkLabel[];
+  dateAdded?: number; // ms
+  lastVisited?: number; // ms
+  visitCount?: number;
+}
+
+export interface ImportedFolderNode {
+  type: "folder";
+  title: string;
+  description?: string;
+  isAuto?: boolean;
+  rules?: CollectionRuleGroup;
+  children: ImportedNode[];
+}
+
+export type ImportedNode = ImportedBookmarkNode | ImportedFolderNode;
+
+const IMPORTABLE_URL_REGEX = /^(https?|ftp|file):/i;
+
+function isImportableURL(url: string | undefined | null): url is string {
+  return !!url && IMPORTABLE_URL_REGEX.test(url.trim());
+}
+
+function toUserLabels(tags: string[]): BookmarkLabel[] {
+  return tags
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+    .map((label) => ({ label, source: "user" as const }));
+}
+
+// Netscape bookmark HTML
+// Exported by Chrome, Firefox, Safari and Edge (and Flow itself)
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " "
+};
+
+function decodeHtml(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const codePoint = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .trim();
+}
+
+function parseHtmlAttributes(attributes: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const attributeRegex = /([\w-]+)\s*=\s*"([^"]*)"/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = attributeRegex.exec(attributes)) !== null) {
+    result[match[1].toUpperCase()] = decodeHtml(match[2]);
+  }
+  return result;
+}
+
+function parseSecondsAttribute(value: string | undefined): number | undefined {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+export function parseNetscapeBookmarkHtml(html: string): ImportedNode[] {
+  const root: ImportedFolderNode = { type: "folder", title: "", children: [] };
+  const folderStack: ImportedFolderNode[] = [root];
+  let lastNode: ImportedNode | null = null;
+
+  // Every folder heading is followed by a <DL> list with its children, closed by </DL>
+  const tokenRegex = /<DT>\s*<H3([^>]*)>([\s\S]*?)<\/H3>|<DT>\s*<A([^>]*)>([\s\S]*?)<\/A>|<DD>([^<]*)|<\/DL>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(html)) !== null) {
+    const [token, , folderTitle, linkAttributes, linkTitle, description] = match;
+    const currentFolder = folderStack[folderStack.length - 1];
+
+    if (folderTitle !== undefined) {
+      const folder: ImportedFolderNode = {
+        type: "folder",
+        title: decodeHtml(folderTitle) || "Untitled folder",
+        children: []
+      };
+      currentFolder.children.push(folder);
+      folderStack.push(folder);
+      lastNode = folder;
+    } else if (linkAttributes !== undefined) {
+      const attributes = parseHtmlAttributes(linkAttributes);
+      const url = attributes.HREF;
+      if (!isImportableURL(url)) {
+        lastNode = null;
+        continue;
+      }
+
+      const bookmark: ImportedBookmarkNode = {
+        type: "bookmark",
+        url: url.trim(),
+        title: decodeHtml(linkTitle) || url.trim(),
+        labels: attributes.TAGS ? toUserLabels(attributes.TAGS.split(",")) : [],
+        dateAdded: parseSecondsAttribute(attributes.ADD_DATE),
+        lastVisited: parseSecondsAttribute(attributes.LAST_VISIT)
+      };
+      currentFolder.children.push(bookmark);
+      lastNode = bookmark;
+    } else if (description !== undefined) {
+      if (lastNode) {
+        lastNode.description = decodeHtml(description) || undefined;
+      }
+    } else if (token.toUpperCase() === "</DL>" && folderStack.length > 1) {
+      folderStack.pop();
+      lastNode = null;
+    }
+  }
+
+  return root.children;
+}
+
+// Chromium "Bookmarks" JSON file
+// Used by Chrome, Edge, Brave, Arc, Vivaldi and other Chromium browsers
+
+// Chromium timestamps are microseconds since 1601-01-01
+const WEBKIT_EPOCH_OFFSET_MS = 11644473600000;
+
+function parseWebkitTimestamp(value: string | undefined): number | undefined {
+  const microseconds = Number(value);
+  if (!value || !Number.isFinite(microseconds) || microseconds <= 0) return undefined;
+  return Math.floor(microseconds / 1000) - WEBKIT_EPOCH_OFFSET_MS;
+}
+
+const CHROMIUM_ROOT_TITLES: Record<string, string> = {
+  bookmark_bar: "Bookmarks bar",
+  other: "Other bookmarks",
+  synced: "Mobile bookmarks"
+};
+
+type ChromiumBookmarkNode = {
+  type?: "url" | "folder";
+  name?: string;
+  url?: string;
+  date_added?: string;
+  date_last_used?: string;
+  children?: ChromiumBookmarkNode[];
+};
+
+function convertChromiumNode(node: ChromiumBookmarkNode): ImportedNode | null {
+  if (node?.type === "url") {
+    if (!isImportableURL(node.url)) return null;
+    return {
+      type: "bookmark",
+      url: node.url.trim(),
+      title: (node.name || "").trim() || node.url.trim(),
+      dateAdded: parseWebkitTimestamp(node.date_added),
+      lastVisited: parseWebkitTimestamp(node.date_last_used)
+    };
+  }
+
+  if (node?.type === "folder") {
+    return {
+      type: "folder",
+      title: (node.name || "").trim() || "Untitled folder",
+      children: (node.children || []).map(convertChromiumNode).filter(Boolean) as ImportedNode[]
+    };
+  }
+
+  return null;
+}
+
+export function parseChromiumBookmarks(json: string): ImportedNode[] {
+  const data = JSON.parse(json);
+  if (!data?.roots || typeof data.roots !== "object") {
+    throw new Error("Not a Chromium bookmarks file");
+  }
+
+  const nodes: ImportedNode[] = [];
+  for (const [key, rootNode] of Object.entries<ChromiumBookmarkNode>(data.roots)) {
+    const folder = convertChromiumNode(rootNode);
+    if (folder?.type !== "folder" || folder.children.length === 0) continue;
+
+    folder.title = CHROMIUM_ROOT_TITLES[key] ?? folder.title;
+    nodes.push(folder);
+  }
+  return nodes;
+}
+
+// Firefox places.sqlite
+
+const FIREFOX_ROOT_GUID = "root________";
+const FIREFOX_TAGS_GUID = "tagsRoot________";
+const FIREFOX_ROOT_TITLES: Record<string, string> = {
+  menu________: "Bookmarks Menu",
+  toolbar_____: "Bookmarks Toolbar",
+  unfiled_____: "Other Bookmarks",
+  mobile______: "Mobile Bookmarks"
+};
+
+// moz_bookmarks.type
+const FIREFOX_TYPE_BOOKMARK = 1;
+const FIREFOX_TYPE_FOLDER = 2;
+
+type FirefoxBookmarkRow = {
+  id: number;
+  type: number;
+  parent: number;
+  title: string | null;
+  guid: string;
+  dateAdded: number | null;
+  url: string | null;
+  visitCount: number | null;
+  lastVisitDate: number | null;
+};
+
+function readFirefoxRows(databasePath: string): FirefoxBookmarkRow[] {
+  const database = new Database(databasePath, { readonly: true, fileMustExist: true });
+  try {
+    return database
+      .prepare(
+        `SELECT b.id, b.type, b.parent, b.title, b.guid, b.dateAdded,
+          p.url, p.visit_count AS visitCount, p.last_visit_date AS lastVisitDate
+        FROM moz_bookmarks b
+        LEFT JOIN moz_places p ON p.id = b.fk
+        ORDER BY b.parent, b.position`
+      )
+      .all() as FirefoxBookmarkRow[];
+  } finally {
+    database.close();
+  }
+}
+
+function convertFirefoxRows(rows: FirefoxBookmarkRow[]): ImportedNode[] {
+  const childrenByParent = new Map<number, FirefoxBookmarkRow[]>();
+  rows.forEach((row) => {
+    if (!childrenByParent.has(row.parent)) childrenByParent.set(row.parent, []);
+    childrenByParent.get(row.parent)!.push(row);
+  });
+
+  // Tags are folders in the tags root, holding a bookmark for every tagged URL
+  const tagsByURL = new Map<string, string[]>();
+  const tagsRoot = rows.find((row) => row.guid === FIREFOX_TAGS_GUID);
+  if (tagsRoot) {
+    for (const tagFolder of childrenByParent.get(tagsRoot.id) || []) {
+      for (const taggedRow of childrenByParent.get(tagFolder.id) || []) {
+        if (!taggedRow.url || !tagFolder.title) continue;
+        tagsByURL.set(taggedRow.url, [...(tagsByURL.get(taggedRow.url) || []), tagFolder.title]);
+      }
+    }
+  }
+
+  const convertRow = (row: FirefoxBookmarkRow): ImportedNode | null => {
+    if (row.type === FIREFOX_TYPE_BOOKMARK) {
+      if (!isImportableURL(row.url)) return null;
+      return {
+        type: "bookmark",
+        url: row.url.trim(),
+        title: (row.title || "").trim() || row.url.trim(),
+        labels: toUserLabels(tagsByURL.get(row.url) || []),
+        // Firefox timestamps are microseconds
+        dateAdded: row.dateAdded ? Math.floor(row.dateAdded / 1000) : undefined,
+        lastVisited: row.lastVisitDate ? Math.floor(row.lastVisitDate / 1000) : undefined,
+        visitCount: row.visitCount ?? undefined
+      };
+    }
+
+    if (row.type === FIREFOX_TYPE_FOLDER) {
+      return {
+        type: "folder",
+        title: FIREFOX_ROOT_TITLES[row.guid] ?? ((row.title || "").trim() || "Untitled folder"),
+        children: (childrenByParent.get(row.id) || []).map(convertRow).filter(Boolean) as ImportedNode[]
+      };
+    }
+
+    // Separators
+    return null;
+  };
+
+  const root = rows.find((row) => row.guid === FIREFOX_ROOT_GUID);
+  if (!root) {
+    throw new Error("Not a Firefox places database");
+  }
+
+  return (childrenByParent.get(root.id) || [])
+    .filter((row) => row.guid !== FIREFOX_TAGS_GUID)
+    .map(convertRow)
+    .filter((node): node is ImportedNode => node !== null && (node.type !== "folder" || node.children.length > 0));
+}
+
+/**
+ * Reads the bookmarks of a Firefox places.sqlite database
+ * The database is copied first, as Firefox keeps it locked while it is running.
+ */
+export async function readFirefoxPlaces(source: string | Uint8Array): Promise<ImportedNode[]> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "flow-firefox-import-"));
+  const tempPath = path.join(tempDir, "places.sqlite");
+
+  try {
+    if (typeof source === "string") {
+      await fs.copyFile(source, tempPath);
+      // Recent changes might only be in the write-ahead log
+      await fs.copyFile(`${source}-wal`, `${tempPath}-wal`).catch(() => {});
+    } else {
+      await fs.writeFile(tempPath, source);
+    }
+
+    return convertFirefoxRows(readFirefoxRows(tempPath));
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+// Flow JSON export
+
+export function parseFlowExport(json: string): ImportedNode[] {
+  const data = JSON.parse(json) as BookmarkExportFile;
+  if (data?.format !== "flow-bookmarks" || !Array.isArray(data.bookmarks)) {
+    throw new Error("Not a Flow bookmarks export");
+  }
+
+  const collections = Array.isArray(data.collections) ? data.collections : [];
+  const collectionIds = new Set(collections.map((collection) => collection.id));
+
+  const folders = new Map<string, ImportedFolderNode>();
+  collections.forEach((collection) => {
+    folders.set(collection.id, {
+      type: "folder",
+      title: collection.name,
+      description: collection.description,
+      isAuto: collection.isAuto,
+      rules: collection.rules ?? undefined,
+      children: []
+    });
+  });
+
+  const nodes: ImportedNode[] = [];
+
+  // Nest the folders by their parent, guarding against parent cycles
+  collections.forEach((collection) => {
+    const folder = folders.get(collection.id)!;
+    let parentId = collection.parentId && collectionIds.has(collection.parentId) ? collection.parentId : undefined;
+
+    const visited = new Set([collection.id]);
+    let ancestorId = parentId;
+    while (ancestorId) {
+      if (visited.has(ancestorId)) {
+        parentId = undefined;
+        break;
+      }
+      visited.add(ancestorId);
+      ancestorId = collections.find((c) => c.id === ancestorId)?.parentId;
+    }
+
+    if (parentId) {
+      folders.get(parentId)!.children.push(folder);
+    } else {
+      nodes.push(folder);
+    }
+  });
+
+  data.bookmarks.forEach((exported) => {
+    if (exported.deletedAt || !isImportableURL(exported.url)) return;
+
+    const bookmark: ImportedBookmarkNode = {
+      type: "bookmark",
+      url: exported.url,
+      title: exported.title || exported.url,
+      description: exported.description,
+      labels: exported.labels || [],
+      dateAdded: exported.dateAdded ? new Date(exported.dateAdded).getTime() : undefined,
+      lastVisited: exported.lastVisited ? new Date(exported.lastVisited).getTime() : undefined,
+      visitCount: exported.visitCount
+    };
+
+    // Auto collections are filled by their rules, so bookmarks only go into regular folders
+    const parentFolders = (exported.collections || [])
+      .map((collectionId) => folders.get(collectionId))
+      .filter((folder): folder is ImportedFolderNode => !!folder && !folder.isAuto);
+
+    if (parentFolders.length === 0) {
+      nodes.push(bookmark);
+    } else {
+      parentFolders.forEach((folder) => folder.children.push(bookmark));
+    }
+  });
+
+  return nodes;
+}
+
+// Installed browsers
+
+type BrowserLocation = {
+  browser: string;
+  format: BookmarkImportSource["format"];
+  directory: string;
+};
+
+function getBrowserLocations(): BrowserLocation[] {
+  const home = app.getPath("home");
+  const appData = app.getPath("appData");
+
+  switch (process.platform) {
+    case "darwin":
+      return [
+        { browser: "Google Chrome", format: "chromium", directory: path.join(appData, "Google/Chrome") },
+        { browser: "Microsoft Edge", format: "chromium", directory: path.join(appData, "Microsoft Edge") },
+        { browser: "Brave", format: "chromium", directory: path.join(appData, "BraveSoftware/Brave-Browser") },
+        { browser: "Arc", format: "chromium", directory: path.join(appData, "Arc/User Data") },
+        { browser: "Vivaldi", format: "chromium", directory: path.join(appData, "Vivaldi") },
+        { browser: "Chromium", format: "chromium", directory: path.join(appData, "Chromium") },
+        { browser: "Firefox", format: "firefox", directory: path.join(appData, "Firefox/Profiles") }
+      ];
+    case "win32": {
+      const localAppData = process.env.LOCALAPPDATA || path.join(home, "AppData/Local");
+      return [
+        { browser: "Google Chrome", format: "chromium", directory: path.join(localAppData, "Google/Chrome/User Data") },
+        {
+          browser: "Microsoft Edge",
+          format: "chromium",
+          directory: path.join(localAppData, "Microsoft/Edge/User Data")
+        },
+        {
+          browser: "Brave",
+          format: "chromium",
+          directory: path.join(localAppData, "BraveSoftware/Brave-Browser/User Data")
+        },
+        { browser: "Vivaldi", format: "chromium", directory: path.join(localAppData, "Vivaldi/User Data") },
+        { browser: "Chromium", format: "chromium", directory: path.join(localAppData, "Chromium/User Data") },
+        { browser: "Firefox", format: "firefox", directory: path.join(appData, "Mozilla/Firefox/Profiles") }
+      ];
+    }
+    default:
+      return [
+        { browser: "Google Chrome", format: "chromium", directory: path.join(appData, "google-chrome") },
+        { browser: "Microsoft Edge", format: "chromium", directory: path.join(appData, "microsoft-edge") },
+        { browser: "Brave", format: "chromium", directory: path.join(appData, "BraveSoftware/Brave-Browser") },
+        { browser: "Vivaldi", format: "chromium", directory: path.join(appData, "vivaldi") },
+        { browser: "Chromium", format: "chromium", directory: path.join(appData, "chromium") },
+        { browser: "Firefox", format: "firefox", directory: path.join(home, ".mozilla/firefox") }
+      ];
+  }
+}
+
+type DetectedImportSource = BookmarkImportSource & {
+  filePath: string;
+};
+
+async function fileExists(filePath: string) {
+  return fs
+    .stat(filePath)
+    .then((stats) => stats.isFile())
+    .catch(() => false);
+}
+
+async function readChromiumProfileNames(directory: string): Promise<Record<string, string>> {
+  try {
+    const localState = JSON.parse(await fs.readFile(path.join(directory, "Local State"), "utf8"));
+    const infoCache = localState?.profile?.info_cache || {};
+    return Object.fromEntries(
+      Object.entries<{ name?: string }>(infoCache).map(([dir, info]) => [dir, info?.name || dir])
+    );
+  } catch {
+    return {};
+  }
+}
+
+async function detectBrowserProfiles(location: BrowserLocation): Promise<DetectedImportSource[]> {
+  const entries = await fs.readdir(location.directory, { withFileTypes: true }).catch(() => []);
+  const profileNames = location.format === "chromium" ? await readChromiumProfileNames(location.directory) : {};
+
+  const sources: DetectedImportSource[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const fileName = location.format === "chromium" ? "Bookmarks" : "places.sqlite";
+    const filePath = path.join(location.directory, entry.name, fileName);
+    if (!(await fileExists(filePath))) continue;
+
+    // Firefox profile folders are named "<salt>.<profile name>"
+    const profileName =
+      location.format === "chromium" ? profileNames[entry.name] || entry.name : entry.name.replace(/^[^.]+\./, "");
+
+    sources.push({
+      id: createHash("md5").update(filePath).digest("hex"),
+      browser: location.browser,
+      profileName,
+      format: location.format,
+      filePath
+    });
+  }
+  return sources;
+}
+
+async function detectImportSources(): Promise<DetectedImportSource[]> {
+  const sources = await Promise.all(getBrowserLocations().map(detectBrowserProfiles));
+  return sources.flat();
+}
+
+/**
+ * Finds the browser profiles on this computer that bookmarks can be imported from
+ */
+export async function getImportSources(): Promise<BookmarkImportSource[]> {
+  const sources = await detectImportSources();
+  return sources.map(({ id, browser, profileName, format }) => ({ id, browser, profileName, format }));
+}
+
+/**
+ * Reads the bookmarks of an import request into a tree of folders and bookmarks
+ */
+export async function readImportRequest(request: BookmarkImportRequest): Promise<ImportedNode[]> {
+  switch (request.format) {
+    case "html":
+      return parseNetscapeBookmarkHtml(request.content);
+    case "chromium":
+      return parseChromiumBookmarks(request.content);
+    case "flow":
+      return parseFlowExport(request.content);
+    case "firefox":
+      return readFirefoxPlaces(request.data);
+    case "detected": {
+      // Only detected files can be read, never arbitrary paths from the renderer
+      const sources = await detectImportSources();
+      const source = sources.find((source) => source.id === request.sourceId);
+      if (!source) {
+        throw new Error("Import source not found");
+      }
+
+      if (source.format === "firefox") {
+        return readFirefoxPlaces(source.filePath);
+      }
+      return parseChromiumBookmarks(await fs.readFile(source.filePath, "utf8"));
+    }
+  }
+}
@@ -1,16 +1,29 @@
 import path from "path";
-import { knex } from "knex";
+import { knex, type Knex } from "knex";
 import { FLOW_DATA_DIR } from "./paths";
 import { createHash } from "crypto";
 import type { 
   Bookmark,
   BookmarkFilter, 
   BookmarkCollection, 
+  BookmarkExportFile,
+  BookmarkExportFormat,
+  BookmarkImportRequest,
+  BookmarkSearchResult,
+  CollectionRuleGroup,
   CreateBookmarkInput,
+  CreateCollectionInput,
   UpdateBookmarkInput,
   UpdateCollectionInput,
-  ImportStats 
+  ImportFailure,
+  ImportStats,
+  SearchHighlight
 } from "~/types/bookmarks";
+import type { CreateSnoozedItemInput, SnoozedItem, SnoozeItemType, SnoozeType } from "~/types/snooze";
+import { readImportRequest, type ImportedBookmarkNode, type ImportedFolderNode, type ImportedNode } from "./bookmark-importers";
+import { matchesCollectionRules, parseCollectionRules } from "./collection-rules";
+import { contentFetcher } from "./content-fetcher";
+import { initializeDatabase, runMigrations, type DatabaseMigration } from "./sqlite";
 
 const dbPath = path.join(FLOW_DATA_DIR, "bookmarks.db");
 
@@ -41,165 +54,291 @@ async function configureDatabasePragmas() {
   }
 }
 
-let databaseInitialized = false;
-let resolveDatabaseInitialized: () => void = () => {
-  databaseInitialized = true;
+// Full-text search
+// bookmarks_fts shares its rowids with the bookmarks table and is kept in sync by triggers,
+// so every write (including imports and label changes) updates the index.
+
+const FTS_HIGHLIGHT_START = "\u0002";
+const FTS_HIGHLIGHT_END = "\u0003";
+
+// bm25 weights of the title, url, description, labels and content columns
+const FTS_COLUMN_WEIGHTS = [10, 2, 4, 6, 1];
+
+const FTS_SELECT_SQL = `
+  SELECT b.rowid, b.title, b.url, COALESCE(b.description, ''),
+    COALESCE((SELECT group_concat(label, ' ') FROM bookmark_labels WHERE bookmarkId = b.id), ''),
+    COALESCE((SELECT content FROM bookmark_content WHERE bookmarkId = b.id), '')
+  FROM bookmarks b`;
+
+function getFtsRefreshSql(bookmarkId: string) {
+  return `
+    DELETE FROM bookmarks_fts WHERE rowid = (SELECT rowid FROM bookmarks WHERE id = ${bookmarkId});
+    INSERT INTO bookmarks_fts (rowid, title, url, description, labels, content) ${FTS_SELECT_SQL} WHERE b.id = ${bookmarkId};`;
+}
+
+const FTS_TRIGGERS: Record<string, string> = {
+  bookmarks_fts_insert: `AFTER INSERT ON bookmarks BEGIN ${getFtsRefreshSql("new.id")} END`,
+  bookmarks_fts_update: `AFTER UPDATE OF title, url, description ON bookmarks BEGIN ${getFtsRefreshSql("new.id")} END`,
+  bookmarks_fts_delete: `AFTER DELETE ON bookmarks BEGIN DELETE FROM bookmarks_fts WHERE rowid = old.rowid; END`,
+  bookmark_labels_fts_insert: `AFTER INSERT ON bookmark_labels BEGIN ${getFtsRefreshSql("new.bookmarkId")} END`,
+  bookmark_labels_fts_update: `AFTER UPDATE ON bookmark_labels BEGIN ${getFtsRefreshSql("new.bookmarkId")} END`,
+  bookmark_labels_fts_delete: `AFTER DELETE ON bookmark_labels BEGIN ${getFtsRefreshSql("old.bookmarkId")} END`,
+  bookmark_content_fts_insert: `AFTER INSERT ON bookmark_content BEGIN ${getFtsRefreshSql("new.bookmarkId")} END`,
+  bookmark_content_fts_update: `AFTER UPDATE ON bookmark_content BEGIN ${getFtsRefreshSql("new.bookmarkId")} END`,
+  bookmark_content_fts_delete: `AFTER DELETE ON bookmark_content BEGIN ${getFtsRefreshSql("old.bookmarkId")} END`
 };
-const whenDatabaseInitialized = new Promise<void>((resolve) => {
-  if (databaseInitialized) {
-    resolve();
-  } else {
-    resolveDatabaseInitialized = resolve;
+
+async function createSearchIndex(trx: Knex.Transaction) {
+  const hasContentTable = await trx.schema.hasTable("bookmark_content");
+  if (!hasContentTable) {
+    await trx.schema.createTable("bookmark_content", (table) => {
+      table.string("bookmarkId").primary().references("id").inTable("bookmarks").onDelete("CASCADE");
+      table.text("content").notNullable();
+      table.timestamp("fetchedAt").notNullable();
+    });
+    console.log("BOOKMARKS: Created bookmark_content table");
   }
-});
+  
+  const hasFtsTable = await trx.schema.hasTable("bookmarks_fts");
+  if (!hasFtsTable) {
+    await trx.raw(`
+      CREATE VIRTUAL TABLE bookmarks_fts USING fts5(
+        title, url, description, labels, content,
+        tokenize = 'unicode61 remove_diacritics 2',
+        prefix = '2 3'
+      )`);
+    console.log("BOOKMARKS: Created bookmarks_fts table");
+  }
+  
+  for (const [name, definition] of Object.entries(FTS_TRIGGERS)) {
+    await trx.raw(`CREATE TRIGGER IF NOT EXISTS ${name} ${definition}`);
+  }
+  
+  // Index the bookmarks that were saved before the index existed
+  if (!hasFtsTable) {
+    await trx.raw("DELETE FROM bookmarks_fts");
+    await trx.raw(`INSERT INTO bookmarks_fts (rowid, title, url, description, labels, content) ${FTS_SELECT_SQL}`);
+    console.log("BOOKMARKS: Built full-text search index");
+  }
+}
 
-async function initDatabase() {
-  try {
-    console.log("BOOKMARKS: Starting database initialization...");
-
-    await configureDatabasePragmas();
-
-    const hasBookmarksTable = await db.schema.hasTable("bookmarks");
-    if (!hasBookmarksTable) {
-      await db.schema.createTable("bookmarks", (table) => {
-        table.string("id").primary();
-        table.string("url").notNullable().index();
-        table.string("title").notNullable();
-        table.text("description");
-        table.string("favicon");
-        table.string("profileId").notNullable().index();
-        table.string("spaceId").notNullable().index();
-        table.boolean("isGlobal").defaultTo(false);
-        table.timestamp("dateAdded").notNullable();
-        table.timestamp("dateModified");
-        table.timestamp("deletedAt");
-        table.integer("visitCount").defaultTo(0);
-        table.timestamp("lastVisited");
-      });
-      console.log("BOOKMARKS: Created bookmarks table");
-    }
+function toFtsQuery(search: string): string | null {
+  const terms = search
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ''))
+    .filter(term => /[\p{L}\p{N}]/u.test(term));
+  
+  if (terms.length === 0) return null;
+  return terms.map(term => `"${term}"*`).join(' ');
+}
 
-    // Add deletedAt column if it doesn't exist
-    const hasDeletedAtColumn = await db.schema.hasColumn("bookmarks", "deletedAt");
-    if (!hasDeletedAtColumn) {
-      await db.schema.alterTable("bookmarks", (table) => {
-        table.timestamp("deletedAt");
-      });
-      console.log("BOOKMARKS: Added deletedAt column to bookmarks table");
+function parseHighlightedText(text: string): SearchHighlight[] {
+  const segments: SearchHighlight[] = [];
+  const parts = (text || '').split(FTS_HIGHLIGHT_START);
+  
+  parts.forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, highlighted: false });
+      return;
     }
+    
+    const [highlighted, rest] = part.split(FTS_HIGHLIGHT_END);
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (rest) segments.push({ text: rest, highlighted: false });
+  });
+  
+  return segments;
+}
 
-    const hasLabelsTable = await db.schema.hasTable("bookmark_labels");
-    if (!hasLabelsTable) {
-      await db.schema.createTable("bookmark_labels", (table) => {
-        table.increments("id").primary();
-        table.string("bookmarkId").references("id").inTable("bookmarks").onDelete("CASCADE");
-        table.string("label").notNullable();
-        table.string("source").notNullable(); // 'user' | 'ai' | 'auto'
-        table.float("confidence"); // For AI labels
-        table.string("category"); // 'topic' | 'type' | 'project' | 'priority'
-        table.index(["bookmarkId", "label"]);
-      });
-      console.log("BOOKMARKS: Created bookmark_labels table");
-    }
+// Embeddings
+// Each bookmark has at most one vector, from the embedder it was last embedded with. Triggers drop
+// the vector when the bookmark changes, so it gets embedded again in the background.
 
-    const hasCollectionsTable = await db.schema.hasTable("bookmark_collections");
-    if (!hasCollectionsTable) {
-      await db.schema.createTable("bookmark_collections", (table) => {
-        table.string("id").primary();
-        table.string("name").notNullable();
-        table.text("description");
-        table.string("profileId").notNullable().index();
-        table.string("spaceId").index();
-        table.string("parentId").index(); // Parent collection ID
-        table.boolean("isAuto").defaultTo(false);
-        table.json("rules"); // For smart collections
-        table.timestamp("dateCreated").notNullable();
-        table.timestamp("dateModified");
-        table.timestamp("deletedAt");
-      });
-      console.log("BOOKMARKS: Created bookmark_collections table");
-    } else {
-      // Check if parentId column exists, add it if not (migration)
-      const hasParentIdColumn = await db.schema.hasColumn("bookmark_collections", "parentId");
-      if (!hasParentIdColumn) {
-        await db.schema.alterTable("bookmark_collections", (table) => {
-          table.string("parentId").index();
+const EMBEDDING_TRIGGERS: Record<string, string> = {
+  bookmark_embeddings_bookmarks_update: `AFTER UPDATE OF title, url, description ON bookmarks BEGIN DELETE FROM bookmark_embeddings WHERE bookmarkId = new.id; END`,
+  bookmark_embeddings_bookmarks_delete: `AFTER DELETE ON bookmarks BEGIN DELETE FROM bookmark_embeddings WHERE bookmarkId = old.id; END`,
+  bookmark_embeddings_labels_insert: `AFTER INSERT ON bookmark_labels BEGIN DELETE FROM bookmark_embeddings WHERE bookmarkId = new.bookmarkId; END`,
+  bookmark_embeddings_labels_delete: `AFTER DELETE ON bookmark_labels BEGIN DELETE FROM bookmark_embeddings WHERE bookmarkId = old.bookmarkId; END`,
+  bookmark_embeddings_content_insert: `AFTER INSERT ON bookmark_content BEGIN DELETE FROM bookmark_embeddings WHERE bookmarkId = new.bookmarkId; END`,
+  bookmark_embeddings_content_update: `AFTER UPDATE ON bookmark_content BEGIN DELETE FROM bookmark_embeddings WHERE bookmarkId = new.bookmarkId; END`
+};
+
+async function createEmbeddingsTable(trx: Knex.Transaction) {
+  const hasEmbeddingsTable = await trx.schema.hasTable("bookmark_embeddings");
+  if (!hasEmbeddingsTable) {
+    await trx.schema.createTable("bookmark_embeddings", (table) => {
+      table.string("bookmarkId").primary().references("id").inTable("bookmarks").onDelete("CASCADE");
+      table.string("embedder").notNullable().index();
+      table.binary("vector").notNullable(); // Float32 values
+      table.timestamp("embeddedAt").notNullable();
+    });
+    console.log("BOOKMARKS: Created bookmark_embeddings table");
+  }
+  
+  for (const [name, definition] of Object.entries(EMBEDDING_TRIGGERS)) {
+    await trx.raw(`CREATE TRIGGER IF NOT EXISTS ${name} ${definition}`);
+  }
+}
+
+function vectorToBuffer(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function bufferToVector(buffer: Buffer): number[] {
+  // Copied first, as Float32Array needs an aligned offset
+  return Array.from(new Float32Array(new Uint8Array(buffer).buffer));
+}
+
+// Migrations
+// Databases from before versioning may have any of the tables of the initial schema,
+// so it only creates what is missing.
+
+const BOOKMARKS_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: async (trx) => {
+      const hasBookmarksTable = await trx.schema.hasTable("bookmarks");
+      if (!hasBookmarksTable) {
+        await trx.schema.createTable("bookmarks", (table) => {
+          table.string("id").primary();
+          table.string("url").notNullable().index();
+          table.string("title").notNullable();
+          table.text("description");
+          table.string("favicon");
+          table.string("profileId").notNullable().index();
+          table.string("spaceId").notNullable().index();
+          table.boolean("isGlobal").defaultTo(false);
+          table.timestamp("dateAdded").notNullable();
+          table.timestamp("dateModified");
+          table.timestamp("deletedAt");
+          table.integer("visitCount").defaultTo(0);
+          table.timestamp("lastVisited");
         });
-        console.log("BOOKMARKS: Added parentId column to bookmark_collections table");
+        console.log("BOOKMARKS: Created bookmarks table");
       }
-      
-      // Check if deletedAt column exists, add it if not (migration)
-      const hasDeletedAtColumn = await db.schema.hasColumn("bookmark_collections", "deletedAt");
+
+      // Add deletedAt column if it doesn't exist
+      const hasDeletedAtColumn = await trx.schema.hasColumn("bookmarks", "deletedAt");
       if (!hasDeletedAtColumn) {
-        await db.schema.alterTable("bookmark_collections", (table) => {
+        await trx.schema.alterTable("bookmarks", (table) => {
           table.timestamp("deletedAt");
         });
-        console.log("BOOKMARKS: Added deletedAt column to bookmark_collections table");
+        console.log("BOOKMARKS: Added deletedAt column to bookmarks table");
       }
-    }
 
-    const hasCollectionItemsTable = await db.schema.hasTable("collection_items");
-    if (!hasCollectionItemsTable) {
-      await db.schema.createTable("collection_items", (table) => {
-        table.increments("id").primary();
-        table.string("collectionId").references("id").inTable("bookmark_collections").onDelete("CASCADE");
-        table.string("bookmarkId").references("id").inTable("bookmarks").onDelete("CASCADE");
-        table.integer("position").defaultTo(0);
-        table.unique(["collectionId", "bookmarkId"]);
-      });
-      console.log("BOOKMARKS: Created collection_items table");
-    }
-
-    // Snooze system tables
-    const hasSnoozedItemsTable = await db.schema.hasTable("snoozed_items");
-    if (!hasSnoozedItemsTable) {
-      await db.schema.createTable("snoozed_items", (table) => {
-        table.string("id").primary();
-        table.string("itemType").notNullable(); // 'bookmark' | 'tab'
-        table.string("itemId").notNullable(); // bookmarkId or tabId
-        table.string("profileId").notNullable().index();
-        table.string("spaceId").notNullable().index(); // Original space where item should wake up
-        table.timestamp("snoozeUntil").notNullable().index(); // When item should wake up
-        table.string("snoozeType").notNullable(); // 'later_today' | 'tomorrow' | 'next_week' | 'custom'
-        table.string("snoozeLabel"); // Human-readable label like "Later today", "Tomorrow 9 AM"
-        table.json("originalData"); // Store original bookmark/tab data for restoration
-        table.timestamp("snoozedAt").notNullable();
-        table.string("snoozedFromSpaceId"); // Space where snooze action was initiated
-        table.boolean("notificationSent").defaultTo(false);
-        table.timestamp("wakeUpNotifiedAt"); // When wake-up notification was sent
-        table.index(["itemType", "itemId"]);
-        table.index(["snoozeUntil", "notificationSent"]);
-      });
-      console.log("BOOKMARKS: Created snoozed_items table");
-    }
+      const hasLabelsTable = await trx.schema.hasTable("bookmark_labels");
+      if (!hasLabelsTable) {
+        await trx.schema.createTable("bookmark_labels", (table) => {
+          table.increments("id").primary();
+          table.string("bookmarkId").references("id").inTable("bookmarks").onDelete("CASCADE");
+          table.string("label").notNullable();
+          table.string("source").notNullable(); // 'user' | 'ai' | 'auto'
+          table.float("confidence"); // For AI labels
+          table.string("category"); // 'topic' | 'type' | 'project' | 'priority'
+          table.index(["bookmarkId", "label"]);
+        });
+        console.log("BOOKMARKS: Created bookmark_labels table");
+      }
 
-    resolveDatabaseInitialized();
-    console.log("BOOKMARKS: Database initialized successfully");
-  } catch (err) {
-    console.error("BOOKMARKS: Failed to initialize bookmark database:", err);
-    throw err;
-  }
-}
+      const hasCollectionsTable = await trx.schema.hasTable("bookmark_collections");
+      if (!hasCollectionsTable) {
+        await trx.schema.createTable("bookmark_collections", (table) => {
+          table.string("id").primary();
+          table.string("name").notNullable();
+          table.text("description");
+          table.string("profileId").notNullable().index();
+          table.string("spaceId").index();
+          table.string("parentId").index(); // Parent collection ID
+          table.boolean("isAuto").defaultTo(false);
+          table.json("rules"); // For smart collections
+          table.timestamp("dateCreated").notNullable();
+          table.timestamp("dateModified");
+          table.timestamp("deletedAt");
+        });
+        console.log("BOOKMARKS: Created bookmark_collections table");
+      } else {
+        // Check if parentId column exists, add it if not (migration)
+        const hasParentIdColumn = await trx.schema.hasColumn("bookmark_collections", "parentId");
+        if (!hasParentIdColumn) {
+          await trx.schema.alterTable("bookmark_collections", (table) => {
+            table.string("parentId").index();
+          });
+          console.log("BOOKMARKS: Added parentId column to bookmark_collections table");
+        }
+      
+        // Check if deletedAt column exists, add it if not (migration)
+        const hasDeletedAtColumn = await trx.schema.hasColumn("bookmark_collections", "deletedAt");
+        if (!hasDeletedAtColumn) {
+          await trx.schema.alterTable("bookmark_collections", (table) => {
+            table.timestamp("deletedAt");
+          });
+          console.log("BOOKMARKS: Added deletedAt column to bookmark_collections table");
+        }
+      }
 
-// Initialize with retries
-let retryCount = 0;
-const maxRetries = 3;
+      const hasCollectionItemsTable = await trx.schema.hasTable("collection_items");
+      if (!hasCollectionItemsTable) {
+        await trx.schema.createTable("collection_items", (table) => {
+          table.increments("id").primary();
+          table.string("collectionId").references("id").inTable("bookmark_collections").onDelete("CASCADE");
+          table.string("bookmarkId").references("id").inTable("bookmarks").onDelete("CASCADE");
+          table.integer("position").defaultTo(0);
+          table.unique(["collectionId", "bookmarkId"]);
+        });
+        console.log("BOOKMARKS: Created collection_items table");
+      }
 
-async function initDatabaseWithRetry() {
-  try {
-    await initDatabase();
-  } catch {
-    retryCount++;
-    if (retryCount < maxRetries) {
-      setTimeout(initDatabaseWithRetry, 1000 * retryCount);
-    } else {
-      console.error("BOOKMARKS: Failed to initialize database after multiple attempts");
-      resolveDatabaseInitialized();
+      // Snooze system tables
+      const hasSnoozedItemsTable = await trx.schema.hasTable("snoozed_items");
+      if (!hasSnoozedItemsTable) {
+        await trx.schema.createTable("snoozed_items", (table) => {
+          table.string("id").primary();
+          table.string("itemType").notNullable(); // 'bookmark' | 'tab'
+          table.string("itemId").notNullable(); // bookmarkId or tabId
+          table.string("profileId").notNullable().index();
+          table.string("spaceId").notNullable().index(); // Original space where item should wake up
+          table.timestamp("snoozeUntil").notNullable().index(); // When item should wake up
+          table.string("snoozeType").notNullable(); // 'later_today' | 'tomorrow' | 'next_week' | 'custom'
+          table.string("snoozeLabel"); // Human-readable label like "Later today", "Tomorrow 9 AM"
+          table.json("originalData"); // Store original bookmark/tab data for restoration
+          table.timestamp("snoozedAt").notNullable();
+          table.string("snoozedFromSpaceId"); // Space where snooze action was initiated
+          table.boolean("notificationSent").defaultTo(false);
+          table.timestamp("wakeUpNotifiedAt"); // When wake-up notification was sent
+          table.index(["itemType", "itemId"]);
+          table.index(["snoozeUntil", "notificationSent"]);
+        });
+        console.log("BOOKMARKS: Created snoozed_items table");
+      }
     }
+  },
+  {
+    version: 2,
+    name: "search_index",
+    up: createSearchIndex
+  },
+  {
+    version: 3,
+    name: "embeddings",
+    up: createEmbeddingsTable
   }
+];
+
+async function initDatabase() {
+  console.log("BOOKMARKS: Starting database initialization...");
+
+  await configureDatabasePragmas();
+  const version = await runMigrations(db, {
+    name: "bookmarks",
+    dbPath,
+    migrations: BOOKMARKS_MIGRATIONS
+  });
+
+  console.log(`BOOKMARKS: Database initialized successfully (schema version ${version})`);
 }
 
-initDatabaseWithRetry();
+const whenDatabaseInitialized = initializeDatabase("bookmarks", initDatabase);
 
 // Types
 
@@ -208,12 +347,24 @@ export type {
   Bookmark,
   BookmarkCollection,
   BookmarkLabel,
+  CollectionRule,
+  CollectionRuleGroup,
   CreateBookmarkInput,
+  CreateCollectionInput,
   UpdateBookmarkInput,
   UpdateCollectionInput,
   BookmarkFilter,
+  BookmarkExportFile,
+  BookmarkExportFormat,
+  BookmarkSearchResult,
+  BookmarkSemanticResult,
   BookmarkViewMode,
-  ImportStats
+  BookmarkImportFormat,
+  BookmarkImportRequest,
+  BookmarkImportSource,
+  ImportFailure,
+  ImportStats,
+  SearchHighlight
 } from "~/types/bookmarks";
 
 // CRUD Operations
@@ -400,6 +551,9 @@ export async function permanentlyDeleteBookmark(id: string): Promise<boolean> {
     // Delete from collections
     await transaction("collection_items").where({ bookmarkId: id }).delete();
     
+    // Delete indexed page content
+    await transaction("bookmark_content").where({ bookmarkId: id }).delete();
+    
     // Delete the bookmark
     const deletedCount = await transaction("bookmarks").where({ id }).delete();
     
@@ -425,9 +579,21 @@ export async function deleteBookmarks(ids: string[]): Promise<number> {
   return updatedCount;
 }
 
+// Returns the rules of a collection if it is an auto collection, or null for a regular one
+async function getAutoCollectionRules(collectionId: string): Promise<CollectionRuleGroup | null> {
+  const collection = await db("bookmark_collections").where({ id: collectionId }).first();
+  if (!collection || !collection.isAuto) return null;
+  
+  // Malformed rules match nothing rather than falling back to the collection items
+  return parseCollectionRules(collection.rules) ?? { type: 'group', operator: 'and', rules: [] };
+}
+
 export async function getBookmarks(filter?: BookmarkFilter): Promise<Bookmark[]> {
   await whenDatabaseInitialized;
   
+  // Auto collections are evaluated against their rules instead of their items
+  const collectionRules = filter?.collectionId ? await getAutoCollectionRules(filter.collectionId) : null;
+  
   let query = db("bookmarks").select("bookmarks.*");
   
   if (filter) {
@@ -446,12 +612,13 @@ export async function getBookmarks(filter?: BookmarkFilter): Promise<Bookmark[]>
     }
     
     if (filter.search) {
-      const searchTerm = `%${filter.search}%`;
-      query = query.where(function() {
-        this.where("bookmarks.title", "like", searchTerm)
-          .orWhere("bookmarks.url", "like", searchTerm)
-          .orWhere("bookmarks.description", "like", searchTerm);
-      });
+      const ftsQuery = toFtsQuery(filter.search);
+      if (ftsQuery) {
+        query = query.whereRaw(
+          "bookmarks.rowid IN (SELECT rowid FROM bookmarks_fts WHERE bookmarks_fts MATCH ?)",
+          [ftsQuery]
+        );
+      }
     }
     
     if (filter.labels && filter.labels.length > 0) {
@@ -462,7 +629,7 @@ export async function getBookmarks(filter?: BookmarkFilter): Promise<Bookmark[]>
         .having(db.raw("COUNT(DISTINCT bookmark_labels.label) = ?", [filter.labels.length]));
     }
     
-    if (filter.collectionId) {
+    if (filter.collectionId && !collectionRules) {
       query = query
         .join("collection_items", "bookmarks.id", "collection_items.bookmarkId")
         .where("collection_items.collectionId", filter.collectionId)
@@ -500,10 +667,88 @@ export async function getBookmarks(filter?: BookmarkFilter): Promise<Bookmark[]>
     return acc;
   }, {});
   
-  return bookmarks.map((b: any) => ({
+  const results: Bookmark[] = bookmarks.map((b: any) => ({
     ...b,
     labels: labelsByBookmark[b.id] || []
   }));
+  
+  if (collectionRules) {
+    const now = Date.now();
+    return results.filter(bookmark => matchesCollectionRules(bookmark, collectionRules, now));
+  }
+  
+  return results;
+}
+
+// A row of the full-text search, with the matches marked in its title and snippet
+interface FtsMatchRow {
+  id: string;
+  rank: number;
+  title: string;
+  snippet: string;
+}
+
+export async function searchBookmarks(search: string, filter?: BookmarkFilter, limit: number = 100): Promise<BookmarkSearchResult[]> {
+  await whenDatabaseInitialized;
+  
+  const ftsQuery = toFtsQuery(search);
+  if (!ftsQuery) return [];
+  
+  const matches: FtsMatchRow[] = await db.raw(
+    `SELECT bookmarks.id AS id,
+      bm25(bookmarks_fts, ${FTS_COLUMN_WEIGHTS.join(', ')}) AS rank,
+      highlight(bookmarks_fts, 0, ?, ?) AS title,
+      snippet(bookmarks_fts, -1, ?, ?, '…', 16) AS snippet
+    FROM bookmarks_fts
+    JOIN bookmarks ON bookmarks.rowid = bookmarks_fts.rowid
+    WHERE bookmarks_fts MATCH ?`,
+    [FTS_HIGHLIGHT_START, FTS_HIGHLIGHT_END, FTS_HIGHLIGHT_START, FTS_HIGHLIGHT_END, ftsQuery]
+  );
+  
+  const matchesById = new Map(matches.map((match) => [match.id, match]));
+  
+  // The rest of the filter (profile, collection, deleted...) is applied by getBookmarks
+  const bookmarks = await getBookmarks({ ...filter, search });
+  
+  return bookmarks
+    .flatMap(bookmark => {
+      const match = matchesById.get(bookmark.id);
+      if (!match) return [];
+      return {
+        bookmark,
+        rank: match.rank,
+        title: parseHighlightedText(match.title),
+        snippet: parseHighlightedText(match.snippet)
+      };
+    })
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit);
+}
+
+/**
+ * Fetches the page of a bookmark and adds its text to the search index
+ * @returns True if page content was indexed
+ */
+export async function indexBookmarkContent(id: string): Promise<boolean> {
+  await whenDatabaseInitialized;
+  
+  const bookmark = await db("bookmarks").where({ id }).first();
+  if (!bookmark) return false;
+  
+  const page = await contentFetcher.fetchPageContent(bookmark.url);
+  if (!page.content) return false;
+  
+  await db("bookmark_content")
+    .insert({
+      bookmarkId: id,
+      content: page.content,
+      fetchedAt: new Date()
+    })
+    .onConflict("bookmarkId")
+    .merge();
+  
+  console.log(`BOOKMARKS: Indexed page content for bookmark: ${id}`);
+  return true;
 }
 
 export async function bookmarkExists(url: string, profileId: string, spaceId: string): Promise<boolean> {
@@ -530,15 +775,7 @@ export async function incrementVisitCount(id: string): Promise<void> {
 
 // Collection operations
 
-export async function createCollection(input: {
-  name: string;
-  description?: string;
-  profileId: string;
-  spaceId?: string;
-  parentId?: string;
-  isAuto?: boolean;
-  rules?: any;
-}): Promise<BookmarkCollection> {
+export async function createCollection(input: CreateCollectionInput): Promise<BookmarkCollection> {
   await whenDatabaseInitialized;
   
   const id = createHash("md5").update(`${input.name}${input.profileId}${Date.now()}`).digest("hex");
@@ -560,7 +797,8 @@ export async function createCollection(input: {
   const result = await db("bookmark_collections").where({ id }).first();
   return {
     ...result,
-    rules: result.rules ? JSON.parse(result.rules) : null
+    isAuto: Boolean(result.isAuto),
+    rules: parseCollectionRules(result.rules)
   };
 }
 
@@ -579,6 +817,14 @@ export async function updateCollection(id: string, input: UpdateCollectionInput)
     updateData.description = input.description;
   }
   
+  if (input.isAuto !== undefined) {
+    updateData.isAuto = input.isAuto;
+  }
+  
+  if (input.rules !== undefined) {
+    updateData.rules = input.rules ? JSON.stringify(input.rules) : null;
+  }
+  
   const updatedRows = await db("bookmark_collections")
     .where({ id })
     .update(updateData);
@@ -594,7 +840,8 @@ export async function updateCollection(id: string, input: UpdateCollectionInput)
   
   return {
     ...result,
-    rules: result.rules ? JSON.parse(result.rules) : null
+    isAuto: Boolean(result.isAuto),
+    rules: parseCollectionRules(result.rules)
   };
 }
 
@@ -653,13 +900,28 @@ export async function getCollections(profileId?: string): Promise<BookmarkCollec
   
   const collections = await query;
   
-  const processedCollections = collections.map((c: any) => ({
+  const processedCollections: BookmarkCollection[] = collections.map((c: any) => ({
     ...c,
-    rules: c.rules ? JSON.parse(c.rules) : null,
+    isAuto: Boolean(c.isAuto),
+    rules: parseCollectionRules(c.rules),
     bookmarkCount: Number(c.bookmarkCount),
     children: []
   }));
   
+  // Auto collections have no items, so count the bookmarks matching their rules
+  const autoCollections = processedCollections.filter((c) => c.isAuto);
+  if (autoCollections.length > 0) {
+    const bookmarks = await getBookmarks(profileId ? { profileId } : undefined);
+    const now = Date.now();
+    
+    autoCollections.forEach((collection: BookmarkCollection) => {
+      const rules = collection.rules;
+      collection.bookmarkCount = rules
+        ? bookmarks.filter(bookmark => matchesCollectionRules(bookmark, rules, now)).length
+        : 0;
+    });
+  }
+  
   // Build tree structure
   const collectionsMap = new Map<string, any>();
   const rootCollections: any[] = [];
@@ -762,7 +1024,8 @@ export async function getDeletedCollections(profileId?: string): Promise<Bookmar
   
   return collections.map((c: any) => ({
     ...c,
-    rules: c.rules ? JSON.parse(c.rules) : null,
+    isAuto: Boolean(c.isAuto),
+    rules: parseCollectionRules(c.rules),
     bookmarkCount: 0 // Deleted collections don't show bookmark counts
   }));
 }
@@ -846,100 +1109,554 @@ export async function getBookmarksByUrl(url: string): Promise<Bookmark[]> {
 
 // Import functionality
 
+interface ImportContext {
+  profileId: string;
+  spaceId: string;
+  stats: ImportStats;
+  // Bookmark IDs by URL, for bookmarks created or found during this import
+  bookmarkIdsByUrl: Map<string, string>;
+}
 
-export async function importChromeBookmarks(
-  htmlContent: string, 
-  profileId: string, 
+function countImportedBookmarks(nodes: ImportedNode[]): number {
+  return nodes.reduce((count, node) => count + (node.type === 'folder' ? countImportedBookmarks(node.children) : 1), 0);
+}
+
+function addImportFailure(context: ImportContext, failure: ImportFailure) {
+  context.stats.errors++;
+  context.stats.failures!.push(failure);
+}
+
+// Folders are merged into an existing collection with the same name and parent
+async function getOrCreateImportCollection(folder: ImportedFolderNode, parentId: string | null, context: ImportContext): Promise<BookmarkCollection> {
+  const existing = await db("bookmark_collections")
+    .where({ name: folder.title, parentId, profileId: context.profileId })
+    .whereNull("deletedAt")
+    .first();
+  if (existing) {
+    return { ...existing, isAuto: Boolean(existing.isAuto), rules: parseCollectionRules(existing.rules) };
+  }
+  
+  const collection = await createCollection({
+    name: folder.title,
+    description: folder.description,
+    profileId: context.profileId,
+    spaceId: context.spaceId,
+    parentId: parentId ?? undefined,
+    isAuto: folder.isAuto,
+    rules: folder.rules
+  });
+  context.stats.collections!++;
+  return collection;
+}
+
+async function importBookmarkNode(node: ImportedBookmarkNode, collectionId: string | null, context: ImportContext) {
+  const { profileId, spaceId, stats, bookmarkIdsByUrl } = context;
+  
+  // The same URL can be in several folders, but is only imported once
+  let bookmarkId = bookmarkIdsByUrl.get(node.url);
+  if (!bookmarkId) {
+    const existing = await db("bookmarks")
+      .where({ url: node.url, profileId, spaceId })
+      .whereNull("deletedAt")
+      .first();
+    
+    if (existing) {
+      bookmarkId = existing.id as string;
+      stats.skipped++;
+    } else {
+      const labels = node.labels || [];
+      const bookmark = await createBookmark({
+        url: node.url,
+        title: node.title,
+        description: node.description,
+        profileId,
+        spaceId,
+        labels: labels.filter(l => l.source === 'user').map(l => l.label)
+      });
+      bookmarkId = bookmark.id;
+      
+      const otherLabels = labels.filter(l => l.source !== 'user');
+      if (otherLabels.length > 0) {
+        await updateBookmark(bookmark.id, { addLabels: otherLabels });
+      }
+      
+      // Imported dates and visits are kept, instead of the ones of the new bookmark
+      const updates: Partial<Pick<Bookmark, 'dateAdded' | 'lastVisited' | 'visitCount'>> = {};
+      if (node.dateAdded) updates.dateAdded = new Date(node.dateAdded);
+      if (node.lastVisited) updates.lastVisited = new Date(node.lastVisited);
+      if (node.visitCount) updates.visitCount = node.visitCount;
+      if (Object.keys(updates).length > 0) {
+        await db("bookmarks").where({ id: bookmark.id }).update(updates);
+      }
+      
+      stats.imported++;
+    }
+    bookmarkIdsByUrl.set(node.url, bookmarkId);
+  }
+  
+  if (collectionId) {
+    await addBookmarkToCollection(bookmarkId, collectionId);
+  }
+}
+
+async function importNodes(nodes: ImportedNode[], collectionId: string | null, context: ImportContext) {
+  for (const node of nodes) {
+    if (node.type === 'folder') {
+      let collection: BookmarkCollection;
+      try {
+        collection = await getOrCreateImportCollection(node, collectionId, context);
+      } catch (error) {
+        console.error(`BOOKMARKS: Failed to import folder ${node.title}:`, error);
+        // Every bookmark in the folder fails with it
+        const bookmarkCount = countImportedBookmarks(node.children);
+        context.stats.errors += bookmarkCount;
+        context.stats.failures!.push({ title: node.title, error: `Failed to create the folder (${bookmarkCount} bookmarks)` });
+        continue;
+      }
+      
+      // Auto collections are filled by their rules
+      await importNodes(node.isAuto ? [] : node.children, collection.id, context);
+      continue;
+    }
+    
+    try {
+      await importBookmarkNode(node, collectionId, context);
+    } catch (error) {
+      console.error(`BOOKMARKS: Failed to import bookmark ${node.url}:`, error);
+      addImportFailure(context, {
+        title: node.title,
+        url: node.url,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Imports bookmarks from another browser or a Flow export
+ * Folders are kept as nested collections, and bookmarks that already exist are skipped.
+ */
+export async function importBookmarks(
+  request: BookmarkImportRequest,
+  profileId: string,
   spaceId: string
 ): Promise<ImportStats> {
   await whenDatabaseInitialized;
   
+  let nodes: ImportedNode[];
+  try {
+    nodes = await readImportRequest(request);
+  } catch (error) {
+    console.error('BOOKMARKS: Failed to read bookmark import:', error);
+    throw new Error(`Failed to read bookmark file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
   const stats: ImportStats = {
-    total: 0,
+    total: countImportedBookmarks(nodes),
     imported: 0,
     skipped: 0,
-    errors: 0
+    errors: 0,
+    collections: 0,
+    failures: []
   };
+  
+  console.log(`BOOKMARKS: Starting ${request.format} import of ${stats.total} bookmarks`);
+  
+  await importNodes(nodes, null, {
+    profileId,
+    spaceId,
+    stats,
+    bookmarkIdsByUrl: new Map()
+  });
+  
+  console.log(`BOOKMARKS: Import completed - ${stats.imported} imported, ${stats.skipped} skipped, ${stats.errors} errors, ${stats.collections} collections`);
+  return stats;
+}
 
-  try {
-    // Parse Chrome's HTML bookmark format
-    const bookmarks = parseChromeBookmarkHtml(htmlContent);
-    stats.total = bookmarks.length;
+export async function importChromeBookmarks(
+  htmlContent: string, 
+  profileId: string, 
+  spaceId: string
+): Promise<ImportStats> {
+  return await importBookmarks({ format: 'html', content: htmlContent }, profileId, spaceId);
+}
+
+// Export
+
+// A row of the bookmark_collections table, as SQLite returns it
+interface CollectionRow extends Omit<BookmarkCollection, 'isAuto' | 'rules'> {
+  isAuto: number | boolean;
+  rules: string | null;
+}
+
+// A row of the collection_items table
+interface CollectionItemRow {
+  id: number;
+  collectionId: string;
+  bookmarkId: string;
+  position: number;
+}
+
+// Bookmarks with the IDs of every collection they are in, including matching auto collections
+async function getBookmarksForExport(filter?: BookmarkFilter): Promise<{ bookmarks: Bookmark[]; collections: BookmarkCollection[] }> {
+  const bookmarks = await getBookmarks(filter);
+  
+  // Exports of a profile must not include the collections of other profiles
+  let collectionQuery = db<CollectionRow>("bookmark_collections").whereNull("deletedAt");
+  if (filter?.profileId) {
+    collectionQuery = collectionQuery.where("profileId", filter.profileId);
+  }
+  const collectionRows: CollectionRow[] = await collectionQuery.orderBy("dateCreated");
+  const collections: BookmarkCollection[] = collectionRows.map((c) => ({
+    ...c,
+    isAuto: Boolean(c.isAuto),
+    rules: parseCollectionRules(c.rules)
+  }));
+  
+  const items: CollectionItemRow[] = await db<CollectionItemRow>("collection_items")
+    .whereIn("bookmarkId", bookmarks.map(b => b.id))
+    .orderBy("position");
+  const collectionIdsByBookmark = items.reduce((acc: Record<string, string[]>, item) => {
+    if (!acc[item.bookmarkId]) acc[item.bookmarkId] = [];
+    acc[item.bookmarkId].push(item.collectionId);
+    return acc;
+  }, {});
+  
+  const now = Date.now();
+  const collectionIds = new Set(collections.map(c => c.id));
+  
+  return {
+    collections,
+    bookmarks: bookmarks.map(bookmark => {
+      const autoCollectionIds = collections
+        .filter(c => c.isAuto && c.rules && matchesCollectionRules(bookmark, c.rules, now))
+        .map(c => c.id);
+      const itemCollectionIds = (collectionIdsByBookmark[bookmark.id] || []).filter(id => collectionIds.has(id));
+      
+      return {
+        ...bookmark,
+        collections: [...itemCollectionIds, ...autoCollectionIds]
+      };
+    })
+  };
+}
+
+function toIsoDate(date: Date | string | number | null | undefined): string | null {
+  if (date === null || date === undefined) return null;
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function toUnixSeconds(date: Date | string | number | null | undefined): number | null {
+  if (date === null || date === undefined) return null;
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Groups collections by their parent, treating collections with a missing parent as root collections
+function getCollectionChildren(collections: BookmarkCollection[]): Map<string | null, BookmarkCollection[]> {
+  const collectionIds = new Set(collections.map(c => c.id));
+  const childrenByParent = new Map<string | null, BookmarkCollection[]>();
+  
+  collections.forEach(collection => {
+    const parentId = collection.parentId && collectionIds.has(collection.parentId) ? collection.parentId : null;
+    if (!childrenByParent.has(parentId)) childrenByParent.set(parentId, []);
+    childrenByParent.get(parentId)!.push(collection);
+  });
+  
+  return childrenByParent;
+}
+
+function exportNetscapeHtml(bookmarks: Bookmark[], collections: BookmarkCollection[]): string {
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>'
+  ];
+  
+  const childrenByParent = getCollectionChildren(collections);
+  const bookmarksByCollection = new Map<string, Bookmark[]>();
+  bookmarks.forEach(bookmark => {
+    bookmark.collections?.forEach(collectionId => {
+      if (!bookmarksByCollection.has(collectionId)) bookmarksByCollection.set(collectionId, []);
+      bookmarksByCollection.get(collectionId)!.push(bookmark);
+    });
+  });
+  
+  // Folders without any exported bookmarks are left out
+  const hasBookmarks = (collection: BookmarkCollection, visited: Set<string>): boolean => {
+    if (visited.has(collection.id)) return false;
+    visited.add(collection.id);
     
-    console.log(`BOOKMARKS: Starting import of ${stats.total} bookmarks`);
+    return (bookmarksByCollection.get(collection.id)?.length ?? 0) > 0 ||
+      (childrenByParent.get(collection.id) || []).some(child => hasBookmarks(child, visited));
+  };
+  
+  const writeBookmark = (bookmark: Bookmark, indent: string) => {
+    const addDate = toUnixSeconds(bookmark.dateAdded);
+    const lastVisit = toUnixSeconds(bookmark.lastVisited);
+    const tags = (bookmark.labels || []).map(l => l.label).join(',');
     
-    for (const bookmark of bookmarks) {
-      try {
-        // Check if bookmark already exists
-        const exists = await bookmarkExists(bookmark.url, profileId, spaceId);
-        if (exists) {
-          stats.skipped++;
-          continue;
-        }
-        
-        // Create bookmark
-        await createBookmark({
-          url: bookmark.url,
-          title: bookmark.title,
-          description: bookmark.description,
-          profileId,
-          spaceId,
-          labels: bookmark.labels
-        });
-        
-        stats.imported++;
-      } catch (error) {
-        console.error(`BOOKMARKS: Failed to import bookmark ${bookmark.url}:`, error);
-        stats.errors++;
-      }
+    let attributes = `HREF="${escapeHtml(bookmark.url)}"`;
+    if (addDate !== null) attributes += ` ADD_DATE="${addDate}"`;
+    if (lastVisit !== null) attributes += ` LAST_VISIT="${lastVisit}"`;
+    if (bookmark.favicon && bookmark.favicon.startsWith('data:')) attributes += ` ICON="${escapeHtml(bookmark.favicon)}"`;
+    if (tags) attributes += ` TAGS="${escapeHtml(tags)}"`;
+    
+    lines.push(`${indent}<DT><A ${attributes}>${escapeHtml(bookmark.title)}</A>`);
+    if (bookmark.description) {
+      lines.push(`${indent}<DD>${escapeHtml(bookmark.description)}`);
     }
+  };
+  
+  const writeCollection = (collection: BookmarkCollection, depth: number, visited: Set<string>) => {
+    if (visited.has(collection.id) || !hasBookmarks(collection, new Set())) return;
+    visited.add(collection.id);
     
-    console.log(`BOOKMARKS: Import completed - ${stats.imported} imported, ${stats.skipped} skipped, ${stats.errors} errors`);
-    return stats;
+    const indent = '    '.repeat(depth);
+    const addDate = toUnixSeconds(collection.dateCreated);
+    const lastModified = toUnixSeconds(collection.dateModified);
     
-  } catch (error) {
-    console.error('BOOKMARKS: Failed to parse bookmark file:', error);
-    throw new Error('Failed to parse bookmark file');
+    let attributes = '';
+    if (addDate !== null) attributes += ` ADD_DATE="${addDate}"`;
+    if (lastModified !== null) attributes += ` LAST_MODIFIED="${lastModified}"`;
+    
+    lines.push(`${indent}<DT><H3${attributes}>${escapeHtml(collection.name)}</H3>`);
+    lines.push(`${indent}<DL><p>`);
+    (childrenByParent.get(collection.id) || []).forEach(child => writeCollection(child, depth + 1, visited));
+    (bookmarksByCollection.get(collection.id) || []).forEach(bookmark => writeBookmark(bookmark, `${indent}    `));
+    lines.push(`${indent}</DL><p>`);
+  };
+  
+  const visited = new Set<string>();
+  (childrenByParent.get(null) || []).forEach(collection => writeCollection(collection, 1, visited));
+  
+  // Bookmarks outside of any collection go at the top level
+  bookmarks
+    .filter(bookmark => !bookmark.collections || bookmark.collections.length === 0)
+    .forEach(bookmark => writeBookmark(bookmark, '    '));
+  
+  lines.push('</DL><p>');
+  return lines.join('\n') + '\n';
+}
+
+function exportJson(bookmarks: Bookmark[], collections: BookmarkCollection[]): string {
+  const file: BookmarkExportFile = {
+    format: 'flow-bookmarks',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    bookmarks: bookmarks.map(bookmark => ({
+      id: bookmark.id,
+      url: bookmark.url,
+      title: bookmark.title,
+      description: bookmark.description ?? undefined,
+      favicon: bookmark.favicon ?? undefined,
+      profileId: bookmark.profileId,
+      spaceId: bookmark.spaceId,
+      isGlobal: Boolean(bookmark.isGlobal),
+      dateAdded: toIsoDate(bookmark.dateAdded),
+      dateModified: toIsoDate(bookmark.dateModified),
+      deletedAt: toIsoDate(bookmark.deletedAt),
+      visitCount: bookmark.visitCount ?? 0,
+      lastVisited: toIsoDate(bookmark.lastVisited),
+      labels: bookmark.labels || [],
+      collections: bookmark.collections || []
+    })),
+    collections: collections.map(collection => ({
+      id: collection.id,
+      name: collection.name,
+      description: collection.description ?? undefined,
+      profileId: collection.profileId,
+      spaceId: collection.spaceId ?? undefined,
+      parentId: collection.parentId ?? undefined,
+      isAuto: collection.isAuto,
+      rules: collection.rules ?? null,
+      dateCreated: toIsoDate(collection.dateCreated),
+      dateModified: toIsoDate(collection.dateModified)
+    }))
+  };
+  
+  return JSON.stringify(file, null, 2);
+}
+
+function escapeCsvValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  
+  // Keep spreadsheet apps from evaluating values as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function exportCsv(bookmarks: Bookmark[], collections: BookmarkCollection[]): string {
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  
+  // "Parent / Child" path of a collection
+  const getCollectionPath = (collectionId: string): string => {
+    const names: string[] = [];
+    const visited = new Set<string>();
+    let collection = collectionsById.get(collectionId);
+    
+    while (collection && !visited.has(collection.id)) {
+      visited.add(collection.id);
+      names.unshift(collection.name);
+      collection = collection.parentId ? collectionsById.get(collection.parentId) : undefined;
+    }
+    return names.join(' / ');
+  };
+  
+  const header = ['title', 'url', 'description', 'labels', 'collections', 'spaceId', 'dateAdded', 'visitCount', 'lastVisited'];
+  const rows = bookmarks.map(bookmark => [
+    bookmark.title,
+    bookmark.url,
+    bookmark.description,
+    (bookmark.labels || []).map(l => l.label).join('; '),
+    (bookmark.collections || []).map(getCollectionPath).join('; '),
+    bookmark.spaceId,
+    toIsoDate(bookmark.dateAdded),
+    bookmark.visitCount ?? 0,
+    toIsoDate(bookmark.lastVisited)
+  ]);
+  
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+export async function exportBookmarks(format: BookmarkExportFormat, filter?: BookmarkFilter): Promise<string> {
+  await whenDatabaseInitialized;
+  
+  const { bookmarks, collections } = await getBookmarksForExport(filter);
+  console.log(`BOOKMARKS: Exporting ${bookmarks.length} bookmarks as ${format}`);
+  
+  switch (format) {
+    case 'html':
+      return exportNetscapeHtml(bookmarks, collections);
+    case 'json':
+      return exportJson(bookmarks, collections);
+    case 'csv':
+      return exportCsv(bookmarks, collections);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
   }
 }
 
-interface ParsedBookmark {
+/**
+ * Gets the bookmarks that have no labels at all, newest first
+ */
+export async function getUnlabeledBookmarkIds(): Promise<string[]> {
+  await whenDatabaseInitialized;
+
+  return await db("bookmarks")
+    .whereNull("deletedAt")
+    .whereNotExists(db("bookmark_labels").whereRaw("bookmark_labels.bookmarkId = bookmarks.id"))
+    .orderBy("dateAdded", "desc")
+    .pluck("id");
+}
+
+// Embedding operations
+
+export interface BookmarkEmbeddingSource {
+  id: string;
   url: string;
   title: string;
-  description?: string;
-  labels?: string[];
+  description: string | null;
+  labels: string[];
+  content: string | null;
+}
+
+// Only the start of the page content is embedded, as it is usually what the page is about
+const MAX_EMBEDDED_CONTENT_LENGTH = 2000;
+
+/**
+ * Gets the text that a bookmark is embedded from
+ * Vectors can only be compared when they were embedded from the same kind of text.
+ */
+export function getBookmarkEmbeddingText(source: Omit<BookmarkEmbeddingSource, "id">): string {
+  return [
+    source.title,
+    source.description,
+    source.labels.join(", "),
+    source.url,
+    source.content?.slice(0, MAX_EMBEDDED_CONTENT_LENGTH)
+  ]
+    .filter(Boolean)
+    .join("\n");
 }
 
-function parseChromeBookmarkHtml(htmlContent: string): ParsedBookmark[] {
-  const bookmarks: ParsedBookmark[] = [];
+/**
+ * Gets bookmarks that have no vector from an embedder yet, with the text to embed them from
+ */
+export async function getBookmarksToEmbed(embedderId: string, limit: number): Promise<BookmarkEmbeddingSource[]> {
+  await whenDatabaseInitialized;
   
-  // Chrome bookmark format uses <A> tags with HREF attributes
-  // Match pattern: <A HREF="url" ADD_DATE="timestamp" ...>Title</A>
-  const bookmarkRegex = /<A\s+HREF="([^"]+)"[^>]*>([^<]+)<\/A>/gi;
+  const rows: Array<Omit<BookmarkEmbeddingSource, "labels">> = await db("bookmarks")
+    .leftJoin("bookmark_embeddings", "bookmarks.id", "bookmark_embeddings.bookmarkId")
+    .leftJoin("bookmark_content", "bookmarks.id", "bookmark_content.bookmarkId")
+    .whereNull("bookmarks.deletedAt")
+    .where(function() {
+      this.whereNull("bookmark_embeddings.embedder").orWhere("bookmark_embeddings.embedder", "!=", embedderId);
+    })
+    .orderBy("bookmarks.dateAdded", "desc")
+    .limit(limit)
+    .select("bookmarks.id", "bookmarks.url", "bookmarks.title", "bookmarks.description", "bookmark_content.content");
+  
+  const labels: Array<{ bookmarkId: string; label: string }> = await db("bookmark_labels")
+    .whereIn("bookmarkId", rows.map(row => row.id))
+    .select("bookmarkId", "label");
+  
+  return rows.map(row => ({
+    ...row,
+    labels: labels.filter(label => label.bookmarkId === row.id).map(label => label.label)
+  }));
+}
+
+export async function saveBookmarkEmbeddings(embedderId: string, embeddings: Array<{ bookmarkId: string; vector: number[] }>): Promise<void> {
+  await whenDatabaseInitialized;
+  if (embeddings.length === 0) return;
   
-  let match;
-  while ((match = bookmarkRegex.exec(htmlContent)) !== null) {
-    const [, url, title] = match;
-    
-    // Skip empty or invalid URLs
-    if (!url || !title || url.trim() === '' || title.trim() === '') {
-      continue;
-    }
-    
-    // Skip javascript: and other non-http(s) URLs except for common protocols
-    if (!url.match(/^(https?|ftp|file):/i)) {
-      continue;
-    }
-    
-    bookmarks.push({
-      url: url.trim(),
-      title: title.trim(),
-      description: undefined,
-      labels: []
-    });
+  await db("bookmark_embeddings")
+    .insert(embeddings.map(({ bookmarkId, vector }) => ({
+      bookmarkId,
+      embedder: embedderId,
+      vector: vectorToBuffer(vector),
+      embeddedAt: new Date()
+    })))
+    .onConflict("bookmarkId")
+    .merge();
+}
+
+/**
+ * Gets the vectors of bookmarks from an embedder
+ * @param bookmarkIds The bookmarks to get, or all of them if not provided
+ */
+export async function getBookmarkEmbeddings(embedderId: string, bookmarkIds?: string[]): Promise<Map<string, number[]>> {
+  await whenDatabaseInitialized;
+  
+  let query = db("bookmark_embeddings").where({ embedder: embedderId });
+  if (bookmarkIds) {
+    query = query.whereIn("bookmarkId", bookmarkIds);
   }
   
-  return bookmarks;
+  const rows: Array<{ bookmarkId: string; vector: Buffer }> = await query.select("bookmarkId", "vector");
+  return new Map(rows.map(row => [row.bookmarkId, bufferToVector(row.vector)]));
 }
 
 export async function addAILabels(bookmarkId: string, aiLabels: Array<{label: string; confidence: number; category: string}>): Promise<Bookmark | null> {
@@ -980,3 +1697,140 @@ export async function addAILabels(bookmarkId: string, aiLabels: Array<{label: st
   });
 }
 
+
+// Snooze operations
+
+// A row of the snoozed_items table, as SQLite returns it
+interface SnoozedItemRow {
+  id: string;
+  itemType: SnoozeItemType;
+  itemId: string;
+  profileId: string;
+  spaceId: string;
+  snoozeUntil: number | string;
+  snoozeType: SnoozeType;
+  snoozeLabel: string | null;
+  snoozedAt: number | string;
+  snoozedFromSpaceId: string | null;
+  originalData: unknown;
+  notificationSent: number | boolean;
+}
+
+function getOriginalDataField(originalData: unknown, field: string): string | undefined {
+  if (!originalData || typeof originalData !== 'object' || !(field in originalData)) return undefined;
+  const value: unknown = Reflect.get(originalData, field);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function mapSnoozedItem(row: SnoozedItemRow): SnoozedItem {
+  let originalData: unknown = null;
+  try {
+    originalData = typeof row.originalData === 'string' ? JSON.parse(row.originalData) : row.originalData;
+  } catch {
+    originalData = null;
+  }
+
+  const url = getOriginalDataField(originalData, 'url') || '';
+
+  return {
+    id: row.id,
+    itemType: row.itemType,
+    itemId: row.itemId,
+    profileId: row.profileId,
+    spaceId: row.spaceId,
+    snoozeUntil: Number(row.snoozeUntil),
+    snoozeType: row.snoozeType,
+    snoozeLabel: row.snoozeLabel || '',
+    snoozedAt: Number(row.snoozedAt),
+    snoozedFromSpaceId: row.snoozedFromSpaceId || undefined,
+    title: getOriginalDataField(originalData, 'title') || url,
+    url,
+    favicon: getOriginalDataField(originalData, 'favicon') || getOriginalDataField(originalData, 'faviconURL'),
+    originalData,
+    notificationSent: Boolean(row.notificationSent)
+  };
+}
+
+export async function createSnoozedItem(input: CreateSnoozedItemInput): Promise<SnoozedItem> {
+  await whenDatabaseInitialized;
+
+  const id = createHash("md5").update(`${input.itemType}${input.itemId}${Date.now()}`).digest("hex");
+
+  return await db.transaction(async (trx) => {
+    // An item can only be snoozed once at a time
+    await trx("snoozed_items")
+      .where({ itemType: input.itemType, itemId: input.itemId, notificationSent: false })
+      .delete();
+
+    await trx("snoozed_items").insert({
+      id,
+      itemType: input.itemType,
+      itemId: input.itemId,
+      profileId: input.profileId,
+      spaceId: input.spaceId,
+      snoozeUntil: input.snoozeUntil,
+      snoozeType: input.snoozeType,
+      snoozeLabel: input.snoozeLabel,
+      originalData: JSON.stringify(input.originalData ?? null),
+      snoozedAt: Date.now(),
+      snoozedFromSpaceId: input.snoozedFromSpaceId || null,
+      notificationSent: false
+    });
+
+    console.log(`BOOKMARKS: Snoozed ${input.itemType} ${input.itemId} until ${new Date(input.snoozeUntil).toISOString()}`);
+
+    const result = await trx("snoozed_items").where({ id }).first();
+    return mapSnoozedItem(result);
+  });
+}
+
+export async function getSnoozedItem(id: string): Promise<SnoozedItem | null> {
+  await whenDatabaseInitialized;
+
+  const item = await db("snoozed_items").where({ id }).first();
+  return item ? mapSnoozedItem(item) : null;
+}
+
+// Items that have not woken up yet, soonest first
+export async function getPendingSnoozedItems(profileId?: string): Promise<SnoozedItem[]> {
+  await whenDatabaseInitialized;
+
+  let query = db("snoozed_items").where({ notificationSent: false });
+  if (profileId) {
+    query = query.where({ profileId });
+  }
+
+  const items = await query.orderBy("snoozeUntil", "asc");
+  return items.map(mapSnoozedItem);
+}
+
+// Items that should wake up by the given time
+export async function getDueSnoozedItems(now: number = Date.now()): Promise<SnoozedItem[]> {
+  await whenDatabaseInitialized;
+
+  const items = await db("snoozed_items")
+    .where({ notificationSent: false })
+    .where("snoozeUntil", "<=", now)
+    .orderBy("snoozeUntil", "asc");
+  return items.map(mapSnoozedItem);
+}
+
+export async function markSnoozedItemWoken(id: string): Promise<boolean> {
+  await whenDatabaseInitialized;
+
+  const updatedCount = await db("snoozed_items")
+    .where({ id })
+    .update({
+      notificationSent: true,
+      wakeUpNotifiedAt: Date.now()
+    });
+
+  return updatedCount > 0;
+}
+
+export async function deleteSnoozedItem(id: string): Promise<boolean> {
+  await whenDatabaseInitialized;
+
+  const deletedCount = await db("snoozed_items").where({ id }).delete();
+  return deletedCount > 0;
+}
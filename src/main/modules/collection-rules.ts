@@ -0,0 +1,148 @@
+// Smart collection rules
+// Auto collections don't have collection items. Instead, their rule tree is
+// evaluated against every bookmark whenever the collection is read.
+
+import type { Bookmark, CollectionRule, CollectionRuleGroup } from "~/types/bookmarks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return options.some((option) => option === value);
+}
+
+function isValidRule(rule: unknown): rule is CollectionRule {
+  if (!isRecord(rule)) return false;
+
+  switch (rule.type) {
+    case "group":
+      return isValidGroup(rule);
+    case "label":
+      return isOneOf(rule.operator, ["contains", "equals"]) && typeof rule.value === "string";
+    case "host":
+      return isOneOf(rule.operator, ["matches", "contains"]) && typeof rule.value === "string";
+    case "dateAdded":
+      return ["after", "before", "withinDays"].every(
+        (key) => rule[key] === undefined || rule[key] === null || typeof rule[key] === "number"
+      );
+    case "visitCount":
+      return isOneOf(rule.operator, ["atLeast", "atMost"]) && typeof rule.value === "number";
+    case "space":
+      return typeof rule.spaceId === "string";
+    default:
+      return false;
+  }
+}
+
+function isValidGroup(group: unknown): group is CollectionRuleGroup {
+  return (
+    isRecord(group) &&
+    group.type === "group" &&
+    isOneOf(group.operator, ["and", "or"]) &&
+    Array.isArray(group.rules) &&
+    group.rules.every(isValidRule)
+  );
+}
+
+/**
+ * Parses the rules of a collection, as stored in the database
+ * @returns The rule group, or null if the rules are missing or malformed
+ */
+export function parseCollectionRules(rules: unknown): CollectionRuleGroup | null {
+  if (!rules) return null;
+
+  let parsed: unknown = rules;
+  if (typeof rules === "string") {
+    try {
+      parsed = JSON.parse(rules);
+    } catch {
+      return null;
+    }
+  }
+
+  return isValidGroup(parsed) ? parsed : null;
+}
+
+function getBookmarkHostname(bookmark: Bookmark): string | null {
+  try {
+    return new URL(bookmark.url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function getTimestamp(date: Date | string | number | undefined | null): number | null {
+  if (date === undefined || date === null) return null;
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function matchesRule(bookmark: Bookmark, rule: CollectionRule, now: number): boolean {
+  switch (rule.type) {
+    case "group":
+      return matchesCollectionRules(bookmark, rule, now);
+
+    case "label": {
+      const value = rule.value.trim().toLowerCase();
+      if (!value) return false;
+
+      return (bookmark.labels ?? []).some((label) => {
+        const name = label.label.toLowerCase();
+        return rule.operator === "equals" ? name === value : name.includes(value);
+      });
+    }
+
+    case "host": {
+      const hostname = getBookmarkHostname(bookmark);
+      const value = rule.value
+        .trim()
+        .toLowerCase()
+        .replace(/^www\./, "");
+      if (!hostname || !value) return false;
+
+      if (rule.operator === "contains") return hostname.includes(value);
+      return hostname === value || hostname.endsWith(`.${value}`);
+    }
+
+    case "dateAdded": {
+      const dateAdded = getTimestamp(bookmark.dateAdded);
+      if (dateAdded === null) return false;
+
+      if (typeof rule.after === "number" && dateAdded < rule.after) return false;
+      if (typeof rule.before === "number" && dateAdded > rule.before) return false;
+      if (typeof rule.withinDays === "number" && dateAdded < now - rule.withinDays * DAY_MS) return false;
+      return true;
+    }
+
+    case "visitCount": {
+      const visitCount = bookmark.visitCount ?? 0;
+      return rule.operator === "atLeast" ? visitCount >= rule.value : visitCount <= rule.value;
+    }
+
+    case "space":
+      return bookmark.spaceId === rule.spaceId;
+  }
+}
+
+/**
+ * Checks if a bookmark matches the rules of a smart collection
+ * A group without any rules never matches, so an unfinished collection stays empty.
+ * @param bookmark The bookmark, with its labels
+ * @param group The rule group of the collection
+ * @param now The time relative date rules are evaluated against (ms)
+ */
+export function matchesCollectionRules(
+  bookmark: Bookmark,
+  group: CollectionRuleGroup,
+  now: number = Date.now()
+): boolean {
+  if (group.rules.length === 0) return false;
+
+  if (group.operator === "and") {
+    return group.rules.every((rule) => matchesRule(bookmark, rule, now));
+  }
+  return group.rules.some((rule) => matchesRule(bookmark, rule, now));
+}
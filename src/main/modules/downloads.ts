@@ -0,0 +1,394 @@
+// Download manager
+// Every profile session reports its downloads here. Files are saved where the
+// download settings say, and every download is kept in the download history.
+// Downloads of private windows are only kept in memory, until their window closes.
+
+import { getSession } from "@/browser/sessions";
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { debugPrint } from "@/modules/output";
+import { generateID } from "@/modules/utils";
+import { getSavedDownload, getSavedDownloads, removeSavedDownload, saveDownload } from "@/saving/downloads";
+import { getSettingValueById } from "@/saving/settings";
+import { app, DownloadItem, Session, shell } from "electron";
+import fs from "fs";
+import path from "path";
+import { DownloadData, DownloadState } from "~/types/downloads";
+
+// Progress is sent to the renderers at most this often
+const PROGRESS_UPDATE_INTERVAL_MS = 500;
+
+const FILE_TYPE_FOLDERS: { folder: string; extensions: string[] }[] = [
+  { folder: "Images", extensions: ["png", "jpg", "jpeg", "gif", "webp", "svg", "bmp", "ico", "heic", "avif", "tiff"] },
+  { folder: "Videos", extensions: ["mp4", "mov", "avi", "mkv", "webm", "m4v", "wmv"] },
+  { folder: "Music", extensions: ["mp3", "wav", "flac", "aac", "ogg", "m4a", "opus"] },
+  {
+    folder: "Documents",
+    extensions: ["pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx", "odt", "ods", "txt", "rtf", "csv", "md", "epub"]
+  },
+  { folder: "Archives", extensions: ["zip", "rar", "7z", "tar", "gz", "bz2", "xz", "tgz"] },
+  { folder: "Programs", extensions: ["exe", "msi", "dmg", "pkg", "deb", "rpm", "appimage", "apk"] }
+];
+
+type ActiveDownload = {
+  item: DownloadItem;
+  data: DownloadData;
+  // The private window that started the download, if any
+  privateWindowId: number | null;
+};
+
+type PrivateDownload = {
+  data: DownloadData;
+  windowId: number;
+};
+
+const activeDownloads = new Map<string, ActiveDownload>();
+
+// Finished downloads of private windows, which never reach the download history
+const privateDownloads = new Map<string, PrivateDownload>();
+
+let progressUpdateTimeout: NodeJS.Timeout | null = null;
+
+function fireOnDownloadsChanged() {
+  if (progressUpdateTimeout) {
+    clearTimeout(progressUpdateTimeout);
+    progressUpdateTimeout = null;
+  }
+  sendMessageToListeners("downloads:on-changed");
+}
+
+function queueProgressUpdate() {
+  if (progressUpdateTimeout) return;
+  progressUpdateTimeout = setTimeout(fireOnDownloadsChanged, PROGRESS_UPDATE_INTERVAL_MS);
+}
+
+function getDownloadState(item: DownloadItem): DownloadState {
+  const state = item.getState();
+  if (state === "progressing" && item.isPaused()) return "paused";
+  return state;
+}
+
+function updateDownloadData(download: ActiveDownload) {
+  const { item, data } = download;
+
+  const savePath = item.getSavePath();
+  data.savePath = savePath;
+  data.filename = savePath ? path.basename(savePath) : item.getFilename();
+  data.totalBytes = item.getTotalBytes();
+  data.receivedBytes = item.getReceivedBytes();
+  data.state = getDownloadState(item);
+  data.canResume = item.canResume();
+}
+
+// Save location rules //
+function getFileTypeFolder(filename: string) {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  return FILE_TYPE_FOLDERS.find(({ extensions }) => extensions.includes(extension))?.folder ?? null;
+}
+
+function getWebsiteFolder(url: string) {
+  try {
+    const { hostname } = new URL(url);
+    // Keep the folder name safe on every platform
+    return hostname.replace(/^www\./, "").replace(/[^a-zA-Z0-9.-]/g, "_") || null;
+  } catch {
+    return null;
+  }
+}
+
+function getDownloadFolder(item: DownloadItem) {
+  const downloadsPath = app.getPath("downloads");
+
+  let subfolder: string | null = null;
+  switch (getSettingValueById("downloadSorting")) {
+    case "fileType":
+      subfolder = getFileTypeFolder(item.getFilename());
+      break;
+    case "website":
+      subfolder = getWebsiteFolder(item.getURL());
+      break;
+  }
+
+  return subfolder ? path.join(downloadsPath, subfolder) : downloadsPath;
+}
+
+/**
+ * Gets a path in the folder that no file or running download uses yet
+ * e.g. "file.zip" becomes "file (1).zip"
+ */
+function getUniqueSavePath(folder: string, filename: string) {
+  const usedPaths = new Set(Array.from(activeDownloads.values()).map(({ item }) => item.getSavePath()));
+
+  const extension = path.extname(filename);
+  const basename = path.basename(filename, extension);
+
+  let savePath = path.join(folder, filename);
+  for (let index = 1; fs.existsSync(savePath) || usedPaths.has(savePath); index++) {
+    savePath = path.join(folder, `${basename} (${index})${extension}`);
+  }
+  return savePath;
+}
+
+function setDownloadSavePath(item: DownloadItem) {
+  const folder = getDownloadFolder(item);
+
+  if (getSettingValueById("downloadLocation") === "ask") {
+    // Electron shows a save dialog for downloads without a save path
+    item.setSaveDialogOptions({ defaultPath: path.join(folder, item.getFilename()) });
+    return;
+  }
+
+  // The save path has to be set before this event returns, so this is synchronous
+  try {
+    fs.mkdirSync(folder, { recursive: true });
+  } catch {
+    item.setSavePath(getUniqueSavePath(app.getPath("downloads"), item.getFilename()));
+    return;
+  }
+  item.setSavePath(getUniqueSavePath(folder, item.getFilename()));
+}
+
+// Download tracking //
+function handleDownload(item: DownloadItem, profileId: string, privateWindowId: number | null) {
+  setDownloadSavePath(item);
+
+  const download: ActiveDownload = {
+    item,
+    privateWindowId,
+    data: {
+      id: generateID(),
+      profileId,
+      url: item.getURL(),
+      filename: item.getFilename(),
+      savePath: "",
+      mimeType: item.getMimeType(),
+      totalBytes: 0,
+      receivedBytes: 0,
+      state: "progressing",
+      canResume: false,
+      startedAt: Date.now(),
+      endedAt: null
+    }
+  };
+  updateDownloadData(download);
+
+  const { id } = download.data;
+  const isPrivate = privateWindowId !== null;
+
+  activeDownloads.set(id, download);
+  if (!isPrivate) {
+    saveDownload({ ...download.data }, true);
+  }
+  fireOnDownloadsChanged();
+
+  debugPrint("DOWNLOADS", `Started download ${id}: ${download.data.url}`);
+
+  item.on("updated", () => {
+    const previousState = download.data.state;
+    updateDownloadData(download);
+
+    // Only save changes like pausing, as progress changes too often
+    if (download.data.state !== previousState) {
+      if (!isPrivate) {
+        saveDownload({ ...download.data });
+      }
+      fireOnDownloadsChanged();
+    } else {
+      queueProgressUpdate();
+    }
+  });
+
+  item.once("done", () => {
+    updateDownloadData(download);
+    download.data.endedAt = Date.now();
+    activeDownloads.delete(id);
+
+    // Closing the save dialog cancels the download before it has started
+    if (download.data.state === "cancelled" && !download.data.savePath) {
+      if (isPrivate) {
+        fireOnDownloadsChanged();
+      } else {
+        removeSavedDownload(id).then(fireOnDownloadsChanged);
+      }
+      return;
+    }
+
+    if (privateWindowId !== null) {
+      privateDownloads.set(id, { data: { ...download.data }, windowId: privateWindowId });
+    } else {
+      saveDownload({ ...download.data });
+    }
+    fireOnDownloadsChanged();
+
+    debugPrint("DOWNLOADS", `Download ${id} finished as ${download.data.state}`);
+  });
+}
+
+/**
+ * Tracks the downloads of a profile session
+ * @param privateWindowId The private window that owns the session, whose downloads are not saved
+ */
+export function registerDownloadsWithSession(
+  session: Session,
+  profileId: string,
+  privateWindowId: number | null = null
+) {
+  session.on("will-download", (_event, item) => {
+    handleDownload(item, profileId, privateWindowId);
+  });
+}
+
+/**
+ * Forgets the finished downloads of a private window, once it is closed
+ */
+export function clearPrivateDownloads(windowId: number) {
+  let changed = false;
+  for (const [id, download] of privateDownloads) {
+    if (download.windowId !== windowId) continue;
+
+    privateDownloads.delete(id);
+    changed = true;
+  }
+
+  if (changed) {
+    fireOnDownloadsChanged();
+  }
+}
+
+// Download history //
+function getDownloadFromHistory(download: DownloadData): DownloadData {
+  const activeDownload = activeDownloads.get(download.id);
+  if (activeDownload) return { ...activeDownload.data };
+
+  // Downloads that never finished were stopped when Flow quit
+  if (download.state === "progressing" || download.state === "paused") {
+    return { ...download, state: "interrupted", canResume: false };
+  }
+  return download;
+}
+
+/**
+ * Gets the downloads of a profile, most recent first
+ * @param windowId The window that asks for them, as private downloads are only shown in their own private window
+ */
+export async function getDownloads(profileId: string, windowId: number | null): Promise<DownloadData[]> {
+  const downloads = (await getSavedDownloads(profileId)).map(getDownloadFromHistory);
+
+  // Private downloads are not in the saved history
+  const unsavedDownloads = [
+    ...Array.from(activeDownloads.values()).map(({ data, privateWindowId }) => ({ data, windowId: privateWindowId })),
+    ...privateDownloads.values()
+  ]
+    .filter((download) => download.windowId !== null && download.windowId === windowId)
+    .map(({ data }) => ({ ...data }))
+    .filter((download) => download.profileId === profileId);
+
+  return [...downloads, ...unsavedDownloads].sort((a, b) => b.startedAt - a.startedAt);
+}
+
+async function getDownloadData(id: string) {
+  return privateDownloads.get(id)?.data ?? (await getSavedDownload(id));
+}
+
+export function pauseDownload(id: string) {
+  const download = activeDownloads.get(id);
+  if (!download || download.item.isPaused()) return false;
+
+  download.item.pause();
+  return true;
+}
+
+export function resumeDownload(id: string) {
+  const download = activeDownloads.get(id);
+  if (!download || !download.item.canResume()) return false;
+
+  download.item.resume();
+  return true;
+}
+
+export function cancelDownload(id: string) {
+  const download = activeDownloads.get(id);
+  if (!download) return false;
+
+  download.item.cancel();
+  return true;
+}
+
+/**
+ * Downloads the file of a cancelled or interrupted download again
+ * The new download gets its own entry in the history.
+ */
+export async function retryDownload(id: string) {
+  if (activeDownloads.has(id)) return false;
+
+  // Private downloads cannot be retried, as their session may be gone
+  const download = await getSavedDownload(id);
+  if (!download) return false;
+
+  getSession(download.profileId).downloadURL(download.url);
+  await removeDownload(id);
+  return true;
+}
+
+/**
+ * Opens a downloaded file with its default application
+ */
+export async function openDownload(id: string) {
+  const download = await getDownloadData(id);
+  if (!download || download.state !== "completed" || !download.savePath) return false;
+
+  // Resolves with an error message, or an empty string on success
+  const error = await shell.openPath(download.savePath);
+  return error === "";
+}
+
+export async function showDownloadInFolder(id: string) {
+  const download = activeDownloads.get(id)?.data ?? (await getDownloadData(id));
+  if (!download?.savePath) return false;
+
+  if (fs.existsSync(download.savePath)) {
+    shell.showItemInFolder(download.savePath);
+  } else {
+    // The file was moved or deleted, so show where it was
+    await shell.openPath(path.dirname(download.savePath));
+  }
+  return true;
+}
+
+/**
+ * Removes a download from the history, without deleting the file
+ */
+export async function removeDownload(id: string) {
+  if (activeDownloads.has(id)) return false;
+
+  if (privateDownloads.delete(id)) {
+    fireOnDownloadsChanged();
+    return true;
+  }
+
+  const success = await removeSavedDownload(id);
+  if (success) {
+    fireOnDownloadsChanged();
+  }
+  return success;
+}
+
+/**
+ * Removes every finished download of a profile from the history
+ * @param windowId The window that clears them, as only its own private downloads are cleared
+ */
+export async function clearDownloads(profileId: string, windowId: number | null) {
+  const downloads = await getSavedDownloads(profileId);
+  for (const download of downloads) {
+    if (activeDownloads.has(download.id)) continue;
+    await removeSavedDownload(download.id);
+  }
+
+  for (const [id, download] of privateDownloads) {
+    if (download.data.profileId === profileId && download.windowId === windowId) {
+      privateDownloads.delete(id);
+    }
+  }
+
+  fireOnDownloadsChanged();
+  return true;
+}
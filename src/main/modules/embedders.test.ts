@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Only the remote embedder is metered, which stores its usage in the database
+vi.mock("@/modules/ai-usage", () => ({
+  meterAIRequest: vi.fn()
+}));
+
+import { cosineSimilarity, localEmbedder } from "@/modules/embedders";
+
+function length(vector: number[]) {
+  return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+}
+
+describe("localEmbedder", () => {
+  it("embeds the same text to the same vector", async () => {
+    const [first] = await localEmbedder.embed(["Learning TypeScript generics"]);
+    const [second] = await localEmbedder.embed(["Learning TypeScript generics"]);
+
+    expect(first).toEqual(second);
+  });
+
+  it("embeds texts to unit vectors", async () => {
+    const vectors = await localEmbedder.embed(["Bookmarks", "A recipe for sourdough bread"]);
+
+    for (const vector of vectors) {
+      expect(length(vector)).toBeCloseTo(1);
+    }
+  });
+
+  it("leaves texts without words as zero vectors", async () => {
+    const [vector] = await localEmbedder.embed(["!"]);
+
+    expect(length(vector)).toBe(0);
+    expect(cosineSimilarity(vector, vector)).toBe(0);
+  });
+
+  it("embeds related texts closer than unrelated ones", async () => {
+    const [query, related, unrelated] = await localEmbedder.embed([
+      "typescript bookmarks",
+      "Organizing bookmarks in TypeScript",
+      "A recipe for sourdough bread"
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("brings together different forms of a word", async () => {
+    const [singular, plural, other] = await localEmbedder.embed(["bookmark", "bookmarks", "history"]);
+
+    expect(cosineSimilarity(singular, plural)).toBeGreaterThan(0.5);
+    expect(cosineSimilarity(singular, plural)).toBeGreaterThan(cosineSimilarity(singular, other));
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("compares the direction of vectors", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it("does not compare vectors of different lengths", () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { meterAIRequest, type AIRequestDetails } from "@/modules/ai-usage";
+import type OpenAI from "openai";
+
+/**
+ * Turns texts into vectors that point the same way when the texts are about the same thing
+ */
+export interface Embedder {
+  // Vectors can only be compared with vectors from the same embedder
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (length === 0) return vector;
+  return vector.map((value) => value / length);
+}
+
+/**
+ * Gets the cosine similarity of two vectors, from -1 to 1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let lengthA = 0;
+  let lengthB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    lengthA += a[i] * a[i];
+    lengthB += b[i] * b[i];
+  }
+
+  if (lengthA === 0 || lengthB === 0) return 0;
+  return dot / Math.sqrt(lengthA * lengthB);
+}
+
+// Local Embedder
+// Hashes words and their trigrams into a fixed number of dimensions. It only knows about shared
+// words rather than meaning, but it is deterministic and works offline.
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+const TRIGRAM_WEIGHT = 0.5;
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const hash = hashFeature(feature);
+
+  // The sign spreads out collisions instead of letting them pile up
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += sign * weight;
+}
+
+function embedLocally(text: string): number[] {
+  const vector: number[] = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+
+  for (const word of words) {
+    addFeature(vector, word, 1);
+
+    // Trigrams bring together different forms of a word, like "bookmark" and "bookmarks"
+    const paddedWord = `_${word}_`;
+    for (let i = 0; i + 3 <= paddedWord.length; i++) {
+      addFeature(vector, `#${paddedWord.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  return normalizeVector(vector);
+}
+
+export const localEmbedder: Embedder = {
+  id: "local:hashed-v1",
+  async embed(texts: string[]) {
+    return texts.map((text) => embedLocally(text));
+  }
+};
+
+// Remote Embedder
+
+/**
+ * Creates an embedder for the embeddings API of OpenAI or an OpenAI-compatible server
+ * @param id Identifies the server and model, as vectors from different models can't be compared
+ * @param metering How the requests of the embedder are accounted for
+ */
+export function createOpenAIEmbedder(
+  client: OpenAI,
+  model: string,
+  id: string,
+  metering: Pick<AIRequestDetails, "provider" | "budget">
+): Embedder {
+  return {
+    id,
+    async embed(texts: string[]) {
+      if (texts.length === 0) return [];
+
+      const response = await meterAIRequest(
+        { ...metering, model, operation: "embed" },
+        () => client.embeddings.create({ model, input: texts }),
+        (response) => ({ inputTokens: response.usage?.prompt_tokens ?? 0, outputTokens: 0 })
+      );
+      return [...response.data].sort((a, b) => a.index - b.index).map((item) => normalizeVector(item.embedding));
+    }
+  };
+}
@@ -11,6 +11,7 @@ import * as sharpIco from "sharp-ico";
 import sharp from "sharp";
 import { debugError, debugPrint } from "./output";
 import { FLAGS } from "@/modules/flags";
+import { initializeDatabase, runMigrations, type DatabaseMigration } from "./sqlite";
 
 const dbPath = path.join(FLOW_DATA_DIR, "favicons.db");
 
@@ -75,113 +76,63 @@ async function processQueue() {
   }
 }
 
-let databaseInitialized = false;
-let resolveDatabaseInitialized: () => void = () => {
-  databaseInitialized = true;
-};
-const whenDatabaseInitialized = new Promise<void>((resolve) => {
-  if (databaseInitialized) {
-    resolve();
-  } else {
-    resolveDatabaseInitialized = resolve;
+const FAVICONS_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: async (trx) => {
+      // Databases from before versioning already have these tables
+      const hasFaviconsTable = await trx.schema.hasTable("favicons");
+      if (!hasFaviconsTable) {
+        await trx.schema.createTable("favicons", (table) => {
+          table.increments("id").primary();
+          table.string("hash").notNullable().index();
+          table.timestamp("last_update");
+          table.timestamp("last_requested");
+          table.specificType("favicon", "blob").notNullable();
+        });
+        debugPrint("FAVICONS", "Created favicons table");
+      }
+
+      const hasFaviconUrlsTable = await trx.schema.hasTable("favicon_urls");
+      if (!hasFaviconUrlsTable) {
+        await trx.schema.createTable("favicon_urls", (table) => {
+          table.increments("id").primary();
+          table.string("url").notNullable().index();
+          table.integer("icon_id").references("id").inTable("favicons");
+        });
+        debugPrint("FAVICONS", "Created favicon_urls table");
+      }
+    }
   }
-});
+];
 
 /**
  * Initialize the database
  */
 async function initDatabase() {
-  try {
-    debugPrint("FAVICONS", "Starting database initialization...");
-
-    // Configure database pragmas
-    await configureDatabasePragmas();
-    debugPrint("FAVICONS", "Database pragmas configured");
-
-    // Ensure tables exist by creating them in sequence
-    debugPrint("FAVICONS", "Checking favicons table...");
-    const hasFaviconsTable = await db.schema.hasTable("favicons");
-    debugPrint("FAVICONS", `Favicons table exists: ${hasFaviconsTable}`);
-
-    if (!hasFaviconsTable) {
-      debugPrint("FAVICONS", "Creating favicons table...");
-      await db.schema.createTable("favicons", (table) => {
-        table.increments("id").primary();
-        table.string("hash").notNullable().index();
-        table.timestamp("last_update");
-        table.timestamp("last_requested");
-        table.specificType("favicon", "blob").notNullable();
-      });
-      debugPrint("FAVICONS", "Created favicons table successfully");
-    }
-
-    debugPrint("FAVICONS", "Checking favicon_urls table...");
-    const hasFaviconUrlsTable = await db.schema.hasTable("favicon_urls");
-    debugPrint("FAVICONS", `Favicon_urls table exists: ${hasFaviconUrlsTable}`);
-
-    if (!hasFaviconUrlsTable) {
-      debugPrint("FAVICONS", "Creating favicon_urls table...");
-      await db.schema.createTable("favicon_urls", (table) => {
-        table.increments("id").primary();
-        table.string("url").notNullable().index();
-        table.integer("icon_id").references("id").inTable("favicons");
-      });
-      debugPrint("FAVICONS", "Created favicon_urls table successfully");
-    }
+  debugPrint("FAVICONS", "Starting database initialization...");
 
-    // Verify tables exist before proceeding
-    debugPrint("FAVICONS", "Verifying tables exist...");
-    const [faviconsExists, faviconUrlsExists] = await Promise.all([
-      db.schema.hasTable("favicons"),
-      db.schema.hasTable("favicon_urls")
-    ]);
+  // Configure database pragmas
+  await configureDatabasePragmas();
+  debugPrint("FAVICONS", "Database pragmas configured");
 
-    debugPrint(
-      "FAVICONS",
-      `Final verification - Tables exist: favicons=${faviconsExists}, favicon_urls=${faviconUrlsExists}`
-    );
-
-    if (!faviconsExists || !faviconUrlsExists) {
-      throw new Error("Failed to create required tables");
-    }
-
-    // Only cleanup and resolve if tables exist
-    debugPrint("FAVICONS", "Running cleanup of old favicons...");
-    await cleanupOldFavicons();
-    debugPrint("FAVICONS", "Cleanup completed");
-
-    resolveDatabaseInitialized();
-    debugPrint("FAVICONS", "Database initialized successfully");
-  } catch (err) {
-    debugError("FAVICONS", "Failed to initialize favicon database:", err);
-    throw err;
-  }
-}
+  await runMigrations(db, {
+    name: "favicons",
+    dbPath,
+    migrations: FAVICONS_MIGRATIONS
+  });
 
-// Initialize the database with retries
-let retryCount = 0;
-const maxRetries = 3;
+  debugPrint("FAVICONS", "Running cleanup of old favicons...");
+  await cleanupOldFavicons();
+  debugPrint("FAVICONS", "Cleanup completed");
 
-async function initDatabaseWithRetry() {
-  try {
-    debugPrint("FAVICONS", `Starting database initialization attempt ${retryCount + 1}/${maxRetries + 1}`);
-    await initDatabase();
-  } catch {
-    retryCount++;
-    if (retryCount < maxRetries) {
-      debugPrint("FAVICONS", `Retrying database initialization (attempt ${retryCount + 1}/${maxRetries + 1})...`);
-      setTimeout(initDatabaseWithRetry, 1000 * retryCount); // Exponential backoff
-    } else {
-      debugError("FAVICONS", "Failed to initialize database after multiple attempts");
-      // Resolve to prevent app from hanging, but in failed state
-      resolveDatabaseInitialized();
-    }
-  }
+  debugPrint("FAVICONS", "Database initialized successfully");
 }
 
 // Start initialization
 debugPrint("FAVICONS", "Starting database initialization process");
-initDatabaseWithRetry();
+const whenDatabaseInitialized = initializeDatabase("favicons", initDatabase);
 
 /**
  * Converts an ICO file to a Sharp object ready for further processing
@@ -491,11 +442,11 @@ export function cacheFavicon(url: string, faviconURL: string, session?: Session)
  * @returns The favicon data as a Buffer, or null if not found
  */
 export async function getFavicon(url: string): Promise<Buffer | null> {
-  await whenDatabaseInitialized;
   // Normalize the URL
   const normalizedURL = normalizeURL(url);
 
   try {
+    await whenDatabaseInitialized;
     return await db.transaction(async (trx) => {
       // Look up the favicon in the database
       const result = await trx("favicon_urls")
@@ -527,11 +478,11 @@ export async function getFavicon(url: string): Promise<Buffer | null> {
  * @returns True if a favicon exists, false otherwise
  */
 export async function hasFavicon(url: string): Promise<boolean> {
-  await whenDatabaseInitialized;
   // Normalize the URL
   const normalizedURL = normalizeURL(url);
 
   try {
+    await whenDatabaseInitialized;
     const count = await db("favicon_urls").where("url", normalizedURL).count("* as count").first();
     return (count && Number(count.count) > 0) ?? false;
   } catch (error) {
@@ -546,11 +497,11 @@ export async function hasFavicon(url: string): Promise<boolean> {
  * @returns A data URL containing the favicon, or null if not found
  */
 export async function getFaviconDataUrl(url: string): Promise<string | null> {
-  await whenDatabaseInitialized;
   // Normalize the URL
   const normalizedURL = normalizeURL(url);
 
   try {
+    await whenDatabaseInitialized;
     const favicon = await getFavicon(normalizedURL);
     if (!favicon) {
       return null;
@@ -33,7 +33,7 @@ export const FLAGS: Flags = {
   DEBUG_HOT_RELOAD_FRONTEND: true,
 
   // Glance: Enable the glance feature
-  GLANCE_ENABLED: false,
+  GLANCE_ENABLED: true,
 
   // Favicons: Remove the path from the favicon URL
   FAVICONS_REMOVE_PATH: true
@@ -0,0 +1,426 @@
+// Store the browsing history in a SQLite database
+// Every committed navigation of a tab is recorded as a visit,
+// and visits are aggregated per URL for the omnibox.
+
+import path from "path";
+import { knex } from "knex";
+import { FLOW_DATA_DIR } from "./paths";
+import { debugError, debugPrint } from "./output";
+import { initializeDatabase, runMigrations, type DatabaseMigration } from "./sqlite";
+import type { HistoryEntry, HistoryQuery, HistoryTransition, HistoryVisit } from "~/types/history";
+import type { Knex } from "knex";
+
+const dbPath = path.join(FLOW_DATA_DIR, "history.db");
+
+// Only these protocols are recorded in the history
+const RECORDED_PROTOCOLS = ["http:", "https:", "file:"];
+
+// Maximum number of entries returned to the omnibox
+const MAX_HISTORY_ENTRIES = 1000;
+
+// Maximum number of visits returned by a single query
+const MAX_HISTORY_VISITS = 500;
+
+const db = knex({
+  client: "better-sqlite3",
+  useNullAsDefault: true,
+  connection: {
+    filename: dbPath
+  },
+  pool: {
+    min: 1,
+    max: 5,
+    acquireTimeoutMillis: 1000,
+    createTimeoutMillis: 1000
+  },
+  asyncStackTraces: false
+});
+
+async function configureDatabasePragmas() {
+  try {
+    await db.raw("PRAGMA journal_mode = WAL");
+    await db.raw("PRAGMA synchronous = NORMAL");
+    await db.raw("PRAGMA cache_size = -64000");
+    await db.raw("PRAGMA busy_timeout = 3000");
+
+    debugPrint("HISTORY", "Configured SQLite pragmas for history database");
+  } catch (err) {
+    debugError("HISTORY", "Error configuring SQLite pragmas:", err);
+  }
+}
+
+const HISTORY_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: async (trx) => {
+      const hasUrlsTable = await trx.schema.hasTable("history_urls");
+      if (!hasUrlsTable) {
+        await trx.schema.createTable("history_urls", (table) => {
+          table.increments("id").primary();
+          table.string("profileId").notNullable().index();
+          table.string("url").notNullable();
+          table.string("title").notNullable().defaultTo("");
+          table.integer("visitCount").notNullable().defaultTo(0);
+          table.integer("typedCount").notNullable().defaultTo(0);
+          table.bigInteger("lastVisitTime").notNullable().index();
+          table.unique(["profileId", "url"]);
+        });
+        debugPrint("HISTORY", "Created history_urls table");
+      }
+
+      const hasVisitsTable = await trx.schema.hasTable("history_visits");
+      if (!hasVisitsTable) {
+        await trx.schema.createTable("history_visits", (table) => {
+          table.increments("id").primary();
+          table.integer("urlId").notNullable().references("id").inTable("history_urls").onDelete("CASCADE");
+          table.string("profileId").notNullable().index();
+          table.string("spaceId").notNullable().index();
+          table.bigInteger("visitTime").notNullable().index();
+          table.string("transition").notNullable();
+          table.index(["urlId"]);
+        });
+        debugPrint("HISTORY", "Created history_visits table");
+      }
+    }
+  }
+];
+
+/**
+ * Initialize the database
+ */
+async function initDatabase() {
+  debugPrint("HISTORY", "Starting database initialization...");
+
+  await configureDatabasePragmas();
+  await runMigrations(db, {
+    name: "history",
+    dbPath,
+    migrations: HISTORY_MIGRATIONS
+  });
+
+  debugPrint("HISTORY", "Database initialized successfully");
+}
+
+const whenDatabaseInitialized = initializeDatabase("history", initDatabase);
+
+function mapHistoryEntry(row: Record<string, unknown>): HistoryEntry {
+  return {
+    id: Number(row.id),
+    profileId: String(row.profileId),
+    url: String(row.url),
+    title: String(row.title ?? ""),
+    visitCount: Number(row.visitCount),
+    typedCount: Number(row.typedCount),
+    lastVisitTime: Number(row.lastVisitTime)
+  };
+}
+
+function mapHistoryVisit(row: Record<string, unknown>): HistoryVisit {
+  return {
+    id: Number(row.id),
+    urlId: Number(row.urlId),
+    profileId: String(row.profileId),
+    spaceId: String(row.spaceId),
+    url: String(row.url),
+    title: String(row.title ?? ""),
+    visitTime: Number(row.visitTime),
+    transition: row.transition as HistoryTransition
+  };
+}
+
+function getHostname(url: string): string | null {
+  const parsedURL = URL.parse(url);
+  return parsedURL?.hostname || null;
+}
+
+/**
+ * Recomputes the aggregated data of URLs after some of their visits were removed
+ * URLs without any remaining visits are removed from the history.
+ */
+async function refreshHistoryUrls(trx: Knex.Transaction, urlIds: number[]) {
+  const uniqueUrlIds = [...new Set(urlIds)];
+
+  // Stay below SQLite's limit of bound parameters
+  for (let i = 0; i < uniqueUrlIds.length; i += 500) {
+    const chunk = uniqueUrlIds.slice(i, i + 500);
+
+    await trx("history_urls")
+      .whereIn("id", chunk)
+      .whereNotExists(trx("history_visits").whereRaw("history_visits.urlId = history_urls.id"))
+      .delete();
+
+    await trx("history_urls")
+      .whereIn("id", chunk)
+      .update({
+        visitCount: trx.raw(
+          "(SELECT COUNT(*) FROM history_visits WHERE urlId = history_urls.id AND transition IN ('link', 'typed'))"
+        ),
+        typedCount: trx.raw(
+          "(SELECT COUNT(*) FROM history_visits WHERE urlId = history_urls.id AND transition = 'typed')"
+        ),
+        lastVisitTime: trx.raw("(SELECT MAX(visitTime) FROM history_visits WHERE urlId = history_urls.id)")
+      });
+  }
+}
+
+/**
+ * Checks if a URL should be recorded in the history
+ * @param url The URL to check
+ * @returns True if the URL can be recorded
+ */
+export function isRecordableURL(url: string): boolean {
+  const parsedURL = URL.parse(url);
+  if (!parsedURL) return false;
+  return RECORDED_PROTOCOLS.includes(parsedURL.protocol);
+}
+
+export type RecordVisitInput = {
+  profileId: string;
+  spaceId: string;
+  url: string;
+  title?: string;
+  transition: HistoryTransition;
+  visitTime?: number;
+};
+
+/**
+ * Records a visit to a URL
+ * Reloads and history navigations are recorded as visits, but do not count towards the visit count.
+ * @param input The visit to record
+ */
+export async function recordVisit(input: RecordVisitInput): Promise<void> {
+  if (!isRecordableURL(input.url)) return;
+
+  const { profileId, spaceId, url, transition } = input;
+  const visitTime = input.visitTime ?? Date.now();
+
+  const countsAsVisit = transition === "link" || transition === "typed";
+  const typedIncrement = transition === "typed" ? 1 : 0;
+  const visitIncrement = countsAsVisit ? 1 : 0;
+
+  try {
+    await whenDatabaseInitialized;
+    await db.transaction(async (trx) => {
+      const existingUrl = await trx("history_urls").where({ profileId, url }).first();
+
+      let urlId: number;
+      if (existingUrl) {
+        urlId = existingUrl.id;
+        await trx("history_urls")
+          .where("id", urlId)
+          .update({
+            visitCount: trx.raw("visitCount + ?", [visitIncrement]),
+            typedCount: trx.raw("typedCount + ?", [typedIncrement]),
+            lastVisitTime: visitTime,
+            ...(input.title ? { title: input.title } : {})
+          });
+      } else {
+        [urlId] = await trx("history_urls").insert({
+          profileId,
+          url,
+          title: input.title ?? "",
+          visitCount: visitIncrement,
+          typedCount: typedIncrement,
+          lastVisitTime: visitTime
+        });
+      }
+
+      await trx("history_visits").insert({
+        urlId,
+        profileId,
+        spaceId,
+        visitTime,
+        transition
+      });
+    });
+
+    debugPrint("HISTORY", `Recorded ${transition} visit to ${url}`);
+  } catch (error) {
+    debugError("HISTORY", "Error recording visit:", error);
+  }
+}
+
+/**
+ * Updates the title of a URL in the history
+ * Titles usually arrive after the navigation has been committed.
+ * @param profileId The profile the URL belongs to
+ * @param url The URL to update
+ * @param title The new title
+ */
+export async function updateHistoryTitle(profileId: string, url: string, title: string): Promise<void> {
+  if (!title || !isRecordableURL(url)) return;
+
+  try {
+    await whenDatabaseInitialized;
+    await db("history_urls").where({ profileId, url }).update({ title });
+  } catch (error) {
+    debugError("HISTORY", "Error updating history title:", error);
+  }
+}
+
+/**
+ * Gets the most recently visited URLs of a profile
+ * @param profileId The profile to get the history of
+ * @param limit The maximum number of entries to return
+ * @returns The history entries, most recent first
+ */
+export async function getHistory(profileId: string, limit: number = MAX_HISTORY_ENTRIES): Promise<HistoryEntry[]> {
+  try {
+    await whenDatabaseInitialized;
+    const rows = await db("history_urls").where({ profileId }).orderBy("lastVisitTime", "desc").limit(limit);
+    return rows.map(mapHistoryEntry);
+  } catch (error) {
+    debugError("HISTORY", "Error getting history:", error);
+    return [];
+  }
+}
+
+/**
+ * Queries the visits of a profile
+ * Every word of the text filter has to appear in either the title or the URL.
+ * @param profileId The profile to query the visits of
+ * @param query The filters to apply
+ * @returns The matching visits, most recent first
+ */
+export async function queryHistoryVisits(profileId: string, query: HistoryQuery = {}): Promise<HistoryVisit[]> {
+  const { text, spaceId, startTime, endTime } = query;
+  const limit = Math.min(query.limit ?? MAX_HISTORY_VISITS, MAX_HISTORY_VISITS);
+  const offset = query.offset ?? 0;
+
+  try {
+    await whenDatabaseInitialized;
+    const dbQuery = db("history_visits")
+      .join("history_urls", "history_visits.urlId", "history_urls.id")
+      .where("history_visits.profileId", profileId)
+      .select(
+        "history_visits.id",
+        "history_visits.urlId",
+        "history_visits.profileId",
+        "history_visits.spaceId",
+        "history_visits.visitTime",
+        "history_visits.transition",
+        "history_urls.url",
+        "history_urls.title"
+      );
+
+    if (spaceId) {
+      dbQuery.where("history_visits.spaceId", spaceId);
+    }
+    if (startTime !== undefined) {
+      dbQuery.where("history_visits.visitTime", ">=", startTime);
+    }
+    if (endTime !== undefined) {
+      dbQuery.where("history_visits.visitTime", "<", endTime);
+    }
+
+    const words = text?.trim().toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    for (const word of words) {
+      const pattern = `%${word.replace(/[\\%_]/g, "\\$&")}%`;
+      dbQuery.where((builder) => {
+        builder
+          .whereRaw("LOWER(history_urls.title) LIKE ? ESCAPE '\\'", [pattern])
+          .orWhereRaw("LOWER(history_urls.url) LIKE ? ESCAPE '\\'", [pattern]);
+      });
+    }
+
+    const rows = await dbQuery
+      .orderBy("history_visits.visitTime", "desc")
+      .orderBy("history_visits.id", "desc")
+      .limit(limit)
+      .offset(offset);
+    return rows.map(mapHistoryVisit);
+  } catch (error) {
+    debugError("HISTORY", "Error querying history visits:", error);
+    return [];
+  }
+}
+
+/**
+ * Deletes visits from the history
+ * @param profileId The profile the visits belong to
+ * @param visitIds The IDs of the visits to delete
+ * @returns The number of deleted visits
+ */
+export async function deleteHistoryVisits(profileId: string, visitIds: number[]): Promise<number> {
+  if (visitIds.length === 0) return 0;
+
+  try {
+    await whenDatabaseInitialized;
+    return await db.transaction(async (trx) => {
+      const visits = await trx("history_visits").where({ profileId }).whereIn("id", visitIds).select("urlId");
+      const deleted = await trx("history_visits").where({ profileId }).whereIn("id", visitIds).delete();
+
+      await refreshHistoryUrls(
+        trx,
+        visits.map((visit) => visit.urlId)
+      );
+      return deleted;
+    });
+  } catch (error) {
+    debugError("HISTORY", "Error deleting history visits:", error);
+    return 0;
+  }
+}
+
+/**
+ * Deletes all visits to a site from the history
+ * @param profileId The profile to delete the visits from
+ * @param hostname The hostname of the site
+ * @returns The number of deleted URLs
+ */
+export async function deleteHistoryForHostname(profileId: string, hostname: string): Promise<number> {
+  try {
+    await whenDatabaseInitialized;
+    return await db.transaction(async (trx) => {
+      const urls = await trx("history_urls").where({ profileId }).select("id", "url");
+      const urlIds = urls.filter((row) => getHostname(row.url) === hostname).map((row) => row.id);
+      if (urlIds.length === 0) return 0;
+
+      await trx("history_visits").whereIn("urlId", urlIds).delete();
+      await trx("history_urls").whereIn("id", urlIds).delete();
+
+      debugPrint("HISTORY", `Deleted ${urlIds.length} URLs of ${hostname}`);
+      return urlIds.length;
+    });
+  } catch (error) {
+    debugError("HISTORY", "Error deleting history for hostname:", error);
+    return 0;
+  }
+}
+
+/**
+ * Clears the visits within a time range from the history
+ * @param profileId The profile to clear the history of
+ * @param startTime The start of the range (ms, inclusive), or 0 for the beginning of time
+ * @param endTime The end of the range (ms, exclusive), or undefined for now
+ * @returns The number of deleted visits
+ */
+export async function clearHistory(profileId: string, startTime: number = 0, endTime?: number): Promise<number> {
+  try {
+    await whenDatabaseInitialized;
+    return await db.transaction(async (trx) => {
+      const rangeQuery = () => {
+        const query = trx("history_visits").where({ profileId }).where("visitTime", ">=", startTime);
+        if (endTime !== undefined) {
+          query.where("visitTime", "<", endTime);
+        }
+        return query;
+      };
+
+      const visits = await rangeQuery().distinct("urlId");
+      const deleted = await rangeQuery().delete();
+
+      await refreshHistoryUrls(
+        trx,
+        visits.map((visit) => visit.urlId)
+      );
+
+      debugPrint("HISTORY", `Cleared ${deleted} visits from the history`);
+      return deleted;
+    });
+  } catch (error) {
+    debugError("HISTORY", "Error clearing history:", error);
+    return 0;
+  }
+}
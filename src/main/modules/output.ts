@@ -5,7 +5,14 @@ import "@/modules/logs";
 
 const DEBUG_AREAS = {
   INITIALIZATION: true, // @/main/index.ts
+  DATABASE: false, // @/modules/sqlite.ts
   FAVICONS: false, // @/modules/favicons.ts
+  HISTORY: false, // @/modules/history.ts
+  SNOOZE: false, // @/modules/snooze.ts
+  AI_LABELING: false, // @/modules/ai-labeling.ts
+  AI_USAGE: false, // @/modules/ai-usage.ts
+  EMBEDDINGS: false, // @/modules/bookmark-embeddings.ts
+  DOWNLOADS: false, // @/modules/downloads.ts
   PERMISSIONS: false, // @/browser/main.ts
   VITE_UI_EXTENSION: false, // @/browser/main.ts
   EXTENSION_SERVER_WORKERS: false, // @/browser/main.ts
@@ -16,6 +23,7 @@ const DEBUG_AREAS = {
   SPACES: false, // @/sessions/spaces.ts
   ICONS: false, // @/modules/icons.ts
   PORTAL_COMPONENTS: false, // @/browser/components/portal-component-windows.ts
+  WINDOWS: false, // @/browser/window.ts
   AUTO_UPDATER: false, // @/modules/auto-update.ts
   CONTENT_BLOCKER: false, // @/modules/content-blocker.ts
   WEB_REQUESTS_INTERCEPTION: false, // @/browser/utility/web-requests.ts
@@ -1,5 +1,6 @@
 import { loadedProfileSessions } from "@/browser/profile-manager";
 import { sleep } from "@/modules/utils";
+import { saveSession } from "@/saving/session";
 
 async function flushSessionsData() {
   const promises: Promise<void>[] = [];
@@ -29,7 +30,12 @@ export function beforeQuit(): boolean | Promise<boolean> {
     .then(() => true)
     .catch(() => true);
 
-  return Promise.all([flushSessionsDataPromise]).then((results) => {
+  // Marks the session as ended normally, so it is not treated as a crash on the next launch
+  const saveSessionPromise = saveSession(true)
+    .then(() => true)
+    .catch(() => true);
+
+  return Promise.all([flushSessionsDataPromise, saveSessionPromise]).then((results) => {
     return results.every((result) => result);
   });
 }
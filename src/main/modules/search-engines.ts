@@ -0,0 +1,173 @@
+// Search engines
+// The built-in search engines can be picked as the default, and user-defined
+// ones are added with a keyword. Typing a keyword and pressing Tab in the omnibox
+// searches with that engine instead of the default one.
+
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { generateID } from "@/modules/utils";
+import {
+  getCustomSearchEngines,
+  removeCustomSearchEngine as removeSavedCustomSearchEngine,
+  saveCustomSearchEngine
+} from "@/saving/search-engines";
+import { getSettingValueById, settingsEmitter } from "@/saving/settings";
+import { CustomSearchEngineData, SearchEngine } from "~/types/search-engines";
+
+export const QUERY_PLACEHOLDER = "%s";
+
+// The ids of the first ones match the options of the `defaultSearchEngine` setting
+// Keywords only take effect once they are activated with Tab, so searches that start with one are left alone
+export const BUILT_IN_SEARCH_ENGINES: SearchEngine[] = [
+  {
+    id: "google",
+    name: "Google",
+    keyword: "google",
+    searchUrl: "https://www.google.com/search?q=%s",
+    suggestUrl: "https://suggestqueries.google.com/complete/search?client=chrome&q=%s",
+    builtIn: true
+  },
+  {
+    id: "duckduckgo",
+    name: "DuckDuckGo",
+    keyword: "duckduckgo",
+    searchUrl: "https://duckduckgo.com/?q=%s",
+    suggestUrl: "https://duckduckgo.com/ac/?q=%s&type=list",
+    builtIn: true
+  },
+  {
+    id: "brave",
+    name: "Brave Search",
+    keyword: "brave",
+    searchUrl: "https://search.brave.com/search?q=%s",
+    suggestUrl: "https://search.brave.com/api/suggest?q=%s",
+    builtIn: true
+  },
+  {
+    id: "kagi",
+    name: "Kagi",
+    keyword: "kagi",
+    searchUrl: "https://kagi.com/search?q=%s",
+    suggestUrl: "https://kagi.com/api/autosuggest?q=%s",
+    builtIn: true
+  },
+  {
+    id: "startpage",
+    name: "Startpage",
+    keyword: "startpage",
+    searchUrl: "https://www.startpage.com/do/search?query=%s",
+    suggestUrl: "https://www.startpage.com/suggestions?q=%s&format=opensearch",
+    builtIn: true
+  },
+  {
+    id: "bing",
+    name: "Bing",
+    keyword: "bing",
+    searchUrl: "https://www.bing.com/search?q=%s",
+    suggestUrl: "https://api.bing.com/osjson.aspx?query=%s",
+    builtIn: true
+  },
+
+  // Keyword only
+  {
+    id: "github",
+    name: "GitHub",
+    keyword: "gh",
+    searchUrl: "https://github.com/search?q=%s",
+    builtIn: true
+  },
+  {
+    id: "wikipedia",
+    name: "Wikipedia",
+    keyword: "wikipedia",
+    searchUrl: "https://en.wikipedia.org/w/index.php?search=%s",
+    suggestUrl: "https://en.wikipedia.org/w/api.php?action=opensearch&search=%s",
+    builtIn: true
+  },
+  {
+    id: "youtube",
+    name: "YouTube",
+    keyword: "youtube",
+    searchUrl: "https://www.youtube.com/results?search_query=%s",
+    builtIn: true
+  }
+];
+
+function fireOnSearchEnginesChanged() {
+  sendMessageToListeners("search-engines:on-changed");
+}
+
+// The default search engine is a setting
+settingsEmitter.on("settings-changed", fireOnSearchEnginesChanged);
+
+/**
+ * Gets the search engine used for searches without a keyword
+ */
+export function getDefaultSearchEngine(): SearchEngine {
+  const defaultSearchEngineId = getSettingValueById("defaultSearchEngine");
+  const searchEngine = BUILT_IN_SEARCH_ENGINES.find((engine) => engine.id === defaultSearchEngineId);
+  return searchEngine ?? BUILT_IN_SEARCH_ENGINES[0];
+}
+
+/**
+ * Gets the built-in search engines, followed by the ones added by the user
+ */
+export async function getSearchEngines(): Promise<SearchEngine[]> {
+  const customSearchEngines = await getCustomSearchEngines();
+  return [...BUILT_IN_SEARCH_ENGINES, ...customSearchEngines];
+}
+
+export function createSearchUrl(searchEngine: SearchEngine, query: string) {
+  return searchEngine.searchUrl.replaceAll(QUERY_PLACEHOLDER, encodeURIComponent(query));
+}
+
+function isValidSearchUrl(searchUrl: string) {
+  if (!searchUrl.includes(QUERY_PLACEHOLDER)) return false;
+
+  const url = URL.parse(searchUrl.replaceAll(QUERY_PLACEHOLDER, "query"));
+  return url !== null && (url.protocol === "http:" || url.protocol === "https:");
+}
+
+/**
+ * Adds a search engine
+ * @returns The search engine, or null if its keyword is already used or its URL is not valid
+ */
+export async function addCustomSearchEngine(data: CustomSearchEngineData): Promise<SearchEngine | null> {
+  const name = data.name.trim();
+  const keyword = data.keyword.trim().toLowerCase();
+  const searchUrl = data.searchUrl.trim();
+
+  if (!name || !keyword || /\s/.test(keyword)) return null;
+  if (!isValidSearchUrl(searchUrl)) return null;
+
+  const searchEngines = await getSearchEngines();
+  if (searchEngines.some((engine) => engine.keyword === keyword)) return null;
+
+  const searchEngine: SearchEngine = {
+    id: generateID(),
+    name,
+    keyword,
+    searchUrl,
+    builtIn: false
+  };
+
+  const success = await saveCustomSearchEngine(searchEngine);
+  if (!success) return null;
+
+  fireOnSearchEnginesChanged();
+  return searchEngine;
+}
+
+/**
+ * Removes a search engine added by the user
+ * Built-in search engines cannot be removed.
+ */
+export async function removeCustomSearchEngine(id: string) {
+  const customSearchEngines = await getCustomSearchEngines();
+  if (!customSearchEngines.some((engine) => engine.id === id)) return false;
+
+  const success = await removeSavedCustomSearchEngine(id);
+  if (success) {
+    fireOnSearchEnginesChanged();
+  }
+  return success;
+}
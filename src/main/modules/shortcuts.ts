@@ -9,6 +9,12 @@ const typedShortcuts = [
     shortcut: "CommandOrControl+T",
     category: "Tabs"
   },
+  {
+    id: "tabs.reopenClosed",
+    name: "Reopen Closed Tab",
+    shortcut: "CommandOrControl+Shift+T",
+    category: "Tabs"
+  },
 
   // Tab
   {
@@ -35,6 +41,18 @@ const typedShortcuts = [
     shortcut: "CommandOrControl+W",
     category: "Tab"
   },
+  {
+    id: "tab.find",
+    name: "Find in Page",
+    shortcut: "CommandOrControl+F",
+    category: "Tab"
+  },
+  {
+    id: "tab.askPage",
+    name: "Ask This Page",
+    shortcut: "CommandOrControl+Shift+E",
+    category: "Tab"
+  },
   {
     id: "tab.toggleDevTools",
     name: "Toggle DevTools",
@@ -69,6 +87,19 @@ const typedShortcuts = [
     shortcut: "CommandOrControl+N",
     category: "Browser"
   },
+  {
+    id: "browser.newPrivateWindow",
+    name: "New Private Window",
+    shortcut: "CommandOrControl+Shift+N",
+    category: "Browser"
+  },
+  {
+    id: "browser.openHistory",
+    name: "Show History",
+    // Ctrl+Y is redo on Windows and Linux, so history follows Chrome there
+    shortcut: process.platform === "darwin" ? "Command+Y" : "Control+H",
+    category: "Browser"
+  },
   {
     id: "browser.toggleSidebar",
     name: "Toggle Sidebar",
@@ -0,0 +1,290 @@
+// Snooze tabs and bookmarks until a later time
+// Snoozed items are stored in the bookmarks database and woken up by a scheduler
+// in their original space, along with a notification.
+
+import { Tab } from "@/browser/tabs/tab";
+import { TabbedBrowserWindow } from "@/browser/window";
+import { browser } from "@/index";
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { setWindowSpace } from "@/ipc/session/spaces";
+import {
+  createSnoozedItem,
+  deleteSnoozedItem,
+  getBookmark,
+  getDueSnoozedItems,
+  getSnoozedItem,
+  markSnoozedItemWoken
+} from "@/modules/bookmarks";
+import { debugError, debugPrint } from "@/modules/output";
+import { getRestorableTabData } from "@/saving/tabs";
+import { getSpace } from "@/sessions/spaces";
+import { app, Notification } from "electron";
+import { SnoozedItem, SnoozeType } from "~/types/snooze";
+import { TabData } from "~/types/tabs";
+
+const SNOOZE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Hours used when snoozing until a day
+const MORNING_HOUR = 9;
+const LATER_TODAY_HOURS = 3;
+
+type SnoozeTime = {
+  snoozeUntil: number;
+  snoozeLabel: string;
+};
+
+function formatTime(date: Date) {
+  return date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+/**
+ * Gets the time an item should wake up at
+ * @param snoozeType The kind of snooze
+ * @param customTime The time to wake up at for custom snoozes (ms)
+ */
+export function getSnoozeTime(snoozeType: SnoozeType, customTime?: number): SnoozeTime | null {
+  const now = new Date();
+
+  switch (snoozeType) {
+    case "later_today": {
+      const date = new Date(now.getTime() + LATER_TODAY_HOURS * 60 * 60 * 1000);
+      return { snoozeUntil: date.getTime(), snoozeLabel: `Later today, ${formatTime(date)}` };
+    }
+    case "tomorrow": {
+      const date = new Date(now);
+      date.setDate(date.getDate() + 1);
+      date.setHours(MORNING_HOUR, 0, 0, 0);
+      return { snoozeUntil: date.getTime(), snoozeLabel: `Tomorrow, ${formatTime(date)}` };
+    }
+    case "next_week": {
+      // Next Monday morning
+      const date = new Date(now);
+      const daysUntilMonday = (8 - date.getDay()) % 7 || 7;
+      date.setDate(date.getDate() + daysUntilMonday);
+      date.setHours(MORNING_HOUR, 0, 0, 0);
+      return { snoozeUntil: date.getTime(), snoozeLabel: `Next week, ${date.toLocaleDateString()}` };
+    }
+    case "custom": {
+      if (typeof customTime !== "number" || customTime <= now.getTime()) return null;
+      const date = new Date(customTime);
+      return { snoozeUntil: customTime, snoozeLabel: `${date.toLocaleDateString()}, ${formatTime(date)}` };
+    }
+    default:
+      return null;
+  }
+}
+
+// Items that are being woken up right now
+const wakingItemIds = new Set<string>();
+
+function fireOnSnoozedItemsChanged() {
+  sendMessageToListeners("snooze:on-changed");
+}
+
+/**
+ * Snoozes a tab and closes it
+ * @returns The snoozed item, or null if the tab could not be snoozed
+ */
+export async function snoozeTab(tab: Tab, snoozeType: SnoozeType, customTime?: number) {
+  // Snoozed tabs are saved, which private windows must not do
+  if (tab.getWindow().isPrivate) return null;
+
+  const snoozeTime = getSnoozeTime(snoozeType, customTime);
+  if (!snoozeTime) return null;
+
+  const tabData = await getRestorableTabData(tab);
+  if (!tabData || tab.isDestroyed) return null;
+
+  try {
+    const snoozedItem = await createSnoozedItem({
+      itemType: "tab",
+      itemId: tab.uniqueId,
+      profileId: tab.profileId,
+      spaceId: tab.spaceId,
+      snoozeType,
+      ...snoozeTime,
+      snoozedFromSpaceId: tab.spaceId,
+      originalData: tabData
+    });
+
+    tab.destroy();
+    fireOnSnoozedItemsChanged();
+    return snoozedItem;
+  } catch (error) {
+    debugError("SNOOZE", "Failed to snooze tab:", error);
+    return null;
+  }
+}
+
+/**
+ * Snoozes a bookmark, which is opened in its space when it wakes up
+ * @returns The snoozed item, or null if the bookmark could not be snoozed
+ */
+export async function snoozeBookmark(
+  bookmarkId: string,
+  snoozeType: SnoozeType,
+  customTime?: number,
+  snoozedFromSpaceId?: string
+) {
+  const snoozeTime = getSnoozeTime(snoozeType, customTime);
+  if (!snoozeTime) return null;
+
+  const bookmark = await getBookmark(bookmarkId);
+  if (!bookmark) return null;
+
+  try {
+    const snoozedItem = await createSnoozedItem({
+      itemType: "bookmark",
+      itemId: bookmark.id,
+      profileId: bookmark.profileId,
+      spaceId: bookmark.spaceId,
+      snoozeType,
+      ...snoozeTime,
+      snoozedFromSpaceId,
+      originalData: {
+        id: bookmark.id,
+        url: bookmark.url,
+        title: bookmark.title,
+        favicon: bookmark.favicon
+      }
+    });
+
+    fireOnSnoozedItemsChanged();
+    return snoozedItem;
+  } catch (error) {
+    debugError("SNOOZE", "Failed to snooze bookmark:", error);
+    return null;
+  }
+}
+
+// Items wait until a normal browser window is open, as private windows have their own sessions
+function getWindowForWaking(): TabbedBrowserWindow | null {
+  if (!browser) return null;
+
+  const isWakeableWindow = (window: TabbedBrowserWindow) => window.type === "normal" && !window.isPrivate;
+
+  const focusedWindow = browser.getFocusedWindow();
+  if (focusedWindow && isWakeableWindow(focusedWindow)) return focusedWindow;
+  return browser.getWindows().find(isWakeableWindow) ?? null;
+}
+
+async function createWokenTab(item: SnoozedItem, window: TabbedBrowserWindow) {
+  if (!browser) return null;
+
+  // Wake up in the original space if it still exists
+  const space = await getSpace(item.spaceId);
+  const spaceId = space?.profileId === item.profileId ? space.id : undefined;
+
+  if (item.itemType === "tab") {
+    const tabData = item.originalData as TabData | null;
+    if (!tabData?.navHistory?.length) return null;
+
+    return await browser.tabs.createTab(window.id, item.profileId, spaceId, undefined, {
+      uniqueId: tabData.uniqueId,
+      title: tabData.title,
+      faviconURL: tabData.faviconURL || undefined,
+      navHistory: tabData.navHistory,
+      navHistoryIndex: tabData.navHistoryIndex
+    });
+  }
+
+  if (!item.url) return null;
+  const tab = await browser.tabs.createTab(window.id, item.profileId, spaceId);
+  tab.loadURL(item.url);
+  return tab;
+}
+
+function showWakeUpNotification(item: SnoozedItem, tab: Tab) {
+  if (!Notification.isSupported()) return;
+
+  const notification = new Notification({
+    title: item.itemType === "tab" ? "A snoozed tab is back" : "A snoozed bookmark is back",
+    body: item.title || item.url,
+    silent: true
+  });
+
+  notification.on("click", () => {
+    if (!browser || tab.isDestroyed) return;
+
+    const window = tab.getWindow();
+    setWindowSpace(window, tab.spaceId);
+    browser.tabs.setActiveTab(tab);
+    window.window.show();
+    window.window.focus();
+  });
+  notification.show();
+}
+
+/**
+ * Wakes up a snoozed item by opening it in its original space
+ * @param id The ID of the snoozed item
+ * @param activate Whether to switch to the woken tab
+ */
+export async function wakeSnoozedItem(id: string, activate: boolean = false) {
+  // The scheduler and the user might try to wake the same item at once
+  if (wakingItemIds.has(id)) return false;
+  wakingItemIds.add(id);
+
+  try {
+    return await wakeSnoozedItemOnce(id, activate);
+  } finally {
+    wakingItemIds.delete(id);
+  }
+}
+
+async function wakeSnoozedItemOnce(id: string, activate: boolean) {
+  const item = await getSnoozedItem(id);
+  if (!item || item.notificationSent) return false;
+
+  const window = getWindowForWaking();
+  if (!window) return false;
+
+  // Items whose tab could not be created stay snoozed, so they are tried again
+  const tab = await createWokenTab(item, window).catch((error) => {
+    debugError("SNOOZE", `Failed to wake up ${item.itemType} ${item.itemId}:`, error);
+    return null;
+  });
+  if (!tab) return false;
+
+  await markSnoozedItemWoken(item.id);
+  fireOnSnoozedItemsChanged();
+
+  debugPrint("SNOOZE", `Woke up ${item.itemType} ${item.itemId}`);
+
+  if (activate && browser) {
+    setWindowSpace(tab.getWindow(), tab.spaceId);
+    browser.tabs.setActiveTab(tab);
+  } else {
+    showWakeUpNotification(item, tab);
+  }
+  return true;
+}
+
+/**
+ * Cancels a snooze without waking the item up
+ */
+export async function cancelSnooze(id: string) {
+  const success = await deleteSnoozedItem(id);
+  if (success) {
+    fireOnSnoozedItemsChanged();
+  }
+  return success;
+}
+
+async function wakeDueSnoozedItems() {
+  if (!browser) return;
+
+  try {
+    const dueItems = await getDueSnoozedItems();
+    for (const item of dueItems) {
+      await wakeSnoozedItem(item.id);
+    }
+  } catch (error) {
+    debugError("SNOOZE", "Failed to wake snoozed items:", error);
+  }
+}
+
+// Run after App Ready
+app.whenReady().then(() => {
+  setInterval(wakeDueSnoozedItems, SNOOZE_CHECK_INTERVAL_MS);
+});
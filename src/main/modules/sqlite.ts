@@ -0,0 +1,165 @@
+// Shared setup for the SQLite databases
+// Every database keeps the migrations it has run in a schema_version table.
+// Pending migrations run in order, each in its own transaction, after the
+// database file has been backed up.
+
+import fs from "fs/promises";
+import type { Knex } from "knex";
+import { debugError, debugPrint } from "./output";
+
+const SCHEMA_VERSION_TABLE = "schema_version";
+
+// Attempts for errors that might go away, like a locked database file
+const MAX_INITIALIZATION_ATTEMPTS = 3;
+
+export type DatabaseMigration = {
+  version: number;
+  name: string;
+  /**
+   * Applies the migration
+   * Databases from before versioning start at version 0, so the first migration
+   * has to cope with tables that already exist.
+   */
+  up: (trx: Knex.Transaction) => Promise<void>;
+};
+
+type MigrationOptions = {
+  // Used in logs and errors, e.g. "bookmarks"
+  name: string;
+  dbPath: string;
+  migrations: DatabaseMigration[];
+};
+
+/**
+ * Error for databases that cannot be used, e.g. because a migration failed
+ * These are not retried, as running the same migration again would fail the same way.
+ */
+export class DatabaseInitializationError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "DatabaseInitializationError";
+  }
+}
+
+async function getSchemaVersion(db: Knex): Promise<number> {
+  const hasVersionTable = await db.schema.hasTable(SCHEMA_VERSION_TABLE);
+  if (!hasVersionTable) {
+    await db.schema.createTable(SCHEMA_VERSION_TABLE, (table) => {
+      table.integer("version").primary();
+      table.string("name").notNullable();
+      table.bigInteger("appliedAt").notNullable();
+    });
+  }
+
+  const result = await db(SCHEMA_VERSION_TABLE).max("version as version").first();
+  return Number(result?.version ?? 0);
+}
+
+async function hasExistingTables(db: Knex): Promise<boolean> {
+  const result = await db("sqlite_master")
+    .where("type", "table")
+    .whereNot("name", SCHEMA_VERSION_TABLE)
+    .whereNot("name", "like", "sqlite_%")
+    .count("* as count")
+    .first();
+  return Number(result?.count ?? 0) > 0;
+}
+
+/**
+ * Copies the database next to itself, replacing the backup of an earlier migration
+ * VACUUM INTO gives a consistent copy, including changes that are still in the write-ahead log.
+ */
+async function backupDatabase(db: Knex, dbPath: string, version: number): Promise<string> {
+  const backupPath = `${dbPath}.v${version}.backup`;
+  await fs.rm(backupPath, { force: true });
+  await db.raw("VACUUM INTO ?", [backupPath]);
+  return backupPath;
+}
+
+/**
+ * Brings a database up to the latest schema version
+ * @returns The schema version of the database
+ */
+export async function runMigrations(db: Knex, { name, dbPath, migrations }: MigrationOptions): Promise<number> {
+  const sortedMigrations = [...migrations].sort((a, b) => a.version - b.version);
+  const latestVersion = sortedMigrations[sortedMigrations.length - 1]?.version ?? 0;
+
+  const currentVersion = await getSchemaVersion(db);
+  if (currentVersion > latestVersion) {
+    throw new DatabaseInitializationError(
+      `The ${name} database is at schema version ${currentVersion}, but this version of Flow only supports up to ${latestVersion}`
+    );
+  }
+
+  const pendingMigrations = sortedMigrations.filter((migration) => migration.version > currentVersion);
+  if (pendingMigrations.length === 0) {
+    return currentVersion;
+  }
+
+  // New databases have nothing to back up
+  let backupPath: string | null = null;
+  if (await hasExistingTables(db)) {
+    try {
+      backupPath = await backupDatabase(db, dbPath, currentVersion);
+      debugPrint("DATABASE", `Backed up the ${name} database to ${backupPath}`);
+    } catch (error) {
+      throw new DatabaseInitializationError(`Failed to back up the ${name} database before migrating`, error);
+    }
+  }
+
+  for (const migration of pendingMigrations) {
+    try {
+      await db.transaction(async (trx) => {
+        await migration.up(trx);
+        await trx(SCHEMA_VERSION_TABLE).insert({
+          version: migration.version,
+          name: migration.name,
+          appliedAt: Date.now()
+        });
+      });
+      debugPrint("DATABASE", `Migrated the ${name} database to version ${migration.version} (${migration.name})`);
+    } catch (error) {
+      const backupMessage = backupPath ? ` A backup from before the migration is at ${backupPath}.` : "";
+      throw new DatabaseInitializationError(
+        `Failed to migrate the ${name} database to version ${migration.version} (${migration.name}).${backupMessage}`,
+        error
+      );
+    }
+  }
+
+  return latestVersion;
+}
+
+/**
+ * Initializes a database, retrying errors that might be temporary
+ * @returns A promise that resolves once the database is ready, or rejects if it never will be.
+ * Every database function should await it, so a broken database fails loudly instead of
+ * running queries against a missing schema.
+ */
+export function initializeDatabase(name: string, init: () => Promise<void>): Promise<void> {
+  const whenInitialized = (async () => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await init();
+        return;
+      } catch (error) {
+        if (error instanceof DatabaseInitializationError || attempt >= MAX_INITIALIZATION_ATTEMPTS) {
+          debugError("DATABASE", `Failed to initialize the ${name} database:`, error);
+          throw error instanceof DatabaseInitializationError
+            ? error
+            : new DatabaseInitializationError(`Failed to initialize the ${name} database`, error);
+        }
+
+        debugPrint("DATABASE", `Retrying ${name} database initialization (attempt ${attempt + 1})...`);
+        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  })();
+
+  // Callers get the error when they await it, so it is never an unhandled rejection
+  whenInitialized.catch(() => {});
+  return whenInitialized;
+}
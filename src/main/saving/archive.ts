@@ -0,0 +1,140 @@
+import { Tab } from "@/browser/tabs/tab";
+import { NEW_TAB_URL } from "@/browser/tabs/tab-manager";
+import { TabbedBrowserWindow } from "@/browser/window";
+import { browser } from "@/index";
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { setWindowSpace } from "@/ipc/session/spaces";
+import { getDatastore } from "@/saving/datastore";
+import { getRestorableTabData } from "@/saving/tabs";
+import { getSpace } from "@/sessions/spaces";
+import { ArchivedTabData, TabData } from "~/types/tabs";
+
+const ArchivedTabsDataStore = getDatastore("archived-tabs");
+
+// The oldest archived tabs of a profile are dropped once its archive grows past this
+const MAX_ARCHIVED_TABS = 500;
+
+function fireOnArchiveChanged() {
+  sendMessageToListeners("archive:on-changed");
+}
+
+async function pruneArchivedTabs(profileId: string) {
+  const archivedTabs = await getArchivedTabs(profileId);
+  const staleTabs = archivedTabs.slice(MAX_ARCHIVED_TABS);
+
+  for (const archivedTab of staleTabs) {
+    await ArchivedTabsDataStore.remove(archivedTab.uniqueId);
+  }
+}
+
+/**
+ * Moves the data of a tab into the archive
+ * @returns True if the tab was archived
+ */
+export async function archiveTabData(tabData: TabData) {
+  // Empty tabs are not worth keeping
+  if (!tabData.url || tabData.url === NEW_TAB_URL || tabData.navHistory.length === 0) return false;
+
+  const archivedTab: ArchivedTabData = {
+    uniqueId: tabData.uniqueId,
+    createdAt: tabData.createdAt,
+    lastActiveAt: tabData.lastActiveAt,
+    profileId: tabData.profileId,
+    spaceId: tabData.spaceId,
+    title: tabData.title,
+    url: tabData.url,
+    faviconURL: tabData.faviconURL,
+    navHistory: tabData.navHistory,
+    navHistoryIndex: tabData.navHistoryIndex,
+    archivedAt: Math.floor(Date.now() / 1000)
+  };
+
+  const success = await ArchivedTabsDataStore.set(archivedTab.uniqueId, archivedTab)
+    .then(() => true)
+    .catch(() => false);
+
+  if (success) {
+    await pruneArchivedTabs(archivedTab.profileId);
+    fireOnArchiveChanged();
+  }
+  return success;
+}
+
+/**
+ * Archives a tab and closes it
+ */
+export async function archiveTab(tab: Tab) {
+  if (tab.isDestroyed) return false;
+
+  const window = tab.getWindow();
+  const tabData = window.type === "normal" && !window.isPrivate ? await getRestorableTabData(tab) : null;
+
+  // The tab might have been closed while its data was being read
+  if (tab.isDestroyed) return false;
+  tab.destroy();
+
+  if (!tabData) return false;
+  return await archiveTabData(tabData);
+}
+
+/**
+ * Gets the archived tabs, most recently archived first
+ * @param profileId Only return the tabs of this profile
+ */
+export async function getArchivedTabs(profileId?: string): Promise<ArchivedTabData[]> {
+  const data: { [uniqueId: string]: ArchivedTabData } = await ArchivedTabsDataStore.getFullData();
+
+  return Object.values(data)
+    .filter((archivedTab) => !profileId || archivedTab.profileId === profileId)
+    .sort((a, b) => b.archivedAt - a.archivedAt);
+}
+
+export async function removeArchivedTab(uniqueId: string) {
+  const success = await ArchivedTabsDataStore.remove(uniqueId)
+    .then(() => true)
+    .catch(() => false);
+
+  if (success) {
+    fireOnArchiveChanged();
+  }
+  return success;
+}
+
+export async function wipeArchivedTabs(profileId: string) {
+  const archivedTabs = await getArchivedTabs(profileId);
+  for (const archivedTab of archivedTabs) {
+    await ArchivedTabsDataStore.remove(archivedTab.uniqueId);
+  }
+
+  fireOnArchiveChanged();
+  return true;
+}
+
+/**
+ * Restores an archived tab into its original space
+ * If the space no longer exists, the tab is restored into the last used space of its profile.
+ * @returns The restored tab, or null if it could not be restored
+ */
+export async function restoreArchivedTab(uniqueId: string, window: TabbedBrowserWindow) {
+  if (!browser) return null;
+
+  const archivedTab = await ArchivedTabsDataStore.get<ArchivedTabData>(uniqueId);
+  if (!archivedTab) return null;
+
+  const space = await getSpace(archivedTab.spaceId);
+  const spaceId = space?.profileId === archivedTab.profileId ? space.id : undefined;
+
+  const tab = await browser.tabs.createTab(window.id, archivedTab.profileId, spaceId, undefined, {
+    uniqueId: archivedTab.uniqueId,
+    title: archivedTab.title,
+    faviconURL: archivedTab.faviconURL || undefined,
+    navHistory: archivedTab.navHistory,
+    navHistoryIndex: archivedTab.navHistoryIndex
+  });
+
+  setWindowSpace(window, tab.spaceId);
+  browser.tabs.setActiveTab(tab);
+
+  await removeArchivedTab(uniqueId);
+  return tab;
+}
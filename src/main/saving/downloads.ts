@@ -0,0 +1,53 @@
+import { getDatastore } from "@/saving/datastore";
+import { DownloadData } from "~/types/downloads";
+
+const DownloadsDataStore = getDatastore("downloads");
+
+// The oldest downloads are dropped from the history once it grows past this
+const MAX_DOWNLOADS = 1000;
+
+async function pruneDownloads() {
+  const downloads = await getSavedDownloads();
+  const staleDownloads = downloads.slice(MAX_DOWNLOADS);
+
+  for (const download of staleDownloads) {
+    await DownloadsDataStore.remove(download.id);
+  }
+}
+
+/**
+ * Saves a download to the download history
+ * @returns True if the download was saved
+ */
+export async function saveDownload(download: DownloadData, isNew: boolean = false) {
+  const success = await DownloadsDataStore.set(download.id, download)
+    .then(() => true)
+    .catch(() => false);
+
+  if (success && isNew) {
+    await pruneDownloads();
+  }
+  return success;
+}
+
+export async function getSavedDownload(id: string) {
+  return await DownloadsDataStore.get<DownloadData>(id);
+}
+
+/**
+ * Gets the download history, most recent first
+ * @param profileId Only return the downloads of this profile
+ */
+export async function getSavedDownloads(profileId?: string): Promise<DownloadData[]> {
+  const data: { [id: string]: DownloadData } = await DownloadsDataStore.getFullData();
+
+  return Object.values(data)
+    .filter((download) => !profileId || download.profileId === profileId)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function removeSavedDownload(id: string) {
+  return await DownloadsDataStore.remove(id)
+    .then(() => true)
+    .catch(() => false);
+}
@@ -0,0 +1,65 @@
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { generateID } from "@/modules/utils";
+import { getDatastore } from "@/saving/datastore";
+import { FavoriteData } from "~/types/favorites";
+
+// Favorites are shared by all spaces of a profile
+function getFavoritesDataStore(profileId: string) {
+  return getDatastore("favorites", ["profiles", profileId]);
+}
+
+function fireOnFavoritesChanged() {
+  sendMessageToListeners("favorites:on-changed");
+}
+
+/**
+ * Gets the favorites of a profile, in the order they are shown
+ */
+export async function getFavorites(profileId: string): Promise<FavoriteData[]> {
+  const data: { [id: string]: FavoriteData } = await getFavoritesDataStore(profileId).getFullData();
+  return Object.values(data).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Adds a website to the end of the favorites of a profile
+ * @returns The favorite, or null if the website is already a favorite or could not be saved
+ */
+export async function addFavorite(
+  profileId: string,
+  details: Pick<FavoriteData, "title" | "url" | "faviconURL">
+): Promise<FavoriteData | null> {
+  const favorites = await getFavorites(profileId);
+  if (favorites.some((favorite) => favorite.url === details.url)) return null;
+
+  const lastFavorite = favorites[favorites.length - 1];
+  const favorite: FavoriteData = {
+    id: generateID(),
+    profileId,
+    title: details.title,
+    url: details.url,
+    faviconURL: details.faviconURL,
+    position: lastFavorite ? lastFavorite.position + 1 : 0
+  };
+
+  const success = await getFavoritesDataStore(profileId)
+    .set(favorite.id, favorite)
+    .then(() => true)
+    .catch(() => false);
+
+  if (!success) return null;
+
+  fireOnFavoritesChanged();
+  return favorite;
+}
+
+export async function removeFavorite(profileId: string, favoriteId: string) {
+  const success = await getFavoritesDataStore(profileId)
+    .remove(favoriteId)
+    .then(() => true)
+    .catch(() => false);
+
+  if (success) {
+    fireOnFavoritesChanged();
+  }
+  return success;
+}
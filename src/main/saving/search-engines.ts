@@ -0,0 +1,24 @@
+import { getDatastore } from "@/saving/datastore";
+import { SearchEngine } from "~/types/search-engines";
+
+const SearchEnginesDataStore = getDatastore("search-engines");
+
+/**
+ * Gets the search engines added by the user, in the order they were added
+ */
+export async function getCustomSearchEngines(): Promise<SearchEngine[]> {
+  const data: { [id: string]: SearchEngine } = await SearchEnginesDataStore.getFullData();
+  return Object.values(data);
+}
+
+export async function saveCustomSearchEngine(searchEngine: SearchEngine) {
+  return await SearchEnginesDataStore.set(searchEngine.id, searchEngine)
+    .then(() => true)
+    .catch(() => false);
+}
+
+export async function removeCustomSearchEngine(id: string) {
+  return await SearchEnginesDataStore.remove(id)
+    .then(() => true)
+    .catch(() => false);
+}
@@ -0,0 +1,194 @@
+import { Tab } from "@/browser/tabs/tab";
+import { BaseTabGroup } from "@/browser/tabs/tab-groups";
+import { TabbedBrowserWindow } from "@/browser/window";
+import { browser } from "@/index";
+import { setWindowSpace } from "@/ipc/session/spaces";
+import { getDatastore } from "@/saving/datastore";
+import { getSpace } from "@/sessions/spaces";
+import { dialog, Rectangle, screen } from "electron";
+import { SidebarState } from "~/flow/types";
+
+const SessionDataStore = getDatastore("session");
+
+// How often the session is saved while the browser is running, so it survives a crash
+const SESSION_SAVE_INTERVAL_MS = 30 * 1000;
+
+// How much of a restored window has to be on a display for its position to be kept
+const MIN_VISIBLE_WINDOW_SIZE = 100;
+
+// Tabs are referenced by their unique id, as tab and window ids change between sessions
+export type WindowSessionData = {
+  bounds: Rectangle;
+  isMaximized: boolean;
+  isFullScreen: boolean;
+  currentSpaceId: string | null;
+  tabUniqueIds: string[];
+  focusedTabUniqueIds: { [spaceId: string]: string };
+  activeTabUniqueIds: { [spaceId: string]: string[] };
+  sidebar?: SidebarState;
+};
+
+let sessionSaveInterval: NodeJS.Timeout | null = null;
+
+function getWindowSessionData(window: TabbedBrowserWindow): WindowSessionData | null {
+  if (!browser) return null;
+
+  const tabManager = browser.tabs;
+  const tabs = tabManager.getTabsInWindow(window.id);
+  if (tabs.length === 0) return null;
+
+  const windowSession: WindowSessionData = {
+    // The bounds the window goes back to when it is no longer maximized or full screen
+    bounds: window.window.getNormalBounds(),
+    isMaximized: window.window.isMaximized(),
+    isFullScreen: window.window.isFullScreen(),
+    currentSpaceId: window.getCurrentSpace(),
+    tabUniqueIds: tabs.map((tab) => tab.uniqueId),
+    focusedTabUniqueIds: {},
+    activeTabUniqueIds: {},
+    sidebar: window.sidebarState ?? undefined
+  };
+
+  const spaceIds = new Set(tabs.map((tab) => tab.spaceId));
+  for (const spaceId of spaceIds) {
+    const focusedTab = tabManager.getFocusedTab(window.id, spaceId);
+    if (focusedTab) {
+      windowSession.focusedTabUniqueIds[spaceId] = focusedTab.uniqueId;
+    }
+
+    const activeTab = tabManager.getActiveTab(window.id, spaceId);
+    if (activeTab instanceof BaseTabGroup) {
+      windowSession.activeTabUniqueIds[spaceId] = activeTab.tabs.map((tab) => tab.uniqueId);
+    } else if (activeTab) {
+      windowSession.activeTabUniqueIds[spaceId] = [activeTab.uniqueId];
+    }
+  }
+
+  return windowSession;
+}
+
+/**
+ * Saves the windows of the browser, so they can be recreated on the next launch
+ * @param cleanExit Whether the browser is quitting normally
+ */
+export async function saveSession(cleanExit: boolean = false) {
+  if (!browser) return false;
+
+  const windows = browser
+    .getWindows()
+    .filter((window) => window.type === "normal" && !window.isPrivate)
+    .map((window) => getWindowSessionData(window))
+    .filter((windowSession) => windowSession !== null);
+
+  // The last window might already be closed when quitting, so the last saved windows are kept
+  if (windows.length > 0) {
+    await SessionDataStore.set("windows", windows);
+  }
+  await SessionDataStore.set("cleanExit", cleanExit);
+  return true;
+}
+
+/**
+ * Gets the windows of the previous session
+ * @returns The windows, and whether the previous session ended in a crash
+ */
+export async function getPreviousSession() {
+  const windows = (await SessionDataStore.get<WindowSessionData[]>("windows")) ?? [];
+  const cleanExit = await SessionDataStore.get<boolean>("cleanExit");
+
+  // Sessions from before windows were saved have no record of how they ended
+  const crashed = cleanExit === false;
+  return { windows, crashed };
+}
+
+/**
+ * Asks whether to restore the previous session, after the browser did not quit normally
+ */
+export async function askToRestorePreviousSession() {
+  const returnValue = await dialog.showMessageBox({
+    type: "question",
+    title: "Restore Previous Session",
+    message: "Flow did not close properly.",
+    detail: "Do you want to restore the windows and tabs from your previous session?",
+    buttons: ["Restore", "Start New Session"],
+    defaultId: 0,
+    cancelId: 1
+  });
+  return returnValue.response === 0;
+}
+
+/**
+ * Starts saving the session periodically
+ * Until the browser quits normally, the session is treated as crashed.
+ */
+export function startSavingSession() {
+  if (sessionSaveInterval) return;
+
+  saveSession();
+  sessionSaveInterval = setInterval(() => {
+    saveSession();
+  }, SESSION_SAVE_INTERVAL_MS);
+}
+
+function isVisibleOnAnyDisplay(bounds: Rectangle) {
+  return screen.getAllDisplays().some(({ workArea }) => {
+    const visibleWidth =
+      Math.min(bounds.x + bounds.width, workArea.x + workArea.width) - Math.max(bounds.x, workArea.x);
+    const visibleHeight =
+      Math.min(bounds.y + bounds.height, workArea.y + workArea.height) - Math.max(bounds.y, workArea.y);
+    return visibleWidth >= MIN_VISIBLE_WINDOW_SIZE && visibleHeight >= MIN_VISIBLE_WINDOW_SIZE;
+  });
+}
+
+/**
+ * Gets the window options to recreate a window of the previous session
+ * Windows that would be off-screen, like after a display was disconnected, are centered on the primary display.
+ */
+export function getWindowCreationOptions(windowSession: WindowSessionData): Electron.BrowserWindowConstructorOptions {
+  const { x, y, width, height } = windowSession.bounds;
+  if (isVisibleOnAnyDisplay(windowSession.bounds)) {
+    return { x, y, width, height };
+  }
+
+  const { workArea } = screen.getPrimaryDisplay();
+  return {
+    width: Math.min(width, workArea.width),
+    height: Math.min(height, workArea.height),
+    center: true
+  };
+}
+
+/**
+ * Restores the state of a recreated window, once its tabs have been restored
+ */
+export async function restoreWindowSession(window: TabbedBrowserWindow, windowSession: WindowSessionData, tabs: Tab[]) {
+  if (!browser) return;
+  const tabManager = browser.tabs;
+
+  if (windowSession.isFullScreen) {
+    window.window.setFullScreen(true);
+  } else if (windowSession.isMaximized) {
+    window.window.maximize();
+  }
+
+  const findTab = (uniqueId: string | undefined) => tabs.find((tab) => tab.uniqueId === uniqueId);
+
+  for (const [spaceId, activeTabUniqueIds] of Object.entries(windowSession.activeTabUniqueIds)) {
+    const activeTab = findTab(activeTabUniqueIds[0]);
+    if (!activeTab || activeTab.spaceId !== spaceId) continue;
+
+    const activeTabGroup = tabManager.getTabGroupByTabId(activeTab.id);
+    const focusedTab = findTab(windowSession.focusedTabUniqueIds[spaceId]);
+
+    // An active tab group keeps the focus on its focused tab
+    if (focusedTab && activeTabGroup?.hasTab(focusedTab.id)) {
+      tabManager.setActiveTab(focusedTab);
+    }
+    tabManager.setActiveTab(activeTabGroup ?? activeTab);
+  }
+
+  const currentSpaceId = windowSession.currentSpaceId;
+  if (currentSpaceId && (await getSpace(currentSpaceId))) {
+    setWindowSpace(window, currentSpaceId);
+  }
+}
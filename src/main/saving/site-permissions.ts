@@ -0,0 +1,157 @@
+import { sendMessageToListeners } from "@/ipc/listeners-manager";
+import { debugError } from "@/modules/output";
+import { getDatastore } from "@/saving/datastore";
+import { getProfiles } from "@/sessions/profiles";
+import { SitePermission, SitePermissions, SitePermissionsEntry, SitePermissionState } from "~/types/permissions";
+
+export const SITE_PERMISSIONS: SitePermission[] = [
+  "camera",
+  "microphone",
+  "geolocation",
+  "notifications",
+  "clipboard-read",
+  "midi-sysex",
+  "idle-detection",
+  "window-management"
+];
+
+// Permission checks are synchronous, so decisions are also kept in memory
+const permissionsCache = new Map<string, SitePermissions>();
+
+function getSitePermissionsDataStore(profileId: string) {
+  return getDatastore("site-permissions", ["profiles", profileId]);
+}
+
+function getCacheKey(profileId: string, origin: string) {
+  return `${profileId}:${origin}`;
+}
+
+function fireOnSitePermissionsChanged() {
+  sendMessageToListeners("site-permissions:on-changed");
+}
+
+/**
+ * Gets the origin that permissions are stored for
+ * @returns The origin, or null for pages that cannot be granted permissions
+ */
+export function getPermissionOrigin(url: string): string | null {
+  try {
+    const parsedURL = new URL(url);
+    if (parsedURL.protocol === "http:" || parsedURL.protocol === "https:") {
+      return parsedURL.origin;
+    }
+    if (parsedURL.protocol === "file:") {
+      return "file://";
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function isSitePermission(permission: string): permission is SitePermission {
+  return SITE_PERMISSIONS.includes(permission as SitePermission);
+}
+
+/**
+ * Gets the permissions a profile has decided on for a website
+ */
+export async function getSitePermissions(profileId: string, origin: string): Promise<SitePermissions> {
+  const permissions = await getSitePermissionsDataStore(profileId).get<SitePermissions>(origin, {});
+  permissionsCache.set(getCacheKey(profileId, origin), permissions ?? {});
+  return permissions ?? {};
+}
+
+export async function getSitePermission(
+  profileId: string,
+  origin: string,
+  permission: SitePermission
+): Promise<SitePermissionState> {
+  const permissions = await getSitePermissions(profileId, origin);
+  return permissions[permission] ?? "ask";
+}
+
+/**
+ * Gets a permission from memory, for synchronous permission checks
+ * @returns The state, or null if the website's permissions have not been loaded yet
+ */
+export function getCachedSitePermission(
+  profileId: string,
+  origin: string,
+  permission: SitePermission
+): SitePermissionState | null {
+  const permissions = permissionsCache.get(getCacheKey(profileId, origin));
+  if (!permissions) return null;
+  return permissions[permission] ?? "ask";
+}
+
+/**
+ * Loads the permissions of every website of a profile into memory
+ */
+export async function loadSitePermissions(profileId: string) {
+  try {
+    const data = await getSitePermissionsDataStore(profileId).getFullData();
+    for (const [origin, permissions] of Object.entries(data)) {
+      permissionsCache.set(getCacheKey(profileId, origin), permissions as SitePermissions);
+    }
+  } catch (error) {
+    debugError("PERMISSIONS", `Failed to load the site permissions of profile ${profileId}:`, error);
+  }
+}
+
+/**
+ * Sets what happens when a website asks for a permission
+ * Setting a permission to `ask` forgets the decision.
+ */
+export async function setSitePermission(
+  profileId: string,
+  origin: string,
+  permission: SitePermission,
+  state: SitePermissionState
+) {
+  const datastore = getSitePermissionsDataStore(profileId);
+
+  const permissions = { ...(await getSitePermissions(profileId, origin)) };
+  if (state === "ask") {
+    delete permissions[permission];
+  } else {
+    permissions[permission] = state;
+  }
+
+  if (Object.keys(permissions).length === 0) {
+    await datastore.remove(origin);
+  } else {
+    await datastore.set(origin, permissions);
+  }
+  permissionsCache.set(getCacheKey(profileId, origin), permissions);
+
+  fireOnSitePermissionsChanged();
+  return true;
+}
+
+/**
+ * Forgets every permission decision of a website
+ */
+export async function resetSitePermissions(profileId: string, origin: string) {
+  const removed = await getSitePermissionsDataStore(profileId).remove(origin);
+  permissionsCache.set(getCacheKey(profileId, origin), {});
+
+  fireOnSitePermissionsChanged();
+  return removed;
+}
+
+/**
+ * Gets the permission decisions of every website, in every profile
+ */
+export async function getAllSitePermissions(): Promise<SitePermissionsEntry[]> {
+  const profiles = await getProfiles();
+
+  const entries: SitePermissionsEntry[] = [];
+  for (const profile of profiles) {
+    const data = await getSitePermissionsDataStore(profile.id).getFullData();
+    for (const [origin, permissions] of Object.entries(data)) {
+      entries.push({ profileId: profile.id, origin, permissions: permissions as SitePermissions });
+    }
+  }
+  return entries;
+}
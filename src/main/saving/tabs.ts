@@ -1,22 +1,42 @@
 import { Browser } from "@/browser/browser";
 import { SLEEP_MODE_URL, Tab } from "@/browser/tabs/tab";
+import { TabGroup } from "@/browser/tabs/tab-groups";
+import { TabbedBrowserWindow } from "@/browser/window";
 import { browser } from "@/index";
 import { getTabData } from "@/ipc/browser/tabs";
 import { ArchiveTabValueMap, SleepTabValueMap } from "@/modules/basic-settings";
 import { getDatastore } from "@/saving/datastore";
+import { archiveTabData } from "@/saving/archive";
+import {
+  askToRestorePreviousSession,
+  getPreviousSession,
+  getWindowCreationOptions,
+  restoreWindowSession,
+  startSavingSession,
+  WindowSessionData
+} from "@/saving/session";
 import { getSettingValueById } from "@/saving/settings";
 import { app } from "electron";
-import { TabData } from "~/types/tabs";
+import { SplitOrientation, TabData, TabGroupMode } from "~/types/tabs";
 
 const TabsDataStore = getDatastore("tabs");
-// const TabGroupsDataStore = getDatastore("tabgroups");
+const TabGroupsDataStore = getDatastore("tabgroups");
 
-// TODO: Persist tab groups?
-
-export async function persistTabToStorage(tab: Tab) {
-  const window = tab.getWindow();
-  if (window.type !== "normal") return;
+// Tabs are referenced by their unique id, as tab ids change between sessions
+type TabGroupStorageData = {
+  mode: TabGroupMode;
+  position: number;
+  tabUniqueIds: string[];
+  glanceFrontTabUniqueId?: string;
+  splitOrientation?: SplitOrientation;
+  splitSizes?: number[];
+};
 
+/**
+ * Gets the data of a tab that can be restored later
+ * Sleeping tabs do not have their real URL loaded, so it is recovered from the stored data.
+ */
+export async function getRestorableTabData(tab: Tab): Promise<TabData | null> {
   // Prevent saving tabs stuck in sleep mode
   // if (tab.url === SLEEP_MODE_URL) return;
   // if (tab.asleep) return;
@@ -39,23 +59,34 @@ export async function persistTabToStorage(tab: Tab) {
 
   if (recoverFromOldData) {
     const oldTabData = await TabsDataStore.get<TabData>(uniqueId);
-    if (!oldTabData) return;
+    if (!oldTabData) return null;
 
     const oldTabDataUrl = oldTabData?.url;
     if (!saveURL) {
-      if (!oldTabDataUrl) return;
+      if (!oldTabDataUrl) return null;
       transformedTabData.url = oldTabDataUrl;
     }
 
     const oldTabDataNavHistory = oldTabData?.navHistory;
     if (!saveNavHistory) {
-      if (!oldTabDataNavHistory) return;
+      if (!oldTabDataNavHistory) return null;
       transformedTabData.navHistory = oldTabDataNavHistory;
     }
   }
 
+  return transformedTabData;
+}
+
+export async function persistTabToStorage(tab: Tab) {
+  const window = tab.getWindow();
+  if (window.type !== "normal" || window.isPrivate) return;
+
+  const uniqueId = tab.uniqueId;
+  const tabData = await getRestorableTabData(tab);
+  if (!tabData) return;
+
   // Save the tab data
-  return await TabsDataStore.set(uniqueId, transformedTabData)
+  return await TabsDataStore.set(uniqueId, tabData)
     .then(() => true)
     .catch(() => false);
 }
@@ -76,7 +107,45 @@ export async function removeTabDataFromStorage(tabData: TabData) {
   return await removeTabFromStorageById(uniqueId);
 }
 
-export function shouldArchiveTab(lastActiveAt: number) {
+export async function persistTabGroupToStorage(tabGroup: TabGroup) {
+  if (tabGroup.isDestroyed) return;
+
+  const tabs = tabGroup.tabs;
+  const window = tabs[0]?.getWindow();
+  if (!window || window.type !== "normal" || window.isPrivate) return;
+
+  const tabGroupData: TabGroupStorageData = {
+    mode: tabGroup.mode,
+    position: tabGroup.position,
+    tabUniqueIds: tabs.map((tab) => tab.uniqueId)
+  };
+
+  if (tabGroup.mode === "glance") {
+    tabGroupData.glanceFrontTabUniqueId = tabs.find((tab) => tab.id === tabGroup.frontTabId)?.uniqueId;
+  } else if (tabGroup.mode === "split") {
+    tabGroupData.splitOrientation = tabGroup.orientation;
+    tabGroupData.splitSizes = tabGroup.sizes;
+  }
+
+  // Save the tab group data
+  return await TabGroupsDataStore.set(tabGroup.uniqueId, tabGroupData)
+    .then(() => true)
+    .catch(() => false);
+}
+
+export async function removeTabGroupFromStorage(tabGroup: TabGroup) {
+  return await TabGroupsDataStore.remove(tabGroup.uniqueId)
+    .then(() => true)
+    .catch(() => false);
+}
+
+/**
+ * Checks if a tab has been inactive for long enough to be archived
+ * Pinned tabs are never archived.
+ */
+export function shouldArchiveTab(lastActiveAt: number, pinned: boolean = false) {
+  if (pinned) return false;
+
   const archiveTabAfter = getSettingValueById("archiveTabAfter");
   const archiveTabAfterSeconds = ArchiveTabValueMap[archiveTabAfter as keyof typeof ArchiveTabValueMap];
 
@@ -105,8 +174,8 @@ export async function loadTabsFromStorage() {
     .map(([, tabData]) => {
       if (typeof tabData.lastActiveAt === "number") {
         const lastActiveAt = tabData.lastActiveAt;
-        if (shouldArchiveTab(lastActiveAt)) {
-          removeTabDataFromStorage(tabData);
+        if (shouldArchiveTab(lastActiveAt, tabData.pinned)) {
+          archiveTabData(tabData).then(() => removeTabDataFromStorage(tabData));
           return null;
         }
       }
@@ -118,35 +187,125 @@ export async function loadTabsFromStorage() {
 }
 
 export async function wipeTabsFromStorage() {
+  await TabGroupsDataStore.wipe();
   return await TabsDataStore.wipe();
 }
 
-async function createTabsFromTabDatas(browser: Browser, tabDatas: TabData[]) {
-  // Group them by window id
-  const windowTabs = tabDatas.reduce(
-    (acc, tab) => {
-      acc[tab.windowId] = [...(acc[tab.windowId] || []), tab];
-      return acc;
-    },
-    {} as { [windowId: number]: TabData[] }
-  );
+/**
+ * Removes every tab but the pinned tabs from storage, along with the tab groups of the removed tabs
+ * Pinned tabs belong to their space, so they outlive the session.
+ */
+async function wipeUnpinnedTabsFromStorage(tabs: TabData[]) {
+  const unpinnedTabUniqueIds = new Set(tabs.filter((tabData) => !tabData.pinned).map((tabData) => tabData.uniqueId));
+
+  const tabGroupDatas: { [uniqueId: string]: TabGroupStorageData } = await TabGroupsDataStore.getFullData();
+  for (const [uniqueId, tabGroupData] of Object.entries(tabGroupDatas)) {
+    if (tabGroupData.tabUniqueIds.some((tabUniqueId) => unpinnedTabUniqueIds.has(tabUniqueId))) {
+      await TabGroupsDataStore.remove(uniqueId);
+    }
+  }
+
+  for (const uniqueId of unpinnedTabUniqueIds) {
+    await removeTabFromStorageById(uniqueId);
+  }
+  return tabs.filter((tabData) => tabData.pinned);
+}
+
+/**
+ * Recreates the saved tab groups from the restored tabs
+ * Tab groups with missing tabs are dropped, as they can no longer be restored.
+ */
+async function restoreTabGroupsFromStorage(browser: Browser, tabs: Tab[]) {
+  const tabGroupDatas: { [uniqueId: string]: TabGroupStorageData } = await TabGroupsDataStore.getFullData();
+
+  for (const [uniqueId, tabGroupData] of Object.entries(tabGroupDatas)) {
+    // The restored tab group is saved again under a new unique id
+    await TabGroupsDataStore.remove(uniqueId);
 
-  // Create a new window for each window id
-  for (const [, tabs] of Object.entries(windowTabs)) {
-    const window = await browser.createWindow("normal");
+    // Records with a mode that can't be restored are dropped
+    if (tabGroupData.mode !== "glance" && tabGroupData.mode !== "split") continue;
+
+    const groupTabs = tabGroupData.tabUniqueIds
+      .map((tabUniqueId) => tabs.find((tab) => tab.uniqueId === tabUniqueId))
+      .filter((tab) => tab !== undefined);
+
+    if (groupTabs.length < 2) continue;
+    if (tabGroupData.mode === "glance" && groupTabs.length !== 2) continue;
+
+    // Tabs of a group share their position in the sidebar
+    if (typeof tabGroupData.position === "number") {
+      for (const tab of groupTabs) {
+        tab.updateStateProperty("position", tabGroupData.position);
+      }
+    }
+
+    const tabIds = groupTabs.map((tab) => tab.id) as [number, ...number[]];
+    const tabGroup = browser.tabs.createTabGroup(tabGroupData.mode, tabIds);
+
+    if (tabGroup.mode === "glance") {
+      const frontTab = groupTabs.find((tab) => tab.uniqueId === tabGroupData.glanceFrontTabUniqueId) ?? groupTabs[0];
+      tabGroup.setFrontTab(frontTab.id);
+    } else if (tabGroup.mode === "split") {
+      if (tabGroupData.splitOrientation) {
+        tabGroup.setOrientation(tabGroupData.splitOrientation);
+      }
+      if (tabGroupData.splitSizes) {
+        tabGroup.setSizes(tabGroupData.splitSizes);
+      }
+    }
+  }
+}
+
+async function createTabsFromTabDatas(browser: Browser, tabDatas: TabData[], windowSessions: WindowSessionData[]) {
+  // Group them by window, using the windows of the previous session when possible
+  const windowTabs = new Map<WindowSessionData | number, TabData[]>();
+  for (const tabData of tabDatas) {
+    const windowSession = windowSessions.find((windowSession) => windowSession.tabUniqueIds.includes(tabData.uniqueId));
+    const windowKey = windowSession ?? tabData.windowId;
+    windowTabs.set(windowKey, [...(windowTabs.get(windowKey) ?? []), tabData]);
+  }
+
+  // Create a new window for each window
+  const tabPromises: Promise<Tab>[] = [];
+  const restoredWindows: { window: TabbedBrowserWindow; windowSession: WindowSessionData }[] = [];
+  for (const [windowKey, tabs] of windowTabs) {
+    const windowSession = typeof windowKey === "number" ? undefined : windowKey;
+
+    const window = await browser.createWindow("normal", {
+      window: windowSession ? getWindowCreationOptions(windowSession) : undefined
+    });
+    if (windowSession) {
+      // The Browser UI asks for the sidebar state once it has loaded
+      window.sidebarState = windowSession.sidebar ?? null;
+      restoredWindows.push({ window, windowSession });
+    }
 
     for (const tabData of tabs) {
-      browser.tabs.createTab(window.id, tabData.profileId, tabData.spaceId, undefined, {
+      const tabPromise = browser.tabs.createTab(window.id, tabData.profileId, tabData.spaceId, undefined, {
         asleep: true,
         position: tabData.position,
         navHistory: tabData.navHistory,
         navHistoryIndex: tabData.navHistoryIndex,
         uniqueId: tabData.uniqueId,
+        pinned: tabData.pinned,
+        pinnedUrl: tabData.pinnedUrl,
         title: tabData.title,
         faviconURL: tabData.faviconURL || undefined
       });
+      tabPromises.push(tabPromise);
     }
   }
+
+  const tabs = (await Promise.allSettled(tabPromises))
+    .filter((result) => result.status === "fulfilled")
+    .map((result) => result.value);
+  await restoreTabGroupsFromStorage(browser, tabs);
+
+  // Active tabs are restored last, as they can be tab groups
+  for (const { window, windowSession } of restoredWindows) {
+    const restoredTabs = tabs.filter((tab) => tab.getWindow().id === window.id);
+    await restoreWindowSession(window, windowSession, restoredTabs);
+  }
 }
 
 export async function createInitialWindow() {
@@ -154,10 +313,26 @@ export async function createInitialWindow() {
 
   await app.whenReady();
 
-  const tabs = await loadTabsFromStorage();
+  const previousSession = await getPreviousSession();
+  let tabs = await loadTabsFromStorage();
+  let windowSessions = previousSession.windows;
+
+  if (previousSession.crashed && tabs.length > 0) {
+    const restore = await askToRestorePreviousSession();
+    if (!restore) {
+      // The pinned tabs open in a new window, without the state of the previous session
+      tabs = await wipeUnpinnedTabsFromStorage(tabs);
+      windowSessions = [];
+    }
+  }
+
+  startSavingSession();
+
   if (tabs.length > 0) {
-    await createTabsFromTabDatas(browser, tabs);
+    await createTabsFromTabDatas(browser, tabs, windowSessions);
   } else {
+    // Tab groups cannot exist without their tabs
+    await TabGroupsDataStore.wipe();
     await browser.createWindow();
   }
   return true;
@@ -11,14 +11,20 @@ import type { SpaceData } from "@/sessions/spaces";
 
 // SHARED TYPES //
 import type { SharedExtensionData } from "~/types/extensions";
-import type { WindowTabsData } from "~/types/tabs";
+import type { SplitSide, WindowTabsData } from "~/types/tabs";
 import type { UpdateStatus } from "~/types/updates";
-import type { WindowState } from "~/flow/types";
+import type { SidebarState, WindowState } from "~/flow/types";
 
 // API TYPES //
 import { FlowBrowserAPI } from "~/flow/interfaces/browser/browser";
 import { FlowPageAPI } from "~/flow/interfaces/browser/page";
 import { FlowNavigationAPI } from "~/flow/interfaces/browser/navigation";
+import { FindInPageOptions, FindInPageResult, FlowFindInPageAPI } from "~/flow/interfaces/browser/findInPage";
+import {
+  FlowPageAssistantAPI,
+  PageAssistantChunk,
+  PageAssistantMessage
+} from "~/flow/interfaces/browser/pageAssistant";
 import { FlowInterfaceAPI } from "~/flow/interfaces/browser/interface";
 import { FlowProfilesAPI } from "~/flow/interfaces/sessions/profiles";
 import { FlowSpacesAPI } from "~/flow/interfaces/sessions/spaces";
@@ -26,6 +32,8 @@ import { FlowAppAPI } from "~/flow/interfaces/app/app";
 import { FlowIconsAPI } from "~/flow/interfaces/settings/icons";
 import { FlowNewTabAPI } from "~/flow/interfaces/browser/newTab";
 import { FlowOpenExternalAPI } from "~/flow/interfaces/settings/openExternal";
+import { FlowSitePermissionsAPI } from "~/flow/interfaces/settings/sitePermissions";
+import { FlowSearchEnginesAPI } from "~/flow/interfaces/settings/searchEngines";
 import { FlowOnboardingAPI } from "~/flow/interfaces/settings/onboarding";
 import { FlowOmniboxAPI } from "~/flow/interfaces/browser/omnibox";
 import { FlowSettingsAPI } from "~/flow/interfaces/settings/settings";
@@ -36,7 +44,16 @@ import { FlowUpdatesAPI } from "~/flow/interfaces/app/updates";
 import { FlowActionsAPI } from "~/flow/interfaces/app/actions";
 import { FlowShortcutsAPI, ShortcutsData } from "~/flow/interfaces/app/shortcuts";
 import { FlowBookmarksAPI } from "~/flow/interfaces/browser/bookmarks";
-import { CreateBookmarkInput, UpdateBookmarkInput, BookmarkFilter } from "~/types/bookmarks";
+import { FlowHistoryAPI } from "~/flow/interfaces/browser/history";
+import { FlowArchiveAPI } from "~/flow/interfaces/browser/archive";
+import { FlowSnoozeAPI } from "~/flow/interfaces/browser/snooze";
+import { FlowDownloadsAPI } from "~/flow/interfaces/browser/downloads";
+import { FlowFavoritesAPI } from "~/flow/interfaces/browser/favorites";
+import { SnoozeType } from "~/types/snooze";
+import { HistoryQuery } from "~/types/history";
+import { BookmarkExportFormat, BookmarkImportRequest, CreateBookmarkInput, CreateCollectionInput, UpdateBookmarkInput, BookmarkFilter } from "~/types/bookmarks";
+import { SitePermission, SitePermissionState } from "~/types/permissions";
+import { CustomSearchEngineData } from "~/types/search-engines";
 import { AIFlowInterface } from "~/flow/interfaces/ai";
 
 // API CHECKS //
@@ -219,6 +236,9 @@ const browserAPI: FlowBrowserAPI = {
   },
   createWindow: () => {
     return ipcRenderer.send("browser:create-window");
+  },
+  createPrivateWindow: () => {
+    return ipcRenderer.send("browser:create-private-window");
   }
 };
 
@@ -236,6 +256,15 @@ const tabsAPI: FlowTabsAPI = {
   closeTab: async (tabId: number) => {
     return ipcRenderer.invoke("tabs:close-tab", tabId);
   },
+  closeTabGroup: async (tabGroupId: number) => {
+    return ipcRenderer.invoke("tabs:close-tab-group", tabGroupId);
+  },
+  getRecentlyClosed: async () => {
+    return ipcRenderer.invoke("tabs:get-recently-closed");
+  },
+  reopenClosedTab: async (entryId?: string) => {
+    return ipcRenderer.invoke("tabs:reopen-closed-tab", entryId);
+  },
 
   showContextMenu: (tabId: number) => {
     return ipcRenderer.send("tabs:show-context-menu", tabId);
@@ -249,6 +278,30 @@ const tabsAPI: FlowTabsAPI = {
     return ipcRenderer.invoke("tabs:move-tab-to-window-space", tabId, spaceId, newPosition);
   },
 
+  splitTab: async (tabId: number, side: SplitSide) => {
+    return ipcRenderer.invoke("tabs:split-tab", tabId, side);
+  },
+
+  unsplitTab: async (tabId: number) => {
+    return ipcRenderer.invoke("tabs:unsplit-tab", tabId);
+  },
+
+  setSplitSizes: async (tabGroupId: number, sizes: number[], persist?: boolean) => {
+    return ipcRenderer.invoke("tabs:set-split-sizes", tabGroupId, sizes, persist);
+  },
+
+  closeGlance: async (tabGroupId: number) => {
+    return ipcRenderer.invoke("tabs:close-glance", tabGroupId);
+  },
+
+  expandGlance: async (tabGroupId: number) => {
+    return ipcRenderer.invoke("tabs:expand-glance", tabGroupId);
+  },
+
+  splitGlance: async (tabGroupId: number) => {
+    return ipcRenderer.invoke("tabs:split-glance", tabGroupId);
+  },
+
   // Special Exception: This is allowed for all internal protocols.
   newTab: async (url?: string, isForeground?: boolean, spaceId?: string) => {
     return ipcRenderer.invoke("tabs:new-tab", url, isForeground, spaceId);
@@ -291,6 +344,38 @@ const navigationAPI: FlowNavigationAPI = {
   }
 };
 
+// FIND IN PAGE API //
+const findInPageAPI: FlowFindInPageAPI = {
+  find: (tabId: number, text: string, options?: FindInPageOptions) => {
+    return ipcRenderer.send("find-in-page:find", tabId, text, options);
+  },
+  stopFinding: (tabId: number) => {
+    return ipcRenderer.send("find-in-page:stop", tabId);
+  },
+  onResult: (callback: (result: FindInPageResult) => void) => {
+    return listenOnIPCChannel("find-in-page:on-result", callback);
+  }
+};
+
+// PAGE ASSISTANT API //
+const pageAssistantAPI: FlowPageAssistantAPI = {
+  getPageContent: async (tabId: number) => {
+    return ipcRenderer.invoke("page-assistant:get-content", tabId);
+  },
+  summarize: (tabId: number, requestId: string) => {
+    return ipcRenderer.send("page-assistant:summarize", tabId, requestId);
+  },
+  ask: (tabId: number, requestId: string, question: string, history: PageAssistantMessage[]) => {
+    return ipcRenderer.send("page-assistant:ask", tabId, requestId, question, history);
+  },
+  cancel: (requestId: string) => {
+    return ipcRenderer.send("page-assistant:cancel", requestId);
+  },
+  onChunk: (callback: (chunk: PageAssistantChunk) => void) => {
+    return listenOnIPCChannel("page-assistant:on-chunk", callback);
+  }
+};
+
 // INTERFACE API //
 const interfaceAPI: FlowInterfaceAPI = {
   setWindowButtonPosition: (position: { x: number; y: number }) => {
@@ -302,6 +387,12 @@ const interfaceAPI: FlowInterfaceAPI = {
   onToggleSidebar: (callback: () => void) => {
     return listenOnIPCChannel("sidebar:on-toggle", callback);
   },
+  getSidebarState: () => {
+    return ipcRenderer.invoke("interface:get-sidebar-state");
+  },
+  setSidebarState: (state: SidebarState) => {
+    return ipcRenderer.send("interface:set-sidebar-state", state);
+  },
   setComponentWindowBounds: (componentId: string, bounds: Electron.Rectangle) => {
     return ipcRenderer.send("interface:set-component-window-bounds", componentId, bounds);
   },
@@ -311,6 +402,9 @@ const interfaceAPI: FlowInterfaceAPI = {
   setComponentWindowVisible: (componentId: string, visible: boolean) => {
     return ipcRenderer.send("interface:set-component-window-visible", componentId, visible);
   },
+  focusComponentWindow: (componentId: string) => {
+    return ipcRenderer.send("interface:focus-component-window", componentId);
+  },
 
   minimizeWindow: () => {
     return ipcRenderer.send("interface:minimize-window");
@@ -471,6 +565,47 @@ const openExternalAPI: FlowOpenExternalAPI = {
   }
 };
 
+// SITE PERMISSIONS API //
+const sitePermissionsAPI: FlowSitePermissionsAPI = {
+  getSitePermissions: async (url: string) => {
+    return ipcRenderer.invoke("site-permissions:get", url);
+  },
+  setSitePermission: async (url: string, permission: SitePermission, state: SitePermissionState) => {
+    return ipcRenderer.invoke("site-permissions:set", url, permission, state);
+  },
+  getAllSitePermissions: async () => {
+    return ipcRenderer.invoke("site-permissions:get-all");
+  },
+  revokeSitePermission: async (profileId: string, origin: string, permission: SitePermission) => {
+    return ipcRenderer.invoke("site-permissions:revoke", profileId, origin, permission);
+  },
+  resetSitePermissions: async (profileId: string, origin: string) => {
+    return ipcRenderer.invoke("site-permissions:reset", profileId, origin);
+  },
+  onSitePermissionsChanged: (callback: () => void) => {
+    return listenOnIPCChannel("site-permissions:on-changed", callback);
+  }
+};
+
+// SEARCH ENGINES API //
+const searchEnginesAPI: FlowSearchEnginesAPI = {
+  getSearchEngines: async () => {
+    return ipcRenderer.invoke("search-engines:get");
+  },
+  getDefaultSearchEngine: async () => {
+    return ipcRenderer.invoke("search-engines:get-default");
+  },
+  addSearchEngine: async (data: CustomSearchEngineData) => {
+    return ipcRenderer.invoke("search-engines:add", data);
+  },
+  removeSearchEngine: async (id: string) => {
+    return ipcRenderer.invoke("search-engines:remove", id);
+  },
+  onSearchEnginesChanged: (callback: () => void) => {
+    return listenOnIPCChannel("search-engines:on-changed", callback);
+  }
+};
+
 // ONBOARDING API //
 const onboardingAPI: FlowOnboardingAPI = {
   finish: () => {
@@ -563,6 +698,12 @@ const actionsAPI: FlowActionsAPI = {
   onCopyLink: (callback: () => void) => {
     return listenOnIPCChannel("actions:on-copy-link", callback);
   },
+  onFindInPage: (callback: () => void) => {
+    return listenOnIPCChannel("actions:on-find-in-page", callback);
+  },
+  onAskPage: (callback: () => void) => {
+    return listenOnIPCChannel("actions:on-ask-page", callback);
+  },
   onIncomingAction: (callback: (action: string) => void) => {
     return listenOnIPCChannel("actions:on-incoming", callback);
   }
@@ -613,6 +754,18 @@ const bookmarksAPI: FlowBookmarksAPI = {
   getByUrl: async (url: string) => {
     return ipcRenderer.invoke("bookmarks:getByUrl", url);
   },
+  search: async (query: string, filter?: BookmarkFilter, limit?: number) => {
+    return ipcRenderer.invoke("bookmarks:search", query, filter, limit);
+  },
+  semanticSearch: async (query: string, filter?: BookmarkFilter, limit?: number) => {
+    return ipcRenderer.invoke("bookmarks:semanticSearch", query, filter, limit);
+  },
+  getRelated: async (id: string, limit?: number) => {
+    return ipcRenderer.invoke("bookmarks:getRelated", id, limit);
+  },
+  indexContent: async (id: string) => {
+    return ipcRenderer.invoke("bookmarks:indexContent", id);
+  },
   restore: async (id: string) => {
     return ipcRenderer.invoke("bookmarks:restore", id);
   },
@@ -626,15 +779,7 @@ const bookmarksAPI: FlowBookmarksAPI = {
     return ipcRenderer.invoke("bookmarks:addAILabels", bookmarkId, aiLabels);
   },
   collections: {
-    create: async (input: {
-      name: string;
-      description?: string;
-      profileId: string;
-      spaceId?: string;
-      parentId?: string;
-      isAuto?: boolean;
-      rules?: any;
-    }) => {
+    create: async (input: CreateCollectionInput) => {
       return ipcRenderer.invoke("bookmarks:collections:create", input);
     },
     getAll: async (profileId?: string) => {
@@ -667,6 +812,122 @@ const bookmarksAPI: FlowBookmarksAPI = {
   },
   importChrome: async (htmlContent: string, profileId: string, spaceId: string) => {
     return ipcRenderer.invoke("bookmarks:importChrome", htmlContent, profileId, spaceId);
+  },
+  getImportSources: async () => {
+    return ipcRenderer.invoke("bookmarks:getImportSources");
+  },
+  import: async (request: BookmarkImportRequest, profileId: string, spaceId: string) => {
+    return ipcRenderer.invoke("bookmarks:import", request, profileId, spaceId);
+  },
+  export: async (format: BookmarkExportFormat, filter?: BookmarkFilter) => {
+    return ipcRenderer.invoke("bookmarks:export", format, filter);
+  }
+};
+
+// HISTORY API //
+const historyAPI: FlowHistoryAPI = {
+  getHistory: async () => {
+    return ipcRenderer.invoke("history:get");
+  },
+  queryVisits: async (query?: HistoryQuery) => {
+    return ipcRenderer.invoke("history:query-visits", query);
+  },
+  deleteVisits: async (visitIds: number[]) => {
+    return ipcRenderer.invoke("history:delete-visits", visitIds);
+  },
+  deleteHostname: async (hostname: string) => {
+    return ipcRenderer.invoke("history:delete-hostname", hostname);
+  },
+  clear: async (startTime?: number, endTime?: number) => {
+    return ipcRenderer.invoke("history:clear", startTime, endTime);
+  }
+};
+
+// ARCHIVE API //
+const archiveAPI: FlowArchiveAPI = {
+  getArchivedTabs: async () => {
+    return ipcRenderer.invoke("archive:get-tabs");
+  },
+  restoreTab: async (uniqueId: string) => {
+    return ipcRenderer.invoke("archive:restore-tab", uniqueId);
+  },
+  removeTab: async (uniqueId: string) => {
+    return ipcRenderer.invoke("archive:remove-tab", uniqueId);
+  },
+  clear: async () => {
+    return ipcRenderer.invoke("archive:clear");
+  },
+  onArchiveChanged: (callback: () => void) => {
+    return listenOnIPCChannel("archive:on-changed", callback);
+  }
+};
+
+// SNOOZE API //
+const snoozeAPI: FlowSnoozeAPI = {
+  snoozeTab: async (tabId: number, snoozeType: SnoozeType, customTime?: number) => {
+    return ipcRenderer.invoke("snooze:snooze-tab", tabId, snoozeType, customTime);
+  },
+  snoozeBookmark: async (bookmarkId: string, snoozeType: SnoozeType, customTime?: number) => {
+    return ipcRenderer.invoke("snooze:snooze-bookmark", bookmarkId, snoozeType, customTime);
+  },
+  getSnoozedItems: async () => {
+    return ipcRenderer.invoke("snooze:get-items");
+  },
+  wakeItem: async (id: string) => {
+    return ipcRenderer.invoke("snooze:wake", id);
+  },
+  cancelSnooze: async (id: string) => {
+    return ipcRenderer.invoke("snooze:cancel", id);
+  },
+  onSnoozedItemsChanged: (callback: () => void) => {
+    return listenOnIPCChannel("snooze:on-changed", callback);
+  }
+};
+
+// DOWNLOADS API //
+const downloadsAPI: FlowDownloadsAPI = {
+  getDownloads: async () => {
+    return ipcRenderer.invoke("downloads:get");
+  },
+  pauseDownload: async (id: string) => {
+    return ipcRenderer.invoke("downloads:pause", id);
+  },
+  resumeDownload: async (id: string) => {
+    return ipcRenderer.invoke("downloads:resume", id);
+  },
+  cancelDownload: async (id: string) => {
+    return ipcRenderer.invoke("downloads:cancel", id);
+  },
+  retryDownload: async (id: string) => {
+    return ipcRenderer.invoke("downloads:retry", id);
+  },
+  openDownload: async (id: string) => {
+    return ipcRenderer.invoke("downloads:open", id);
+  },
+  showInFolder: async (id: string) => {
+    return ipcRenderer.invoke("downloads:show-in-folder", id);
+  },
+  removeDownload: async (id: string) => {
+    return ipcRenderer.invoke("downloads:remove", id);
+  },
+  clear: async () => {
+    return ipcRenderer.invoke("downloads:clear");
+  },
+  onDownloadsChanged: (callback: () => void) => {
+    return listenOnIPCChannel("downloads:on-changed", callback);
+  }
+};
+
+// FAVORITES API //
+const favoritesAPI: FlowFavoritesAPI = {
+  getFavorites: async (profileId: string) => {
+    return ipcRenderer.invoke("favorites:get", profileId);
+  },
+  removeFavorite: async (profileId: string, favoriteId: string) => {
+    return ipcRenderer.invoke("favorites:remove", profileId, favoriteId);
+  },
+  onFavoritesChanged: (callback: () => void) => {
+    return listenOnIPCChannel("favorites:on-changed", callback);
   }
 };
 
@@ -696,6 +957,33 @@ const aiAPI: AIFlowInterface = {
   'ai:findDuplicates': async (request, existingBookmarks) => {
     return ipcRenderer.invoke('ai:findDuplicates', request, existingBookmarks);
   },
+  'ai:getLabelingProgress': async () => {
+    return ipcRenderer.invoke('ai:getLabelingProgress');
+  },
+  'ai:startLabeling': async () => {
+    return ipcRenderer.invoke('ai:startLabeling');
+  },
+  'ai:pauseLabeling': async () => {
+    return ipcRenderer.invoke('ai:pauseLabeling');
+  },
+  'ai:resumeLabeling': async () => {
+    return ipcRenderer.invoke('ai:resumeLabeling');
+  },
+  'ai:cancelLabeling': async () => {
+    return ipcRenderer.invoke('ai:cancelLabeling');
+  },
+  'ai:onLabelingProgress': (callback) => {
+    return listenOnIPCChannel('ai:on-labeling-progress', callback);
+  },
+  'ai:getUsage': async (days?: number) => {
+    return ipcRenderer.invoke('ai:getUsage', days);
+  },
+  'ai:getRequestLog': async (limit?: number) => {
+    return ipcRenderer.invoke('ai:getRequestLog', limit);
+  },
+  'ai:clearUsage': async () => {
+    return ipcRenderer.invoke('ai:clearUsage');
+  },
   'ai:listModels': async () => {
     return ipcRenderer.invoke('ai:listModels');
   }
@@ -721,6 +1009,8 @@ const flowAPI: typeof flow = {
   }),
   page: wrapAPI(pageAPI, "browser"),
   navigation: wrapAPI(navigationAPI, "browser"),
+  findInPage: wrapAPI(findInPageAPI, "browser"),
+  pageAssistant: wrapAPI(pageAssistantAPI, "browser"),
   interface: wrapAPI(interfaceAPI, "browser", {
     moveWindowTo: "all",
     resizeWindowTo: "all"
@@ -728,19 +1018,27 @@ const flowAPI: typeof flow = {
   omnibox: wrapAPI(omniboxAPI, "browser"),
   newTab: wrapAPI(newTabAPI, "browser"),
   bookmarks: wrapAPI(bookmarksAPI, "app"),
+  history: wrapAPI(historyAPI, "app"),
+  archive: wrapAPI(archiveAPI, "app"),
+  snooze: wrapAPI(snoozeAPI, "app"),
+  downloads: wrapAPI(downloadsAPI, "app"),
+  favorites: wrapAPI(favoritesAPI, "browser"),
 
   // Session APIs
   profiles: wrapAPI(profilesAPI, "session", {
     getUsingProfile: "app"
   }),
   spaces: wrapAPI(spacesAPI, "session", {
-    getUsingSpace: "app"
+    getUsingSpace: "app",
+    getSpacesFromProfile: "app"
   }),
 
   // Settings APIs
   settings: wrapAPI(settingsAPI, "settings"),
   icons: wrapAPI(iconsAPI, "settings"),
   openExternal: wrapAPI(openExternalAPI, "settings"),
+  sitePermissions: wrapAPI(sitePermissionsAPI, "settings"),
+  searchEngines: wrapAPI(searchEnginesAPI, "settings"),
   onboarding: wrapAPI(onboardingAPI, "settings"),
 
   // AI APIs
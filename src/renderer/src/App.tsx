@@ -24,6 +24,10 @@ import OnboardingRoute from "./routes/onboarding/route";
 import ExtensionsRoute from "./routes/extensions/route";
 import PDFViewerRoute from "./routes/pdf-viewer/route";
 import BookmarksRoute from "./routes/bookmarks/route";
+import HistoryRoute from "./routes/history/route";
+import ArchiveRoute from "./routes/archive/route";
+import SnoozedRoute from "./routes/snoozed/route";
+import DownloadsRoute from "./routes/downloads/route";
 
 // Routes //
 function Routes() {
@@ -68,6 +72,18 @@ function Routes() {
       <Route protocol={flowProtocol} hostname="bookmarks">
         <BookmarksRoute />
       </Route>
+      <Route protocol={flowProtocol} hostname="history">
+        <HistoryRoute />
+      </Route>
+      <Route protocol={flowProtocol} hostname="archive">
+        <ArchiveRoute />
+      </Route>
+      <Route protocol={flowProtocol} hostname="snoozed">
+        <SnoozedRoute />
+      </Route>
+      <Route protocol={flowProtocol} hostname="downloads">
+        <DownloadsRoute />
+      </Route>
     </RouterProvider>
   );
 }
@@ -82,7 +98,7 @@ function App() {
           <Routes />
         </PlatformProvider>
       </QueryParamProvider>
-      
+
       <Toaster />
     </>
   );
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Progress } from '../ui/progress';
+import { Badge } from '../ui/badge';
+import { AlertCircle, Pause, Play, Tags, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AILabelingProgress } from '~/flow/interfaces/ai';
+
+const statusLabels: Record<AILabelingProgress['status'], string> = {
+  idle: 'Idle',
+  running: 'Running',
+  paused: 'Paused'
+};
+
+export const AILabelingProgressCard: React.FC = () => {
+  const [progress, setProgress] = useState<AILabelingProgress | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    flow.ai['ai:getLabelingProgress']().then((result) => {
+      if (result.success && result.data) {
+        setProgress(result.data);
+      }
+    });
+
+    const removeListener = flow.ai['ai:onLabelingProgress']((newProgress) => {
+      setProgress(newProgress);
+    });
+    return () => removeListener();
+  }, []);
+
+  const startLabeling = async () => {
+    setIsStarting(true);
+    try {
+      const result = await flow.ai['ai:startLabeling']();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to start labeling');
+      }
+
+      setProgress(result.data);
+      if (result.data.remaining === 0) {
+        toast.success('All bookmarks already have labels');
+      }
+    } catch (error) {
+      console.error('Failed to start AI labeling:', error);
+      toast.error('Failed to start labeling: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const status = progress?.status ?? 'idle';
+  const total = progress?.total ?? 0;
+  const done = total - (progress?.remaining ?? 0);
+  const percentage = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Tags className="h-5 w-5 text-teal-600" />
+          <CardTitle>Label Library</CardTitle>
+          <Badge variant={status === 'running' ? 'default' : 'secondary'}>
+            {statusLabels[status]}
+          </Badge>
+        </div>
+        <CardDescription>
+          Label every bookmark without labels in the background, using the threshold and label limit above
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {progress && total > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>
+                {done} of {total} bookmarks
+              </span>
+              <span className="text-muted-foreground">{percentage}%</span>
+            </div>
+            <Progress value={percentage} />
+            <p className="text-xs text-muted-foreground">
+              {progress.labeled} labeled, {progress.skipped} skipped, {progress.failed} failed
+            </p>
+            {status === 'running' && progress.currentBookmarkTitle && (
+              <p className="text-xs text-muted-foreground truncate">
+                Analyzing &quot;{progress.currentBookmarkTitle}&quot;
+              </p>
+            )}
+          </div>
+        )}
+
+        {progress?.lastError && (
+          <div className="flex items-start gap-2 text-xs text-red-600">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <span>{progress.lastError}</span>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {status === 'idle' && (
+            <Button onClick={startLabeling} disabled={isStarting} className="flex-1">
+              <Play className="h-4 w-4 mr-1" />
+              {isStarting ? 'Starting...' : 'Label Unlabeled Bookmarks'}
+            </Button>
+          )}
+          {status === 'running' && (
+            <Button variant="outline" onClick={() => flow.ai['ai:pauseLabeling']()} className="flex-1">
+              <Pause className="h-4 w-4 mr-1" />
+              Pause
+            </Button>
+          )}
+          {status === 'paused' && (
+            <Button onClick={() => flow.ai['ai:resumeLabeling']()} className="flex-1">
+              <Play className="h-4 w-4 mr-1" />
+              Resume
+            </Button>
+          )}
+          {status !== 'idle' && (
+            <Button variant="outline" onClick={() => flow.ai['ai:cancelLabeling']()}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -7,9 +7,11 @@ import { Switch } from '../ui/switch';
 import { Slider } from '../ui/slider';
 import { Badge } from '../ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import { Brain, Key, Settings, AlertCircle, CheckCircle, Sparkles } from 'lucide-react';
+import { Brain, Key, Server, Settings, AlertCircle, CheckCircle, Sparkles, Wallet } from 'lucide-react';
 import { toast } from 'sonner';
-import type { AISettings } from '~/flow/interfaces/ai';
+import { AILabelingProgressCard } from './ai-labeling-progress';
+import { AIUsageCard } from './ai-usage-card';
+import type { AIProvider, AISettings } from '~/flow/interfaces/ai';
 
 interface AISettingsProps {
   onSettingsChange?: (settings: AISettings) => void;
@@ -59,10 +61,11 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
       { value: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku (Budget)', description: '~$0.005 per bookmark' },
       { value: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku (Cheapest)', description: '~$0.002 per bookmark' }
     ],
+    'openai-compatible': [],
     local: []
   };
 
-  const getDefaultModel = (provider: 'openai' | 'claude' | 'local') => {
+  const getDefaultModel = (provider: AIProvider) => {
     switch (provider) {
       case 'openai': return 'gpt-5-nano';
       case 'claude': return 'claude-3-5-sonnet-20241022';
@@ -130,9 +133,11 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
     }
   };
 
+  const isCustomEndpoint = settings.provider === 'openai-compatible';
+
   const testConnection = async () => {
-    if (!apiKey.trim()) {
-      toast.error('Please enter an API key first');
+    if (isCustomEndpoint ? !settings.baseUrl?.trim() : !apiKey.trim()) {
+      toast.error(isCustomEndpoint ? 'Please enter a base URL first' : 'Please enter an API key first');
       return;
     }
 
@@ -141,7 +146,8 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
 
     try {
       // Save settings first to ensure AI service is configured
-      const testSettings = { ...settings, enabled: true, apiKey: apiKey.trim() };
+      // The API key is optional for custom endpoints
+      const testSettings = { ...settings, enabled: true, apiKey: apiKey.trim() || undefined };
       await flow.ai['ai:updateSettings'](testSettings);
       
       // Test by listing available models
@@ -178,7 +184,9 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
     
     // If provider changed, update model to default for that provider
     if (key === 'provider') {
-      newSettings.model = getDefaultModel(value as 'openai' | 'claude' | 'local');
+      newSettings.model = getDefaultModel(value as AIProvider);
+      setAvailableModels([]);
+      setConnectionStatus('idle');
     }
     
     setSettings(newSettings);
@@ -194,6 +202,17 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
     handleSettingChange('autoApply', newAutoApply);
   };
 
+  const handleBudgetChange = (setting: keyof NonNullable<AISettings['budget']>, value: boolean | number | undefined) => {
+    const newBudget = { enabled: false, ...settings.budget, [setting]: value };
+    handleSettingChange('budget', newBudget);
+  };
+
+  // Empty and zero limits mean no limit
+  const parseLimit = (value: string) => {
+    const limit = parseFloat(value);
+    return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+  };
+
   return (
     <div className={`space-y-6 ${className}`}>
       {/* AI Status Card */}
@@ -237,7 +256,7 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
                   <Label htmlFor="provider-select">AI Provider</Label>
                   <Select
                     value={settings.provider}
-                    onValueChange={(value: 'openai' | 'claude' | 'local') => handleSettingChange('provider', value)}
+                    onValueChange={(value: AIProvider) => handleSettingChange('provider', value)}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -245,13 +264,16 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
                     <SelectContent>
                       <SelectItem value="openai">OpenAI (GPT-4)</SelectItem>
                       <SelectItem value="claude">Anthropic (Claude)</SelectItem>
+                      <SelectItem value="openai-compatible">Custom Endpoint (OpenAI-compatible)</SelectItem>
                       <SelectItem value="local">Local Analysis</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground">
                     {settings.provider === 'local' 
                       ? 'Uses basic keyword analysis without API calls'
-                      : 'Requires API key for advanced AI features'
+                      : isCustomEndpoint
+                        ? 'Uses your own server, such as Ollama, LM Studio or vLLM'
+                        : 'Requires API key for advanced AI features'
                     }
                   </p>
                 </div>
@@ -350,6 +372,102 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
                 </div>
               )}
 
+              {/* Custom Endpoint Configuration */}
+              {isCustomEndpoint && (
+                <div className="space-y-4 border-t pt-6">
+                  <div className="flex items-center gap-2">
+                    <Server className="h-4 w-4" />
+                    <Label className="font-medium">Custom Endpoint Configuration</Label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="base-url">Base URL</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="base-url"
+                        placeholder="http://localhost:11434/v1"
+                        value={settings.baseUrl || ''}
+                        onChange={(e) => handleSettingChange('baseUrl', e.target.value)}
+                        className="flex-1"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={testConnection}
+                        disabled={!settings.baseUrl?.trim() || isTestingConnection}
+                        size="sm"
+                      >
+                        {isTestingConnection ? (
+                          'Testing...'
+                        ) : (
+                          <>
+                            {connectionStatus === 'success' && <CheckCircle className="h-4 w-4 mr-1 text-green-600" />}
+                            {connectionStatus === 'error' && <AlertCircle className="h-4 w-4 mr-1 text-red-600" />}
+                            Test
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The OpenAI-compatible API of your server, usually ending in /v1
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-api-key">API Key (optional)</Label>
+                    <Input
+                      id="custom-api-key"
+                      type="password"
+                      placeholder="Leave empty if your server does not require one"
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-model">Model</Label>
+                    <Input
+                      id="custom-model"
+                      placeholder="llama3.1"
+                      value={settings.model || ''}
+                      onChange={(e) => handleSettingChange('model', e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Test the connection to pick from the models served by the endpoint
+                    </p>
+
+                    {availableModels.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {availableModels.map((model, index) => (
+                          <button
+                            key={`${model}-${index}`}
+                            type="button"
+                            onClick={() => handleSettingChange('model', model)}
+                            className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium border ${
+                              settings.model === model ? 'bg-blue-100 text-blue-800 border-blue-300' : 'bg-gray-100 text-gray-800'
+                            }`}
+                          >
+                            {model}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-embedding-model">Embedding Model (optional)</Label>
+                    <Input
+                      id="custom-embedding-model"
+                      placeholder="nomic-embed-text"
+                      value={settings.embeddingModel || ''}
+                      onChange={(e) => handleSettingChange('embeddingModel', e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Used for semantic search and related bookmarks. Without one, embeddings are computed locally
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Analysis Settings */}
               <div className="space-y-4 border-t pt-6">
                 <div className="flex items-center gap-2">
@@ -485,6 +603,58 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
                   </div>
                 </div>
               </div>
+
+              {/* Budget */}
+              <div className="space-y-4 border-t pt-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Wallet className="h-4 w-4" />
+                    <div>
+                      <Label htmlFor="budget-enabled" className="font-medium">Monthly Budget</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Stop sending AI requests once this month&apos;s usage reaches a limit
+                      </p>
+                    </div>
+                  </div>
+                  <Switch
+                    id="budget-enabled"
+                    checked={settings.budget?.enabled ?? false}
+                    onCheckedChange={(checked) => handleBudgetChange('enabled', checked)}
+                  />
+                </div>
+
+                {settings.budget?.enabled && (
+                  <div className="grid grid-cols-2 gap-4 ml-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="budget-tokens">Token limit</Label>
+                      <Input
+                        id="budget-tokens"
+                        type="number"
+                        min={0}
+                        step={1000}
+                        placeholder="No limit"
+                        value={settings.budget.monthlyTokenLimit ?? ''}
+                        onChange={(e) => handleBudgetChange('monthlyTokenLimit', parseLimit(e.target.value))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="budget-cost">Cost limit (USD)</Label>
+                      <Input
+                        id="budget-cost"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        placeholder="No limit"
+                        value={settings.budget.monthlyCostLimit ?? ''}
+                        onChange={(e) => handleBudgetChange('monthlyCostLimit', parseLimit(e.target.value))}
+                      />
+                    </div>
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      Costs are estimated from list prices, so custom endpoints only count towards the token limit
+                    </p>
+                  </div>
+                )}
+              </div>
             </>
           )}
 
@@ -500,6 +670,10 @@ export const AISettingsComponent: React.FC<AISettingsProps> = ({
           </div>
         </CardContent>
       </Card>
+
+      {settings.enabled && <AILabelingProgressCard />}
+
+      {settings.enabled && <AIUsageCard />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Progress } from '../ui/progress';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '../ui/alert-dialog';
+import { BarChart3, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AIOperation, AIRequestLogEntry, AIUsageSummary } from '~/flow/interfaces/ai';
+
+const REQUEST_LOG_LIMIT = 50;
+
+const operationLabels: Record<AIOperation, string> = {
+  analyze: 'Labeling',
+  describe: 'Description',
+  'page-assistant': 'Ask This Page',
+  embed: 'Embeddings'
+};
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatCost = (cost: number | null) => {
+  if (cost === null) return '—';
+  // Single requests often cost a fraction of a cent
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const BudgetBar: React.FC<{ label: string; used: number; limit: number; format: (value: number) => string }> = ({
+  label,
+  used,
+  limit,
+  format
+}) => {
+  const percentage = Math.min(100, Math.round((used / limit) * 100));
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {format(used)} of {format(limit)}
+        </span>
+      </div>
+      <Progress value={percentage} />
+    </div>
+  );
+};
+
+export const AIUsageCard: React.FC = () => {
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null);
+  const [requestLog, setRequestLog] = useState<AIRequestLogEntry[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadUsage = async () => {
+    setIsRefreshing(true);
+    try {
+      const [usageResult, logResult] = await Promise.all([
+        flow.ai['ai:getUsage'](),
+        flow.ai['ai:getRequestLog'](REQUEST_LOG_LIMIT)
+      ]);
+
+      if (usageResult.success && usageResult.data) {
+        setUsage(usageResult.data);
+      }
+      if (logResult.success && logResult.data) {
+        setRequestLog(logResult.data);
+      }
+    } catch (error) {
+      console.error('Failed to load AI usage:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const clearUsage = async () => {
+    const result = await flow.ai['ai:clearUsage']();
+    if (result.success) {
+      toast.success('AI usage cleared');
+      loadUsage();
+    } else {
+      toast.error('Failed to clear usage: ' + (result.error || 'Unknown error'));
+    }
+  };
+
+  const month = usage?.month;
+  const budget = usage?.budget?.enabled ? usage.budget : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-teal-600" />
+          <CardTitle>Usage</CardTitle>
+          {usage?.budgetExceeded && <Badge variant="destructive">Budget reached</Badge>}
+          <div className="ml-auto flex gap-1">
+            <Button variant="ghost" size="sm" onClick={loadUsage} disabled={isRefreshing}>
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={!month?.requests && requestLog.length === 0}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear AI usage?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This forgets all recorded usage and requests, which also resets the budget of this month.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={clearUsage}>Clear</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+        <CardDescription>
+          Tokens and estimated costs of AI requests. Costs use list prices and may differ from your bill
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* This Month */}
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Requests this month</p>
+            <p className="text-lg font-medium">{month?.requests ?? 0}</p>
+            {!!month?.failures && <p className="text-xs text-red-600">{month.failures} failed</p>}
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Tokens this month</p>
+            <p className="text-lg font-medium">
+              {formatTokens((month?.inputTokens ?? 0) + (month?.outputTokens ?? 0))}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatTokens(month?.inputTokens ?? 0)} in, {formatTokens(month?.outputTokens ?? 0)} out
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Estimated cost</p>
+            <p className="text-lg font-medium">{formatCost(month?.cost ?? 0)}</p>
+          </div>
+        </div>
+
+        {budget && month && !!(budget.monthlyTokenLimit || budget.monthlyCostLimit) && (
+          <div className="space-y-3">
+            {!!budget.monthlyTokenLimit && (
+              <BudgetBar
+                label="Token budget"
+                used={month.inputTokens + month.outputTokens}
+                limit={budget.monthlyTokenLimit}
+                format={formatTokens}
+              />
+            )}
+            {!!budget.monthlyCostLimit && (
+              <BudgetBar label="Cost budget" used={month.cost} limit={budget.monthlyCostLimit} format={formatCost} />
+            )}
+          </div>
+        )}
+
+        {/* Daily Usage */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Last 30 days</p>
+          {usage && usage.days.length > 0 ? (
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Avg. latency</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.days.map((day) => (
+                    <TableRow key={`${day.day}-${day.provider}-${day.model}`}>
+                      <TableCell>{day.day}</TableCell>
+                      <TableCell>
+                        <span className="text-muted-foreground">{day.provider}/</span>
+                        {day.model}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {day.requests}
+                        {day.failures > 0 && <span className="text-red-600"> ({day.failures} failed)</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatTokens(day.inputTokens + day.outputTokens)}</TableCell>
+                      <TableCell className="text-right">{formatCost(day.cost)}</TableCell>
+                      <TableCell className="text-right">{day.averageLatencyMs} ms</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No AI requests yet</p>
+          )}
+        </div>
+
+        {/* Request Log */}
+        {requestLog.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recent requests</p>
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Feature</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Latency</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requestLog.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell>{formatTime(request.timestamp)}</TableCell>
+                      <TableCell>{operationLabels[request.operation] ?? request.operation}</TableCell>
+                      <TableCell>{request.model}</TableCell>
+                      <TableCell className="text-right">
+                        {formatTokens(request.inputTokens)} / {formatTokens(request.outputTokens)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCost(request.cost)}</TableCell>
+                      <TableCell className="text-right">{request.latencyMs} ms</TableCell>
+                      <TableCell>
+                        {request.success ? (
+                          <Badge variant="secondary">OK</Badge>
+                        ) : (
+                          <Badge variant="destructive" title={request.error}>
+                            Failed
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
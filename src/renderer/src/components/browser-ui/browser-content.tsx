@@ -3,11 +3,16 @@ import { motion, AnimatePresence } from "motion/react";
 import { PageBounds } from "~/flow/types";
 import { cn } from "@/lib/utils";
 import { useBoundingRect } from "@/hooks/use-bounding-rect";
+import { FindInPageBar } from "@/components/browser-ui/find-in-page-bar";
+import { SplitDropOverlay, SplitViewDividers } from "@/components/browser-ui/split-view";
+import { GlanceControls } from "@/components/browser-ui/glance-controls";
+import { useTabs } from "@/components/providers/tabs-provider";
 
 const DEBUG_SHOW_BOUNDS = false;
 
 function BrowserContent() {
   const activeTabId = -1;
+  const { activeTabGroup } = useTabs();
   const containerRef = useRef<HTMLDivElement>(null);
   const rect = useBoundingRect(containerRef);
 
@@ -39,6 +44,12 @@ function BrowserContent() {
         </div>
       )}
 
+      <FindInPageBar />
+      <SplitDropOverlay />
+
+      {activeTabGroup?.mode === "split" && <SplitViewDividers key={activeTabGroup.id} tabGroup={activeTabGroup} />}
+      {activeTabGroup?.mode === "glance" && <GlanceControls key={activeTabGroup.id} tabGroup={activeTabGroup} />}
+
       <AnimatePresence mode="wait">
         {activeTabId && activeTabId > 0 && (
           // This is where the browser view would be rendered
@@ -11,7 +11,7 @@ import {
 import { useEffect, useRef, useState, useCallback } from "react";
 import { cn } from "@/lib/utils";
 import { CollapseMode, SidebarVariant, SidebarSide } from "@/components/browser-ui/main";
-import { PlusIcon, SettingsIcon } from "lucide-react";
+import { PlusIcon, SettingsIcon, VenetianMask } from "lucide-react";
 import { SidebarSpacesSwitcher } from "@/components/browser-ui/sidebar/spaces-switcher";
 import { ScrollableSidebarContent } from "@/components/browser-ui/sidebar/content/sidebar-content";
 import { useSpaces } from "@/components/providers/spaces-provider";
@@ -21,6 +21,8 @@ import { PortalComponent } from "@/components/portal/portal";
 import { SidebarWindowControls } from "@/components/browser-ui/sidebar/header/window-controls";
 import { motion, AnimatePresence } from "motion/react";
 import { SidebarFooterUpdate } from "@/components/browser-ui/sidebar/footer/update";
+import { SidebarFooterDownloads } from "@/components/browser-ui/sidebar/footer/downloads";
+import { useWindowState } from "@/hooks/use-window-state";
 
 type BrowserSidebarProps = {
   collapseMode: CollapseMode;
@@ -106,16 +108,29 @@ function SidebarFooterContent() {
         <SidebarSpacesSwitcher />
 
         {/* Right Side Buttons */}
-        <SidebarMenuItem>
-          <SidebarMenuButton disabled className={cn(SIDEBAR_HOVER_COLOR, "text-black dark:text-white")}>
-            <PlusIcon />
-          </SidebarMenuButton>
-        </SidebarMenuItem>
+        <div className="flex flex-row">
+          <SidebarFooterDownloads />
+          <SidebarMenuItem>
+            <SidebarMenuButton disabled className={cn(SIDEBAR_HOVER_COLOR, "text-black dark:text-white")}>
+              <PlusIcon />
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </div>
       </SidebarMenu>
     </>
   );
 }
 
+// Marks private windows, which keep nothing once closed
+function PrivateWindowBadge() {
+  return (
+    <div className="mx-1 mb-1.5 flex items-center justify-center gap-1.5 rounded-md bg-violet-600/90 py-1 text-xs font-medium text-white select-none">
+      <VenetianMask className="size-3.5" />
+      Private Window
+    </div>
+  );
+}
+
 // Component for the sidebar header content
 function SidebarHeaderContent({
   open,
@@ -128,9 +143,12 @@ function SidebarHeaderContent({
   variant: SidebarVariant;
   setVariant: (variant: SidebarVariant) => void;
 }) {
+  const isPrivate = useWindowState()?.isPrivate ?? false;
+
   return (
     <SidebarHeader className={cn(themeClasses, "pb-0 gap-0")}>
       {open && <SidebarWindowControls />}
+      {open && isPrivate && <PrivateWindowBadge />}
       <NavigationControls variant={variant} setVariant={setVariant} />
       <SidebarAddressBar />
     </SidebarHeader>
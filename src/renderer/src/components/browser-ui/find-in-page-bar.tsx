@@ -0,0 +1,225 @@
+import { PortalComponent, usePortalContext } from "@/components/portal/portal";
+import { useSpaces } from "@/components/providers/spaces-provider";
+import { useTabs } from "@/components/providers/tabs-provider";
+import { useBoundingRect } from "@/hooks/use-bounding-rect";
+import { cn } from "@/lib/utils";
+import { CaseSensitiveIcon, ChevronDownIcon, ChevronUpIcon, XIcon } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { FindInPageResult } from "~/flow/interfaces/browser/findInPage";
+
+function FindBarButton({
+  title,
+  onClick,
+  disabled,
+  active,
+  children
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "size-7 shrink-0 flex items-center justify-center rounded-md transition-colors",
+        "text-black/70 dark:text-white/70 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-40",
+        active && "bg-black/15 dark:bg-white/20 text-black dark:text-white"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function FindBar({
+  text,
+  setText,
+  matchCase,
+  setMatchCase,
+  result,
+  focusRequest,
+  findNext,
+  close
+}: {
+  text: string;
+  setText: (text: string) => void;
+  matchCase: boolean;
+  setMatchCase: (matchCase: boolean) => void;
+  result: FindInPageResult | null;
+  focusRequest: number;
+  findNext: (forward: boolean) => void;
+  close: () => void;
+}) {
+  const { focus } = usePortalContext();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The portal context changes with its bounds, which should not refocus the input
+  const focusPortalRef = useRef(focus);
+  focusPortalRef.current = focus;
+
+  // Focus the input every time the find shortcut is used
+  useEffect(() => {
+    if (focusRequest === 0) return;
+
+    focusPortalRef.current();
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      findNext(!event.shiftKey);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  const hasMatches = !!result && result.matches > 0;
+
+  let matchesText = "";
+  if (text && result) {
+    matchesText = hasMatches ? `${result.activeMatchOrdinal}/${result.matches}` : "No results";
+  }
+
+  return (
+    <div className="w-full h-full flex items-center gap-1 pl-3 pr-1 rounded-lg border border-border dimmed-space-background-start shadow-md">
+      <input
+        ref={inputRef}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in page"
+        spellCheck={false}
+        className="flex-1 min-w-0 bg-transparent text-sm text-black dark:text-white placeholder:text-black/50 dark:placeholder:text-white/50 outline-none"
+      />
+      <span className="shrink-0 px-1 text-xs text-black/60 dark:text-white/60 tabular-nums">{matchesText}</span>
+      <FindBarButton title="Match case" active={matchCase} onClick={() => setMatchCase(!matchCase)}>
+        <CaseSensitiveIcon className="size-4" />
+      </FindBarButton>
+      <FindBarButton title="Previous match (Shift+Enter)" disabled={!hasMatches} onClick={() => findNext(false)}>
+        <ChevronUpIcon className="size-4" />
+      </FindBarButton>
+      <FindBarButton title="Next match (Enter)" disabled={!hasMatches} onClick={() => findNext(true)}>
+        <ChevronDownIcon className="size-4" />
+      </FindBarButton>
+      <FindBarButton title="Close (Escape)" onClick={close}>
+        <XIcon className="size-4" />
+      </FindBarButton>
+    </div>
+  );
+}
+
+export function FindInPageBar() {
+  const { focusedTab } = useTabs();
+  const { isCurrentSpaceLight } = useSpaces();
+
+  // The tab being searched, or null while the find bar is closed
+  const [findTabId, setFindTabId] = useState<number | null>(null);
+  const [focusRequest, setFocusRequest] = useState(0);
+  const [text, setText] = useState("");
+  const [matchCase, setMatchCase] = useState(false);
+  const [result, setResult] = useState<FindInPageResult | null>(null);
+
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const anchorRect = useBoundingRect(anchorRef);
+
+  const focusedTabId = focusedTab?.id ?? null;
+  const focusedTabIdRef = useRef(focusedTabId);
+  focusedTabIdRef.current = focusedTabId;
+
+  const findTabIdRef = useRef(findTabId);
+  findTabIdRef.current = findTabId;
+
+  // Open the find bar from the find in page shortcut
+  useEffect(() => {
+    return flow.actions.onFindInPage(() => {
+      const tabId = focusedTabIdRef.current;
+      if (tabId === null) return;
+
+      setFindTabId(tabId);
+      setFocusRequest((request) => request + 1);
+    });
+  }, []);
+
+  useEffect(() => {
+    return flow.findInPage.onResult((result) => {
+      if (result.tabId !== findTabIdRef.current) return;
+      setResult(result);
+    });
+  }, []);
+
+  // Close the find bar when switching tabs
+  useEffect(() => {
+    if (findTabId === null || findTabId === focusedTabId) return;
+
+    flow.findInPage.find(findTabId, "");
+    setFindTabId(null);
+    setResult(null);
+  }, [findTabId, focusedTabId]);
+
+  // Start a new search whenever the search changes
+  useEffect(() => {
+    if (findTabId === null) return;
+
+    flow.findInPage.find(findTabId, text, { matchCase });
+    if (!text) {
+      setResult(null);
+    }
+  }, [findTabId, text, matchCase]);
+
+  const findNext = (forward: boolean) => {
+    if (findTabId === null || !text) return;
+    flow.findInPage.find(findTabId, text, { forward, findNext: false, matchCase });
+  };
+
+  const close = () => {
+    if (findTabId === null) return;
+
+    flow.findInPage.stopFinding(findTabId);
+    setFindTabId(null);
+    setResult(null);
+  };
+
+  const isOpen = findTabId !== null;
+  const spaceInjectedClasses = cn(isCurrentSpaceLight ? "" : "dark");
+
+  return (
+    <>
+      {/* Marks where the find bar goes, as the page is drawn over the browser UI */}
+      <div ref={anchorRef} className="absolute top-2 right-2 w-96 h-11 pointer-events-none" />
+      <PortalComponent
+        visible={isOpen}
+        zIndex={4}
+        className="absolute"
+        style={{
+          top: anchorRect?.top ?? 0,
+          left: anchorRect?.left ?? 0,
+          width: anchorRect?.width ?? 0,
+          height: anchorRect?.height ?? 0
+        }}
+      >
+        <div className={cn("w-screen h-screen p-0.5 select-none", spaceInjectedClasses)}>
+          {isOpen && (
+            <FindBar
+              text={text}
+              setText={setText}
+              matchCase={matchCase}
+              setMatchCase={setMatchCase}
+              result={result}
+              focusRequest={focusRequest}
+              findNext={findNext}
+              close={close}
+            />
+          )}
+        </div>
+      </PortalComponent>
+    </>
+  );
+}
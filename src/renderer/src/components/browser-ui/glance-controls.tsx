@@ -0,0 +1,78 @@
+import { PortalComponent } from "@/components/portal/portal";
+import { useSpaces } from "@/components/providers/spaces-provider";
+import { TabGroup } from "@/components/providers/tabs-provider";
+import { useBoundingRect } from "@/hooks/use-bounding-rect";
+import { cn } from "@/lib/utils";
+import { Columns2Icon, Maximize2Icon, XIcon } from "lucide-react";
+import { useRef } from "react";
+
+function GlanceButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      className={cn(
+        "size-8 shrink-0 flex items-center justify-center rounded-lg transition-colors",
+        "text-black/70 dark:text-white/70 hover:bg-black/10 dark:hover:bg-white/10"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Buttons shown next to the tab in front of a glance
+ * The tab in front takes the middle of the page, so the buttons sit in the space to its right.
+ */
+export function GlanceControls({ tabGroup }: { tabGroup: TabGroup }) {
+  const { isCurrentSpaceLight } = useSpaces();
+
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const anchorRect = useBoundingRect(anchorRef);
+
+  const closeGlance = () => flow.tabs.closeGlance(tabGroup.id);
+  const expandGlance = () => flow.tabs.expandGlance(tabGroup.id);
+  const splitGlance = () => flow.tabs.splitGlance(tabGroup.id);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      closeGlance();
+    }
+  };
+
+  const spaceInjectedClasses = cn(isCurrentSpaceLight ? "" : "dark");
+
+  return (
+    <>
+      {/* Marks where the buttons go, as the page is drawn over the browser UI */}
+      <div ref={anchorRef} className="absolute top-2 left-[calc(92.5%+8px)] w-10 h-[112px] pointer-events-none" />
+      <PortalComponent
+        visible={true}
+        zIndex={4}
+        className="absolute"
+        style={{
+          top: anchorRect?.top ?? 0,
+          left: anchorRect?.left ?? 0,
+          width: anchorRect?.width ?? 0,
+          height: anchorRect?.height ?? 0
+        }}
+      >
+        <div className={cn("w-screen h-screen p-0.5 select-none", spaceInjectedClasses)} onKeyDown={handleKeyDown}>
+          <div className="w-full h-full flex flex-col items-center gap-1 py-1 rounded-xl border border-border dimmed-space-background-start shadow-md">
+            <GlanceButton title="Close (Escape)" onClick={closeGlance}>
+              <XIcon className="size-4" />
+            </GlanceButton>
+            <GlanceButton title="Expand to Full Tab" onClick={expandGlance}>
+              <Maximize2Icon className="size-4" />
+            </GlanceButton>
+            <GlanceButton title="Open in Split View" onClick={splitGlance}>
+              <Columns2Icon className="size-4" />
+            </GlanceButton>
+          </div>
+        </div>
+      </PortalComponent>
+    </>
+  );
+}
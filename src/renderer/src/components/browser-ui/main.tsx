@@ -17,6 +17,8 @@ import { AppUpdatesProvider } from "@/components/providers/app-updates-provider"
 import { ActionsProvider } from "@/components/providers/actions-provider";
 import { SidebarAddressBar } from "@/components/browser-ui/sidebar/header/address-bar/address-bar";
 import { toast } from "sonner";
+import { useWindowState } from "@/hooks/use-window-state";
+import { PageAssistantPanel } from "@/components/browser-ui/page-assistant-panel";
 
 export type CollapseMode = "icon" | "offcanvas";
 export type SidebarVariant = "sidebar" | "floating";
@@ -25,7 +27,7 @@ export type SidebarSide = "left" | "right";
 export type WindowType = "main" | "popup";
 
 function InternalBrowserUI({ isReady, type }: { isReady: boolean; type: WindowType }) {
-  const { open, setOpen } = useSidebar();
+  const { open, setOpen, width, setWidth } = useSidebar();
   const { getSetting } = useSettings();
   const { focusedTab, tabGroups, addressUrl } = useTabs();
   const { currentSpace } = useSpaces();
@@ -53,6 +55,27 @@ function InternalBrowserUI({ isReady, type }: { isReady: boolean; type: WindowTy
     }
   }, [isReady, tabGroups.length]);
 
+  // Restore the sidebar of the previous session, before it is saved again
+  const [isSidebarStateLoaded, setIsSidebarStateLoaded] = useState(false);
+  useEffect(() => {
+    if (type !== "main") return;
+
+    flow.interface.getSidebarState().then((sidebarState) => {
+      if (sidebarState) {
+        setOpen(sidebarState.open);
+        setWidth(sidebarState.width);
+      }
+      setIsSidebarStateLoaded(true);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [type]);
+
+  // The floating sidebar only opens while it is hovered, so it is not saved as open
+  useEffect(() => {
+    if (!isSidebarStateLoaded || variant !== "sidebar") return;
+    flow.interface.setSidebarState({ open, width });
+  }, [isSidebarStateLoaded, open, width, variant]);
+
   const isActiveTabLoading = focusedTab?.isLoading || false;
 
   useEffect(() => {
@@ -211,7 +234,11 @@ function InternalBrowserUI({ isReady, type }: { isReady: boolean; type: WindowTy
             {/* Content */}
             <div className="flex flex-col flex-1 h-full w-full">
               <div className="remove-app-drag">{type === "popup" && <SidebarAddressBar className="rounded-lg" />}</div>
-              <BrowserContent />
+              {/* The page assistant takes its space from the page, next to it */}
+              <div className="flex flex-1 min-h-0 gap-2">
+                <BrowserContent />
+                <PageAssistantPanel />
+              </div>
             </div>
           </div>
         </SidebarInset>
@@ -225,6 +252,7 @@ function InternalBrowserUI({ isReady, type }: { isReady: boolean; type: WindowTy
 
 export function BrowserUI({ type }: { type: WindowType }) {
   const [isReady, setIsReady] = useState(false);
+  const isPrivate = useWindowState()?.isPrivate ?? false;
 
   // No transition on first load
   useEffect(() => {
@@ -238,6 +266,8 @@ export function BrowserUI({ type }: { type: WindowType }) {
       className={cn(
         "w-screen h-screen",
         "bg-gradient-to-br from-space-background-start/75 to-space-background-end/75",
+        // Private windows are framed, so they cannot be mistaken for normal windows
+        isPrivate && "ring-2 ring-inset ring-violet-600/90",
         isReady && "transition-colors duration-300"
       )}
     >
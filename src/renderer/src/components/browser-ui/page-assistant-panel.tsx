@@ -0,0 +1,362 @@
+import { useSpaces } from "@/components/providers/spaces-provider";
+import { useTabs } from "@/components/providers/tabs-provider";
+import { cn } from "@/lib/utils";
+import { BookmarkPlusIcon, FileTextIcon, RotateCcwIcon, SendIcon, SparklesIcon, SquareIcon, XIcon } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { PageAssistantMessage, TabPageContent } from "~/flow/interfaces/browser/pageAssistant";
+
+type AssistantMessage = PageAssistantMessage & {
+  id: string;
+  // Summaries can be saved as the description of the bookmark
+  isSummary?: boolean;
+  streaming?: boolean;
+  error?: string;
+};
+
+function PanelButton({
+  title,
+  onClick,
+  disabled,
+  children
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "size-7 shrink-0 flex items-center justify-center rounded-md transition-colors",
+        "text-black/70 dark:text-white/70 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-40"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function isInternalUrl(url: string) {
+  return url.startsWith("flow://") || url.startsWith("flow-internal://");
+}
+
+function MessageBubble({
+  message,
+  onSaveAsDescription
+}: {
+  message: AssistantMessage;
+  onSaveAsDescription: (description: string) => void;
+}) {
+  if (message.role === "user") {
+    return (
+      <div className="self-end max-w-[85%] rounded-lg px-3 py-2 bg-black/10 dark:bg-white/15 text-sm whitespace-pre-wrap">
+        {message.content}
+      </div>
+    );
+  }
+
+  const canSave = message.isSummary && !message.streaming && !message.error && !!message.content;
+
+  return (
+    <div className="flex flex-col gap-1">
+      {message.content && <div className="text-sm whitespace-pre-wrap select-text">{message.content}</div>}
+      {message.streaming && !message.content && (
+        <div className="text-sm text-black/50 dark:text-white/50 animate-pulse">Reading the page...</div>
+      )}
+      {message.error && <div className="text-xs text-red-600 dark:text-red-400">{message.error}</div>}
+      {canSave && (
+        <button
+          onClick={() => onSaveAsDescription(message.content)}
+          className="self-start flex items-center gap-1 rounded-md px-2 py-1 text-xs text-black/70 dark:text-white/70 hover:bg-black/10 dark:hover:bg-white/10"
+        >
+          <BookmarkPlusIcon className="size-3.5" />
+          Save as bookmark description
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function PageAssistantPanel() {
+  const { focusedTab } = useTabs();
+  const { currentSpace, isCurrentSpaceLight } = useSpaces();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [pageContent, setPageContent] = useState<TabPageContent | null>(null);
+  const [activeRequestId, setActiveRequestId] = useState<string | null>(null);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const focusedTabId = focusedTab?.id ?? null;
+
+  const activeRequestIdRef = useRef(activeRequestId);
+  activeRequestIdRef.current = activeRequestId;
+
+  // Toggle the panel from the ask page shortcut
+  useEffect(() => {
+    return flow.actions.onAskPage(() => {
+      setIsOpen((open) => !open);
+    });
+  }, []);
+
+  useEffect(() => {
+    return flow.pageAssistant.onChunk((chunk) => {
+      setMessages((messages) =>
+        messages.map((message) => {
+          if (message.id !== chunk.requestId) return message;
+          return {
+            ...message,
+            content: message.content + chunk.text,
+            streaming: !chunk.done,
+            error: chunk.error
+          };
+        })
+      );
+
+      if (chunk.done && chunk.requestId === activeRequestIdRef.current) {
+        setActiveRequestId(null);
+      }
+    });
+  }, []);
+
+  // Start a new conversation for every page, as the answers are about the page they were asked on
+  useEffect(() => {
+    const requestId = activeRequestIdRef.current;
+    if (requestId) {
+      flow.pageAssistant.cancel(requestId);
+    }
+
+    setMessages([]);
+    setActiveRequestId(null);
+    setPageContent(null);
+  }, [focusedTabId, focusedTab?.url]);
+
+  // Read the page when the panel opens, to know whether there is anything to ask about
+  useEffect(() => {
+    if (!isOpen || focusedTabId === null || focusedTab?.isLoading) return;
+
+    let cancelled = false;
+    flow.pageAssistant.getPageContent(focusedTabId).then((content) => {
+      if (!cancelled) setPageContent(content);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, focusedTabId, focusedTab?.url, focusedTab?.isLoading]);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: "end" });
+  }, [messages]);
+
+  const startRequest = (userMessage: string, isSummary: boolean) => {
+    if (focusedTabId === null || activeRequestId) return null;
+
+    const requestId = crypto.randomUUID();
+    setMessages((messages) => [
+      ...messages,
+      { id: crypto.randomUUID(), role: "user", content: userMessage },
+      { id: requestId, role: "assistant", content: "", isSummary, streaming: true }
+    ]);
+    setActiveRequestId(requestId);
+    return requestId;
+  };
+
+  const summarize = () => {
+    const requestId = startRequest("Summarize this page", true);
+    if (requestId === null || focusedTabId === null) return;
+
+    flow.pageAssistant.summarize(focusedTabId, requestId);
+  };
+
+  const ask = () => {
+    const trimmedQuestion = question.trim();
+    if (!trimmedQuestion) return;
+
+    // Failed answers are left out, so the next question does not build on them
+    const history: PageAssistantMessage[] = messages
+      .filter((message) => !message.error && message.content)
+      .map((message) => ({ role: message.role, content: message.content }));
+
+    const requestId = startRequest(trimmedQuestion, false);
+    if (requestId === null || focusedTabId === null) return;
+
+    flow.pageAssistant.ask(focusedTabId, requestId, trimmedQuestion, history);
+    setQuestion("");
+  };
+
+  const stop = () => {
+    if (!activeRequestId) return;
+    flow.pageAssistant.cancel(activeRequestId);
+  };
+
+  const resetConversation = () => {
+    stop();
+    setMessages([]);
+    setActiveRequestId(null);
+  };
+
+  const close = () => {
+    resetConversation();
+    setIsOpen(false);
+  };
+
+  const saveAsDescription = async (description: string) => {
+    const url = focusedTab?.url;
+    if (!url || isInternalUrl(url)) {
+      toast.error("Cannot bookmark internal pages");
+      return;
+    }
+
+    if (!currentSpace?.profileId || !currentSpace?.id) {
+      toast.error("Cannot bookmark - missing profile or space");
+      return;
+    }
+
+    try {
+      const existingBookmarks = await flow.bookmarks.getByUrl(url);
+      const bookmark = existingBookmarks.find(
+        (bookmark) => bookmark.profileId === currentSpace.profileId && bookmark.spaceId === currentSpace.id
+      );
+
+      if (bookmark) {
+        const updatedBookmark = await flow.bookmarks.update(bookmark.id, { description });
+        if (!updatedBookmark) {
+          toast.error("Failed to update bookmark");
+          return;
+        }
+        toast.success("Summary saved as the bookmark description");
+      } else {
+        // Pages that are not bookmarked yet are bookmarked with the summary
+        const newBookmark = await flow.bookmarks.create({
+          url,
+          title: focusedTab?.title || url,
+          description,
+          profileId: currentSpace.profileId,
+          spaceId: currentSpace.id
+        });
+        if (!newBookmark) {
+          toast.error("Failed to add bookmark");
+          return;
+        }
+        toast.success("Bookmark added with the summary as its description");
+      }
+
+      window.dispatchEvent(new CustomEvent("bookmarkChanged"));
+    } catch (error) {
+      console.error("Failed to save summary:", error);
+      toast.error("Failed to save summary");
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      ask();
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isBusy = activeRequestId !== null;
+  const canAsk = focusedTabId !== null && !!pageContent?.text;
+  const spaceInjectedClasses = cn(isCurrentSpaceLight ? "" : "dark");
+
+  return (
+    <div
+      className={cn(
+        "w-80 shrink-0 flex flex-col rounded-lg border border-border dimmed-space-background-start shadow-md remove-app-drag",
+        "text-black dark:text-white",
+        spaceInjectedClasses
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 pl-3 pr-1 h-11 border-b border-border">
+        <SparklesIcon className="size-4 shrink-0" />
+        <span className="flex-1 min-w-0 text-sm font-medium truncate">Ask This Page</span>
+        <PanelButton title="New conversation" disabled={messages.length === 0} onClick={resetConversation}>
+          <RotateCcwIcon className="size-4" />
+        </PanelButton>
+        <PanelButton title="Close" onClick={close}>
+          <XIcon className="size-4" />
+        </PanelButton>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 min-h-0 overflow-y-auto px-3 py-3 flex flex-col gap-3">
+        {messages.length === 0 && (
+          <div className="flex flex-col items-center gap-3 py-6 text-center">
+            <p className="text-sm text-black/60 dark:text-white/60">
+              {canAsk ? (
+                <>
+                  Ask anything about <span className="font-medium">{pageContent?.title || "this page"}</span>
+                </>
+              ) : (
+                "This page has no text to read"
+              )}
+            </p>
+            {pageContent?.truncated && (
+              <p className="text-xs text-black/50 dark:text-white/50">
+                This page is long, so only its beginning will be read
+              </p>
+            )}
+            <button
+              onClick={summarize}
+              disabled={!canAsk}
+              className="flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm bg-black/10 dark:bg-white/15 hover:bg-black/15 dark:hover:bg-white/20 disabled:opacity-40"
+            >
+              <FileTextIcon className="size-4" />
+              Summarize
+            </button>
+          </div>
+        )}
+        {messages.map((message) => (
+          <MessageBubble key={message.id} message={message} onSaveAsDescription={saveAsDescription} />
+        ))}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Question */}
+      <div className="flex items-center gap-1 pl-3 pr-1 h-11 border-t border-border">
+        <input
+          ref={inputRef}
+          value={question}
+          onChange={(event) => setQuestion(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask a question"
+          disabled={!canAsk}
+          className="flex-1 min-w-0 bg-transparent text-sm placeholder:text-black/50 dark:placeholder:text-white/50 outline-none"
+        />
+        {messages.length > 0 && (
+          <PanelButton title="Summarize" disabled={!canAsk || isBusy} onClick={summarize}>
+            <FileTextIcon className="size-4" />
+          </PanelButton>
+        )}
+        {isBusy ? (
+          <PanelButton title="Stop" onClick={stop}>
+            <SquareIcon className="size-4" />
+          </PanelButton>
+        ) : (
+          <PanelButton title="Ask (Enter)" disabled={!canAsk || !question.trim()} onClick={ask}>
+            <SendIcon className="size-4" />
+          </PanelButton>
+        )}
+      </div>
+    </div>
+  );
+}
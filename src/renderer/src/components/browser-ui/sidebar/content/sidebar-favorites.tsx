@@ -0,0 +1,111 @@
+import { WebsiteFavicon } from "@/components/main/website-favicon";
+import { useTabs } from "@/components/providers/tabs-provider";
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu";
+import { useSidebar } from "@/components/ui/resizable-sidebar";
+import { cn } from "@/lib/utils";
+import { motion } from "motion/react";
+import { useCallback, useEffect, useState } from "react";
+import { Space } from "~/flow/interfaces/sessions/spaces";
+import { FavoriteData } from "~/types/favorites";
+import { TabData } from "~/types/tabs";
+
+function SidebarFavorite({
+  favorite,
+  tab,
+  isFocused,
+  spaceId
+}: {
+  favorite: FavoriteData;
+  tab: TabData | null;
+  isFocused: boolean;
+  spaceId: string;
+}) {
+  // Switch to the tab already showing the favorite, or open it in a new tab
+  const handleClick = () => {
+    if (tab) {
+      flow.tabs.switchToTab(tab.id);
+    } else {
+      flow.tabs.newTab(favorite.url, true, spaceId);
+    }
+  };
+
+  const handleRemove = () => {
+    flow.favorites.removeFavorite(favorite.profileId, favorite.id);
+  };
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <motion.button
+          title={favorite.title}
+          onClick={handleClick}
+          className={cn(
+            "relative h-10 flex items-center justify-center rounded-lg transition-colors",
+            "bg-black/5 dark:bg-white/10 hover:bg-black/10 dark:hover:bg-white/15",
+            isFocused && "bg-white dark:bg-white/25 hover:bg-white dark:hover:bg-white/25"
+          )}
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <WebsiteFavicon
+            url={favorite.url}
+            favicon={favorite.faviconURL || undefined}
+            className="size-5 rounded-sm object-contain text-black/60 dark:text-white/60"
+          />
+          {/* Marks favorites that are open in this space */}
+          {tab && !isFocused && <span className="absolute bottom-1 size-1 rounded-full bg-black/40 dark:bg-white/50" />}
+        </motion.button>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onClick={handleRemove}>Remove from Favorites</ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
+
+/**
+ * The favorites of the space's profile, shared by all of its spaces
+ */
+export function SidebarFavorites({ space }: { space: Space }) {
+  const { getTabGroups, getFocusedTab } = useTabs();
+  const { open } = useSidebar();
+
+  const [favorites, setFavorites] = useState<FavoriteData[]>([]);
+
+  const profileId = space.profileId;
+
+  const fetchFavorites = useCallback(async () => {
+    try {
+      setFavorites(await flow.favorites.getFavorites(profileId));
+    } catch (error) {
+      console.error("Failed to fetch favorites:", error);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchFavorites();
+    const unsubscribe = flow.favorites.onFavoritesChanged(() => {
+      fetchFavorites();
+    });
+    return () => unsubscribe();
+  }, [fetchFavorites]);
+
+  if (favorites.length === 0) return null;
+
+  const spaceTabs = getTabGroups(space.id).flatMap((tabGroup) => tabGroup.tabs);
+  const focusedTab = getFocusedTab(space.id);
+
+  return (
+    <div className={cn("grid gap-1.5 px-1.5 pb-2", open ? "grid-cols-4" : "grid-cols-1")}>
+      {favorites.map((favorite) => {
+        const isFocused = focusedTab?.url === favorite.url;
+        const tab = isFocused ? focusedTab : (spaceTabs.find((tab) => tab.url === favorite.url) ?? null);
+
+        return (
+          <SidebarFavorite key={favorite.id} favorite={favorite} tab={tab} isFocused={isFocused} spaceId={space.id} />
+        );
+      })}
+    </div>
+  );
+}
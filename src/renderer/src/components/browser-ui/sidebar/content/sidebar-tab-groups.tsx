@@ -225,6 +225,11 @@ export function SidebarTabGroups({
 }) {
   const { tabs, focusedTab } = tabGroup;
   const ref = useRef<HTMLDivElement>(null);
+  const { open } = useSidebar();
+
+  const isSplit = tabGroup.mode === "split";
+  // Side by side split tabs are too narrow for the collapsed sidebar
+  const isSplitSideBySide = isSplit && tabGroup.splitOrientation !== "vertical" && open;
 
   const [closestEdge, setClosestEdge] = useState<Edge | null>(null);
 
@@ -331,7 +336,11 @@ export function SidebarTabGroups({
         animate={{ opacity: 1 }}
         exit={{ opacity: 0 }}
         layout
-        className={cn("space-y-0.5")}
+        className={cn(
+          "space-y-0.5",
+          isSplit && "p-0.5 rounded-lg border border-black/10 dark:border-white/15",
+          isSplitSideBySide && "flex flex-row gap-0.5 space-y-0 [&>*]:flex-1 [&>*]:min-w-0"
+        )}
         ref={ref}
       >
         {tabs.map((tab) => (
@@ -1,7 +1,8 @@
 import { NewTabButton } from "@/components/browser-ui/sidebar/content/new-tab-button";
 import { SidebarTabGroups } from "@/components/browser-ui/sidebar/content/sidebar-tab-groups";
 import { SpaceTitle } from "@/components/browser-ui/sidebar/content/space-title";
-import { useTabs } from "@/components/providers/tabs-provider";
+import { SidebarFavorites } from "@/components/browser-ui/sidebar/content/sidebar-favorites";
+import { TabGroup, useTabs } from "@/components/providers/tabs-provider";
 import { Button } from "@/components/ui/button";
 import { SidebarGroup, SidebarMenu, useSidebar } from "@/components/ui/resizable-sidebar";
 import { Space } from "~/flow/interfaces/sessions/spaces";
@@ -13,6 +14,10 @@ import { SidebarTabDropTarget } from "@/components/browser-ui/sidebar/content/si
 
 const ENABLE_SECTION_DEVIDER = true;
 
+function isTabGroupPinned(tabGroup: TabGroup) {
+  return tabGroup.tabs.some((tab) => tab.pinned);
+}
+
 export function DropIndicator({ isSpaceLight }: { isSpaceLight: boolean }) {
   return (
     <ol
@@ -80,15 +85,22 @@ export function SpaceSidebar({ space }: { space: Space }) {
   const isSpaceLight = hex_is_light(space.bgStartColor || "#000000");
 
   const handleCloseAllTabs = useCallback(() => {
-    const closeActive = tabGroups.length <= 1;
+    // Pinned tabs are kept
+    const unpinnedTabGroups = tabGroups.filter((tabGroup) => !isTabGroupPinned(tabGroup));
+    const closeActive = unpinnedTabGroups.length <= 1;
 
-    for (const tabGroup of tabGroups) {
+    for (const tabGroup of unpinnedTabGroups) {
       const isTabGroupActive = activeTabGroup?.id === tabGroup.id;
 
       if (!closeActive && isTabGroupActive) continue;
 
-      for (const tab of tabGroup.tabs) {
-        flow.tabs.closeTab(tab.id);
+      if (tabGroup.mode === "normal") {
+        for (const tab of tabGroup.tabs) {
+          flow.tabs.closeTab(tab.id);
+        }
+      } else {
+        // Closed as a whole, so it can be reopened as a group
+        flow.tabs.closeTabGroup(tabGroup.id);
       }
     }
   }, [tabGroups, activeTabGroup]);
@@ -97,10 +109,16 @@ export function SpaceSidebar({ space }: { space: Space }) {
 
   const hasTabs = tabGroups.length > 0;
 
-  const sortedTabGroups = useMemo(() => {
-    return [...tabGroups].sort((a, b) => a.position - b.position);
+  // Pinned tabs are always above the other tabs
+  const [pinnedTabGroups, unpinnedTabGroups] = useMemo(() => {
+    const sorted = [...tabGroups].sort((a, b) => a.position - b.position);
+    return [sorted.filter(isTabGroupPinned), sorted.filter((tabGroup) => !isTabGroupPinned(tabGroup))];
   }, [tabGroups]);
 
+  const sortedTabGroups = useMemo(() => {
+    return [...pinnedTabGroups, ...unpinnedTabGroups];
+  }, [pinnedTabGroups, unpinnedTabGroups]);
+
   const moveTab = useCallback(
     (tabId: number, newPosition: number) => {
       const newSortedTabGroups = [...sortedTabGroups].sort((a, b) => {
@@ -127,9 +145,27 @@ export function SpaceSidebar({ space }: { space: Space }) {
 
   return (
     <div className={cn(isSpaceLight ? "" : "dark", "h-full flex flex-col")} ref={sidebarRef}>
+      <SidebarFavorites space={space} />
       <SpaceTitle space={space} />
       <SidebarGroup className="py-0.5 flex-1">
         <SidebarMenu className="flex-1">
+          {pinnedTabGroups.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <AnimatePresence initial={false}>
+                {pinnedTabGroups.map((tabGroup, index) => (
+                  <SidebarTabGroups
+                    key={tabGroup.id}
+                    tabGroup={tabGroup}
+                    isActive={activeTabGroup?.id === tabGroup.id || false}
+                    isFocused={!!focusedTab && tabGroup.tabs.some((tab) => tab.id === focusedTab.id)}
+                    isSpaceLight={isSpaceLight}
+                    position={index}
+                    moveTab={moveTab}
+                  />
+                ))}
+              </AnimatePresence>
+            </div>
+          )}
           {ENABLE_SECTION_DEVIDER && (
             <AnimatePresence>
               {hasTabs && <SidebarSectionDivider hasTabs={hasTabs} handleCloseAllTabs={handleCloseAllTabs} />}
@@ -138,14 +174,14 @@ export function SpaceSidebar({ space }: { space: Space }) {
           <NewTabButton />
           <div className="flex-1 flex flex-col justify-between gap-1">
             <AnimatePresence initial={false}>
-              {sortedTabGroups.map((tabGroup, index) => (
+              {unpinnedTabGroups.map((tabGroup, index) => (
                 <SidebarTabGroups
                   key={tabGroup.id}
                   tabGroup={tabGroup}
                   isActive={activeTabGroup?.id === tabGroup.id || false}
                   isFocused={!!focusedTab && tabGroup.tabs.some((tab) => tab.id === focusedTab.id)}
                   isSpaceLight={isSpaceLight}
-                  position={index}
+                  position={pinnedTabGroups.length + index}
                   moveTab={moveTab}
                 />
               ))}
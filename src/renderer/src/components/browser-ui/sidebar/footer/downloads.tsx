@@ -0,0 +1,171 @@
+import { SIDEBAR_HOVER_COLOR } from "@/components/browser-ui/browser-sidebar";
+import { PortalPopover } from "@/components/portal/popover";
+import { useSpaces } from "@/components/providers/spaces-provider";
+import { PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { SidebarMenuButton, SidebarMenuItem } from "@/components/ui/resizable-sidebar";
+import { getDownloadProgress, getDownloadStatusText, isDownloadActive } from "@/lib/downloads";
+import { cn } from "@/lib/utils";
+import { DownloadIcon, FileIcon, FolderOpenIcon, PauseIcon, PlayIcon, RotateCwIcon, XIcon } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { DownloadData } from "~/types/downloads";
+
+// The panel only shows the most recent downloads
+const MAX_PANEL_DOWNLOADS = 5;
+
+const DOWNLOADS_URL = "flow://downloads";
+
+function PanelActionButton({
+  title,
+  onClick,
+  disabled,
+  children
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      disabled={disabled}
+      onClick={(event) => {
+        event.stopPropagation();
+        onClick();
+      }}
+      className="size-6 shrink-0 flex items-center justify-center rounded-sm hover:bg-accent disabled:opacity-50"
+    >
+      {children}
+    </button>
+  );
+}
+
+function PanelDownloadItem({ download }: { download: DownloadData }) {
+  const isActive = isDownloadActive(download);
+  const progress = getDownloadProgress(download);
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 px-2 py-1.5 rounded-sm",
+        download.state === "completed" && "cursor-pointer hover:bg-accent"
+      )}
+      onClick={() => download.state === "completed" && flow.downloads.openDownload(download.id)}
+    >
+      <FileIcon className="size-4 shrink-0 text-muted-foreground" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="text-sm truncate" title={download.filename}>
+          {download.filename}
+        </p>
+        {isActive && <Progress value={progress ?? 0} className="h-1" />}
+        <p className="text-xs text-muted-foreground truncate tabular-nums">{getDownloadStatusText(download)}</p>
+      </div>
+      {download.state === "progressing" && (
+        <PanelActionButton title="Pause" onClick={() => flow.downloads.pauseDownload(download.id)}>
+          <PauseIcon className="size-3.5" />
+        </PanelActionButton>
+      )}
+      {download.state === "paused" && (
+        <PanelActionButton
+          title="Resume"
+          disabled={!download.canResume}
+          onClick={() => flow.downloads.resumeDownload(download.id)}
+        >
+          <PlayIcon className="size-3.5" />
+        </PanelActionButton>
+      )}
+      {isActive && (
+        <PanelActionButton title="Cancel" onClick={() => flow.downloads.cancelDownload(download.id)}>
+          <XIcon className="size-3.5" />
+        </PanelActionButton>
+      )}
+      {download.state === "completed" && (
+        <PanelActionButton title="Show in folder" onClick={() => flow.downloads.showInFolder(download.id)}>
+          <FolderOpenIcon className="size-3.5" />
+        </PanelActionButton>
+      )}
+      {(download.state === "cancelled" || download.state === "interrupted") && (
+        <PanelActionButton title="Retry" onClick={() => flow.downloads.retryDownload(download.id)}>
+          <RotateCwIcon className="size-3.5" />
+        </PanelActionButton>
+      )}
+    </div>
+  );
+}
+
+export function SidebarFooterDownloads() {
+  const { currentSpace, isCurrentSpaceLight } = useSpaces();
+  const [open, setOpen] = useState(false);
+  const [downloads, setDownloads] = useState<DownloadData[]>([]);
+
+  const loadDownloads = useCallback(async () => {
+    try {
+      setDownloads(await flow.downloads.getDownloads());
+    } catch (error) {
+      console.error("Failed to load downloads:", error);
+    }
+  }, []);
+
+  // Downloads belong to the profile of the current space
+  useEffect(() => {
+    loadDownloads();
+  }, [loadDownloads, currentSpace?.profileId]);
+
+  useEffect(() => {
+    return flow.downloads.onDownloadsChanged(loadDownloads);
+  }, [loadDownloads]);
+
+  if (downloads.length === 0) return null;
+
+  const activeDownloads = downloads.filter(isDownloadActive);
+  const totalBytes = activeDownloads.reduce((total, download) => total + download.totalBytes, 0);
+  const receivedBytes = activeDownloads.reduce((total, download) => total + download.receivedBytes, 0);
+  const overallProgress = totalBytes > 0 ? (receivedBytes / totalBytes) * 100 : null;
+
+  const openDownloadsPage = () => {
+    flow.tabs.newTab(DOWNLOADS_URL, true);
+    setOpen(false);
+  };
+
+  const spaceInjectedClasses = cn(isCurrentSpaceLight ? "" : "dark");
+
+  return (
+    <SidebarMenuItem>
+      <PortalPopover.Root open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <SidebarMenuButton
+            className={cn(SIDEBAR_HOVER_COLOR, "relative text-black dark:text-white")}
+            title={activeDownloads.length > 0 ? `${activeDownloads.length} downloads in progress` : "Downloads"}
+          >
+            <DownloadIcon className={cn(activeDownloads.length > 0 && "animate-pulse")} />
+            {activeDownloads.length > 0 && (
+              <span className="absolute bottom-0.5 left-1.5 right-1.5 h-0.5 rounded-full bg-black/20 dark:bg-white/20 overflow-hidden">
+                <span
+                  className="block h-full bg-black dark:bg-white transition-all"
+                  style={{ width: `${overallProgress ?? 100}%` }}
+                />
+              </span>
+            )}
+          </SidebarMenuButton>
+        </PopoverTrigger>
+        <PortalPopover.Content side="top" className={cn("w-72 p-2", spaceInjectedClasses)}>
+          <p className="px-2 pt-1 pb-2 text-sm font-medium">Downloads</p>
+          <div className="space-y-0.5">
+            {downloads.slice(0, MAX_PANEL_DOWNLOADS).map((download) => (
+              <PanelDownloadItem key={download.id} download={download} />
+            ))}
+          </div>
+          <div className="border-t border-border mt-1 pt-1">
+            <button
+              onClick={openDownloadsPage}
+              className="w-full flex items-center px-2 py-1.5 text-sm rounded-sm cursor-pointer hover:bg-accent"
+            >
+              Show all downloads
+            </button>
+          </div>
+        </PortalPopover.Content>
+      </PortalPopover.Root>
+    </SidebarMenuItem>
+  );
+}
@@ -1,6 +1,7 @@
 import { AddressBarCopyLinkButton } from "@/components/browser-ui/sidebar/header/address-bar/copy-link-button";
 import { PinnedBrowserActions } from "@/components/browser-ui/sidebar/header/address-bar/pinned-browser-actions";
 import { BookmarkButton } from "@/components/browser-ui/sidebar/header/address-bar/bookmark-button";
+import { SiteInfoButton } from "@/components/browser-ui/sidebar/header/address-bar/site-info-button";
 import { useTabs } from "@/components/providers/tabs-provider";
 import { SidebarGroup, useSidebar } from "@/components/ui/resizable-sidebar";
 import { simplifyUrl } from "@/lib/url";
@@ -58,6 +59,7 @@ function FakeAddressBar({ className }: { className?: string }) {
       onClick={handleClick}
     >
       {isPlaceholder && <SearchIcon className="size-3.5" strokeWidth={2.5} />}
+      {!isPlaceholder && <SiteInfoButton />}
       <span className={cn("text-sm font-medium truncate")}>{value}</span>
       {/* Right Side */}
       <div className="ml-auto flex items-center gap-1">
@@ -0,0 +1,153 @@
+import { useTabs } from "@/components/providers/tabs-provider";
+import { useSpaces } from "@/components/providers/spaces-provider";
+import { PortalPopover } from "@/components/portal/popover";
+import { Button } from "@/components/ui/button";
+import { PopoverTrigger } from "@/components/ui/popover";
+import { SITE_PERMISSION_LABELS, SITE_PERMISSION_STATE_LABELS, SITE_PERMISSIONS } from "@/lib/site-permissions";
+import { cn } from "@/lib/utils";
+import { LockIcon, ShieldAlertIcon } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { SitePermissionsInfo } from "~/flow/interfaces/settings/sitePermissions";
+import { SitePermission, SitePermissionState } from "~/types/permissions";
+
+const PERMISSION_STATES: SitePermissionState[] = ["ask", "allow", "block"];
+
+function isWebsiteUrl(url: string) {
+  return url.startsWith("http://") || url.startsWith("https://");
+}
+
+function PermissionRow({
+  permission,
+  state,
+  onChange
+}: {
+  permission: SitePermission;
+  state: SitePermissionState;
+  onChange: (state: SitePermissionState) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 px-2 py-1">
+      <span className="text-sm">{SITE_PERMISSION_LABELS[permission]}</span>
+      <div className="flex items-center rounded-md bg-muted p-0.5">
+        {PERMISSION_STATES.map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            className={cn(
+              "px-2 py-0.5 text-xs rounded-sm transition-colors",
+              option === state ? "bg-background shadow-xs font-medium" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {SITE_PERMISSION_STATE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function SiteInfoButton() {
+  const { addressUrl } = useTabs();
+  const { isCurrentSpaceLight } = useSpaces();
+  const [open, setOpen] = useState(false);
+  const [siteInfo, setSiteInfo] = useState<SitePermissionsInfo | null>(null);
+
+  const isWebsite = isWebsiteUrl(addressUrl);
+
+  const fetchSiteInfo = useCallback(async () => {
+    if (!isWebsite) {
+      setSiteInfo(null);
+      return;
+    }
+
+    try {
+      setSiteInfo(await flow.sitePermissions.getSitePermissions(addressUrl));
+    } catch (error) {
+      console.error("Failed to fetch site permissions:", error);
+      setSiteInfo(null);
+    }
+  }, [addressUrl, isWebsite]);
+
+  useEffect(() => {
+    fetchSiteInfo();
+  }, [fetchSiteInfo]);
+
+  useEffect(() => {
+    const unsubscribe = flow.sitePermissions.onSitePermissionsChanged(() => {
+      fetchSiteInfo();
+    });
+    return () => unsubscribe();
+  }, [fetchSiteInfo]);
+
+  if (!isWebsite) return null;
+
+  const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
+    // Prevent the click from opening the omnibox
+    event.stopPropagation();
+    setOpen(!open);
+  };
+
+  const handleChange = async (permission: SitePermission, state: SitePermissionState) => {
+    try {
+      await flow.sitePermissions.setSitePermission(addressUrl, permission, state);
+    } catch (error) {
+      console.error("Failed to set site permission:", error);
+    }
+  };
+
+  const permissions = siteInfo?.permissions ?? {};
+  const hasBlockedPermissions = Object.values(permissions).includes("block");
+  const isSecure = addressUrl.startsWith("https://");
+
+  const Icon = isSecure && !hasBlockedPermissions ? LockIcon : ShieldAlertIcon;
+  const spaceInjectedClasses = cn(isCurrentSpaceLight ? "" : "dark");
+
+  return (
+    <PortalPopover.Root open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-6 -ml-1.5 hover:bg-black/10 dark:hover:bg-white/10"
+          onClick={handleClick}
+          title="View site information"
+        >
+          <Icon className="size-3.5" strokeWidth={2.5} />
+        </Button>
+      </PopoverTrigger>
+      <PortalPopover.Content
+        className={cn("w-72 p-2", spaceInjectedClasses)}
+        align="start"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="px-2 pt-1 pb-2">
+          <p className="text-sm font-medium truncate">{siteInfo?.origin ?? addressUrl}</p>
+          <p className="text-xs text-muted-foreground">
+            {isSecure ? "Connection is secure" : "Connection is not secure"}
+          </p>
+        </div>
+        <div className="border-t border-border pt-1">
+          {SITE_PERMISSIONS.map((permission) => (
+            <PermissionRow
+              key={permission}
+              permission={permission}
+              state={permissions[permission] ?? "ask"}
+              onChange={(state) => handleChange(permission, state)}
+            />
+          ))}
+        </div>
+        <div className="border-t border-border mt-1 pt-1">
+          <button
+            onClick={() => {
+              flow.windows.openSettingsWindow();
+              setOpen(false);
+            }}
+            className="w-full flex items-center px-2 py-1.5 text-sm rounded-sm cursor-pointer hover:bg-accent"
+          >
+            Site settings
+          </button>
+        </div>
+      </PortalPopover.Content>
+    </PortalPopover.Root>
+  );
+}
@@ -0,0 +1,235 @@
+import { PortalComponent } from "@/components/portal/portal";
+import { TabGroupSourceData } from "@/components/browser-ui/sidebar/content/sidebar-tab-groups";
+import { useSpaces } from "@/components/providers/spaces-provider";
+import { TabGroup, useTabs } from "@/components/providers/tabs-provider";
+import { useBoundingRect } from "@/hooks/use-bounding-rect";
+import { cn } from "@/lib/utils";
+import { monitorForElements } from "@atlaskit/pragmatic-drag-and-drop/element/adapter";
+import { useEffect, useRef, useState } from "react";
+import { SplitSide } from "~/types/tabs";
+
+// Matches the gap between split tabs in the main process
+const SPLIT_GAP = 8;
+// Matches the smallest size of a split tab in the main process
+const MIN_SPLIT_SIZE = 0.15;
+
+const SPLIT_SIDE_LABELS: Record<SplitSide, string> = {
+  left: "Split Left",
+  right: "Split Right",
+  top: "Split Top",
+  bottom: "Split Bottom"
+};
+
+function sumSizes(sizes: number[]) {
+  return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+/**
+ * Draggable dividers between the tabs of a split view
+ * The tabs are drawn over the browser UI, so the dividers sit in the gaps left between them.
+ */
+export function SplitViewDividers({ tabGroup }: { tabGroup: TabGroup }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [sizes, setSizes] = useState<number[]>(tabGroup.splitSizes ?? []);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const isHorizontal = tabGroup.splitOrientation !== "vertical";
+
+  // Follow the sizes of the main process, except while they are being dragged
+  useEffect(() => {
+    if (dragIndex !== null) return;
+    setSizes(tabGroup.splitSizes ?? []);
+  }, [tabGroup.splitSizes, dragIndex]);
+
+  const handlePointerDown = (index: number, event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (dragIndex === null || !container) return;
+
+    const rect = container.getBoundingClientRect();
+    const position = isHorizontal ? (event.clientX - rect.left) / rect.width : (event.clientY - rect.top) / rect.height;
+
+    // Only the tabs on both sides of the divider change size
+    const start = sumSizes(sizes.slice(0, dragIndex));
+    const pairSize = sizes[dragIndex] + sizes[dragIndex + 1];
+    const newSize = Math.min(Math.max(position - start, MIN_SPLIT_SIZE), pairSize - MIN_SPLIT_SIZE);
+
+    const newSizes = [...sizes];
+    newSizes[dragIndex] = newSize;
+    newSizes[dragIndex + 1] = pairSize - newSize;
+
+    setSizes(newSizes);
+    // The sizes are only saved once the divider is dropped
+    flow.tabs.setSplitSizes(tabGroup.id, newSizes, false);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (dragIndex === null) return;
+
+    flow.tabs.setSplitSizes(tabGroup.id, sizes);
+    setDragIndex(null);
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      {sizes.slice(0, -1).map((_, index) => {
+        const offset = `calc(${sumSizes(sizes.slice(0, index + 1)) * 100}% - ${SPLIT_GAP / 2}px)`;
+        const isDragging = dragIndex === index;
+
+        return (
+          <div
+            key={index}
+            className={cn(
+              "absolute pointer-events-auto flex items-center justify-center group",
+              isHorizontal ? "cursor-col-resize" : "cursor-row-resize"
+            )}
+            style={
+              isHorizontal
+                ? { left: offset, top: 0, bottom: 0, width: SPLIT_GAP }
+                : { top: offset, left: 0, right: 0, height: SPLIT_GAP }
+            }
+            onPointerDown={(event) => handlePointerDown(index, event)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <div
+              className={cn(
+                "rounded-full transition-colors",
+                isHorizontal ? "w-1 h-8" : "h-1 w-8",
+                isDragging ? "bg-black/50 dark:bg-white/60" : "bg-black/15 dark:bg-white/20",
+                "group-hover:bg-black/40 dark:group-hover:bg-white/50"
+              )}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function getClosestSplitSide(event: React.DragEvent<HTMLDivElement>): SplitSide {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const x = (event.clientX - rect.left) / rect.width;
+  const y = (event.clientY - rect.top) / rect.height;
+
+  const distances: [SplitSide, number][] = [
+    ["left", x],
+    ["right", 1 - x],
+    ["top", y],
+    ["bottom", 1 - y]
+  ];
+  distances.sort((a, b) => a[1] - b[1]);
+  return distances[0][0];
+}
+
+const SPLIT_SIDE_CLASSES: Record<SplitSide, string> = {
+  left: "left-2 top-2 bottom-2 w-[calc(50%-12px)]",
+  right: "right-2 top-2 bottom-2 w-[calc(50%-12px)]",
+  top: "top-2 left-2 right-2 h-[calc(50%-12px)]",
+  bottom: "bottom-2 left-2 right-2 h-[calc(50%-12px)]"
+};
+
+/**
+ * Drop zones shown over the page while a tab is dragged from the sidebar
+ * Dropping the tab on a side of the page splits the page with it.
+ */
+export function SplitDropOverlay() {
+  const { tabGroups, activeTabGroup } = useTabs();
+  const { isCurrentSpaceLight } = useSpaces();
+
+  const [draggedTabGroupId, setDraggedTabGroupId] = useState<number | null>(null);
+  const [hoveredSide, setHoveredSide] = useState<SplitSide | null>(null);
+
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const anchorRect = useBoundingRect(anchorRef);
+
+  useEffect(() => {
+    return monitorForElements({
+      onDragStart: ({ source }) => {
+        const sourceData = source.data as TabGroupSourceData;
+        if (sourceData.type !== "tab-group") return;
+        setDraggedTabGroupId(sourceData.tabGroupId);
+      },
+      onDrop: () => {
+        setDraggedTabGroupId(null);
+        setHoveredSide(null);
+      }
+    });
+  }, []);
+
+  const draggedTabGroup = tabGroups.find((tabGroup) => tabGroup.id === draggedTabGroupId) ?? null;
+  const draggedTab = draggedTabGroup?.tabs[0] ?? null;
+
+  // Only single tabs can be dropped next to the active tab or split view
+  const canSplit =
+    draggedTabGroup !== null &&
+    draggedTab !== null &&
+    draggedTabGroup.mode === "normal" &&
+    activeTabGroup !== null &&
+    activeTabGroup.id !== draggedTabGroup.id &&
+    activeTabGroup.profileId === draggedTabGroup.profileId &&
+    (activeTabGroup.mode === "normal" || activeTabGroup.mode === "split");
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setHoveredSide(getClosestSplitSide(event));
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (draggedTab) {
+      flow.tabs.splitTab(draggedTab.id, getClosestSplitSide(event));
+    }
+    setDraggedTabGroupId(null);
+    setHoveredSide(null);
+  };
+
+  const spaceInjectedClasses = cn(isCurrentSpaceLight ? "" : "dark");
+
+  return (
+    <>
+      {/* Marks where the drop zones go, as the page is drawn over the browser UI */}
+      <div ref={anchorRef} className="absolute inset-0 pointer-events-none" />
+      <PortalComponent
+        visible={canSplit}
+        zIndex={4}
+        className="absolute"
+        style={{
+          top: anchorRect?.top ?? 0,
+          left: anchorRect?.left ?? 0,
+          width: anchorRect?.width ?? 0,
+          height: anchorRect?.height ?? 0
+        }}
+      >
+        <div
+          className={cn("relative w-screen h-screen select-none bg-black/10", spaceInjectedClasses)}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setHoveredSide(null)}
+          onDrop={handleDrop}
+        >
+          {hoveredSide && (
+            <div
+              className={cn(
+                "absolute flex items-center justify-center rounded-lg pointer-events-none",
+                "border-2 border-primary bg-primary/20 backdrop-blur-sm",
+                SPLIT_SIDE_CLASSES[hoveredSide]
+              )}
+            >
+              <span className="px-3 py-1.5 rounded-md text-sm font-medium dimmed-space-background-start text-black dark:text-white shadow-md">
+                {SPLIT_SIDE_LABELS[hoveredSide]}
+              </span>
+            </div>
+          )}
+        </div>
+      </PortalComponent>
+    </>
+  );
+}
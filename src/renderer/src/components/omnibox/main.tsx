@@ -2,13 +2,15 @@ import { Command, CommandItem, CommandList } from "@/components/ui/command";
 import { AutocompleteMatch } from "@/lib/omnibox/types";
 import { Omnibox } from "@/lib/omnibox/omnibox";
 import { useEffect, useRef, useState } from "react";
-import { Search, History, Zap, Terminal, Settings, PlusSquare, Link, PuzzleIcon } from "lucide-react";
+import { Search, History, Zap, Terminal, Settings, PlusSquare, Link, PuzzleIcon, VenetianMask } from "lucide-react";
 import { WebsiteFavicon } from "@/components/main/website-favicon";
 import { AnimatePresence } from "motion/react";
 import { motion } from "motion/react";
 import { CommandInput } from "cmdk";
 import { cn } from "@/lib/utils";
 import { useTheme } from "@/components/main/theme";
+import { createSearchUrl, getSearchEngineByKeyword } from "@/lib/search";
+import { SearchEngine } from "~/types/search-engines";
 
 const SHOW_INSTRUCTIONS = true;
 
@@ -28,6 +30,9 @@ function getIconForType(type: AutocompleteMatch["type"], match: AutocompleteMatc
       if (match.destinationUrl === "open_new_window") {
         return <PlusSquare className="h-5 w-5 text-green-500" />;
       }
+      if (match.destinationUrl === "open_private_window") {
+        return <VenetianMask className="h-5 w-5 text-violet-500" />;
+      }
       if (match.destinationUrl === "open_extensions") {
         return <PuzzleIcon className="h-5 w-5 text-purple-500" />;
       }
@@ -65,6 +70,8 @@ export function OmniboxMain() {
   const openIn: "current" | "new_tab" = params.get("openIn") === "current" ? "current" : "new_tab";
 
   const [input, setInput] = useState(currentInput || "");
+  // Set once a keyword is activated with Tab, to search with its search engine
+  const [keywordSearchEngine, setKeywordSearchEngine] = useState<SearchEngine | null>(null);
   const [matches, setMatches] = useState<AutocompleteMatch[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const omniboxRef = useRef<Omnibox | null>(null);
@@ -144,6 +151,21 @@ export function OmniboxMain() {
           flow.omnibox.hide();
         }, 150);
         event.preventDefault();
+      } else if (event.key === "Tab" && !keywordSearchEngine) {
+        // Tab activates the keyword that was typed, like in Chrome
+        const searchEngine = getSearchEngineByKeyword(input);
+        if (!searchEngine) return;
+
+        event.preventDefault();
+        setKeywordSearchEngine(searchEngine);
+        setInput("");
+        omniboxRef.current?.handleInput("", "keystroke", searchEngine);
+      } else if (event.key === "Backspace" && keywordSearchEngine && inputBox.selectionEnd === 0) {
+        // Backspace at the start goes back to the typed keyword
+        event.preventDefault();
+        setKeywordSearchEngine(null);
+        setInput(keywordSearchEngine.keyword + input);
+        omniboxRef.current?.handleInput(keywordSearchEngine.keyword + input, "keystroke");
       } else if (event.key === "Enter" && matches.length === 0 && input.trim() !== "") {
         // Use handleOpenMatch for verbatim input
         event.preventDefault();
@@ -151,7 +173,8 @@ export function OmniboxMain() {
           providerName: "Verbatim",
           type: "verbatim",
           contents: input,
-          destinationUrl: input, // Assume input is URL or search query
+          // Assume input is URL or search query
+          destinationUrl: keywordSearchEngine ? createSearchUrl(input, keywordSearchEngine) : input,
           relevance: 9999,
           isDefault: false
         };
@@ -160,13 +183,16 @@ export function OmniboxMain() {
     };
     inputBox.addEventListener("keydown", handleKeyDown);
     return () => inputBox.removeEventListener("keydown", handleKeyDown);
-  }, [input, matches.length, openIn]); // Added handleOpenMatch dependency implicitly via openIn
+  }, [input, matches.length, openIn, keywordSearchEngine]); // Added handleOpenMatch dependency implicitly via openIn
 
   const handleInputChange = (value: string) => {
     setInput(value);
-    omniboxRef.current?.handleInput(value, "keystroke");
+    omniboxRef.current?.handleInput(value, "keystroke", keywordSearchEngine);
   };
 
+  // Offer to activate the keyword that was typed
+  const typedKeywordSearchEngine = keywordSearchEngine ? null : getSearchEngineByKeyword(input);
+
   // Use the handleOpenMatch helper
   const handleSelect = (match: AutocompleteMatch) => {
     handleOpenMatch(match, openIn);
@@ -224,8 +250,15 @@ export function OmniboxMain() {
           disablePointerSelection
         >
           <div className="flex items-center p-3.5 border-b border-black/10 dark:border-white/10 flex-shrink-0">
+            {keywordSearchEngine && (
+              <span className="mr-2 flex-shrink-0 rounded-md px-2 py-0.5 text-sm font-medium bg-black/10 dark:bg-white/15 text-black/80 dark:text-white/80">
+                {keywordSearchEngine.name}
+              </span>
+            )}
             <CommandInput
-              placeholder="Search, navigate, or enter URL..."
+              placeholder={
+                keywordSearchEngine ? `Search ${keywordSearchEngine.name}...` : "Search, navigate, or enter URL..."
+              }
               value={input}
               onValueChange={handleInputChange}
               onFocus={handleFocus}
@@ -233,6 +266,12 @@ export function OmniboxMain() {
               ref={inputRef}
               className="size-full outline-none text-lg font-medium placeholder:text-black/40 dark:placeholder:text-white/40"
             />
+            {typedKeywordSearchEngine && (
+              <span className="ml-2 flex-shrink-0 text-xs text-black/50 dark:text-white/50 whitespace-nowrap">
+                Press <kbd className="px-1.5 py-0.5 rounded bg-black/5 dark:bg-white/10">Tab</kbd> to search{" "}
+                {typedKeywordSearchEngine.name}
+              </span>
+            )}
           </div>
 
           {matches.length > 0 && (
@@ -286,6 +325,14 @@ export function OmniboxMain() {
                             {match.destinationUrl}
                           </span>
                         )}
+                        {match.type === "verbatim" && match.description && (
+                          <span
+                            className="text-xs text-black/50 dark:text-white/50 truncate block"
+                            style={{ maxWidth: "100%" }}
+                          >
+                            {match.description}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center text-xs text-black/60 dark:text-white/60 flex-shrink-0 bg-black/5 dark:bg-white/10 rounded-md px-2 py-1">
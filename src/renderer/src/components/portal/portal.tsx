@@ -19,13 +19,16 @@ type PortalContextValue = {
   y: number | null;
   width: number | null;
   height: number | null;
+  // Focuses the portal window, which is needed before its inputs can be typed in
+  focus: () => void;
 };
 
 const PortalContext = createContext<PortalContextValue>({
   x: null,
   y: null,
   width: null,
-  height: null
+  height: null,
+  focus: () => {}
 });
 
 export function usePortalContext() {
@@ -65,7 +68,11 @@ export function PortalComponent({
       x: bounds.x,
       y: bounds.y,
       width: bounds.width,
-      height: bounds.height
+      height: bounds.height,
+      focus: () => {
+        if (!portal?.window || portal.window.closed) return;
+        flow.interface.focusComponentWindow(portal.id);
+      }
     };
 
     return (
@@ -77,7 +84,7 @@ export function PortalComponent({
         </PlatformConsumer>
       </PortalContext.Provider>
     );
-  }, [children, bounds]);
+  }, [children, bounds, portal]);
 
   // Update visibility of the portal
   useMemo(() => {
@@ -125,7 +125,10 @@ export const TabsProvider = ({ children }: TabsProviderProps) => {
 
       const tabGroup = {
         ...tabGroupData,
-        tabs: tabsData?.tabs.filter((tab) => tabGroupData.tabIds.includes(tab.id)) || [],
+        // In the order of the group, e.g. from left to right in a split view
+        tabs: tabGroupData.tabIds
+          .map((tabId) => tabsData.tabs.find((tab) => tab.id === tabId))
+          .filter((tab) => tab !== undefined),
         active: isActive,
         focusedTab
       };
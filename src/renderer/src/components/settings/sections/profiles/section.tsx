@@ -98,7 +98,7 @@ function SearchSettingsTab() {
       <CardContent>
         <div className="rounded-md bg-muted p-4 text-sm">
           <p className="text-muted-foreground">
-            Search engine settings are coming soon. This feature is currently in development.
+            Search engines are shared by every profile. Manage them in the Search Engines section.
           </p>
         </div>
       </CardContent>
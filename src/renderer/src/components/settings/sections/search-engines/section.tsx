@@ -0,0 +1,253 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, Search, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { WebsiteFavicon } from "@/components/main/website-favicon";
+import { SearchEngine } from "~/types/search-engines";
+import { toast } from "sonner";
+
+function SearchEngineItem({
+  searchEngine,
+  isDefault,
+  onRemove
+}: {
+  searchEngine: SearchEngine;
+  isDefault: boolean;
+  onRemove: (searchEngine: SearchEngine) => void;
+}) {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  return (
+    <div className="flex items-center justify-between p-3 rounded-md bg-background border shadow-sm">
+      <div className="flex items-center gap-3 min-w-0">
+        <WebsiteFavicon url={searchEngine.searchUrl} className="w-5 h-5 flex-shrink-0" />
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-sm truncate">{searchEngine.name}</p>
+            {isDefault && <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">Default</span>}
+          </div>
+          <p className="text-xs text-muted-foreground truncate" title={searchEngine.searchUrl}>
+            {searchEngine.searchUrl}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 ml-2 flex-shrink-0">
+        <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground font-mono">
+          {searchEngine.keyword}
+        </span>
+        {!searchEngine.builtIn && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 text-destructive hover:bg-destructive/10 hover:text-destructive"
+            onClick={() => setConfirmOpen(true)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Remove Search Engine</DialogTitle>
+            <DialogDescription>
+              Remove <span className="font-semibold">{searchEngine.name}</span> and its keyword{" "}
+              <span className="font-semibold">{searchEngine.keyword}</span>?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                onRemove(searchEngine);
+                setConfirmOpen(false);
+              }}
+            >
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function AddSearchEngineForm() {
+  const [name, setName] = useState("");
+  const [keyword, setKeyword] = useState("");
+  const [searchUrl, setSearchUrl] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const canAdd = name.trim() !== "" && keyword.trim() !== "" && searchUrl.includes("%s");
+
+  const addSearchEngine = async () => {
+    if (!canAdd) return;
+
+    setIsAdding(true);
+    try {
+      const searchEngine = await flow.searchEngines.addSearchEngine({ name, keyword, searchUrl });
+      if (searchEngine) {
+        toast.success(`Added ${searchEngine.name}!`);
+        setName("");
+        setKeyword("");
+        setSearchUrl("");
+      } else {
+        toast.error("Failed to add search engine. Check that the keyword is not already used.");
+      }
+    } catch (error) {
+      console.error("Failed to add search engine:", error);
+      toast.error("An error occurred while adding the search engine.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="search-engine-name">Name</Label>
+          <Input id="search-engine-name" placeholder="GitLab" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-engine-keyword">Keyword</Label>
+          <Input
+            id="search-engine-keyword"
+            placeholder="gl"
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value.replace(/\s/g, ""))}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="search-engine-url">URL with %s in place of the query</Label>
+        <Input
+          id="search-engine-url"
+          placeholder="https://gitlab.com/search?search=%s"
+          value={searchUrl}
+          onChange={(e) => setSearchUrl(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addSearchEngine()}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={addSearchEngine} disabled={!canAdd || isAdding}>
+          {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add Search Engine
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function SearchEnginesSettings() {
+  const [searchEngines, setSearchEngines] = useState<SearchEngine[]>([]);
+  const [defaultSearchEngineId, setDefaultSearchEngineId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const revalidateSearchEngines = useCallback(async () => {
+    try {
+      const [fetchedSearchEngines, defaultSearchEngine] = await Promise.all([
+        flow.searchEngines.getSearchEngines(),
+        flow.searchEngines.getDefaultSearchEngine()
+      ]);
+      setSearchEngines(fetchedSearchEngines);
+      setDefaultSearchEngineId(defaultSearchEngine.id);
+    } catch (error) {
+      console.error("Failed to fetch search engines:", error);
+      toast.error("Could not load search engines.");
+      setSearchEngines([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const removeSearchEngine = useCallback(async (searchEngine: SearchEngine) => {
+    try {
+      const success = await flow.searchEngines.removeSearchEngine(searchEngine.id);
+      if (success) {
+        toast.success(`Removed ${searchEngine.name}!`);
+      } else {
+        toast.error("Failed to remove search engine.");
+      }
+    } catch (error) {
+      console.error("Failed to remove search engine:", error);
+      toast.error("An error occurred while removing the search engine.");
+    }
+  }, []);
+
+  useEffect(() => {
+    revalidateSearchEngines();
+    const unsubscribe = flow.searchEngines.onSearchEnginesChanged(() => {
+      revalidateSearchEngines();
+    });
+    return () => unsubscribe();
+  }, [revalidateSearchEngines]);
+
+  return (
+    <div className="space-y-6 remove-app-drag">
+      <div>
+        <h2 className="text-2xl font-semibold text-card-foreground">Search Engines</h2>
+        <p className="text-muted-foreground">
+          Type a keyword in the address bar and press Tab to search with another engine, like{" "}
+          <span className="font-mono">gh</span> to search GitHub.
+        </p>
+      </div>
+
+      <div className="rounded-lg border bg-card text-card-foreground p-6 space-y-6">
+        <div className="space-y-1">
+          <h3 className="text-xl font-semibold tracking-tight">Available Search Engines</h3>
+          <p className="text-sm text-muted-foreground">
+            The default search engine can be changed in the General settings.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center text-center py-12">
+            <Loader2 className="h-8 w-8 text-primary animate-spin mb-3" />
+            <p className="text-muted-foreground">Loading search engines...</p>
+          </div>
+        ) : searchEngines.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center py-12">
+            <Search className="h-10 w-10 text-muted-foreground mb-3" />
+            <p className="font-medium text-card-foreground">No search engines found</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {searchEngines.map((searchEngine) => (
+              <SearchEngineItem
+                key={searchEngine.id}
+                searchEngine={searchEngine}
+                isDefault={searchEngine.id === defaultSearchEngineId}
+                onRemove={removeSearchEngine}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-lg border bg-card text-card-foreground p-6 space-y-6">
+        <div className="space-y-1">
+          <h3 className="text-xl font-semibold tracking-tight">Add Search Engine</h3>
+          <p className="text-sm text-muted-foreground">
+            Add any website that can be searched through its URL, and pick a keyword for it.
+          </p>
+        </div>
+
+        <AddSearchEngineForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { Button } from "@/components/ui/button";
+import { motion, AnimatePresence } from "motion/react";
+import { Input } from "@/components/ui/input";
+import { ChevronRight, Search, ShieldAlert, Loader2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { WebsiteFavicon } from "@/components/main/website-favicon";
+import { SITE_PERMISSION_LABELS, SITE_PERMISSION_STATE_LABELS } from "@/lib/site-permissions";
+import { Profile } from "~/flow/interfaces/sessions/profiles";
+import { SitePermission, SitePermissionsEntry } from "~/types/permissions";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+// A permission of null resets every permission of the website
+type ConfirmDialogState = { isOpen: boolean; permission: SitePermission | null };
+
+function SiteItem({
+  entry,
+  profileName,
+  onRevoke,
+  onReset
+}: {
+  entry: SitePermissionsEntry;
+  profileName?: string;
+  onRevoke: (entry: SitePermissionsEntry, permission: SitePermission) => void;
+  onReset: (entry: SitePermissionsEntry) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>({
+    isOpen: false,
+    permission: null
+  });
+
+  const permissions = Object.entries(entry.permissions) as [SitePermission, "allow" | "block"][];
+
+  const closeConfirmDialog = () => setConfirmDialog({ isOpen: false, permission: null });
+
+  return (
+    <div className="rounded-lg border bg-card text-card-foreground overflow-hidden transition-shadow hover:shadow-md">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50 transition-colors"
+        onClick={() => setExpanded(!expanded)}
+        role="button"
+        tabIndex={0}
+        onKeyPress={(e) => (e.key === "Enter" || e.key === " ") && setExpanded(!expanded)}
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          <ChevronRight
+            className={cn(
+              "h-5 w-5",
+              "text-muted-foreground flex-shrink-0 transition-transform duration-200",
+              expanded && "rotate-90"
+            )}
+          />
+          <WebsiteFavicon url={entry.origin} className="w-5 h-5 flex-shrink-0" />
+          <p className="font-medium text-sm truncate" title={entry.origin}>
+            {entry.origin}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 ml-2 flex-shrink-0">
+          {profileName && (
+            <span className="text-xs px-2 py-0.5 rounded-full border text-muted-foreground">{profileName}</span>
+          )}
+          <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+            {permissions.length} permission{permissions.length > 1 ? "s" : ""}
+          </span>
+        </div>
+      </div>
+
+      <AnimatePresence initial={false}>
+        {expanded && (
+          <motion.div
+            key="permissions-content"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.25, ease: "easeInOut" }}
+            className="overflow-hidden border-t"
+          >
+            <div className="p-4 space-y-3 bg-muted/20">
+              {permissions.map(([permission, state], index) => (
+                <motion.div
+                  key={permission}
+                  initial={{ opacity: 0, x: -15 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ duration: 0.2, ease: "easeOut", delay: index * 0.05 }}
+                  className="flex items-center justify-between p-3 rounded-md bg-background border shadow-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">{SITE_PERMISSION_LABELS[permission]}</span>
+                    <span
+                      className={cn(
+                        "text-xs px-2 py-0.5 rounded-full",
+                        state === "allow" ? "bg-primary/10 text-primary" : "bg-destructive/10 text-destructive"
+                      )}
+                    >
+                      {SITE_PERMISSION_STATE_LABELS[state]}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setConfirmDialog({ isOpen: true, permission });
+                    }}
+                  >
+                    Revoke
+                  </Button>
+                </motion.div>
+              ))}
+              {permissions.length > 1 && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setConfirmDialog({ isOpen: true, permission: null });
+                    }}
+                  >
+                    Reset All
+                  </Button>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <Dialog
+        open={confirmDialog.isOpen}
+        onOpenChange={(open) => (open ? setConfirmDialog({ ...confirmDialog, isOpen: true }) : closeConfirmDialog())}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirm Revocation</DialogTitle>
+            <DialogDescription>
+              {confirmDialog.permission ? (
+                <>
+                  Forget your decision for <span className="font-semibold">{entry.origin}</span> to use{" "}
+                  <span className="font-semibold">{SITE_PERMISSION_LABELS[confirmDialog.permission]}</span>?
+                </>
+              ) : (
+                <>
+                  Forget every permission decision for <span className="font-semibold">{entry.origin}</span>?
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={closeConfirmDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (confirmDialog.permission) {
+                  onRevoke(entry, confirmDialog.permission);
+                } else {
+                  onReset(entry);
+                }
+                closeConfirmDialog();
+              }}
+            >
+              {confirmDialog.permission ? "Revoke Permission" : "Reset Permissions"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export function SitePermissionsSettings() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [entries, setEntries] = useState<SitePermissionsEntry[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const revalidatePermissions = useCallback(async () => {
+    try {
+      const [fetchedEntries, fetchedProfiles] = await Promise.all([
+        flow.sitePermissions.getAllSitePermissions(),
+        flow.profiles.getProfiles()
+      ]);
+      setEntries(fetchedEntries);
+      setProfiles(fetchedProfiles);
+    } catch (error) {
+      console.error("Failed to fetch site permissions:", error);
+      toast.error("Could not load site permissions.");
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const revokePermission = useCallback(async (entry: SitePermissionsEntry, permission: SitePermission) => {
+    try {
+      const success = await flow.sitePermissions.revokeSitePermission(entry.profileId, entry.origin, permission);
+      if (success) {
+        toast.success("Permission revoked!");
+      } else {
+        toast.error("Failed to revoke permission.");
+      }
+    } catch (error) {
+      console.error("Failed to revoke permission:", error);
+      toast.error("An error occurred while revoking permission.");
+    }
+  }, []);
+
+  const resetPermissions = useCallback(async (entry: SitePermissionsEntry) => {
+    try {
+      const success = await flow.sitePermissions.resetSitePermissions(entry.profileId, entry.origin);
+      if (success) {
+        toast.success("Permissions reset!");
+      } else {
+        toast.error("Failed to reset permissions.");
+      }
+    } catch (error) {
+      console.error("Failed to reset permissions:", error);
+      toast.error("An error occurred while resetting permissions.");
+    }
+  }, []);
+
+  useEffect(() => {
+    revalidatePermissions();
+    const unsubscribe = flow.sitePermissions.onSitePermissionsChanged(() => {
+      revalidatePermissions();
+    });
+    return () => unsubscribe();
+  }, [revalidatePermissions]);
+
+  const profileNames = Object.fromEntries(profiles.map((profile) => [profile.id, profile.name]));
+  const showProfileNames = new Set(entries.map((entry) => entry.profileId)).size > 1;
+
+  const filteredEntries = entries.filter((entry) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      entry.origin.toLowerCase().includes(query) ||
+      Object.keys(entry.permissions).some((permission) =>
+        SITE_PERMISSION_LABELS[permission as SitePermission]?.toLowerCase().includes(query)
+      )
+    );
+  });
+
+  return (
+    <div className="space-y-6 remove-app-drag">
+      <div>
+        <h2 className="text-2xl font-semibold text-card-foreground">Site Permissions</h2>
+        <p className="text-muted-foreground">
+          Manage what websites are allowed to do, like using your camera or showing notifications.
+        </p>
+      </div>
+
+      <div className="rounded-lg border bg-card text-card-foreground p-6 space-y-6">
+        <div className="space-y-1">
+          <h3 className="text-xl font-semibold tracking-tight">Website Permissions</h3>
+          <p className="text-sm text-muted-foreground">
+            Websites you have allowed or blocked from using permissions, in each profile.
+          </p>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Search by website or permission..."
+            className="pl-9 w-full"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center text-center py-12">
+            <Loader2 className="h-8 w-8 text-primary animate-spin mb-3" />
+            <p className="text-muted-foreground">Loading permissions...</p>
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center py-12">
+            <ShieldAlert className="h-10 w-10 text-muted-foreground mb-3" />
+            <p className="font-medium text-card-foreground">
+              {searchQuery ? "No matching permissions found" : "No permissions configured"}
+            </p>
+            {!searchQuery && (
+              <p className="text-sm text-muted-foreground mt-1">
+                Websites will ask before using your camera, location and other permissions.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredEntries.map((entry) => (
+              <SiteItem
+                key={`${entry.profileId}:${entry.origin}`}
+                entry={entry}
+                profileName={showProfileNames ? profileNames[entry.profileId] : undefined}
+                onRevoke={revokePermission}
+                onReset={resetPermissions}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-4 mt-2">
+          <p className="text-xs text-muted-foreground">
+            Note: When you revoke a permission, the website will need to ask for it again the next time it wants to use
+            it.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,11 +7,24 @@ import { AboutSettings } from "@/components/settings/sections/about/section";
 import { ProfilesSettings } from "@/components/settings/sections/profiles/section";
 import { SpacesSettings } from "@/components/settings/sections/spaces/section";
 import { ExternalAppsSettings } from "@/components/settings/sections/external-apps/section";
+import { SitePermissionsSettings } from "@/components/settings/sections/site-permissions/section";
+import { SearchEnginesSettings } from "@/components/settings/sections/search-engines/section";
 import { ShortcutsSettings } from "@/components/settings/sections/shortcuts/section";
 import { AISettings } from "@/components/settings/sections/ai/section";
 import { SettingsProvider } from "@/components/providers/settings-provider";
 import { AppUpdatesProvider } from "@/components/providers/app-updates-provider";
-import { Globe, DockIcon, UsersIcon, OrbitIcon, BlocksIcon, Info, KeyboardIcon, Brain } from "lucide-react";
+import {
+  Globe,
+  DockIcon,
+  UsersIcon,
+  OrbitIcon,
+  BlocksIcon,
+  Info,
+  KeyboardIcon,
+  Brain,
+  ShieldCheckIcon,
+  SearchIcon
+} from "lucide-react";
 import { ShortcutsProvider } from "@/components/providers/shortcuts-provider";
 
 export function SettingsLayout() {
@@ -25,6 +38,8 @@ export function SettingsLayout() {
     { id: "profiles", label: "Profiles", icon: <UsersIcon className="h-4 w-4 mr-2" /> },
     { id: "spaces", label: "Spaces", icon: <OrbitIcon className="h-4 w-4 mr-2" /> },
     { id: "ai", label: "AI & Automation", icon: <Brain className="h-4 w-4 mr-2" /> },
+    { id: "search-engines", label: "Search Engines", icon: <SearchIcon className="h-4 w-4 mr-2" /> },
+    { id: "site-permissions", label: "Site Permissions", icon: <ShieldCheckIcon className="h-4 w-4 mr-2" /> },
     { id: "external-apps", label: "External Apps", icon: <BlocksIcon className="h-4 w-4 mr-2" /> },
     { id: "shortcuts", label: "Shortcuts", icon: <KeyboardIcon className="h-4 w-4 mr-2" /> },
     { id: "about", label: "About", icon: <Info className="h-4 w-4 mr-2" /> }
@@ -56,6 +71,10 @@ export function SettingsLayout() {
         return <SpacesSettings initialSelectedProfile={selectedProfileId} initialSelectedSpace={selectedSpaceId} />;
       case "ai":
         return <AISettings />;
+      case "search-engines":
+        return <SearchEnginesSettings />;
+      case "site-permissions":
+        return <SitePermissionsSettings />;
       case "external-apps":
         return <ExternalAppsSettings />;
       case "shortcuts":
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { WindowState } from "~/flow/types";
+
+export function useWindowState(): WindowState | null {
+  const [windowState, setWindowState] = useState<WindowState | null>(null);
+
+  useEffect(() => {
+    let updated = false;
+    flow.interface.getWindowState().then((state) => {
+      if (!updated && state) {
+        setWindowState(state);
+      }
+    });
+
+    const removeListener = flow.interface.onWindowStateChanged((state) => {
+      setWindowState(state);
+      updated = true;
+    });
+    return () => {
+      removeListener();
+    };
+  }, []);
+
+  return windowState;
+}
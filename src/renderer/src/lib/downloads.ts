@@ -0,0 +1,44 @@
+import { DownloadData } from "~/types/downloads";
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${unitIndex === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unitIndex]}`;
+}
+
+/**
+ * Gets how far a download is, from 0 to 100
+ * @returns The progress, or null if the size of the file is unknown
+ */
+export function getDownloadProgress(download: DownloadData): number | null {
+  if (download.totalBytes <= 0) return null;
+  return Math.min(100, (download.receivedBytes / download.totalBytes) * 100);
+}
+
+export function isDownloadActive(download: DownloadData): boolean {
+  return download.state === "progressing" || download.state === "paused";
+}
+
+export function getDownloadStatusText(download: DownloadData): string {
+  const received = formatBytes(download.receivedBytes);
+  const total = download.totalBytes > 0 ? formatBytes(download.totalBytes) : null;
+
+  switch (download.state) {
+    case "progressing":
+      return total ? `${received} of ${total}` : received;
+    case "paused":
+      return total ? `Paused, ${received} of ${total}` : `Paused, ${received}`;
+    case "completed":
+      return total ?? received;
+    case "cancelled":
+      return "Cancelled";
+    case "interrupted":
+      return "Failed";
+  }
+}
@@ -1,6 +1,7 @@
 import { AutocompleteResult } from "@/lib/omnibox/autocomplete-result";
 import { AutocompleteProvider } from "@/lib/omnibox/base-provider";
 import { OmniboxUpdateCallback } from "@/lib/omnibox/omnibox";
+import { SearchProvider } from "@/lib/omnibox/providers/search";
 import { ZeroSuggestProvider } from "@/lib/omnibox/providers/zero-suggest";
 import { AutocompleteInput, AutocompleteMatch } from "@/lib/omnibox/types";
 import { generateUUID } from "@/lib/utils";
@@ -46,6 +47,8 @@ export class AutocompleteController {
       this.providers.forEach((provider) => {
         // Don't run ZeroSuggestProvider on normal input
         if (provider instanceof ZeroSuggestProvider) return;
+        // Only search once a keyword was activated
+        if (input.keywordSearchEngine && !(provider instanceof SearchProvider)) return;
 
         // Maybe add more logic here: e.g., disable search provider if offline?
         this.activeProviders++;
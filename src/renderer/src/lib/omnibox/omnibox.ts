@@ -6,6 +6,7 @@ import { AutocompleteInput, AutocompleteMatch } from "@/lib/omnibox/types";
 import { ZeroSuggestProvider } from "@/lib/omnibox/providers/zero-suggest";
 import { OpenTabProvider } from "@/lib/omnibox/providers/open-tab";
 import { OmniboxPedalProvider } from "@/lib/omnibox/providers/pedal";
+import { SearchEngine } from "~/types/search-engines";
 
 /** Callback function type for notifying the UI/consumer about updated suggestions. */
 export type OmniboxUpdateCallback = (results: AutocompleteMatch[], continuous?: boolean) => void;
@@ -18,6 +19,7 @@ export type OmniboxCreateOptions = {
 export class Omnibox {
   private controller: AutocompleteController;
   private lastInputText: string = ""; // Track input to manage focus vs keystroke
+  private lastKeywordSearchEngine: SearchEngine | null = null;
 
   constructor(onUpdate: OmniboxUpdateCallback, options?: OmniboxCreateOptions) {
     // Instantiate providers based on the summary
@@ -44,32 +46,41 @@ export class Omnibox {
    * Call this when the user types in the Omnibox or focuses it.
    * @param text The current text in the Omnibox input field.
    * @param eventType Indicates if this was triggered by focusing the input or typing.
+   * @param keywordSearchEngine The search engine of the keyword the user activated, if any.
    */
-  public handleInput(text: string, eventType: "focus" | "keystroke"): void {
+  public handleInput(
+    text: string,
+    eventType: "focus" | "keystroke",
+    keywordSearchEngine: SearchEngine | null = null
+  ): void {
     const input: AutocompleteInput = {
       text: text,
-      type: eventType
+      type: eventType,
+      keywordSearchEngine: keywordSearchEngine ?? undefined
       // currentURL: // Could get the current tab's URL if needed
     };
+    const keywordChanged = keywordSearchEngine?.id !== this.lastKeywordSearchEngine?.id;
 
     // Basic logic to differentiate initial focus from subsequent keystrokes
     if (eventType === "focus" && text === this.lastInputText) {
       // If focused and text hasn't changed (e.g., clicking back into the bar)
       // Re-trigger with 'focus' type, especially important for ZeroSuggest
       this.controller.start(input);
-    } else if (text !== this.lastInputText || eventType === "focus") {
+    } else if (text !== this.lastInputText || keywordChanged || eventType === "focus") {
       // If text changed OR it's a focus event (even with same text initially)
       this.controller.start(input);
     }
     // Else: Keystroke didn't change text (e.g., arrow keys) - do nothing for now
 
     this.lastInputText = text;
+    this.lastKeywordSearchEngine = keywordSearchEngine;
   }
 
   /** Call this when the Omnibox is blurred or closed to clean up. */
   public stopQuery(): void {
     this.controller.stop();
     this.lastInputText = ""; // Reset last input on stop
+    this.lastKeywordSearchEngine = null;
   }
 
   public openMatch(autocompleteMatch: AutocompleteMatch, whereToOpen: "current" | "new_tab"): void {
@@ -83,6 +94,8 @@ export class Omnibox {
         flow.windows.openSettingsWindow();
       } else if (pedalAction === "open_new_window") {
         flow.browser.createWindow();
+      } else if (pedalAction === "open_private_window") {
+        flow.browser.createPrivateWindow();
       } else if (pedalAction === "open_extensions") {
         flow.tabs.newTab("flow://extensions", true);
       }
@@ -21,6 +21,11 @@ const PEDALS = [
     action: "open_new_window",
     description: "Open new window"
   },
+  {
+    triggers: ["private window", "new private window", "incognito", "new incognito window"],
+    action: "open_private_window",
+    description: "Open new private window"
+  },
   {
     triggers: ["extensions", "extension", "extension manager"],
     action: "open_extensions",
@@ -1,17 +1,24 @@
 import { BaseProvider } from "@/lib/omnibox/base-provider";
 import { OmniboxUpdateCallback } from "@/lib/omnibox/omnibox";
 import { AutocompleteInput, AutocompleteMatch } from "@/lib/omnibox/types";
-import { createSearchUrl, getSearchSuggestions } from "@/lib/search";
+import { createSearchUrl, ensureSearchEnginesLoaded, getDefaultSearchEngine, getSearchSuggestions } from "@/lib/search";
 import { getURLFromInput } from "@/lib/url";
 import { getStringSimilarity } from "@/lib/omnibox/data-providers/string-similarity";
+import { SearchEngine } from "~/types/search-engines";
 
 export class SearchProvider extends BaseProvider {
   name = "SearchProvider";
   private abortController: AbortController | null = null;
 
+  constructor() {
+    super();
+    // Keywords only work once the search engines have loaded
+    ensureSearchEnginesLoaded();
+  }
+
   // Fetching suggestions from selected search engine
-  private async fetchSuggestions(query: string, signal?: AbortSignal): Promise<string[]> {
-    const suggestions = await getSearchSuggestions(query, signal);
+  private async fetchSuggestions(query: string, searchEngine: SearchEngine, signal?: AbortSignal): Promise<string[]> {
+    const suggestions = await getSearchSuggestions(query, signal, searchEngine);
     return suggestions;
   }
 
@@ -25,14 +32,18 @@ export class SearchProvider extends BaseProvider {
     }
 
     const url = getURLFromInput(inputText);
+    // An activated keyword searches with its search engine instead, e.g. `gh` and Tab
+    const keywordSearchEngine = input.keywordSearchEngine;
+    const searchEngine = keywordSearchEngine ?? getDefaultSearchEngine();
 
     // Add the verbatim search immediately
     const verbatimMatch: AutocompleteMatch = {
       providerName: this.name,
-      relevance: url ? 1250 : 1300, // High score to appear near top, but below strong nav
+      // High score to appear near top, but below strong nav. Keywords are above everything, as they were activated on purpose
+      relevance: keywordSearchEngine ? 1600 : url ? 1250 : 1300,
       contents: inputText,
-      description: `Search for "${inputText}"`, // Or search engine name
-      destinationUrl: createSearchUrl(inputText),
+      description: `Search ${searchEngine.name} for "${inputText}"`,
+      destinationUrl: createSearchUrl(inputText, searchEngine),
       type: "verbatim", // Special type for clarity, often treated as search
       isDefault: true // Usually the fallback default action
     };
@@ -42,7 +53,7 @@ export class SearchProvider extends BaseProvider {
     this.abortController = new AbortController();
     const abortSignal = this.abortController.signal;
 
-    this.fetchSuggestions(inputText, abortSignal)
+    this.fetchSuggestions(inputText, searchEngine, abortSignal)
       .then((suggestions) => {
         if (abortSignal.aborted) return;
 
@@ -57,7 +68,7 @@ export class SearchProvider extends BaseProvider {
 
           // Check if suggestion looks like a URL (navigational suggestion)
           const type: AutocompleteMatch["type"] = "search-query";
-          const destinationUrl = createSearchUrl(suggestion);
+          const destinationUrl = createSearchUrl(suggestion, searchEngine);
 
           results.push({
             providerName: this.name,
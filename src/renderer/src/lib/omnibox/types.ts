@@ -1,9 +1,12 @@
+import { SearchEngine } from "~/types/search-engines";
+
 /** Represents the input state for an autocomplete query. */
 export interface AutocompleteInput {
   text: string; // The text entered by the user
   currentURL?: string; // The URL of the current page (context)
   type: "focus" | "keystroke"; // Why the query is being run
   preventInlineAutocomplete?: boolean; // Hint to providers
+  keywordSearchEngine?: SearchEngine; // The search engine of a keyword that was activated with Tab
 }
 
 /** Represents a single autocomplete suggestion. */
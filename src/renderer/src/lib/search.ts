@@ -1,30 +1,83 @@
-export function createSearchUrl(query: string) {
-  return `https://www.google.com/search?q=${encodeURIComponent(query)}`;
+import { SearchEngine } from "~/types/search-engines";
+
+const QUERY_PLACEHOLDER = "%s";
+
+// Used until the search engines have loaded
+const FALLBACK_SEARCH_ENGINE: SearchEngine = {
+  id: "google",
+  name: "Google",
+  keyword: "google",
+  searchUrl: "https://www.google.com/search?q=%s",
+  suggestUrl: "https://suggestqueries.google.com/complete/search?client=chrome&q=%s",
+  builtIn: true
+};
+
+let searchEngines: SearchEngine[] = [];
+let defaultSearchEngine: SearchEngine = FALLBACK_SEARCH_ENGINE;
+let searchEnginesLoaded = false;
+
+async function loadSearchEngines() {
+  [searchEngines, defaultSearchEngine] = await Promise.all([
+    flow.searchEngines.getSearchEngines(),
+    flow.searchEngines.getDefaultSearchEngine()
+  ]);
 }
 
-type SearchSuggestions = string[];
+/**
+ * Loads the search engines once, and keeps them up to date afterwards
+ */
+export function ensureSearchEnginesLoaded() {
+  if (searchEnginesLoaded) return;
+  searchEnginesLoaded = true;
 
-interface GoogleSuggestResponse {
-  0: string; // Original query
-  1: string[]; // Suggested queries
-  2: string[]; // Description/unused array
-  3: unknown[]; // Unknown/unused array
-  4: {
-    // Metadata
-    "google:clientdata": {
-      bpc: boolean;
-      tlw: boolean;
-    };
-    "google:suggestrelevance": number[];
-    "google:suggestsubtypes": number[][];
-    "google:suggesttype": string[];
-    "google:verbatimrelevance": number;
-  };
+  try {
+    loadSearchEngines().catch((error) => console.error("Failed to load search engines:", error));
+    flow.searchEngines.onSearchEnginesChanged(() => {
+      loadSearchEngines().catch((error) => console.error("Failed to load search engines:", error));
+    });
+  } catch (error) {
+    console.error("Failed to load search engines:", error);
+  }
 }
 
-export async function getSearchSuggestions(query: string, signal?: AbortSignal): Promise<SearchSuggestions> {
-  const baseURL = `https://suggestqueries.google.com/complete/search?client=chrome&q=${encodeURIComponent(query)}`;
-  const response = await fetch(baseURL, { signal });
-  const data = (await response.json()) as GoogleSuggestResponse;
-  return data[1];
+export function getDefaultSearchEngine() {
+  ensureSearchEnginesLoaded();
+  return defaultSearchEngine;
+}
+
+/**
+ * Gets the search engine of a keyword, like `gh` for GitHub
+ * The omnibox only searches with it once the keyword is activated with Tab, so searches that start with a keyword are left alone.
+ * @returns The search engine, or null if no search engine has the keyword
+ */
+export function getSearchEngineByKeyword(keyword: string): SearchEngine | null {
+  ensureSearchEnginesLoaded();
+
+  const normalizedKeyword = keyword.trim().toLowerCase();
+  if (!normalizedKeyword) return null;
+
+  return searchEngines.find((engine) => engine.keyword === normalizedKeyword) ?? null;
+}
+
+export function createSearchUrl(query: string, searchEngine: SearchEngine = getDefaultSearchEngine()) {
+  return searchEngine.searchUrl.replaceAll(QUERY_PLACEHOLDER, encodeURIComponent(query));
+}
+
+type SearchSuggestions = string[];
+
+// Suggestions in the OpenSearch format
+// Google adds more arrays with metadata, which are not used.
+type OpenSearchSuggestResponse = [string, string[], ...unknown[]];
+
+export async function getSearchSuggestions(
+  query: string,
+  signal?: AbortSignal,
+  searchEngine: SearchEngine = getDefaultSearchEngine()
+): Promise<SearchSuggestions> {
+  if (!searchEngine.suggestUrl) return [];
+
+  const suggestURL = searchEngine.suggestUrl.replaceAll(QUERY_PLACEHOLDER, encodeURIComponent(query));
+  const response = await fetch(suggestURL, { signal });
+  const data = (await response.json()) as OpenSearchSuggestResponse;
+  return Array.isArray(data[1]) ? data[1] : [];
 }
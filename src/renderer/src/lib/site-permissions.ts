@@ -0,0 +1,20 @@
+import { SitePermission, SitePermissionState } from "~/types/permissions";
+
+export const SITE_PERMISSION_LABELS: Record<SitePermission, string> = {
+  camera: "Camera",
+  microphone: "Microphone",
+  geolocation: "Location",
+  notifications: "Notifications",
+  "clipboard-read": "Clipboard",
+  "midi-sysex": "MIDI devices",
+  "idle-detection": "Idle detection",
+  "window-management": "Window management"
+};
+
+export const SITE_PERMISSION_STATE_LABELS: Record<SitePermissionState, string> = {
+  ask: "Ask",
+  allow: "Allow",
+  block: "Block"
+};
+
+export const SITE_PERMISSIONS = Object.keys(SITE_PERMISSION_LABELS) as SitePermission[];
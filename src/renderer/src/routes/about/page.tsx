@@ -4,7 +4,18 @@ import { motion } from "motion/react";
 import { copyTextToClipboard } from "@/lib/utils";
 
 function Page() {
-  const hostnames = ["about", "new-tab", "games", "omnibox", "error", "extensions"];
+  const hostnames = [
+    "about",
+    "new-tab",
+    "games",
+    "omnibox",
+    "error",
+    "extensions",
+    "history",
+    "archive",
+    "snoozed",
+    "downloads"
+  ];
 
   return (
     <div className="w-screen h-screen bg-background p-8 flex flex-col items-center">
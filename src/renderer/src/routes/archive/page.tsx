@@ -0,0 +1,173 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { WebsiteFavicon } from "@/components/main/website-favicon";
+import { motion } from "motion/react";
+import { useEffect, useMemo, useState } from "react";
+import { ArchiveRestoreIcon, SearchIcon, Trash2Icon, XIcon } from "lucide-react";
+import { toast } from "sonner";
+import { ArchivedTabData } from "~/types/tabs";
+import { Space } from "~/flow/interfaces/sessions/spaces";
+
+function formatArchivedAt(archivedAt: number): string {
+  return new Date(archivedAt * 1000).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+}
+
+function matchesSearch(archivedTab: ArchivedTabData, searchText: string): boolean {
+  const words = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${archivedTab.title} ${archivedTab.url}`.toLowerCase();
+  return words.every((word) => haystack.includes(word));
+}
+
+function ArchivePage() {
+  const [archivedTabs, setArchivedTabs] = useState<ArchivedTabData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [spaces, setSpaces] = useState<Map<string, Space>>(new Map());
+  const [searchText, setSearchText] = useState("");
+
+  useEffect(() => {
+    const loadArchivedTabs = async () => {
+      const archivedTabs = await flow.archive.getArchivedTabs();
+      setArchivedTabs(archivedTabs);
+      setIsLoading(false);
+    };
+    loadArchivedTabs();
+
+    const loadSpaces = async () => {
+      const profileId = await flow.profiles.getUsingProfile();
+      if (!profileId) return;
+
+      const spaces = await flow.spaces.getSpacesFromProfile(profileId);
+      setSpaces(new Map(spaces.map((space) => [space.id, space])));
+    };
+    loadSpaces();
+
+    return flow.archive.onArchiveChanged(loadArchivedTabs);
+  }, []);
+
+  const filteredTabs = useMemo(
+    () => archivedTabs.filter((archivedTab) => matchesSearch(archivedTab, searchText)),
+    [archivedTabs, searchText]
+  );
+
+  const restoreTab = async (archivedTab: ArchivedTabData) => {
+    const success = await flow.archive.restoreTab(archivedTab.uniqueId);
+    if (!success) {
+      toast.error("Failed to restore this tab!");
+    }
+  };
+
+  const removeTab = async (archivedTab: ArchivedTabData) => {
+    const success = await flow.archive.removeTab(archivedTab.uniqueId);
+    if (!success) {
+      toast.error("Failed to remove this tab from the archive!");
+    }
+  };
+
+  const clearArchive = async () => {
+    const success = await flow.archive.clear();
+    if (success) {
+      toast.success("The archive has been cleared!");
+    } else {
+      toast.error("Failed to clear the archive!");
+    }
+  };
+
+  return (
+    <div className="w-screen h-screen bg-background p-8 overflow-y-auto">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-4xl mx-auto"
+      >
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Archived Tabs</h1>
+            <p className="text-muted-foreground mt-1">Tabs that were archived after being inactive</p>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={clearArchive} disabled={archivedTabs.length === 0}>
+            <Trash2Icon size={16} />
+            Clear archive
+          </Button>
+        </div>
+
+        <div className="relative mb-4">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            value={searchText}
+            onChange={(event) => setSearchText(event.target.value)}
+            placeholder="Search archived tabs"
+            className="pl-9"
+          />
+        </div>
+
+        <Card className="border-border">
+          <CardContent className="space-y-0.5">
+            {filteredTabs.map((archivedTab) => (
+              <div
+                key={archivedTab.uniqueId}
+                className="group flex items-center gap-3 px-3 py-2 rounded-md hover:bg-muted/60 transition-colors"
+              >
+                <WebsiteFavicon
+                  url={archivedTab.url}
+                  favicon={archivedTab.faviconURL || undefined}
+                  className="size-4 shrink-0"
+                />
+                <div className="flex-1 min-w-0 flex items-baseline gap-2" title={archivedTab.url}>
+                  <span className="truncate text-sm text-foreground">{archivedTab.title || archivedTab.url}</span>
+                  <span className="truncate text-xs text-muted-foreground">{archivedTab.url}</span>
+                </div>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {spaces.get(archivedTab.spaceId)?.name ?? "Deleted space"}
+                </span>
+                <span className="w-28 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+                  {formatArchivedAt(archivedTab.archivedAt)}
+                </span>
+                <Button variant="ghost" size="sm" className="gap-1" onClick={() => restoreTab(archivedTab)}>
+                  <ArchiveRestoreIcon className="size-4" />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7 opacity-0 group-hover:opacity-100"
+                  onClick={() => removeTab(archivedTab)}
+                >
+                  <XIcon className="size-4" />
+                </Button>
+              </div>
+            ))}
+
+            {!isLoading && filteredTabs.length === 0 && (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium mb-2">{searchText ? "No matching tabs" : "No archived tabs"}</h3>
+                <p className="text-muted-foreground">
+                  {searchText
+                    ? "Try searching for something else"
+                    : "Inactive tabs will be archived here based on your settings"}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
+
+function App() {
+  return (
+    <>
+      <title>Archived Tabs</title>
+      <ArchivePage />
+    </>
+  );
+}
+
+export default App;
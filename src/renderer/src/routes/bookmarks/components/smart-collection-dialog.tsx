@@ -0,0 +1,449 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useEffect, useState } from "react";
+import { ListPlusIcon, PlusIcon, XIcon } from "lucide-react";
+import { toast } from "sonner";
+import { BookmarkCollection, CollectionRule, CollectionRuleCondition, CollectionRuleGroup } from "~/types/bookmarks";
+import { Space } from "~/flow/interfaces/sessions/spaces";
+
+// Nested groups deeper than this get hard to read, so no more groups can be added below it
+const MAX_GROUP_DEPTH = 2;
+
+const LABEL_SUGGESTIONS_ID = "smart-collection-labels";
+
+const CONDITION_LABELS: Record<CollectionRuleCondition["type"], string> = {
+  label: "Label",
+  host: "Website",
+  dateAdded: "Date added",
+  visitCount: "Visit count",
+  space: "Space"
+};
+
+function createCondition(type: CollectionRuleCondition["type"]): CollectionRuleCondition {
+  switch (type) {
+    case "label":
+      return { type: "label", operator: "contains", value: "" };
+    case "host":
+      return { type: "host", operator: "matches", value: "" };
+    case "dateAdded":
+      return { type: "dateAdded", withinDays: 30 };
+    case "visitCount":
+      return { type: "visitCount", operator: "atLeast", value: 5 };
+    case "space":
+      return { type: "space", spaceId: "" };
+  }
+}
+
+function createGroup(): CollectionRuleGroup {
+  return { type: "group", operator: "and", rules: [createCondition("host")] };
+}
+
+function isRuleComplete(rule: CollectionRule): boolean {
+  switch (rule.type) {
+    case "group":
+      return rule.rules.length > 0 && rule.rules.every(isRuleComplete);
+    case "label":
+    case "host":
+      return rule.value.trim().length > 0;
+    case "dateAdded":
+      return [rule.after, rule.before, rule.withinDays].some((value) => typeof value === "number");
+    case "visitCount":
+      return Number.isFinite(rule.value) && rule.value >= 0;
+    case "space":
+      return rule.spaceId.length > 0;
+  }
+}
+
+function toDateInputValue(time?: number): string {
+  if (typeof time !== "number") return "";
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromDateInputValue(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+type ConditionEditorProps = {
+  condition: CollectionRuleCondition;
+  spaces: Space[];
+  onChange: (condition: CollectionRuleCondition) => void;
+};
+
+function ConditionEditor({ condition, spaces, onChange }: ConditionEditorProps) {
+  switch (condition.type) {
+    case "label":
+      return (
+        <>
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) => onChange({ ...condition, operator: operator as typeof condition.operator })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="contains">contains</SelectItem>
+              <SelectItem value="equals">is</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={condition.value}
+            onChange={(event) => onChange({ ...condition, value: event.target.value })}
+            placeholder="project:x"
+            list={LABEL_SUGGESTIONS_ID}
+            className="flex-1"
+          />
+        </>
+      );
+
+    case "host":
+      return (
+        <>
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) => onChange({ ...condition, operator: operator as typeof condition.operator })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="matches">is on</SelectItem>
+              <SelectItem value="contains">contains</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={condition.value}
+            onChange={(event) => onChange({ ...condition, value: event.target.value })}
+            placeholder="github.com"
+            className="flex-1"
+          />
+        </>
+      );
+
+    case "dateAdded": {
+      const isRelative = typeof condition.withinDays === "number";
+      return (
+        <>
+          <Select
+            value={isRelative ? "relative" : "range"}
+            onValueChange={(mode) =>
+              onChange(mode === "relative" ? { type: "dateAdded", withinDays: 30 } : { type: "dateAdded" })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="relative">in the last</SelectItem>
+              <SelectItem value="range">between</SelectItem>
+            </SelectContent>
+          </Select>
+          {isRelative ? (
+            <div className="flex flex-1 items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={condition.withinDays}
+                onChange={(event) =>
+                  onChange({ type: "dateAdded", withinDays: Math.max(1, Number(event.target.value)) })
+                }
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">days</span>
+            </div>
+          ) : (
+            <div className="flex flex-1 items-center gap-2">
+              <Input
+                type="date"
+                value={toDateInputValue(condition.after)}
+                onChange={(event) => onChange({ ...condition, after: fromDateInputValue(event.target.value, false) })}
+              />
+              <span className="text-sm text-muted-foreground">and</span>
+              <Input
+                type="date"
+                value={toDateInputValue(condition.before)}
+                onChange={(event) => onChange({ ...condition, before: fromDateInputValue(event.target.value, true) })}
+              />
+            </div>
+          )}
+        </>
+      );
+    }
+
+    case "visitCount":
+      return (
+        <>
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) => onChange({ ...condition, operator: operator as typeof condition.operator })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="atLeast">at least</SelectItem>
+              <SelectItem value="atMost">at most</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            value={condition.value}
+            onChange={(event) => onChange({ ...condition, value: Math.max(0, Number(event.target.value)) })}
+            className="flex-1"
+          />
+        </>
+      );
+
+    case "space":
+      return (
+        <Select value={condition.spaceId} onValueChange={(spaceId) => onChange({ ...condition, spaceId })}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose a space" />
+          </SelectTrigger>
+          <SelectContent>
+            {spaces.map((space) => (
+              <SelectItem key={space.id} value={space.id}>
+                {space.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+  }
+}
+
+type RuleGroupEditorProps = {
+  group: CollectionRuleGroup;
+  depth: number;
+  spaces: Space[];
+  onChange: (group: CollectionRuleGroup) => void;
+  onRemove?: () => void;
+};
+
+function RuleGroupEditor({ group, depth, spaces, onChange, onRemove }: RuleGroupEditorProps) {
+  const updateRule = (index: number, rule: CollectionRule) => {
+    onChange({ ...group, rules: group.rules.map((existing, i) => (i === index ? rule : existing)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  const addRule = (rule: CollectionRule) => {
+    onChange({ ...group, rules: [...group.rules, rule] });
+  };
+
+  return (
+    <div className={depth > 0 ? "space-y-2 rounded-md border border-border p-3" : "space-y-2"}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Match</span>
+        <Select
+          value={group.operator}
+          onValueChange={(operator) => onChange({ ...group, operator: operator as CollectionRuleGroup["operator"] })}
+        >
+          <SelectTrigger className="w-24" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="flex-1 text-muted-foreground">of the following</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="size-7" title="Remove group" onClick={onRemove}>
+            <XIcon className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) =>
+        rule.type === "group" ? (
+          <RuleGroupEditor
+            key={index}
+            group={rule}
+            depth={depth + 1}
+            spaces={spaces}
+            onChange={(updated) => updateRule(index, updated)}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={rule.type}
+              onValueChange={(type) => updateRule(index, createCondition(type as CollectionRuleCondition["type"]))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ConditionEditor condition={rule} spaces={spaces} onChange={(condition) => updateRule(index, condition)} />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7 shrink-0"
+              title="Remove condition"
+              onClick={() => removeRule(index)}
+            >
+              <XIcon className="size-4" />
+            </Button>
+          </div>
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => addRule(createCondition("label"))}>
+          <PlusIcon className="size-4" />
+          Add condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button variant="ghost" size="sm" className="gap-1" onClick={() => addRule(createGroup())}>
+            <ListPlusIcon className="size-4" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type SmartCollectionDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The smart collection to edit, or null to create a new one
+  collection: BookmarkCollection | null;
+  labelSuggestions: string[];
+  onSaved: (collection: BookmarkCollection) => void;
+};
+
+export function SmartCollectionDialog({
+  open,
+  onOpenChange,
+  collection,
+  labelSuggestions,
+  onSaved
+}: SmartCollectionDialogProps) {
+  const [name, setName] = useState("");
+  const [rules, setRules] = useState<CollectionRuleGroup>(createGroup);
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(collection?.name ?? "");
+    setRules(collection?.rules ?? createGroup());
+  }, [open, collection]);
+
+  useEffect(() => {
+    const loadSpaces = async () => {
+      const profileId = await flow.profiles.getUsingProfile();
+      if (!profileId) return;
+
+      setProfileId(profileId);
+      setSpaces(await flow.spaces.getSpacesFromProfile(profileId));
+    };
+    loadSpaces();
+  }, []);
+
+  const canSave = name.trim().length > 0 && isRuleComplete(rules) && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      const saved = collection
+        ? await flow.bookmarks.collections.update(collection.id, { name: name.trim(), isAuto: true, rules })
+        : await flow.bookmarks.collections.create({
+            name: name.trim(),
+            profileId: profileId ?? "default-profile",
+            isAuto: true,
+            rules
+          });
+
+      if (!saved) {
+        toast.error("Failed to save the smart collection!");
+        return;
+      }
+
+      toast.success(collection ? "Smart collection updated" : "Smart collection created");
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save smart collection:", error);
+      toast.error("Failed to save the smart collection!");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{collection ? "Edit Smart Collection" : "New Smart Collection"}</DialogTitle>
+          <DialogDescription>
+            Bookmarks that match these rules show up in the collection automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="smartCollectionName" className="text-sm font-medium">
+              Name *
+            </label>
+            <Input
+              id="smartCollectionName"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Docs for project X"
+              className="mt-1"
+            />
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto">
+            <RuleGroupEditor group={rules} depth={0} spaces={spaces} onChange={setRules} />
+          </div>
+
+          <datalist id={LABEL_SUGGESTIONS_ID}>
+            {labelSuggestions.map((label) => (
+              <option key={label} value={label} />
+            ))}
+          </datalist>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isSaving ? "Saving..." : collection ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,13 +27,20 @@ import {
   ChevronRight,
   Pencil,
   Sparkles,
-  FileText
+  FileText,
+  AlarmClock,
+  ListFilter,
+  Download,
+  Globe
 } from "lucide-react";
 import {
   ContextMenu,
   ContextMenuContent,
   ContextMenuItem,
   ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
 import {
@@ -42,12 +49,16 @@ import {
   HoverCardTrigger,
 } from "@/components/ui/hover-card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
-import { Bookmark, BookmarkCollection, BookmarkFilter, ImportStats } from "~/types/bookmarks";
+import { Bookmark, BookmarkCollection, BookmarkExportFormat, BookmarkFilter, BookmarkImportRequest, BookmarkImportSource, BookmarkSearchResult, BookmarkSemanticResult, ImportStats, SearchHighlight } from "~/types/bookmarks";
+import { SnoozeType } from "~/types/snooze";
 import { useAIAnalysis } from "../../hooks/use-ai-analysis";
 import { AIReviewPanel } from "../../components/ai/ai-review-panel";
+import { SmartCollectionDialog } from "./components/smart-collection-dialog";
+import { useDebounce } from "@/hooks/use-debounce";
 // Removed AI card components - using auto-apply with toast undo instead
 import {
   DndContext,
@@ -69,7 +80,16 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 
 type ViewMode = 'card' | 'list' | 'grid';
-type SortBy = 'dateAdded' | 'title' | 'visitCount' | 'lastVisited';
+type SortBy = 'relevance' | 'dateAdded' | 'title' | 'visitCount' | 'lastVisited';
+
+const EXPORT_FORMATS: { format: BookmarkExportFormat; label: string; mimeType: string }[] = [
+  { format: 'html', label: 'HTML (Netscape / Chrome)', mimeType: 'text/html' },
+  { format: 'json', label: 'JSON (with labels)', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV (spreadsheet)', mimeType: 'text/csv' }
+];
+
+// Search results are ranked in the backend, so the page only asks for this many
+const SEARCH_RESULT_LIMIT = 1000;
 
 // Folder Context Menu Component  
 function FolderContextMenu({ 
@@ -77,13 +97,15 @@ function FolderContextMenu({
   children, 
   onCreateChildFolder,
   onRenameFolder,
-  onDeleteFolder
+  onDeleteFolder,
+  onEditRules
 }: { 
   folder: BookmarkCollection; 
   children: React.ReactNode;
   onCreateChildFolder: (parentFolder: BookmarkCollection) => void;
   onRenameFolder: (folder: BookmarkCollection) => void;
   onDeleteFolder: (folder: BookmarkCollection) => void;
+  onEditRules: (folder: BookmarkCollection) => void;
 }) {
   const handleCreateChildFolder = () => {
     onCreateChildFolder(folder);
@@ -99,6 +121,12 @@ function FolderContextMenu({
           <FolderPlus className="h-4 w-4 mr-2" />
           New Subfolder
         </ContextMenuItem>
+        {folder.isAuto && (
+          <ContextMenuItem onClick={() => onEditRules(folder)}>
+            <ListFilter className="h-4 w-4 mr-2" />
+            Edit Rules
+          </ContextMenuItem>
+        )}
         <ContextMenuSeparator />
         <ContextMenuItem onClick={() => onRenameFolder(folder)}>
           <Edit3 className="h-4 w-4 mr-2" />
@@ -122,6 +150,7 @@ function FolderItem({
   onCreateChildFolder,
   onRenameFolder,
   onDeleteFolder,
+  onEditRules,
   isSelected,
   onSelect,
   folderInfo
@@ -130,6 +159,7 @@ function FolderItem({
   onCreateChildFolder: (parentFolder: BookmarkCollection) => void;
   onRenameFolder: (folder: BookmarkCollection) => void;
   onDeleteFolder: (folder: BookmarkCollection) => void;
+  onEditRules: (folder: BookmarkCollection) => void;
   isSelected: boolean;
   onSelect: () => void;
   folderInfo: any;
@@ -137,6 +167,8 @@ function FolderItem({
   const droppableId = `folder-${folder.id}`;
   const { isOver, setNodeRef } = useDroppable({
     id: droppableId,
+    // Smart collections are filled by their rules, not by dropping bookmarks
+    disabled: folder.isAuto,
     data: {
       type: 'folder',
       folderId: folder.id,
@@ -156,6 +188,7 @@ function FolderItem({
         onCreateChildFolder={onCreateChildFolder}
         onRenameFolder={onRenameFolder}
         onDeleteFolder={onDeleteFolder}
+        onEditRules={onEditRules}
       >
         <div className="flex items-center group">
           <button
@@ -166,7 +199,11 @@ function FolderItem({
             onClick={onSelect}
             title={folderInfo.isSubfolder ? `Subfolder (depth ${folderInfo.depth})` : folder.name}
           >
-            <Folder className={`h-4 w-4 ${folderInfo.isSubfolder ? 'text-muted-foreground' : ''}`} />
+            {folder.isAuto ? (
+              <ListFilter className={`h-4 w-4 ${folderInfo.isSubfolder ? 'text-muted-foreground' : ''}`} />
+            ) : (
+              <Folder className={`h-4 w-4 ${folderInfo.isSubfolder ? 'text-muted-foreground' : ''}`} />
+            )}
             <span className={`flex-1 text-left truncate ${folderInfo.isSubfolder ? 'text-muted-foreground' : ''}`}>
               {folderInfo.displayName}
             </span>
@@ -301,6 +338,23 @@ const getFolderDisplayInfo = (folder: BookmarkCollection): { isSubfolder: boolea
   };
 };
 
+// Renders text from a search result with its matching parts highlighted
+function HighlightedText({ segments, className }: { segments: SearchHighlight[]; className?: string }) {
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
+
 // Utility function to format URLs for display
 const formatUrlForDisplay = (url: string, maxLength: number = 50): string => {
   try {
@@ -349,6 +403,8 @@ function BookmarksPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('card');
   const [sortBy, setSortBy] = useState<SortBy>('dateAdded');
   const [searchQuery, setSearchQuery] = useState('');
+  const debouncedSearchQuery = useDebounce(searchQuery, 200);
+  const [searchResults, setSearchResults] = useState<Map<string, BookmarkSearchResult> | null>(null);
   const [selectedBookmarks, setSelectedBookmarks] = useState<Set<string>>(new Set());
   const [lastClickedBookmarkId, setLastClickedBookmarkId] = useState<string | null>(null);
   const [lastAction, setLastAction] = useState<'select' | 'deselect' | null>(null);
@@ -359,9 +415,11 @@ function BookmarksPage() {
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [importStats, setImportStats] = useState<ImportStats | null>(null);
+  const [importSources, setImportSources] = useState<BookmarkImportSource[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
   const [selectedBookmarkInfo, setSelectedBookmarkInfo] = useState<Bookmark | null>(null);
   const [showInfoPanel, setShowInfoPanel] = useState(false);
+  const [relatedBookmarks, setRelatedBookmarks] = useState<BookmarkSemanticResult[]>([]);
   const [folders, setFolders] = useState<BookmarkCollection[]>([]);
   const [deletedFolders, setDeletedFolders] = useState<BookmarkCollection[]>([]);
   const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
@@ -377,6 +435,10 @@ function BookmarksPage() {
   const [folderToDelete, setFolderToDelete] = useState<BookmarkCollection | null>(null);
   const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
   const [editingFolderName, setEditingFolderName] = useState('');
+  const [bookmarkToSnooze, setBookmarkToSnooze] = useState<Bookmark | null>(null);
+  const [customSnoozeTime, setCustomSnoozeTime] = useState('');
+  const [showSmartCollectionDialog, setShowSmartCollectionDialog] = useState(false);
+  const [smartCollectionToEdit, setSmartCollectionToEdit] = useState<BookmarkCollection | null>(null);
 
   // Drag and drop state
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -622,6 +684,55 @@ function BookmarksPage() {
 
   // Description generation functionality removed - keeping simple
 
+  // Exports the bookmarks in the current view, including the selected folder
+  const handleExport = async ({ format, mimeType }: typeof EXPORT_FORMATS[number]) => {
+    try {
+      const content = await flow.bookmarks.export(format, showDeleted ? { onlyDeleted: true } : filter);
+      const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `bookmarks-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      
+      toast.success('Bookmarks exported');
+    } catch (error) {
+      console.error('Failed to export bookmarks:', error);
+      toast.error('Failed to export bookmarks');
+    }
+  };
+
+  // Fetches the page of a bookmark, so its content can be searched
+  const handleIndexContent = async (bookmark: Bookmark) => {
+    try {
+      const indexed = await flow.bookmarks.indexContent(bookmark.id);
+      if (indexed) {
+        toast.success('Page content added to search');
+      } else {
+        toast.error('Could not fetch the page content');
+      }
+    } catch (error) {
+      console.error('Failed to index bookmark content:', error);
+      toast.error('Could not fetch the page content');
+    }
+  };
+
+  const handleSnoozeBookmark = async (bookmark: Bookmark, snoozeType: SnoozeType, customTime?: number) => {
+    try {
+      const snoozedItem = await flow.snooze.snoozeBookmark(bookmark.id, snoozeType, customTime);
+      if (snoozedItem) {
+        toast.success(`Snoozed until ${snoozedItem.snoozeLabel}`);
+      } else {
+        toast.error('Failed to snooze bookmark');
+      }
+    } catch (error) {
+      console.error('Failed to snooze bookmark:', error);
+      toast.error('Failed to snooze bookmark');
+    }
+  };
+
   // Context menu component for bookmarks
   const BookmarkContextMenu = ({ bookmark, children }: { bookmark: Bookmark; children: React.ReactNode }) => (
     <ContextMenu>
@@ -643,12 +754,44 @@ function BookmarksPage() {
           <Link className="h-4 w-4 mr-2" />
           Copy URL
         </ContextMenuItem>
+        {!showDeleted && (
+          <ContextMenuItem onClick={() => handleIndexContent(bookmark)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Index page for search
+          </ContextMenuItem>
+        )}
         <ContextMenuItem onClick={() => {
           toast.info('Edit functionality coming soon!');
         }}>
           <Edit3 className="h-4 w-4 mr-2" />
           Edit bookmark
         </ContextMenuItem>
+        {!showDeleted && (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <AlarmClock className="h-4 w-4 mr-2" />
+              Snooze
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent>
+              <ContextMenuItem onClick={() => handleSnoozeBookmark(bookmark, 'later_today')}>
+                Later today
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => handleSnoozeBookmark(bookmark, 'tomorrow')}>
+                Tomorrow
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => handleSnoozeBookmark(bookmark, 'next_week')}>
+                Next week
+              </ContextMenuItem>
+              <ContextMenuSeparator />
+              <ContextMenuItem onClick={() => {
+                setCustomSnoozeTime('');
+                setBookmarkToSnooze(bookmark);
+              }}>
+                Pick a date...
+              </ContextMenuItem>
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
         {isAIEnabled && (
           <>
             <ContextMenuItem onSelect={async () => {
@@ -785,6 +928,37 @@ function BookmarksPage() {
     aiAnalysis.checkAIStatus();
   }, []);
 
+  // Rank and highlight search results with the full-text search index
+  useEffect(() => {
+    if (!debouncedSearchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    flow.bookmarks.search(debouncedSearchQuery, showDeleted ? { onlyDeleted: true } : filter, SEARCH_RESULT_LIMIT)
+      .then(results => {
+        if (!cancelled) {
+          setSearchResults(new Map(results.map(result => [result.bookmark.id, result])));
+        }
+      })
+      .catch(error => console.error('Failed to search bookmarks:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearchQuery, filter, showDeleted, bookmarks, deletedBookmarks]);
+
+  const handleSearchChange = (value: string) => {
+    // Searches are sorted by relevance, unless another sort is picked
+    if (!searchQuery && value && sortBy === 'dateAdded') {
+      setSortBy('relevance');
+    } else if (!value && sortBy === 'relevance') {
+      setSortBy('dateAdded');
+    }
+    setSearchQuery(value);
+  };
+
   // Filter and sort bookmarks
   const filteredBookmarks = useMemo(() => {
     let filtered = showDeleted ? deletedBookmarks : bookmarks;
@@ -796,7 +970,10 @@ function BookmarksPage() {
     }
     
     // Search filter
-    if (searchQuery) {
+    if (searchQuery && searchResults) {
+      filtered = filtered.filter(bookmark => searchResults.has(bookmark.id));
+    } else if (searchQuery) {
+      // Until the search index responds
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(bookmark => 
         bookmark.title.toLowerCase().includes(query) ||
@@ -816,6 +993,11 @@ function BookmarksPage() {
     // Sort
     filtered.sort((a, b) => {
       switch (sortBy) {
+        case 'relevance':
+          if (searchResults) {
+            return (searchResults.get(a.id)?.rank ?? 0) - (searchResults.get(b.id)?.rank ?? 0);
+          }
+          return new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime();
         case 'title':
           return a.title.localeCompare(b.title);
         case 'visitCount':
@@ -831,7 +1013,7 @@ function BookmarksPage() {
     });
 
     return filtered;
-  }, [bookmarks, deletedBookmarks, showDeleted, searchQuery, sortBy, activeView, minVisitCount, activeLabelFilter]);
+  }, [bookmarks, deletedBookmarks, showDeleted, searchQuery, searchResults, sortBy, activeView, minVisitCount, activeLabelFilter]);
 
 
   const handleDeleteSelected = async () => {
@@ -863,6 +1045,25 @@ function BookmarksPage() {
     setShowInfoPanel(true);
   };
 
+  // Related bookmarks of the info panel, found through their embeddings
+  useEffect(() => {
+    setRelatedBookmarks([]);
+    if (!selectedBookmarkInfo) return;
+
+    let cancelled = false;
+    flow.bookmarks.getRelated(selectedBookmarkInfo.id)
+      .then(results => {
+        if (!cancelled) {
+          setRelatedBookmarks(results);
+        }
+      })
+      .catch(error => console.error('Failed to get related bookmarks:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBookmarkInfo]);
+
   // Labels sidebar handlers
   const handleClearLabelFilter = () => {
     setActiveLabelFilter(null);
@@ -919,10 +1120,15 @@ function BookmarksPage() {
     }
   };
 
-  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Load the browsers bookmarks can be imported from when the dialog opens
+  useEffect(() => {
+    if (!showImportDialog) return;
+    flow.bookmarks.getImportSources()
+      .then(setImportSources)
+      .catch(error => console.error('Failed to detect browsers:', error));
+  }, [showImportDialog]);
 
+  const runImport = async (request: BookmarkImportRequest) => {
     // For now, we'll use default profile and space IDs
     // In a real app, these would come from the browser context
     const defaultProfileId = 'default-profile';
@@ -932,47 +1138,95 @@ function BookmarksPage() {
     setImportProgress(0);
     setImportStats(null);
 
-    try {
-      const content = await file.text();
-      
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setImportProgress(prev => Math.min(prev + 10, 90));
-      }, 100);
+    // Simulate progress
+    const progressInterval = setInterval(() => {
+      setImportProgress(prev => Math.min(prev + 10, 90));
+    }, 100);
 
-      const stats = await flow.bookmarks.importChrome(
-        content, 
+    let stats: ImportStats | null = null;
+    try {
+      stats = await flow.bookmarks.import(
+        request,
         defaultProfileId, 
         defaultSpaceId
       );
 
-      clearInterval(progressInterval);
       setImportProgress(100);
       setImportStats(stats);
       
-      // Refresh bookmarks list
+      // Refresh bookmarks and folders
       await loadBookmarks();
+      await loadFolders();
       
       // Notify about changes
       window.dispatchEvent(new CustomEvent('bookmarkChanged'));
       
-      toast.success(`Import completed: ${stats.imported} bookmarks imported, ${stats.skipped} skipped`);
-      
-      // Reset the file input
-      event.target.value = '';
-      
+      if (stats.errors > 0) {
+        toast.warning(`Import completed with ${stats.errors} errors: ${stats.imported} bookmarks imported, ${stats.skipped} skipped`);
+      } else {
+        toast.success(`Import completed: ${stats.imported} bookmarks imported, ${stats.skipped} skipped`);
+      }
     } catch (error) {
       console.error('Import failed:', error);
-      toast.error('Failed to import bookmarks');
+      toast.error(error instanceof Error ? error.message : 'Failed to import bookmarks');
     } finally {
+      clearInterval(progressInterval);
       setIsImporting(false);
-      setTimeout(() => {
-        setImportProgress(0);
-        setImportStats(null);
-      }, 3000);
+      // Keep the results around when some bookmarks failed, so they can be reviewed
+      if (!stats?.errors) {
+        setTimeout(() => {
+          setImportProgress(0);
+          setImportStats(null);
+        }, 3000);
+      }
     }
   };
 
+  // Works out the importer from the file itself
+  const getImportRequest = async (file: File): Promise<BookmarkImportRequest | null> => {
+    const name = file.name.toLowerCase();
+
+    if (name.endsWith('.sqlite')) {
+      return { format: 'firefox', data: new Uint8Array(await file.arrayBuffer()) };
+    }
+
+    const content = await file.text();
+    if (name.endsWith('.html') || name.endsWith('.htm')) {
+      return { format: 'html', content };
+    }
+
+    try {
+      const data = JSON.parse(content);
+      if (data?.format === 'flow-bookmarks') return { format: 'flow', content };
+      if (data?.roots) return { format: 'chromium', content };
+    } catch {
+      // Not JSON, so maybe an HTML export without its extension
+    }
+    if (/<!DOCTYPE NETSCAPE-Bookmark-file-1>/i.test(content)) {
+      return { format: 'html', content };
+    }
+    return null;
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // Reset the file input
+    event.target.value = '';
+
+    const request = await getImportRequest(file);
+    if (!request) {
+      toast.error('This file does not look like a bookmark export');
+      return;
+    }
+    await runImport(request);
+  };
+
+  const handleImportSource = (source: BookmarkImportSource) => {
+    runImport({ format: 'detected', sourceId: source.id });
+  };
+
   const handleFileDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -991,16 +1245,16 @@ function BookmarksPage() {
     setIsDragOver(false);
 
     const files = Array.from(e.dataTransfer.files);
-    const htmlFile = files.find(file => file.name.endsWith('.html'));
+    const bookmarkFile = files.find(file => /\.(html?|json|sqlite)$/i.test(file.name) || file.name === 'Bookmarks');
     
-    if (htmlFile) {
+    if (bookmarkFile) {
       // Create a fake input event
       const fakeEvent = {
-        target: { files: [htmlFile] }
+        target: { files: [bookmarkFile], value: '' }
       } as unknown as React.ChangeEvent<HTMLInputElement>;
       handleImportFile(fakeEvent);
     } else {
-      toast.error('Please drop an HTML file');
+      toast.error('Please drop an HTML, JSON or places.sqlite file');
     }
   };
 
@@ -1014,6 +1268,11 @@ function BookmarksPage() {
     setShowRenameFolderDialog(true);
   };
 
+  const handleEditSmartCollection = (folder: BookmarkCollection | null) => {
+    setSmartCollectionToEdit(folder);
+    setShowSmartCollectionDialog(true);
+  };
+
   const handleDeleteFolder = (folder: BookmarkCollection) => {
     setFolderToDelete(folder);
     setShowDeleteFolderDialog(true);
@@ -1233,6 +1492,16 @@ function BookmarksPage() {
   };
 
   // Draggable Bookmark Card Component
+  const getSearchResult = (bookmark: Bookmark) => (searchQuery ? searchResults?.get(bookmark.id) : undefined);
+
+  // The snippet is only worth showing when it adds more than the title
+  const getSearchSnippet = (bookmark: Bookmark) => {
+    const snippet = getSearchResult(bookmark)?.snippet;
+    if (!snippet || !snippet.some(segment => segment.highlighted)) return null;
+    if (snippet.map(segment => segment.text).join('') === bookmark.title) return null;
+    return snippet;
+  };
+
   const BookmarkCard = ({ bookmark }: { bookmark: Bookmark }) => {
     const {
       attributes,
@@ -1250,6 +1519,8 @@ function BookmarksPage() {
     
 
     const isSelected = selectedBookmarks.has(bookmark.id);
+    const searchResult = getSearchResult(bookmark);
+    const searchSnippet = getSearchSnippet(bookmark);
     const isMultiDrag = selectedBookmarks.size > 1 && activeId;
     const isDraggedItem = bookmark.id === activeId;
     
@@ -1349,7 +1620,7 @@ function BookmarksPage() {
                     }}
                     title={bookmark.title}
                   >
-                    {bookmark.title}
+                    {searchResult ? <HighlightedText segments={searchResult.title} /> : bookmark.title}
                   </h3>
                 </div>
               </div>
@@ -1372,6 +1643,14 @@ function BookmarksPage() {
                   </div>
                 )}
 
+                {/* Search Snippet */}
+                {searchSnippet && (
+                  <HighlightedText
+                    segments={searchSnippet}
+                    className="text-xs text-muted-foreground text-center line-clamp-2 px-2"
+                  />
+                )}
+
               </div>
 
               {/* Action Area - Bottom Actions */}
@@ -1544,6 +1823,8 @@ function BookmarksPage() {
 
 
     const isSelected = selectedBookmarks.has(bookmark.id);
+    const searchResult = getSearchResult(bookmark);
+    const searchSnippet = getSearchSnippet(bookmark);
     const isMultiDrag = selectedBookmarks.size > 1 && activeId;
     const isDraggedItem = bookmark.id === activeId;
     
@@ -1633,7 +1914,7 @@ function BookmarksPage() {
                 className="font-medium text-sm truncate hover:text-primary cursor-pointer" 
                 onClick={() => handleOpenBookmark(bookmark)}
               >
-                {bookmark.title}
+                {searchResult ? <HighlightedText segments={searchResult.title} /> : bookmark.title}
               </h3>
               {bookmark.labels && bookmark.labels.length > 0 && (
                 <div className="flex gap-1">
@@ -1656,6 +1937,9 @@ function BookmarksPage() {
             >
               {formatUrlForDisplay(bookmark.url, 80)}
             </p>
+            {searchSnippet && (
+              <HighlightedText segments={searchSnippet} className="block text-xs text-muted-foreground truncate mt-0.5" />
+            )}
           </div>
         </div>
 
@@ -2226,15 +2510,26 @@ function BookmarksPage() {
             <div>
               <div className="flex items-center justify-between mb-2">
                 <span className="text-xs font-medium text-muted-foreground">FOLDERS</span>
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  className="h-5 w-5 p-0"
-                  onClick={() => setShowCreateFolderDialog(true)}
-                  title="Create new folder"
-                >
-                  <FolderPlus className="h-3 w-3" />
-                </Button>
+                <div className="flex items-center gap-1">
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-5 w-5 p-0"
+                    onClick={() => handleEditSmartCollection(null)}
+                    title="Create smart collection"
+                  >
+                    <ListFilter className="h-3 w-3" />
+                  </Button>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-5 w-5 p-0"
+                    onClick={() => setShowCreateFolderDialog(true)}
+                    title="Create new folder"
+                  >
+                    <FolderPlus className="h-3 w-3" />
+                  </Button>
+                </div>
               </div>
               
               <div className="space-y-1">
@@ -2269,6 +2564,7 @@ function BookmarksPage() {
                         }}
                         onRenameFolder={handleRenameFolder}
                         onDeleteFolder={handleDeleteFolder}
+                        onEditRules={handleEditSmartCollection}
                       />
                     );
                   })
@@ -2535,6 +2831,22 @@ function BookmarksPage() {
                 Add Bookmark
               </Button>
               
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {EXPORT_FORMATS.map((exportFormat) => (
+                    <DropdownMenuItem key={exportFormat.format} onClick={() => handleExport(exportFormat)}>
+                      {exportFormat.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
               <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
                 <DialogTrigger asChild>
                   <Button variant="outline" size="sm">
@@ -2546,16 +2858,41 @@ function BookmarksPage() {
                   <DialogHeader>
                     <DialogTitle>Import Bookmarks</DialogTitle>
                     <DialogDescription>
-                      Import bookmarks from Chrome's HTML export format.
+                      Import bookmarks from another browser or a Flow export. Folders are kept as collections.
                     </DialogDescription>
                   </DialogHeader>
                   
                   <div className="space-y-4">
+                    {importSources.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-muted-foreground">Installed browsers</p>
+                        <div className="max-h-40 overflow-y-auto space-y-1">
+                          {importSources.map(source => (
+                            <div key={source.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/60">
+                              <Globe className="h-4 w-4 text-muted-foreground shrink-0" />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm truncate">{source.browser}</p>
+                                <p className="text-xs text-muted-foreground truncate">{source.profileName}</p>
+                              </div>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isImporting}
+                                onClick={() => handleImportSource(source)}
+                              >
+                                Import
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Hidden file input */}
                     <input
                       id="bookmark-file"
                       type="file"
-                      accept=".html"
+                      accept=".html,.htm,.json,.sqlite"
                       onChange={handleImportFile}
                       disabled={isImporting}
                       className="hidden"
@@ -2585,7 +2922,10 @@ function BookmarksPage() {
                             {isDragOver ? 'Drop your bookmark file here' : 'Choose bookmark file or drag & drop'}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            Accepts HTML files exported from Chrome, Firefox, Safari, or Edge
+                            HTML exports, Chromium Bookmarks files, Firefox places.sqlite, or Flow JSON exports
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            For Safari, use File → Export Bookmarks first
                           </p>
                         </div>
                         <Button variant="outline" size="sm" className="pointer-events-none">
@@ -2635,7 +2975,23 @@ function BookmarksPage() {
                             <span className="text-muted-foreground">Errors:</span>
                             <span className="font-medium text-red-600 dark:text-red-400">{importStats.errors}</span>
                           </div>
+                          {importStats.collections !== undefined && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">Collections:</span>
+                              <span className="font-medium">{importStats.collections}</span>
+                            </div>
+                          )}
                         </div>
+                        {importStats.failures && importStats.failures.length > 0 && (
+                          <div className="mt-3 max-h-32 overflow-y-auto space-y-1 text-xs">
+                            {importStats.failures.map((failure, index) => (
+                              <div key={index} className="truncate" title={failure.url}>
+                                <span className="font-medium">{failure.title || failure.url}</span>
+                                <span className="text-red-600 dark:text-red-400"> — {failure.error}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -2653,7 +3009,7 @@ function BookmarksPage() {
                 <Input
                   placeholder="Search bookmarks..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10"
                 />
               </div>
@@ -2665,6 +3021,7 @@ function BookmarksPage() {
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
+                  {searchQuery && <SelectItem value="relevance">Relevance</SelectItem>}
                   <SelectItem value="dateAdded">Date Added</SelectItem>
                   <SelectItem value="title">Title</SelectItem>
                   <SelectItem value="visitCount">Visit Count</SelectItem>
@@ -2946,6 +3303,19 @@ function BookmarksPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Smart Collection Dialog */}
+      <SmartCollectionDialog
+        open={showSmartCollectionDialog}
+        onOpenChange={setShowSmartCollectionDialog}
+        collection={smartCollectionToEdit}
+        labelSuggestions={uniqueLabels.map(({ label }) => label)}
+        onSaved={(collection) => {
+          loadFolders();
+          if (selectedFolder === collection.id) {
+            loadBookmarks();
+          }
+        }}
+      />
 
       {/* Rename Folder Dialog */}
       <Dialog open={showRenameFolderDialog} onOpenChange={setShowRenameFolderDialog}>
@@ -3034,6 +3404,41 @@ function BookmarksPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Custom Snooze Dialog */}
+      <Dialog open={!!bookmarkToSnooze} onOpenChange={(open) => !open && setBookmarkToSnooze(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Snooze Bookmark</DialogTitle>
+            <DialogDescription>
+              &ldquo;{bookmarkToSnooze?.title}&rdquo; will open in its space at the selected time
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Input
+              type="datetime-local"
+              value={customSnoozeTime}
+              onChange={(e) => setCustomSnoozeTime(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setBookmarkToSnooze(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!customSnoozeTime || new Date(customSnoozeTime).getTime() <= Date.now()}
+              onClick={async () => {
+                if (!bookmarkToSnooze) return;
+                await handleSnoozeBookmark(bookmarkToSnooze, 'custom', new Date(customSnoozeTime).getTime());
+                setBookmarkToSnooze(null);
+              }}
+            >
+              Snooze
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Info Panel - Slides in from right */}
       <div
         className={`fixed top-0 right-0 h-full w-96 bg-card border-l border-border shadow-2xl z-50 transform transition-transform duration-300 ease-in-out ${
@@ -3128,6 +3533,32 @@ function BookmarksPage() {
                 )}
               </div>
 
+              {/* Related Bookmarks */}
+              {relatedBookmarks.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Related Bookmarks</h4>
+                  <div className="space-y-1">
+                    {relatedBookmarks.map(({ bookmark }) => (
+                      <button
+                        key={bookmark.id}
+                        className="w-full flex items-center gap-2 rounded-md p-2 text-left hover:bg-muted transition-colors"
+                        onClick={() => setSelectedBookmarkInfo(bookmark)}
+                      >
+                        {bookmark.favicon ? (
+                          <img src={bookmark.favicon} alt="" className="w-4 h-4 rounded flex-shrink-0" />
+                        ) : (
+                          <BookmarkIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm truncate">{bookmark.title}</p>
+                          <p className="text-xs text-muted-foreground truncate">{bookmark.url}</p>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="space-y-2 pt-4 border-t border-border">
                 <Button
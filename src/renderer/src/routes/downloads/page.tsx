@@ -0,0 +1,285 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { formatBytes, getDownloadProgress, getDownloadStatusText, isDownloadActive } from "@/lib/downloads";
+import { cn } from "@/lib/utils";
+import { motion } from "motion/react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  FileIcon,
+  FolderOpenIcon,
+  PauseIcon,
+  PlayIcon,
+  RotateCwIcon,
+  SearchIcon,
+  Trash2Icon,
+  XIcon
+} from "lucide-react";
+import { toast } from "sonner";
+import { DownloadData } from "~/types/downloads";
+
+function formatStartedAt(startedAt: number): string {
+  return new Date(startedAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname || url;
+  } catch {
+    return url;
+  }
+}
+
+function matchesSearch(download: DownloadData, searchText: string): boolean {
+  const words = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${download.filename} ${download.url}`.toLowerCase();
+  return words.every((word) => haystack.includes(word));
+}
+
+function DownloadActions({ download }: { download: DownloadData }) {
+  const runAction = async (action: () => Promise<boolean>, errorMessage: string) => {
+    const success = await action();
+    if (!success) {
+      toast.error(errorMessage);
+    }
+  };
+
+  switch (download.state) {
+    case "progressing":
+    case "paused":
+      return (
+        <>
+          {download.state === "progressing" ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              onClick={() =>
+                runAction(() => flow.downloads.pauseDownload(download.id), "Failed to pause this download!")
+              }
+            >
+              <PauseIcon className="size-4" />
+              Pause
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              disabled={!download.canResume}
+              onClick={() =>
+                runAction(() => flow.downloads.resumeDownload(download.id), "Failed to resume this download!")
+              }
+            >
+              <PlayIcon className="size-4" />
+              Resume
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={() =>
+              runAction(() => flow.downloads.cancelDownload(download.id), "Failed to cancel this download!")
+            }
+          >
+            <XIcon className="size-4" />
+            Cancel
+          </Button>
+        </>
+      );
+    case "completed":
+      return (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={() => runAction(() => flow.downloads.openDownload(download.id), "Failed to open this file!")}
+          >
+            <FileIcon className="size-4" />
+            Open
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={() => runAction(() => flow.downloads.showInFolder(download.id), "Failed to show this file!")}
+          >
+            <FolderOpenIcon className="size-4" />
+            Show in folder
+          </Button>
+        </>
+      );
+    case "cancelled":
+    case "interrupted":
+      return (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={() => runAction(() => flow.downloads.retryDownload(download.id), "Failed to retry this download!")}
+        >
+          <RotateCwIcon className="size-4" />
+          Retry
+        </Button>
+      );
+  }
+}
+
+function DownloadRow({ download }: { download: DownloadData }) {
+  const isActive = isDownloadActive(download);
+  const progress = getDownloadProgress(download);
+
+  const removeDownload = async () => {
+    const success = await flow.downloads.removeDownload(download.id);
+    if (!success) {
+      toast.error("Failed to remove this download!");
+    }
+  };
+
+  return (
+    <div className="group flex items-center gap-3 px-3 py-2 rounded-md hover:bg-muted/60 transition-colors">
+      <FileIcon className="size-4 shrink-0 text-muted-foreground" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-baseline gap-2" title={download.savePath || download.filename}>
+          <span
+            className={cn(
+              "truncate text-sm text-foreground",
+              (download.state === "cancelled" || download.state === "interrupted") && "line-through opacity-60"
+            )}
+          >
+            {download.filename}
+          </span>
+          <span className="truncate text-xs text-muted-foreground" title={download.url}>
+            {getHostname(download.url)}
+          </span>
+        </div>
+        {isActive && <Progress value={progress ?? 0} className="h-1" />}
+        <p className="text-xs text-muted-foreground tabular-nums">{getDownloadStatusText(download)}</p>
+      </div>
+      <span className="w-28 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+        {formatStartedAt(download.startedAt)}
+      </span>
+      <DownloadActions download={download} />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7 opacity-0 group-hover:opacity-100"
+        onClick={removeDownload}
+        disabled={isActive}
+      >
+        <Trash2Icon className="size-4" />
+      </Button>
+    </div>
+  );
+}
+
+function DownloadsPage() {
+  const [downloads, setDownloads] = useState<DownloadData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchText, setSearchText] = useState("");
+
+  useEffect(() => {
+    const loadDownloads = async () => {
+      const downloads = await flow.downloads.getDownloads();
+      setDownloads(downloads);
+      setIsLoading(false);
+    };
+    loadDownloads();
+
+    return flow.downloads.onDownloadsChanged(loadDownloads);
+  }, []);
+
+  const filteredDownloads = useMemo(
+    () => downloads.filter((download) => matchesSearch(download, searchText)),
+    [downloads, searchText]
+  );
+
+  const completedBytes = useMemo(
+    () =>
+      downloads
+        .filter((download) => download.state === "completed")
+        .reduce((total, download) => total + download.receivedBytes, 0),
+    [downloads]
+  );
+
+  const hasFinishedDownloads = downloads.some((download) => !isDownloadActive(download));
+
+  const clearDownloads = async () => {
+    const success = await flow.downloads.clear();
+    if (success) {
+      toast.success("The download history has been cleared!");
+    } else {
+      toast.error("Failed to clear the download history!");
+    }
+  };
+
+  return (
+    <div className="w-screen h-screen bg-background p-8 overflow-y-auto">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-4xl mx-auto"
+      >
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Downloads</h1>
+            <p className="text-muted-foreground mt-1">
+              Files downloaded in this profile{completedBytes > 0 && `, ${formatBytes(completedBytes)} in total`}
+            </p>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={clearDownloads} disabled={!hasFinishedDownloads}>
+            <Trash2Icon size={16} />
+            Clear history
+          </Button>
+        </div>
+
+        <div className="relative mb-4">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            value={searchText}
+            onChange={(event) => setSearchText(event.target.value)}
+            placeholder="Search downloads"
+            className="pl-9"
+          />
+        </div>
+
+        <Card className="border-border">
+          <CardContent className="space-y-0.5">
+            {filteredDownloads.map((download) => (
+              <DownloadRow key={download.id} download={download} />
+            ))}
+
+            {!isLoading && filteredDownloads.length === 0 && (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium mb-2">{searchText ? "No matching downloads" : "No downloads"}</h3>
+                <p className="text-muted-foreground">
+                  {searchText ? "Try searching for something else" : "Files you download will show up here"}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
+
+function App() {
+  return (
+    <>
+      <title>Downloads</title>
+      <DownloadsPage />
+    </>
+  );
+}
+
+export default App;
@@ -0,0 +1,78 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useState } from "react";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const TIME_RANGES = {
+  hour: { label: "Last hour", duration: HOUR },
+  day: { label: "Last 24 hours", duration: DAY },
+  week: { label: "Last 7 days", duration: 7 * DAY },
+  month: { label: "Last 4 weeks", duration: 28 * DAY },
+  all: { label: "All time", duration: null }
+} as const;
+
+type TimeRange = keyof typeof TIME_RANGES;
+
+type ClearHistoryDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClear: (startTime?: number) => Promise<void>;
+};
+
+export function ClearHistoryDialog({ open, onOpenChange, onClear }: ClearHistoryDialogProps) {
+  const [timeRange, setTimeRange] = useState<TimeRange>("hour");
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleClear = async () => {
+    const duration = TIME_RANGES[timeRange].duration;
+    const startTime = duration === null ? undefined : Date.now() - duration;
+
+    setIsClearing(true);
+    await onClear(startTime);
+    setIsClearing(false);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Clear browsing history</DialogTitle>
+          <DialogDescription>
+            Removes the visits of this profile within the selected time range. This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TIME_RANGES).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isClearing}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleClear} disabled={isClearing}>
+            Clear history
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { WebsiteFavicon } from "@/components/main/website-favicon";
+import { cn } from "@/lib/utils";
+import { MoreVertical } from "lucide-react";
+import { HistoryVisit } from "~/types/history";
+
+export function getVisitHostname(url: string): string {
+  return URL.parse(url)?.hostname || url;
+}
+
+function formatVisitTime(visitTime: number): string {
+  return new Date(visitTime).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+type HistoryVisitRowProps = {
+  visit: HistoryVisit;
+  spaceName?: string;
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onDelete: () => void;
+  onDeleteSite: () => void;
+  onSearchSite: () => void;
+};
+
+export function HistoryVisitRow({
+  visit,
+  spaceName,
+  selected,
+  onSelectedChange,
+  onDelete,
+  onDeleteSite,
+  onSearchSite
+}: HistoryVisitRowProps) {
+  const hostname = getVisitHostname(visit.url);
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-3 px-3 py-2 rounded-md hover:bg-muted/60 transition-colors",
+        selected && "bg-muted"
+      )}
+    >
+      <label className="flex items-center cursor-pointer">
+        <Checkbox checked={selected} onCheckedChange={onSelectedChange} aria-label="Select visit" />
+      </label>
+      <span className="w-16 shrink-0 text-xs text-muted-foreground tabular-nums">
+        {formatVisitTime(visit.visitTime)}
+      </span>
+      <WebsiteFavicon url={visit.url} className="size-4 shrink-0" />
+      <a href={visit.url} className="flex-1 min-w-0 flex items-baseline gap-2" title={visit.url}>
+        <span className="truncate text-sm text-foreground">{visit.title || visit.url}</span>
+        <span className="truncate text-xs text-muted-foreground">{hostname}</span>
+      </a>
+      {spaceName && <span className="shrink-0 text-xs text-muted-foreground">{spaceName}</span>}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="size-7 opacity-0 group-hover:opacity-100">
+            <MoreVertical className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={onSearchSite}>More from this site</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={onDelete}>Remove from history</DropdownMenuItem>
+          <DropdownMenuItem onSelect={onDeleteSite} className="text-destructive">
+            Delete all visits to {hostname}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
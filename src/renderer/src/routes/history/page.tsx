@@ -0,0 +1,289 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDebounce } from "@/hooks/use-debounce";
+import { motion } from "motion/react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { SearchIcon, Trash2Icon } from "lucide-react";
+import { toast } from "sonner";
+import { HistoryVisit } from "~/types/history";
+import { Space } from "~/flow/interfaces/sessions/spaces";
+
+import { getVisitHostname, HistoryVisitRow } from "./components/history-visit-row";
+import { ClearHistoryDialog } from "./components/clear-history-dialog";
+
+const PAGE_SIZE = 200;
+const ALL_SPACES = "all";
+
+type GroupMode = "day" | "space";
+
+type VisitGroup = {
+  key: string;
+  label: string;
+  visits: HistoryVisit[];
+};
+
+function getDayLabel(visitTime: number): string {
+  const date = new Date(visitTime);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === yesterday.toDateString()) return "Yesterday";
+
+  return date.toLocaleDateString(undefined, {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric"
+  });
+}
+
+function groupVisits(visits: HistoryVisit[], groupMode: GroupMode, spaces: Map<string, Space>): VisitGroup[] {
+  const groups = new Map<string, VisitGroup>();
+
+  for (const visit of visits) {
+    let key: string;
+    let label: string;
+    if (groupMode === "day") {
+      key = new Date(visit.visitTime).toDateString();
+      label = getDayLabel(visit.visitTime);
+    } else {
+      key = visit.spaceId;
+      label = spaces.get(visit.spaceId)?.name ?? "Deleted space";
+    }
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, visits: [] };
+      groups.set(key, group);
+    }
+    group.visits.push(visit);
+  }
+
+  // Visits are sorted by time, so the groups are in order of their most recent visit
+  return Array.from(groups.values());
+}
+
+function HistoryPage() {
+  const [visits, setVisits] = useState<HistoryVisit[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [spaces, setSpaces] = useState<Map<string, Space>>(new Map());
+  const [spaceFilter, setSpaceFilter] = useState<string>(ALL_SPACES);
+  const [groupMode, setGroupMode] = useState<GroupMode>("day");
+
+  const [searchText, setSearchText] = useState("");
+  const debouncedSearchText = useDebounce(searchText, 200);
+
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
+
+  const loadVisits = useCallback(
+    async (offset: number) => {
+      setIsLoading(true);
+      const results = await flow.history.queryVisits({
+        text: debouncedSearchText || undefined,
+        spaceId: spaceFilter === ALL_SPACES ? undefined : spaceFilter,
+        limit: PAGE_SIZE,
+        offset
+      });
+
+      setVisits((previous) => (offset === 0 ? results : [...previous, ...results]));
+      setHasMore(results.length === PAGE_SIZE);
+      setIsLoading(false);
+    },
+    [debouncedSearchText, spaceFilter]
+  );
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    loadVisits(0);
+  }, [loadVisits]);
+
+  useEffect(() => {
+    const loadSpaces = async () => {
+      const profileId = await flow.profiles.getUsingProfile();
+      if (!profileId) return;
+
+      const spaces = await flow.spaces.getSpacesFromProfile(profileId);
+      setSpaces(new Map(spaces.map((space) => [space.id, space])));
+    };
+    loadSpaces();
+  }, []);
+
+  const groups = useMemo(() => groupVisits(visits, groupMode, spaces), [visits, groupMode, spaces]);
+
+  const reload = () => {
+    setSelectedIds(new Set());
+    loadVisits(0);
+  };
+
+  const setVisitSelected = (visitId: number, selected: boolean) => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (selected) {
+        next.add(visitId);
+      } else {
+        next.delete(visitId);
+      }
+      return next;
+    });
+  };
+
+  const deleteVisits = async (visitIds: number[]) => {
+    const deleted = await flow.history.deleteVisits(visitIds);
+    if (deleted > 0) {
+      toast.success(`Removed ${deleted} ${deleted === 1 ? "visit" : "visits"} from history`);
+    } else {
+      toast.error("Failed to remove from history!");
+    }
+    reload();
+  };
+
+  const deleteSite = async (hostname: string) => {
+    const deleted = await flow.history.deleteHostname(hostname);
+    if (deleted > 0) {
+      toast.success(`Removed all visits to ${hostname} from history`);
+    } else {
+      toast.error("Failed to remove from history!");
+    }
+    reload();
+  };
+
+  const clearHistory = async (startTime?: number) => {
+    const deleted = await flow.history.clear(startTime);
+    toast.success(`Cleared ${deleted} ${deleted === 1 ? "visit" : "visits"} from history`);
+    reload();
+  };
+
+  return (
+    <div className="w-screen h-screen bg-background p-8 overflow-y-auto">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-4xl mx-auto"
+      >
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">History</h1>
+            <p className="text-muted-foreground mt-1">Browse and manage the pages you have visited</p>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={() => setIsClearDialogOpen(true)}>
+            <Trash2Icon size={16} />
+            Clear browsing history
+          </Button>
+        </div>
+
+        <div className="mb-4 flex items-center gap-3">
+          <div className="relative flex-1">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+            <Input
+              value={searchText}
+              onChange={(event) => setSearchText(event.target.value)}
+              placeholder="Search history"
+              className="pl-9"
+            />
+          </div>
+          <Select value={spaceFilter} onValueChange={setSpaceFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SPACES}>All spaces</SelectItem>
+              {Array.from(spaces.values()).map((space) => (
+                <SelectItem key={space.id} value={space.id}>
+                  {space.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Tabs value={groupMode} onValueChange={(value) => setGroupMode(value as GroupMode)}>
+            <TabsList>
+              <TabsTrigger value="day">By day</TabsTrigger>
+              <TabsTrigger value="space">By space</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {selectedIds.size > 0 && (
+          <div className="mb-4 flex items-center justify-between rounded-md bg-muted px-4 py-2">
+            <span className="text-sm font-medium">{selectedIds.size} selected</span>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                Cancel
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => deleteVisits(Array.from(selectedIds))}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <Card className="border-border">
+          <CardContent className="space-y-6">
+            {groups.map((group) => (
+              <div key={group.key}>
+                <h2 className="mb-2 px-3 text-sm font-semibold text-muted-foreground">{group.label}</h2>
+                <div className="space-y-0.5">
+                  {group.visits.map((visit) => {
+                    const hostname = getVisitHostname(visit.url);
+                    return (
+                      <HistoryVisitRow
+                        key={visit.id}
+                        visit={visit}
+                        spaceName={groupMode === "day" ? spaces.get(visit.spaceId)?.name : undefined}
+                        selected={selectedIds.has(visit.id)}
+                        onSelectedChange={(selected) => setVisitSelected(visit.id, selected)}
+                        onDelete={() => deleteVisits([visit.id])}
+                        onDeleteSite={() => deleteSite(hostname)}
+                        onSearchSite={() => setSearchText(hostname)}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            {!isLoading && visits.length === 0 && (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium mb-2">
+                  {debouncedSearchText ? "No matching pages" : "Your history is empty"}
+                </h3>
+                <p className="text-muted-foreground">
+                  {debouncedSearchText ? "Try searching for something else" : "Pages you visit will show up here"}
+                </p>
+              </div>
+            )}
+
+            {hasMore && (
+              <div className="text-center">
+                <Button variant="outline" disabled={isLoading} onClick={() => loadVisits(visits.length)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <ClearHistoryDialog open={isClearDialogOpen} onOpenChange={setIsClearDialogOpen} onClear={clearHistory} />
+    </div>
+  );
+}
+
+function App() {
+  return (
+    <>
+      <title>History</title>
+      <HistoryPage />
+    </>
+  );
+}
+
+export default App;
@@ -0,0 +1,138 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { WebsiteFavicon } from "@/components/main/website-favicon";
+import { motion } from "motion/react";
+import { useEffect, useState } from "react";
+import { AlarmClockOffIcon, BookmarkIcon, PanelTopIcon, SunIcon } from "lucide-react";
+import { toast } from "sonner";
+import { SnoozedItem } from "~/types/snooze";
+import { Space } from "~/flow/interfaces/sessions/spaces";
+
+function formatSnoozeUntil(snoozeUntil: number): string {
+  return new Date(snoozeUntil).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+}
+
+function SnoozedPage() {
+  const [snoozedItems, setSnoozedItems] = useState<SnoozedItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [spaces, setSpaces] = useState<Map<string, Space>>(new Map());
+
+  useEffect(() => {
+    const loadSnoozedItems = async () => {
+      const snoozedItems = await flow.snooze.getSnoozedItems();
+      setSnoozedItems(snoozedItems);
+      setIsLoading(false);
+    };
+    loadSnoozedItems();
+
+    const loadSpaces = async () => {
+      const profileId = await flow.profiles.getUsingProfile();
+      if (!profileId) return;
+
+      const spaces = await flow.spaces.getSpacesFromProfile(profileId);
+      setSpaces(new Map(spaces.map((space) => [space.id, space])));
+    };
+    loadSpaces();
+
+    return flow.snooze.onSnoozedItemsChanged(loadSnoozedItems);
+  }, []);
+
+  const wakeItem = async (item: SnoozedItem) => {
+    const success = await flow.snooze.wakeItem(item.id);
+    if (!success) {
+      toast.error("Failed to wake up this item!");
+    }
+  };
+
+  const cancelSnooze = async (item: SnoozedItem) => {
+    const success = await flow.snooze.cancelSnooze(item.id);
+    if (success) {
+      toast.success(item.itemType === "tab" ? "The snoozed tab has been discarded!" : "The snooze has been cancelled!");
+    } else {
+      toast.error("Failed to cancel this snooze!");
+    }
+  };
+
+  return (
+    <div className="w-screen h-screen bg-background p-8 overflow-y-auto">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-4xl mx-auto"
+      >
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-foreground">Snoozed</h1>
+          <p className="text-muted-foreground mt-1">Tabs and bookmarks that will come back to their space later</p>
+        </div>
+
+        <Card className="border-border">
+          <CardContent className="space-y-0.5">
+            {snoozedItems.map((item) => (
+              <div
+                key={item.id}
+                className="group flex items-center gap-3 px-3 py-2 rounded-md hover:bg-muted/60 transition-colors"
+              >
+                {item.itemType === "tab" ? (
+                  <PanelTopIcon className="size-4 shrink-0 text-muted-foreground" />
+                ) : (
+                  <BookmarkIcon className="size-4 shrink-0 text-muted-foreground" />
+                )}
+                <WebsiteFavicon url={item.url} favicon={item.favicon} className="size-4 shrink-0" />
+                <div className="flex-1 min-w-0 flex items-baseline gap-2" title={item.url}>
+                  <span className="truncate text-sm text-foreground">{item.title || item.url}</span>
+                  <span className="truncate text-xs text-muted-foreground">{item.url}</span>
+                </div>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {spaces.get(item.spaceId)?.name ?? "Deleted space"}
+                </span>
+                <span className="w-36 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+                  {formatSnoozeUntil(item.snoozeUntil)}
+                </span>
+                <Button variant="ghost" size="sm" className="gap-1" onClick={() => wakeItem(item)}>
+                  <SunIcon className="size-4" />
+                  Wake now
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7 opacity-0 group-hover:opacity-100"
+                  title="Cancel snooze"
+                  onClick={() => cancelSnooze(item)}
+                >
+                  <AlarmClockOffIcon className="size-4" />
+                </Button>
+              </div>
+            ))}
+
+            {!isLoading && snoozedItems.length === 0 && (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium mb-2">Nothing is snoozed</h3>
+                <p className="text-muted-foreground">
+                  Snooze a tab from its context menu, or a bookmark from the bookmarks page
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
+
+function App() {
+  return (
+    <>
+      <title>Snoozed</title>
+      <SnoozedPage />
+    </>
+  );
+}
+
+export default App;
@@ -6,10 +6,17 @@ import { FlowBrowserAPI } from "~/flow/interfaces/browser/browser";
 import { FlowTabsAPI } from "~/flow/interfaces/browser/tabs";
 import { FlowPageAPI } from "~/flow/interfaces/browser/page";
 import { FlowNavigationAPI } from "~/flow/interfaces/browser/navigation";
+import { FlowFindInPageAPI } from "~/flow/interfaces/browser/findInPage";
+import { FlowPageAssistantAPI } from "~/flow/interfaces/browser/pageAssistant";
 import { FlowInterfaceAPI } from "~/flow/interfaces/browser/interface";
 import { FlowOmniboxAPI } from "~/flow/interfaces/browser/omnibox";
 import { FlowNewTabAPI } from "~/flow/interfaces/browser/newTab";
 import { FlowBookmarksAPI } from "~/flow/interfaces/browser/bookmarks";
+import { FlowHistoryAPI } from "~/flow/interfaces/browser/history";
+import { FlowArchiveAPI } from "~/flow/interfaces/browser/archive";
+import { FlowSnoozeAPI } from "~/flow/interfaces/browser/snooze";
+import { FlowDownloadsAPI } from "~/flow/interfaces/browser/downloads";
+import { FlowFavoritesAPI } from "~/flow/interfaces/browser/favorites";
 
 import { FlowProfilesAPI } from "~/flow/interfaces/sessions/profiles";
 import { FlowSpacesAPI } from "~/flow/interfaces/sessions/spaces";
@@ -17,6 +24,8 @@ import { FlowSpacesAPI } from "~/flow/interfaces/sessions/spaces";
 import { FlowSettingsAPI } from "~/flow/interfaces/settings/settings";
 import { FlowIconsAPI } from "~/flow/interfaces/settings/icons";
 import { FlowOpenExternalAPI } from "~/flow/interfaces/settings/openExternal";
+import { FlowSitePermissionsAPI } from "~/flow/interfaces/settings/sitePermissions";
+import { FlowSearchEnginesAPI } from "~/flow/interfaces/settings/searchEngines";
 import { FlowOnboardingAPI } from "~/flow/interfaces/settings/onboarding";
 import { FlowUpdatesAPI } from "~/flow/interfaces/app/updates";
 import { FlowActionsAPI } from "~/flow/interfaces/app/actions";
@@ -42,10 +51,17 @@ declare global {
     tabs: FlowTabsAPI;
     page: FlowPageAPI;
     navigation: FlowNavigationAPI;
+    findInPage: FlowFindInPageAPI;
+    pageAssistant: FlowPageAssistantAPI;
     interface: FlowInterfaceAPI;
     omnibox: FlowOmniboxAPI;
     newTab: FlowNewTabAPI;
     bookmarks: FlowBookmarksAPI;
+    history: FlowHistoryAPI;
+    archive: FlowArchiveAPI;
+    snooze: FlowSnoozeAPI;
+    downloads: FlowDownloadsAPI;
+    favorites: FlowFavoritesAPI;
 
     // Session APIs
     profiles: FlowProfilesAPI;
@@ -55,6 +71,8 @@ declare global {
     settings: FlowSettingsAPI;
     icons: FlowIconsAPI;
     openExternal: FlowOpenExternalAPI;
+    sitePermissions: FlowSitePermissionsAPI;
+    searchEngines: FlowSearchEnginesAPI;
     onboarding: FlowOnboardingAPI;
 
     // AI APIs
@@ -1,8 +1,14 @@
+// 'openai-compatible' is any server with an OpenAI-style API (Ollama, LM Studio, vLLM...)
+export type AIProvider = 'openai' | 'claude' | 'openai-compatible' | 'local';
+
 export interface AISettings {
   enabled: boolean;
-  provider: 'openai' | 'claude' | 'local';
+  provider: AIProvider;
   model?: string;
   apiKey?: string;
+  baseUrl?: string; // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1
+  embeddingModel?: string; // Used for semantic search, local embeddings are used without one
+  budget?: AIBudget;
   autoAnalyze: boolean;
   confidenceThreshold: number;
   autoApply: {
@@ -68,7 +74,7 @@ export interface DuplicateCandidate {
   similarity: {
     url: number;
     title: number;
-    content: number;
+    content: number; // Similarity of the embeddings of both bookmarks
     overall: number;
   };
   differences: string[];
@@ -95,6 +101,65 @@ export interface FetchOptions {
   userAgent?: string;
 }
 
+// Background labeling of the bookmark library
+export type AILabelingStatus = 'idle' | 'running' | 'paused';
+
+export interface AILabelingProgress {
+  status: AILabelingStatus;
+  total: number; // Bookmarks in the current batch
+  labeled: number;
+  skipped: number; // No label met the confidence threshold, or the bookmark was labeled or deleted meanwhile
+  failed: number; // Gave up after retrying
+  remaining: number;
+  currentBookmarkTitle?: string;
+  lastError?: string;
+}
+
+// Usage accounting
+export type AIOperation = 'analyze' | 'describe' | 'page-assistant' | 'embed';
+
+export interface AIBudget {
+  enabled: boolean;
+  monthlyTokenLimit?: number; // Input and output tokens together
+  monthlyCostLimit?: number; // In US dollars
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated in US dollars, custom endpoints and unknown models are not counted
+}
+
+export interface AIDailyUsage extends AIUsageTotals {
+  day: string; // YYYY-MM-DD, in local time
+  provider: AIProvider;
+  model: string;
+  averageLatencyMs: number;
+}
+
+export interface AIUsageSummary {
+  month: AIUsageTotals; // Since the start of the current month
+  days: AIDailyUsage[];
+  budget?: AIBudget;
+  budgetExceeded: boolean;
+}
+
+export interface AIRequestLogEntry {
+  id: number;
+  timestamp: number;
+  provider: AIProvider;
+  model: string;
+  operation: AIOperation;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // null when the price of the model is unknown
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
 export interface AIFlowInterface {
   // Settings
   'ai:getSettings': () => Promise<{ success: boolean; data?: AISettings; error?: string }>;
@@ -112,6 +177,19 @@ export interface AIFlowInterface {
   // Duplicate detection
   'ai:findDuplicates': (request: BookmarkAnalysisRequest, existingBookmarks: { id: string; url: string; title: string; description?: string; }[]) => Promise<{ success: boolean; data?: DuplicateCandidate[]; error?: string }>;
   
+  // Background labeling
+  'ai:getLabelingProgress': () => Promise<{ success: boolean; data?: AILabelingProgress; error?: string }>;
+  'ai:startLabeling': () => Promise<{ success: boolean; data?: AILabelingProgress; error?: string }>;
+  'ai:pauseLabeling': () => Promise<{ success: boolean; error?: string }>;
+  'ai:resumeLabeling': () => Promise<{ success: boolean; error?: string }>;
+  'ai:cancelLabeling': () => Promise<{ success: boolean; error?: string }>;
+  'ai:onLabelingProgress': (callback: (progress: AILabelingProgress) => void) => () => void;
+  
+  // Usage accounting
+  'ai:getUsage': (days?: number) => Promise<{ success: boolean; data?: AIUsageSummary; error?: string }>;
+  'ai:getRequestLog': (limit?: number) => Promise<{ success: boolean; data?: AIRequestLogEntry[]; error?: string }>;
+  'ai:clearUsage': () => Promise<{ success: boolean; error?: string }>;
+  
   // Testing
   'ai:listModels': () => Promise<{ success: boolean; data?: any[]; error?: string }>;
 }
\ No newline at end of file
@@ -7,6 +7,16 @@ export interface FlowActionsAPI {
    */
   onCopyLink: IPCListener<[]>;
 
+  /**
+   * Listen for find in page action
+   */
+  onFindInPage: IPCListener<[]>;
+
+  /**
+   * Listen for ask page action
+   */
+  onAskPage: IPCListener<[]>;
+
   /**
    * Listen for generic incoming actions
    */
@@ -0,0 +1,33 @@
+import { IPCListener } from "~/flow/types";
+import { ArchivedTabData } from "~/types/tabs";
+
+// API //
+export interface FlowArchiveAPI {
+  /**
+   * Gets the archived tabs of the current profile
+   * @returns The archived tabs, most recently archived first
+   */
+  getArchivedTabs: () => Promise<ArchivedTabData[]>;
+
+  /**
+   * Restores an archived tab into its original space
+   * @param uniqueId The unique ID of the archived tab
+   */
+  restoreTab: (uniqueId: string) => Promise<boolean>;
+
+  /**
+   * Removes a tab from the archive
+   * @param uniqueId The unique ID of the archived tab
+   */
+  removeTab: (uniqueId: string) => Promise<boolean>;
+
+  /**
+   * Removes all archived tabs of the current profile
+   */
+  clear: () => Promise<boolean>;
+
+  /**
+   * Listens for changes to the archive
+   */
+  onArchiveChanged: IPCListener<[void]>;
+}
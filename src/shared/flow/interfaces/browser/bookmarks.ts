@@ -1,4 +1,4 @@
-import { Bookmark, BookmarkCollection, CreateBookmarkInput, UpdateBookmarkInput, UpdateCollectionInput, BookmarkFilter, ImportStats } from "~/types/bookmarks";
+import { Bookmark, BookmarkCollection, BookmarkExportFormat, BookmarkImportRequest, BookmarkImportSource, BookmarkSearchResult, BookmarkSemanticResult, CreateBookmarkInput, CreateCollectionInput, UpdateBookmarkInput, UpdateCollectionInput, BookmarkFilter, ImportStats } from "~/types/bookmarks";
 
 export interface FlowBookmarksAPI {
   create(input: CreateBookmarkInput): Promise<Bookmark>;
@@ -10,21 +10,17 @@ export interface FlowBookmarksAPI {
   exists(url: string, profileId: string, spaceId: string): Promise<boolean>;
   incrementVisit(id: string): Promise<void>;
   getByUrl(url: string): Promise<Bookmark[]>;
+  search(query: string, filter?: BookmarkFilter, limit?: number): Promise<BookmarkSearchResult[]>;
+  semanticSearch(query: string, filter?: BookmarkFilter, limit?: number): Promise<BookmarkSemanticResult[]>;
+  getRelated(id: string, limit?: number): Promise<BookmarkSemanticResult[]>;
+  indexContent(id: string): Promise<boolean>;
   restore(id: string): Promise<boolean>;
   permanentlyDelete(id: string): Promise<boolean>;
   moveToCollection(bookmarkId: string, fromCollectionId: string | null, toCollectionId: string): Promise<void>;
   addAILabels(bookmarkId: string, aiLabels: Array<{label: string; confidence: number; category: string}>): Promise<Bookmark | null>;
   
   collections: {
-    create(input: {
-      name: string;
-      description?: string;
-      profileId: string;
-      spaceId?: string;
-      parentId?: string;
-      isAuto?: boolean;
-      rules?: any;
-    }): Promise<BookmarkCollection>;
+    create(input: CreateCollectionInput): Promise<BookmarkCollection>;
     update(id: string, input: UpdateCollectionInput): Promise<BookmarkCollection | null>;
     delete(id: string): Promise<boolean>;
     restore(id: string): Promise<boolean>;
@@ -37,4 +33,7 @@ export interface FlowBookmarksAPI {
   };
   
   importChrome(htmlContent: string, profileId: string, spaceId: string): Promise<ImportStats>;
+  getImportSources(): Promise<BookmarkImportSource[]>;
+  import(request: BookmarkImportRequest, profileId: string, spaceId: string): Promise<ImportStats>;
+  export(format: BookmarkExportFormat, filter?: BookmarkFilter): Promise<string>;
 }
\ No newline at end of file
@@ -16,4 +16,10 @@ export interface FlowBrowserAPI {
    * Creates a new window
    */
   createWindow: () => void;
+
+  /**
+   * Creates a new private window
+   * Private windows keep no history, cookies or tabs once they are closed.
+   */
+  createPrivateWindow: () => void;
 }
@@ -0,0 +1,63 @@
+import { IPCListener } from "~/flow/types";
+import { DownloadData } from "~/types/downloads";
+
+// API //
+export interface FlowDownloadsAPI {
+  /**
+   * Gets the downloads of the current profile
+   * @returns The downloads, most recent first
+   */
+  getDownloads: () => Promise<DownloadData[]>;
+
+  /**
+   * Pauses a running download
+   * @param id The ID of the download
+   */
+  pauseDownload: (id: string) => Promise<boolean>;
+
+  /**
+   * Resumes a paused download
+   * @param id The ID of the download
+   */
+  resumeDownload: (id: string) => Promise<boolean>;
+
+  /**
+   * Cancels a running download
+   * @param id The ID of the download
+   */
+  cancelDownload: (id: string) => Promise<boolean>;
+
+  /**
+   * Downloads the file of a cancelled or interrupted download again
+   * @param id The ID of the download
+   */
+  retryDownload: (id: string) => Promise<boolean>;
+
+  /**
+   * Opens a downloaded file with its default application
+   * @param id The ID of the download
+   */
+  openDownload: (id: string) => Promise<boolean>;
+
+  /**
+   * Shows a downloaded file in the file manager
+   * @param id The ID of the download
+   */
+  showInFolder: (id: string) => Promise<boolean>;
+
+  /**
+   * Removes a download from the history, without deleting the file
+   * @param id The ID of the download
+   */
+  removeDownload: (id: string) => Promise<boolean>;
+
+  /**
+   * Removes every finished download of the current profile from the history
+   */
+  clear: () => Promise<boolean>;
+
+  /**
+   * Listens for changes to the downloads, including their progress
+   */
+  onDownloadsChanged: IPCListener<[void]>;
+}
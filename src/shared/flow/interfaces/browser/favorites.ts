@@ -0,0 +1,23 @@
+import { IPCListener } from "~/flow/types";
+import { FavoriteData } from "~/types/favorites";
+
+// API //
+export interface FlowFavoritesAPI {
+  /**
+   * Gets the favorites of a profile, which are shared by all of its spaces
+   * @param profileId The id of the profile
+   */
+  getFavorites: (profileId: string) => Promise<FavoriteData[]>;
+
+  /**
+   * Removes a website from the favorites of a profile
+   * @param profileId The id of the profile
+   * @param favoriteId The id of the favorite
+   */
+  removeFavorite: (profileId: string, favoriteId: string) => Promise<boolean>;
+
+  /**
+   * Listens for changes to the favorites of any profile
+   */
+  onFavoritesChanged: IPCListener<[void]>;
+}
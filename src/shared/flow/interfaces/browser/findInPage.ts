@@ -0,0 +1,42 @@
+import { IPCListener } from "~/flow/types";
+
+export type FindInPageOptions = {
+  // Whether to search forward or backward, defaults to true
+  forward?: boolean;
+  // Whether to start a new search instead of moving to the next match, defaults to true
+  findNext?: boolean;
+  // Whether the search is case-sensitive, defaults to false
+  matchCase?: boolean;
+};
+
+export type FindInPageResult = {
+  tabId: number;
+  // Position of the active match, starting at 1
+  activeMatchOrdinal: number;
+  matches: number;
+  finalUpdate: boolean;
+};
+
+// API //
+export interface FlowFindInPageAPI {
+  /**
+   * Finds text in a tab, highlighting every match
+   * Searching for an empty string clears the matches.
+   * This can only be called from the Browser UI
+   * @param tabId The id of the tab to search in
+   * @param text The text to find
+   */
+  find: (tabId: number, text: string, options?: FindInPageOptions) => void;
+
+  /**
+   * Stops finding in a tab, keeping the active match selected, and focuses the tab
+   * This can only be called from the Browser UI
+   * @param tabId The id of the tab
+   */
+  stopFinding: (tabId: number) => void;
+
+  /**
+   * Listens for the results of finding in a tab
+   */
+  onResult: IPCListener<[FindInPageResult]>;
+}
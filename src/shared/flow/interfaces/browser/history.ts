@@ -0,0 +1,39 @@
+import { HistoryEntry, HistoryQuery, HistoryVisit } from "~/types/history";
+
+// API //
+export interface FlowHistoryAPI {
+  /**
+   * Gets the most recently visited URLs of the current profile
+   * @returns The history entries, most recent first
+   */
+  getHistory: () => Promise<HistoryEntry[]>;
+
+  /**
+   * Queries the visits of the current profile
+   * @param query The filters to apply
+   * @returns The matching visits, most recent first
+   */
+  queryVisits: (query?: HistoryQuery) => Promise<HistoryVisit[]>;
+
+  /**
+   * Deletes visits from the history
+   * @param visitIds The IDs of the visits to delete
+   * @returns The number of deleted visits
+   */
+  deleteVisits: (visitIds: number[]) => Promise<number>;
+
+  /**
+   * Deletes all visits to a site from the history
+   * @param hostname The hostname of the site
+   * @returns The number of deleted URLs
+   */
+  deleteHostname: (hostname: string) => Promise<number>;
+
+  /**
+   * Clears the visits within a time range from the history
+   * @param startTime The start of the range (ms), or undefined for the beginning of time
+   * @param endTime The end of the range (ms), or undefined for now
+   * @returns The number of deleted visits
+   */
+  clear: (startTime?: number, endTime?: number) => Promise<number>;
+}
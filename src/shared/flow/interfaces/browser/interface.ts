@@ -1,4 +1,4 @@
-import { IPCListener, PageBounds, WindowState } from "~/flow/types";
+import { IPCListener, PageBounds, SidebarState, WindowState } from "~/flow/types";
 
 // API //
 export interface FlowInterfaceAPI {
@@ -21,6 +21,19 @@ export interface FlowInterfaceAPI {
    */
   onToggleSidebar: IPCListener<[void]>;
 
+  /**
+   * Gets the sidebar state of the window, as it was saved with the previous session
+   * This can only be called from the Browser UI
+   * @returns The sidebar state, or null if the window has none yet
+   */
+  getSidebarState: () => Promise<SidebarState | null>;
+
+  /**
+   * Keeps the sidebar state of the window, so it is saved with the session
+   * This can only be called from the Browser UI
+   */
+  setSidebarState: (state: SidebarState) => void;
+
   /**
    * Sets the bounds of a component window
    */
@@ -36,6 +49,11 @@ export interface FlowInterfaceAPI {
    */
   setComponentWindowVisible: (componentId: string, visible: boolean) => void;
 
+  /**
+   * Focuses a component window, so its inputs can be typed in
+   */
+  focusComponentWindow: (componentId: string) => void;
+
   /**
    * Moves popup window by a specific amount
    */
@@ -0,0 +1,65 @@
+import { IPCListener } from "~/flow/types";
+
+export type TabPageContent = {
+  url: string;
+  title: string;
+  // The readable text of the page, cut short on long pages
+  text: string;
+  truncated: boolean;
+};
+
+export type PageAssistantMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type PageAssistantChunk = {
+  requestId: string;
+  // The text that was generated since the last chunk
+  text: string;
+  done: boolean;
+  error?: string;
+};
+
+// API //
+export interface FlowPageAssistantAPI {
+  /**
+   * Gets the readable text of a tab, as it is currently shown
+   * This can only be called from the Browser UI
+   * @param tabId The id of the tab
+   * @returns The content of the page, or null if it could not be read
+   */
+  getPageContent: (tabId: number) => Promise<TabPageContent | null>;
+
+  /**
+   * Summarizes a tab with the configured AI provider
+   * The summary is streamed to `onChunk` listeners.
+   * This can only be called from the Browser UI
+   * @param tabId The id of the tab
+   * @param requestId An id that the chunks of the summary will carry
+   */
+  summarize: (tabId: number, requestId: string) => void;
+
+  /**
+   * Asks a question about a tab with the configured AI provider
+   * The answer is streamed to `onChunk` listeners.
+   * This can only be called from the Browser UI
+   * @param tabId The id of the tab
+   * @param requestId An id that the chunks of the answer will carry
+   * @param question The question to ask
+   * @param history The earlier messages of the conversation, for follow-up questions
+   */
+  ask: (tabId: number, requestId: string, question: string, history: PageAssistantMessage[]) => void;
+
+  /**
+   * Stops generating a summary or an answer
+   * This can only be called from the Browser UI
+   * @param requestId The id of the request to stop
+   */
+  cancel: (requestId: string) => void;
+
+  /**
+   * Listens for chunks of summaries and answers
+   */
+  onChunk: IPCListener<[PageAssistantChunk]>;
+}
@@ -0,0 +1,44 @@
+import { IPCListener } from "~/flow/types";
+import { SnoozedItem, SnoozeType } from "~/types/snooze";
+
+// API //
+export interface FlowSnoozeAPI {
+  /**
+   * Snoozes a tab and closes it until it wakes up
+   * @param tabId The ID of the tab
+   * @param snoozeType When the tab should wake up
+   * @param customTime The time to wake up at for custom snoozes (ms)
+   */
+  snoozeTab: (tabId: number, snoozeType: SnoozeType, customTime?: number) => Promise<SnoozedItem | null>;
+
+  /**
+   * Snoozes a bookmark, which is opened in its space when it wakes up
+   * @param bookmarkId The ID of the bookmark
+   * @param snoozeType When the bookmark should wake up
+   * @param customTime The time to wake up at for custom snoozes (ms)
+   */
+  snoozeBookmark: (bookmarkId: string, snoozeType: SnoozeType, customTime?: number) => Promise<SnoozedItem | null>;
+
+  /**
+   * Gets the snoozed items of the current profile that have not woken up yet
+   * @returns The snoozed items, soonest first
+   */
+  getSnoozedItems: () => Promise<SnoozedItem[]>;
+
+  /**
+   * Wakes up a snoozed item now
+   * @param id The ID of the snoozed item
+   */
+  wakeItem: (id: string) => Promise<boolean>;
+
+  /**
+   * Cancels a snooze without waking the item up
+   * @param id The ID of the snoozed item
+   */
+  cancelSnooze: (id: string) => Promise<boolean>;
+
+  /**
+   * Listens for changes to the snoozed items
+   */
+  onSnoozedItemsChanged: IPCListener<[void]>;
+}
@@ -1,5 +1,5 @@
 import { IPCListener } from "~/flow/types";
-import { WindowTabsData } from "~/types/tabs";
+import { RecentlyClosedEntry, SplitSide, WindowTabsData } from "~/types/tabs";
 
 // API //
 export interface FlowTabsAPI {
@@ -35,6 +35,24 @@ export interface FlowTabsAPI {
    */
   closeTab: (tabId: number) => Promise<boolean>;
 
+  /**
+   * Close all tabs of a tab group
+   * @param tabGroupId The id of the tab group to close
+   */
+  closeTabGroup: (tabGroupId: number) => Promise<boolean>;
+
+  /**
+   * Get the recently closed tabs of the window
+   * @returns The recently closed tabs and tab groups, most recently closed first
+   */
+  getRecentlyClosed: () => Promise<RecentlyClosedEntry[]>;
+
+  /**
+   * Reopen recently closed tabs in the window
+   * @param entryId The id of the entry to reopen, or the most recently closed one if not provided
+   */
+  reopenClosedTab: (entryId?: string) => Promise<boolean>;
+
   /**
    * Show the context menu for a tab
    * @param tabId The id of the tab to show the context menu for
@@ -68,4 +86,43 @@ export interface FlowTabsAPI {
    * @param newPosition The new position of the tab
    */
   moveTabToWindowSpace: (tabId: number, spaceId: string, newPosition?: number) => Promise<boolean>;
+
+  /**
+   * Split the page with a tab, next to the active tab or split view of the current space
+   * @param tabId The id of the tab to split the page with
+   * @param side The side of the page to put the tab on
+   */
+  splitTab: (tabId: number, side: SplitSide) => Promise<boolean>;
+
+  /**
+   * Take a tab out of its split view
+   * @param tabId The id of the tab to take out
+   */
+  unsplitTab: (tabId: number) => Promise<boolean>;
+
+  /**
+   * Resize the tabs of a split view
+   * @param tabGroupId The id of the split tab group
+   * @param sizes The share of the page each tab takes, in the order of its tabs
+   * @param persist Whether to save the sizes, which is false while a divider is still being dragged
+   */
+  setSplitSizes: (tabGroupId: number, sizes: number[], persist?: boolean) => Promise<boolean>;
+
+  /**
+   * Close the tab shown in a glance, going back to the page it was opened from
+   * @param tabGroupId The id of the glance tab group
+   */
+  closeGlance: (tabGroupId: number) => Promise<boolean>;
+
+  /**
+   * Turn the tab shown in a glance into a normal tab
+   * @param tabGroupId The id of the glance tab group
+   */
+  expandGlance: (tabGroupId: number) => Promise<boolean>;
+
+  /**
+   * Show the tab shown in a glance next to the page it was opened from, in a split view
+   * @param tabGroupId The id of the glance tab group
+   */
+  splitGlance: (tabGroupId: number) => Promise<boolean>;
 }
@@ -0,0 +1,32 @@
+import { IPCListener } from "~/flow/types";
+import { CustomSearchEngineData, SearchEngine } from "~/types/search-engines";
+
+// API //
+export interface FlowSearchEnginesAPI {
+  /**
+   * Gets the built-in search engines, followed by the ones added by the user
+   */
+  getSearchEngines: () => Promise<SearchEngine[]>;
+
+  /**
+   * Gets the search engine used for searches without a keyword
+   */
+  getDefaultSearchEngine: () => Promise<SearchEngine>;
+
+  /**
+   * Adds a search engine
+   * The search URL has to contain `%s`, which is replaced with the query.
+   * @returns The search engine, or null if its keyword is already used or its URL is not valid
+   */
+  addSearchEngine: (data: CustomSearchEngineData) => Promise<SearchEngine | null>;
+
+  /**
+   * Removes a search engine added by the user
+   */
+  removeSearchEngine: (id: string) => Promise<boolean>;
+
+  /**
+   * Listens for changes to the search engines, including the default one
+   */
+  onSearchEnginesChanged: IPCListener<[void]>;
+}
@@ -0,0 +1,43 @@
+import { IPCListener } from "~/flow/types";
+import { SitePermission, SitePermissions, SitePermissionsEntry, SitePermissionState } from "~/types/permissions";
+
+export interface SitePermissionsInfo {
+  origin: string;
+  permissions: SitePermissions;
+}
+
+// API //
+export interface FlowSitePermissionsAPI {
+  /**
+   * Gets the permissions of a website in the current profile
+   * @param url The URL of a page on the website
+   * @returns The permissions, or null for pages that cannot be granted permissions
+   */
+  getSitePermissions: (url: string) => Promise<SitePermissionsInfo | null>;
+
+  /**
+   * Sets a permission of a website in the current profile
+   * Setting it to `ask` forgets the decision.
+   */
+  setSitePermission: (url: string, permission: SitePermission, state: SitePermissionState) => Promise<boolean>;
+
+  /**
+   * Gets the permissions of every website, in every profile
+   */
+  getAllSitePermissions: () => Promise<SitePermissionsEntry[]>;
+
+  /**
+   * Forgets a permission decision of a website
+   */
+  revokeSitePermission: (profileId: string, origin: string, permission: SitePermission) => Promise<boolean>;
+
+  /**
+   * Forgets every permission decision of a website
+   */
+  resetSitePermissions: (profileId: string, origin: string) => Promise<boolean>;
+
+  /**
+   * Listens for changes to the permissions of any website
+   */
+  onSitePermissionsChanged: IPCListener<[void]>;
+}
@@ -8,6 +8,12 @@ export type PageBounds = {
 export type WindowState = {
   isMaximized: boolean;
   isFullscreen: boolean;
+  isPrivate: boolean;
+};
+
+export type SidebarState = {
+  open: boolean;
+  width: string;
 };
 
 export type IPCListener<T extends unknown[]> = (callback: (...data: T) => void) => () => void;
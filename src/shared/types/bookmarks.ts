@@ -31,7 +31,7 @@ export interface BookmarkCollection {
   spaceId?: string;
   parentId?: string;
   isAuto: boolean;
-  rules?: any;
+  rules?: CollectionRuleGroup | null;
   dateCreated: Date;
   dateModified?: Date;
   deletedAt?: Date;
@@ -40,6 +40,25 @@ export interface BookmarkCollection {
   depth?: number;
 }
 
+// Smart collection rules
+// Auto collections store a rule tree instead of collection items, and their
+// bookmarks are matched against it whenever the collection is read.
+
+export type CollectionRuleCondition =
+  | { type: 'label'; operator: 'contains' | 'equals'; value: string }
+  | { type: 'host'; operator: 'matches' | 'contains'; value: string } // 'matches' includes subdomains
+  | { type: 'dateAdded'; after?: number; before?: number; withinDays?: number } // Timestamps in ms
+  | { type: 'visitCount'; operator: 'atLeast' | 'atMost'; value: number }
+  | { type: 'space'; spaceId: string };
+
+export interface CollectionRuleGroup {
+  type: 'group';
+  operator: 'and' | 'or';
+  rules: CollectionRule[];
+}
+
+export type CollectionRule = CollectionRuleCondition | CollectionRuleGroup;
+
 export interface CreateBookmarkInput {
   url: string;
   title: string;
@@ -60,9 +79,21 @@ export interface UpdateBookmarkInput {
   addLabels?: BookmarkLabel[]; // Add new labels without replacing existing ones
 }
 
+export interface CreateCollectionInput {
+  name: string;
+  description?: string;
+  profileId: string;
+  spaceId?: string;
+  parentId?: string;
+  isAuto?: boolean;
+  rules?: CollectionRuleGroup;
+}
+
 export interface UpdateCollectionInput {
   name?: string;
   description?: string;
+  isAuto?: boolean;
+  rules?: CollectionRuleGroup | null;
 }
 
 export interface BookmarkFilter {
@@ -76,15 +107,83 @@ export interface BookmarkFilter {
   onlyDeleted?: boolean;
 }
 
+// A piece of text from a search result, marking the parts that matched the search
+export interface SearchHighlight {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface BookmarkSearchResult {
+  bookmark: Bookmark;
+  rank: number; // bm25 score, lower is more relevant
+  title: SearchHighlight[];
+  snippet: SearchHighlight[]; // From the best matching field, including indexed page content
+}
+
+export interface BookmarkSemanticResult {
+  bookmark: Bookmark;
+  score: number; // Cosine similarity of the embeddings, higher is more relevant
+}
+
 export interface BookmarkViewMode {
   type: 'card' | 'list' | 'grid';
   sortBy: 'dateAdded' | 'title' | 'visitCount' | 'lastVisited';
   sortOrder: 'asc' | 'desc';
 }
 
+export type BookmarkExportFormat = 'html' | 'json' | 'csv';
+
+// The lossless JSON export format, with dates as ISO 8601 strings
+export interface BookmarkExportFile {
+  format: 'flow-bookmarks';
+  version: 1;
+  exportedAt: string;
+  bookmarks: ExportedBookmark[];
+  collections: ExportedCollection[];
+}
+
+export interface ExportedBookmark
+  extends Omit<Bookmark, 'dateAdded' | 'dateModified' | 'deletedAt' | 'lastVisited' | 'labels' | 'collections'> {
+  dateAdded: string | null;
+  dateModified: string | null;
+  deletedAt: string | null;
+  lastVisited: string | null;
+  labels: BookmarkLabel[];
+  collections: string[]; // Collection IDs
+}
+
+export interface ExportedCollection
+  extends Omit<BookmarkCollection, 'dateCreated' | 'dateModified' | 'deletedAt' | 'bookmarkCount' | 'children' | 'depth'> {
+  dateCreated: string | null;
+  dateModified: string | null;
+}
+
+export type BookmarkImportFormat = 'html' | 'chromium' | 'firefox' | 'flow';
+
+// A browser profile found on this computer that bookmarks can be imported from
+export interface BookmarkImportSource {
+  id: string;
+  browser: string;
+  profileName: string;
+  format: 'chromium' | 'firefox';
+}
+
+export type BookmarkImportRequest =
+  | { format: 'html' | 'chromium' | 'flow'; content: string }
+  | { format: 'firefox'; data: Uint8Array } // The places.sqlite file
+  | { format: 'detected'; sourceId: string };
+
+export interface ImportFailure {
+  title?: string;
+  url?: string;
+  error: string;
+}
+
 export interface ImportStats {
   total: number;
   imported: number;
   skipped: number;
   errors: number;
+  collections?: number; // Folders created for the imported folder tree
+  failures?: ImportFailure[];
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * The state of a download.
+ * Downloads that were still running when Flow quit are `interrupted`.
+ */
+export type DownloadState = "progressing" | "paused" | "completed" | "cancelled" | "interrupted";
+
+export type DownloadData = {
+  id: string;
+  profileId: string;
+  url: string;
+  filename: string;
+  // Empty until the user has picked where to save the file
+  savePath: string;
+  mimeType: string;
+  // 0 if the server did not send a size
+  totalBytes: number;
+  receivedBytes: number;
+  state: DownloadState;
+  canResume: boolean;
+  startedAt: number; // Timestamp (ms)
+  endedAt: number | null; // Timestamp (ms)
+};
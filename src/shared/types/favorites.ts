@@ -0,0 +1,9 @@
+export type FavoriteData = {
+  id: string;
+  profileId: string;
+  title: string;
+  url: string;
+  faviconURL: string | null;
+  // Favorites are shown from the lowest to the highest position
+  position: number;
+};
@@ -0,0 +1,47 @@
+/**
+ * How a visit was started.
+ * - `link`: the user followed a link (or the page navigated itself)
+ * - `typed`: the user entered the URL in the omnibox
+ * - `reload`: the page was reloaded
+ * - `back_forward`: the user moved through the tab's navigation history
+ */
+export type HistoryTransition = "link" | "typed" | "reload" | "back_forward";
+
+/**
+ * A URL in the browsing history, aggregated over all of its visits.
+ */
+export type HistoryEntry = {
+  id: number;
+  profileId: string;
+  url: string;
+  title: string;
+  visitCount: number;
+  typedCount: number; // How often typed directly
+  lastVisitTime: number; // Timestamp (ms)
+};
+
+/**
+ * A single visit to a URL.
+ */
+export type HistoryVisit = {
+  id: number;
+  urlId: number;
+  profileId: string;
+  spaceId: string;
+  url: string;
+  title: string;
+  visitTime: number; // Timestamp (ms)
+  transition: HistoryTransition;
+};
+
+/**
+ * Filters for querying the visits in the history.
+ */
+export type HistoryQuery = {
+  text?: string; // Matched against the title and URL
+  spaceId?: string;
+  startTime?: number; // Timestamp (ms), inclusive
+  endTime?: number; // Timestamp (ms), exclusive
+  limit?: number;
+  offset?: number;
+};
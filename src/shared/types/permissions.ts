@@ -0,0 +1,33 @@
+/**
+ * Permissions that websites have to ask for.
+ * Camera and microphone are separate, even though Chromium requests both as `media`.
+ */
+export type SitePermission =
+  | "camera"
+  | "microphone"
+  | "geolocation"
+  | "notifications"
+  | "clipboard-read"
+  | "midi-sysex"
+  | "idle-detection"
+  | "window-management";
+
+/**
+ * What happens when a website asks for a permission.
+ * - `ask`: prompt every time (the default)
+ * - `allow`: always grant it
+ * - `block`: always deny it
+ */
+export type SitePermissionState = "ask" | "allow" | "block";
+
+/**
+ * The permissions a profile has decided on for a website.
+ * Permissions that are not listed are `ask`.
+ */
+export type SitePermissions = Partial<Record<SitePermission, Exclude<SitePermissionState, "ask">>>;
+
+export type SitePermissionsEntry = {
+  profileId: string;
+  origin: string;
+  permissions: SitePermissions;
+};
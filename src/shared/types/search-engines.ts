@@ -0,0 +1,19 @@
+/**
+ * A search engine, which searches by replacing `%s` in its URL templates with the query.
+ */
+export type SearchEngine = {
+  id: string;
+  name: string;
+  /**
+   * Typing the keyword in the omnibox and pressing Tab (e.g. `gh`) searches with this engine
+   */
+  keyword: string;
+  searchUrl: string;
+  /**
+   * URL template for search suggestions, which must return the OpenSearch suggestions format
+   */
+  suggestUrl?: string;
+  builtIn: boolean;
+};
+
+export type CustomSearchEngineData = Pick<SearchEngine, "name" | "keyword" | "searchUrl">;
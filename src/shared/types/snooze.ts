@@ -0,0 +1,33 @@
+export type SnoozeItemType = 'tab' | 'bookmark';
+
+export type SnoozeType = 'later_today' | 'tomorrow' | 'next_week' | 'custom';
+
+export interface SnoozedItem {
+  id: string;
+  itemType: SnoozeItemType;
+  itemId: string; // bookmarkId or tab uniqueId
+  profileId: string;
+  spaceId: string; // Space where the item wakes up
+  snoozeUntil: number; // Timestamp (ms)
+  snoozeType: SnoozeType;
+  snoozeLabel: string;
+  snoozedAt: number; // Timestamp (ms)
+  snoozedFromSpaceId?: string;
+  title: string;
+  url: string;
+  favicon?: string;
+  originalData: unknown; // Tab data or bookmark data used to wake the item up
+  notificationSent: boolean;
+}
+
+export interface CreateSnoozedItemInput {
+  itemType: SnoozeItemType;
+  itemId: string;
+  profileId: string;
+  spaceId: string;
+  snoozeUntil: number;
+  snoozeType: SnoozeType;
+  snoozeLabel: string;
+  snoozedFromSpaceId?: string;
+  originalData: unknown;
+}
@@ -1,5 +1,17 @@
 export type TabGroupMode = "normal" | "glance" | "split";
 
+/**
+ * How the tabs of a split tab group are laid out.
+ * - `horizontal`: side by side
+ * - `vertical`: on top of each other
+ */
+export type SplitOrientation = "horizontal" | "vertical";
+
+/**
+ * The side of a page that a tab is dropped on to split the page with it.
+ */
+export type SplitSide = "left" | "right" | "top" | "bottom";
+
 export type NavigationEntry = {
   title: string;
   url: string;
@@ -26,10 +38,30 @@ export type TabData = {
   faviconURL: string | null;
   asleep: boolean;
 
+  pinned: boolean;
+  // The URL a pinned tab can be reset to
+  pinnedUrl: string | null;
+
   navHistory: NavigationEntry[];
   navHistoryIndex: number;
 };
 
+export type ArchivedTabData = Pick<
+  TabData,
+  | "uniqueId"
+  | "createdAt"
+  | "lastActiveAt"
+  | "profileId"
+  | "spaceId"
+  | "title"
+  | "url"
+  | "faviconURL"
+  | "navHistory"
+  | "navHistoryIndex"
+> & {
+  archivedAt: number;
+};
+
 export type TabGroupData = {
   id: number;
   mode: TabGroupMode;
@@ -37,6 +69,9 @@ export type TabGroupData = {
   spaceId: string;
   tabIds: number[];
   glanceFrontTabId?: number;
+  splitOrientation?: SplitOrientation;
+  // The share of the page each tab takes, in the order of `tabIds`
+  splitSizes?: number[];
   position: number;
 };
 
@@ -54,3 +89,31 @@ export type WindowTabsData = {
   focusedTabIds: WindowFocusedTabIds;
   activeTabIds: WindowActiveTabIds;
 };
+
+export type ClosedTabData = Pick<
+  TabData,
+  | "uniqueId"
+  | "profileId"
+  | "spaceId"
+  | "title"
+  | "url"
+  | "faviconURL"
+  | "position"
+  | "pinned"
+  | "pinnedUrl"
+  | "navHistory"
+  | "navHistoryIndex"
+>;
+
+export type RecentlyClosedEntry = {
+  id: string;
+  closedAt: number;
+  tabs: ClosedTabData[];
+  // Only set when a whole tab group was closed
+  tabGroup?: {
+    mode: TabGroupMode;
+    glanceFrontTabUniqueId?: string;
+    splitOrientation?: SplitOrientation;
+    splitSizes?: number[];
+  };
+};
@@ -0,0 +1,15 @@
+import { resolve } from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": resolve("src/main"),
+      "~": resolve("src/shared")
+    }
+  },
+  test: {
+    include: ["src/main/**/*.test.ts", "src/shared/**/*.test.ts"],
+    environment: "node"
+  }
+});